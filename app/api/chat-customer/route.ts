@@ -0,0 +1,51 @@
+/**
+ * Chat With Customer API Route
+ *
+ * Has the customer at the counter answer the barista in character. The reply
+ * and how the barista came across go back for the chat action; if the chat
+ * changed the order, the items from parse_order go back too, and the client
+ * applies them with the revise_order action (which checks them again).
+ */
+
+import { NextResponse } from "next/server";
+import { chatWithCustomer } from "@/lib/llm";
+import type { Customer, ConversationLine } from "@/lib/types";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { customer, lines, said } = body;
+
+    if (!customer || typeof customer.name !== "string" || typeof customer.drinkType !== "string") {
+      return NextResponse.json(
+        { error: "customer with name and drinkType is required" },
+        { status: 400 }
+      );
+    }
+    if (typeof said !== "string" || !said.trim()) {
+      return NextResponse.json(
+        { error: "said is required" },
+        { status: 400 }
+      );
+    }
+
+    const chat = await chatWithCustomer(
+      customer as Customer,
+      Array.isArray(lines)
+        ? (lines as ConversationLine[]).filter(line => typeof line?.text === "string")
+        : [],
+      said
+    );
+
+    return NextResponse.json({ chat });
+  } catch (error) {
+    console.error("Error chatting with customer:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to chat with customer",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Game Master API Route
+ *
+ * Shows the game master a read-only snapshot of the café and returns its
+ * decision: a whitelisted event to set off through spawn_event, or none.
+ * The client dispatches the event, so the rules engine has the final say.
+ */
+
+import { NextResponse } from "next/server";
+import { consultGameMaster } from "@/lib/llm";
+import type { GameSnapshot } from "@/lib/game-master";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { snapshot } = body;
+
+    if (!snapshot || typeof snapshot.day !== "number" || !Array.isArray(snapshot.recentEvents)) {
+      return NextResponse.json(
+        { error: "snapshot is required" },
+        { status: 400 }
+      );
+    }
+
+    const decision = await consultGameMaster(snapshot as GameSnapshot);
+
+    return NextResponse.json({ decision });
+  } catch (error) {
+    console.error("Error in game-master API:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to consult the game master",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,15 @@
 import { generateCustomer } from "@/lib/llm";
 import { NextResponse } from "next/server";
-import type { DrinkType } from "@/lib/types";
+import type { DrinkType, Menu } from "@/lib/types";
+import type { CustomerRecollection } from "@/lib/customer-memory";
 import { VALID_DRINKS } from "@/lib/types";
 import { auditedLLMCall } from "@/lib/audit-log";
+import { getLLMProvider } from "@/lib/llm-provider";
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { drinkType } = body;
+    const { drinkType, reputation, menu, recollections } = body;
 
     // Validate drink type
     if (drinkType && !VALID_DRINKS.includes(drinkType)) {
@@ -20,9 +22,18 @@ export async function POST(request: Request) {
     // Generate customer using LLM with audit logging
     const customer = await auditedLLMCall({
       source: "generate_customer",
-      model: "anthropic/claude-3.5-sonnet",
+      model: getLLMProvider().model,
       prompt: `Generate customer for drink: ${drinkType || "random"}`,
-      fn: () => generateCustomer(drinkType),
+      fn: () => generateCustomer(
+        drinkType,
+        undefined,
+        typeof reputation === "number" ? reputation : undefined,
+        menu && typeof menu === "object" ? (menu as Menu) : undefined,
+        // What the café's past customers remember, for the recall tool
+        Array.isArray(recollections)
+          ? (recollections as CustomerRecollection[]).filter(recollection => typeof recollection?.name === "string")
+          : undefined
+      ),
     });
 
     return NextResponse.json({ customer });
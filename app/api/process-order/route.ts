@@ -2,14 +2,14 @@
  * Process Order API Route
  *
  * Uses LLM function calling to:
- * 1. Parse natural language orders into structured data
- * 2. Create order tickets
+ * 1. Parse natural language orders into structured line items
+ * 2. Create multi-item order tickets
  * 3. Check allergen safety
  * 4. Manage the order workflow
  */
 
 import { NextResponse } from "next/server";
-import { getOpenRouterClient, getModel } from "@/lib/llm";
+import { getLLMProvider, getToolCallArgs } from "@/lib/llm-provider";
 import {
   TOOLS,
   executeFunctionCall,
@@ -18,6 +18,7 @@ import {
   type AllergenCheckResult,
 } from "@/lib/function-calling";
 import type { Customer } from "@/lib/types";
+import { describeOrderItem } from "@/lib/pricing";
 import { auditedLLMCall, auditedToolCall } from "@/lib/audit-log";
 
 export async function POST(request: Request) {
@@ -25,8 +26,7 @@ export async function POST(request: Request) {
     const body = await request.json();
     const { action, customer, orderText, allergens } = body;
 
-    const client = getOpenRouterClient();
-    const model = getModel();
+    const provider = getLLMProvider();
 
     // ========================================================================
     // ACTION: Parse Order
@@ -41,10 +41,9 @@ export async function POST(request: Request) {
 
       const completion = await auditedLLMCall({
         source: "process_order",
-        model,
+        model: provider.model,
         prompt: `Parse order: "${orderText}"`,
-        fn: () => client.chat.completions.create({
-          model,
+        fn: () => provider.chat({
           messages: [
             {
               role: "system",
@@ -52,8 +51,10 @@ export async function POST(request: Request) {
 Your job is to parse customer orders into structured data.
 
 Listen carefully to what the customer says and extract:
-- The drink they want
-- Any milk preferences
+- Every drink and food item they want (including orders for friends), one line item each
+- Any milk preferences per drink
+- Drink modifiers: size, iced, extra shot, decaf, syrup flavor, whipped cream
+- Whether food should be warmed
 - Temperature preferences
 - Special requests
 - How rushed they seem
@@ -66,22 +67,20 @@ Use the parse_order function to structure the order.`,
             },
           ],
           tools: TOOLS,
-          tool_choice: { type: "function", function: { name: "parse_order" } },
-          max_tokens: 256,
+          toolChoice: "parse_order",
+          maxTokens: 256,
           temperature: 0.3, // Lower temperature for more consistent parsing
         }),
       });
 
-      const message = completion.choices[0]?.message;
-      if (!message?.tool_calls || message.tool_calls.length === 0) {
+      const functionArgs = getToolCallArgs(completion, "parse_order");
+      if (!functionArgs) {
         return NextResponse.json(
           { error: "LLM did not call parse_order function" },
           { status: 500 }
         );
       }
 
-      const toolCall = message.tool_calls[0];
-      const functionArgs = JSON.parse(toolCall.function.arguments);
       const parsedOrder = auditedToolCall({
         source: "process_order",
         toolName: "parse_order",
@@ -107,10 +106,9 @@ Use the parse_order function to structure the order.`,
 
       const completion = await auditedLLMCall({
         source: "process_order",
-        model,
+        model: provider.model,
         prompt: `Create ticket for: ${customerData.name} - ${customerData.drinkType}`,
-        fn: () => client.chat.completions.create({
-          model,
+        fn: () => provider.chat({
           messages: [
             {
               role: "system",
@@ -118,8 +116,9 @@ Use the parse_order function to structure the order.`,
 
 Create an order ticket for this customer. Extract key information:
 - Customer name
-- Drink type
-- Milk preference if applicable
+- Every line item on the order (drinks and food), with quantities
+- Milk preference per drink if applicable
+- Drink modifiers (size, iced, extra shot, decaf, syrup, whipped cream) on the matching item
 - Any special notes
 - Priority (high if customer seems rushed, otherwise normal)
 
@@ -129,7 +128,7 @@ Use the create_ticket function.`,
               role: "user",
               content: `Customer: ${customerData.name}
 Order: "${customerData.order}"
-Drink: ${customerData.drinkType}
+Items: ${customerData.items?.length ? customerData.items.map(describeOrderItem).join(", ") : customerData.drinkType}
 Mood: ${customerData.mood || "neutral"}
 ${customerData.allergens && customerData.allergens.length > 0 ? `Allergens: ${customerData.allergens.join(", ")}` : ""}
 
@@ -137,22 +136,20 @@ Create a ticket for this order.`,
             },
           ],
           tools: TOOLS,
-          tool_choice: { type: "function", function: { name: "create_ticket" } },
-          max_tokens: 256,
+          toolChoice: "create_ticket",
+          maxTokens: 256,
           temperature: 0.3,
         }),
       });
 
-      const message = completion.choices[0]?.message;
-      if (!message?.tool_calls || message.tool_calls.length === 0) {
+      const functionArgs = getToolCallArgs(completion, "create_ticket");
+      if (!functionArgs) {
         return NextResponse.json(
           { error: "LLM did not call create_ticket function" },
           { status: 500 }
         );
       }
 
-      const toolCall = message.tool_calls[0];
-      const functionArgs = JSON.parse(toolCall.function.arguments);
       const ticket = auditedToolCall({
         source: "process_order",
         toolName: "create_ticket",
@@ -179,10 +176,9 @@ Create a ticket for this order.`,
       // Use LLM to intelligently check allergens
       const completion = await auditedLLMCall({
         source: "process_order",
-        model,
+        model: provider.model,
         prompt: `Check allergens: ${drinkType} with ${milkType || "no milk"} for ${customerAllergens.join(", ")}`,
-        fn: () => client.chat.completions.create({
-          model,
+        fn: () => provider.chat({
           messages: [
             {
               role: "system",
@@ -202,22 +198,20 @@ Is this safe to serve?`,
             },
           ],
           tools: TOOLS,
-          tool_choice: { type: "function", function: { name: "check_allergens" } },
-          max_tokens: 256,
+          toolChoice: "check_allergens",
+          maxTokens: 256,
           temperature: 0.1, // Very low temperature for safety checks
         }),
       });
 
-      const message = completion.choices[0]?.message;
-      if (!message?.tool_calls || message.tool_calls.length === 0) {
+      const functionArgs = getToolCallArgs(completion, "check_allergens");
+      if (!functionArgs) {
         return NextResponse.json(
           { error: "LLM did not call check_allergens function" },
           { status: 500 }
         );
       }
 
-      const toolCall = message.tool_calls[0];
-      const functionArgs = JSON.parse(toolCall.function.arguments);
       const allergenCheck = auditedToolCall({
         source: "process_order",
         toolName: "check_allergens",
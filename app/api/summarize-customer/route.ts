@@ -0,0 +1,43 @@
+/**
+ * Summarize Customer API Route
+ *
+ * Has the LLM sum up a customer whose old visits were condensed overnight.
+ * It's given the customer's digest (running totals and notes), never the raw
+ * visits; the client posts the text back with the summarize_customer action,
+ * and the template summary stays if this fails.
+ */
+
+import { NextResponse } from "next/server";
+import { summarizeCustomerHistory } from "@/lib/llm";
+import type { CustomerDigest } from "@/lib/customer-memory";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { digest } = body;
+
+    if (!digest || typeof digest.name !== "string" || typeof digest.visitCount !== "number") {
+      return NextResponse.json(
+        { error: "digest with name and visitCount is required" },
+        { status: 400 }
+      );
+    }
+
+    const summary = await summarizeCustomerHistory({
+      ...(digest as CustomerDigest),
+      topDrinks: Array.isArray(digest.topDrinks) ? digest.topDrinks : [],
+      notes: Array.isArray(digest.notes) ? digest.notes : [],
+    });
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error("Error summarizing customer:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to summarize customer",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
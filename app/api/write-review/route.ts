@@ -0,0 +1,42 @@
+/**
+ * Write Review API Route
+ *
+ * Has the LLM write the words of a customer's review through post_review.
+ * The stars come with the review from the game's rating and aren't changed
+ * here; the client posts the text back to the review with the post_review action.
+ */
+
+import { NextResponse } from "next/server";
+import { writeCustomerReview } from "@/lib/llm";
+import type { CustomerReview } from "@/lib/types";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { review } = body;
+
+    if (!review || typeof review.customerName !== "string" || typeof review.stars !== "number") {
+      return NextResponse.json(
+        { error: "review with customerName and stars is required" },
+        { status: 400 }
+      );
+    }
+
+    const text = await writeCustomerReview({
+      ...(review as CustomerReview),
+      reasons: Array.isArray(review.reasons) ? review.reasons : [],
+      drinks: Array.isArray(review.drinks) ? review.drinks : [],
+    });
+
+    return NextResponse.json({ text });
+  } catch (error) {
+    console.error("Error writing review:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to write review",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -14,49 +14,108 @@ import { CustomerReaction } from "@/components/CustomerReaction";
 import { CompactInventory } from "@/components/CompactInventory";
 import { BrewingAnimation } from "@/components/BrewingAnimation";
 import { ShopModal } from "@/components/ShopModal";
+import { MenuModal } from "@/components/MenuModal";
+import { SupplierModal } from "@/components/SupplierModal";
+import { StaffModal } from "@/components/StaffModal";
 import { EventNotification } from "@/components/EventNotification";
-import { calculateTimeOfDay, getLightingForTime, formatTime, getTimeEmoji } from "@/lib/time-system";
+import { ReviewsFeed } from "@/components/ReviewsFeed";
+import { CustomerChat } from "@/components/CustomerChat";
+import {
+  calculateTimeOfDay,
+  getMinutesSinceOpen,
+  getLightingForTime,
+  formatTime,
+  getTimeEmoji,
+} from "@/lib/time-system";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   GameState,
   BrewParameters,
   GrindSize,
   DrinkType,
+  FoodType,
   MilkType,
   RECIPES,
-  brewDrink,
-  createInitialState,
-  createStaticCustomer,
   getRequiredParameters,
   getDefaultParameters,
   checkStock,
-  depleteStock,
+  checkFoodStock,
   getTotalBeans,
   getLowStockWarnings,
-  addTicket,
-  startTicket,
-  completeTicket,
   getPendingTickets,
+  getTicket,
+  getEstimatedWaitTime,
+  getActiveTicket,
+  getTicketItems,
+  getNextTicketItem,
   type OrderTicket,
   type AllergenCheckResult,
   isReturningCustomer,
-  recordVisit,
   getCustomer,
   getCustomerInsights,
+  getRecollections,
+  getPendingSummaries,
+  getCustomerDigest,
   getMemoryStats,
-  startService,
-  endService,
-  startNewDay,
-  recordCustomer,
-  restockInventory,
   getRestockCost,
   getDaySummary,
+  getDailyDepreciation,
   getPerformanceEmoji,
   getPerformanceDescription,
   purchaseEquipment,
   type EquipmentItem,
+  VALID_SIZES,
+  VALID_SYRUPS,
+  ICED_MILK_RANGE,
+  ICED_MILK_TEMP,
+  MILK_RANGE,
+  supportsModifier,
+  getStarRating,
+  formatStars,
+  getLastRating,
+  BEAN_CATALOG,
+  BEAN_BAG_GRAMS,
+  getBagVariety,
+  getBeanAgeDays,
+  describeFreshness,
+  createDefaultMenu,
+  type MenuItem,
+  SUPPLIERS,
+  getOffer,
+  getOrderCost,
+  type SupplySku,
+  getOnShift,
+  DRINK_CATEGORIES,
+  TRAINING_COURSES,
+  getProficiencyLevel,
+  getParameterHints,
+  type DrinkCategory,
+  syncStations,
+  getResourceWait,
+  getStationTimeLeft,
+  getPatienceLeft,
+  getDayOfWeek,
+  getStoryProgress,
+  isArcComplete,
+  getActiveModifiers,
+  getOutage,
+  describeModifier,
+  shouldConsultGameMaster,
+  createGameSnapshot,
+  getReviewsForDay,
+  getPendingReview,
+  getDayReviewSummary,
+  getConversation,
 } from "@/lib/game-engine";
-import { checkForEvent, applyEventEffects } from "@/lib/events";
+import {
+  createSession,
+  createSeed,
+  ensureSession,
+  dispatch,
+  getExpectedCustomers,
+  type GameAction,
+} from "@/lib/session";
+import { describeOrderItem, getItemMargin, type OrderSize } from "@/lib/pricing";
 import {
   saveGame,
   loadGame,
@@ -66,13 +125,14 @@ import {
 } from "@/lib/persistence";
 
 export default function Game() {
-  const [gameState, setGameState] = useState<GameState>(createInitialState());
+  const [gameState, setGameState] = useState<GameState>(() => createSession(createSeed()));
   const [showHelp, setShowHelp] = useState(false);
   const [isGeneratingCustomer, setIsGeneratingCustomer] = useState(false);
   const [allergenCheck, setAllergenCheck] = useState<AllergenCheckResult | null>(null);
   const [isCheckingAllergens, setIsCheckingAllergens] = useState(false);
   const [isBrewing, setIsBrewing] = useState(false);
   const [isServing, setIsServing] = useState(false);
+  const [isChatting, setIsChatting] = useState(false);
   const [showMemoryStats, setShowMemoryStats] = useState(false);
   const [lastSaveTime, setLastSaveTime] = useState<number | null>(null);
   const [apiError, setApiError] = useState<string | null>(null);
@@ -83,16 +143,161 @@ export default function Game() {
   const [showReaction, setShowReaction] = useState(false);
   const [showSaveMenu, setShowSaveMenu] = useState(false);
   const [showShop, setShowShop] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+  const [showSuppliers, setShowSuppliers] = useState(false);
+  const [showStaff, setShowStaff] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Load saved game on client mount only
   useEffect(() => {
     const saved = loadGame();
     if (saved) {
-      setGameState(saved);
+      setGameState(ensureSession(saved, createSeed()));
     }
   }, []);
 
+  // Staff on shift check the queue every few seconds, finishing tickets and taking whatever is waiting
+  const stationsBusy = !!gameState.stations?.stations.some((station) => station.readyAt !== undefined);
+  const staffHaveWork =
+    gameState.dayState?.phase === "service" &&
+    getOnShift(gameState.staff).length > 0 &&
+    !!gameState.queue &&
+    (getPendingTickets(gameState.queue).length > 0 || stationsBusy);
+  useEffect(() => {
+    if (!staffHaveWork) return;
+
+    const interval = setInterval(() => applyGameAction({ type: "staff_work" }), 5000);
+    return () => clearInterval(interval);
+  }, [staffHaveWork]);
+
+  // Customers waiting on an order walk out once their patience runs out
+  const customersWaiting =
+    gameState.dayState?.phase === "service" &&
+    (!!gameState.customer || Object.keys(gameState.waitingCustomers || {}).length > 0);
+  useEffect(() => {
+    if (!customersWaiting) return;
+
+    const interval = setInterval(() => applyGameAction({ type: "check_patience" }), 5000);
+    return () => clearInterval(interval);
+  }, [customersWaiting]);
+
+  // The day's clock, station timers and patience count down once a second during service
+  const inService = gameState.dayState?.phase === "service";
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!inService) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [inService]);
+
+  // Customers walk in on their own when they're due (see scheduleNextArrival)
+  const nextArrivalAt = inService ? gameState.nextArrivalAt : null;
+  useEffect(() => {
+    if (nextArrivalAt == null) return;
+
+    const timeout = setTimeout(() => applyGameAction({ type: "tick" }), Math.max(0, nextArrivalAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [nextArrivalAt]);
+
+  // Every few customers the game master looks in and may set off an event (the rules still decide if it happens)
+  const gameMasterLookRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!shouldConsultGameMaster(gameState)) return;
+
+    // Once per look, however often the state changes in between
+    const look = `${gameState.dayState?.dayNumber}:${gameState.dayState?.stats.customersServed}`;
+    if (gameMasterLookRef.current === look) return;
+    gameMasterLookRef.current = look;
+
+    fetch("/api/game-master", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ snapshot: createGameSnapshot(gameState, Date.now()) }),
+    })
+      .then((response) => response.json())
+      .then(({ decision }) => {
+        if (decision?.eventId) {
+          applyGameAction({ type: "spawn_event", eventId: decision.eventId, reason: decision.reason });
+        }
+      })
+      .catch((error) => console.error("Failed to consult the game master:", error));
+  }, [gameState]);
+
+  // Each visit's review gets its words from the LLM; the stars were set when the customer was served
+  const pendingReview = gameState.dayState ? getPendingReview(gameState.reviews, gameState.dayState.dayNumber) : null;
+  const requestedReviewsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!pendingReview || requestedReviewsRef.current.has(pendingReview.id)) return;
+    requestedReviewsRef.current.add(pendingReview.id);
+
+    fetch("/api/write-review", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ review: pendingReview }),
+    })
+      .then((response) => response.json())
+      .then(({ text }) => {
+        if (text) {
+          applyGameAction({ type: "post_review", reviewId: pendingReview.id, text });
+        }
+      })
+      .catch((error) => console.error("Failed to write review:", error));
+  }, [pendingReview]);
+
+  // Customers whose old visits were condensed overnight get their summary rewritten by the LLM
+  const requestedSummariesRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!gameState.customerMemory) return;
+
+    for (const profile of getPendingSummaries(gameState.customerMemory)) {
+      const key = `${profile.name}:${profile.summary!.visits}`;
+      if (requestedSummariesRef.current.has(key)) continue;
+      requestedSummariesRef.current.add(key);
+
+      fetch("/api/summarize-customer", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ digest: getCustomerDigest(profile) }),
+      })
+        .then((response) => response.json())
+        .then(({ summary }) => {
+          if (summary) {
+            applyGameAction({ type: "summarize_customer", customerName: profile.name, summary });
+          }
+        })
+        .catch((error) => console.error("Failed to summarize customer:", error));
+    }
+  }, [gameState.customerMemory]);
+
+  // React to each brew with the score the session recorded (beans, proficiency and conditions included)
+  const brewResult = gameState.result;
+  useEffect(() => {
+    if (!brewResult) return;
+
+    // Trigger customer reaction animation
+    setTimeout(() => {
+      setShowReaction(true);
+    }, 800); // Delay to let drink visual appear first
+
+    // Trigger particle effects based on quality
+    if (brewResult.quality >= 95) {
+      // Perfect brew - confetti!
+      setShowConfetti(true);
+      setTimeout(() => setShowConfetti(false), 3000);
+    } else if (brewResult.quality >= 85) {
+      // Excellent brew - stars!
+      setShowExcellenceParticles(true);
+      setTimeout(() => setShowExcellenceParticles(false), 2000);
+    }
+  }, [brewResult]);
+
   // Auto-save game state (debounced)
   useEffect(() => {
     // Clear existing timeout
@@ -130,7 +335,7 @@ export default function Game() {
   const handleReset = () => {
     if (confirm("Are you sure you want to reset your game? This cannot be undone.")) {
       deleteSave();
-      setGameState(createInitialState());
+      setGameState(createSession(createSeed()));
       setLastSaveTime(null);
       alert("Game reset successfully!");
     }
@@ -171,7 +376,7 @@ export default function Game() {
         if (success) {
           const loaded = loadGame();
           if (loaded) {
-            setGameState(loaded);
+            setGameState(ensureSession(loaded, createSeed()));
             setLastSaveTime(Date.now());
             alert("Save imported successfully!");
           }
@@ -184,35 +389,29 @@ export default function Game() {
     input.click();
   };
 
+  // All state-changing player actions go through the session so they can be replayed
+  const applyGameAction = (action: GameAction) => {
+    setGameState((prev) => {
+      try {
+        return dispatch(prev, action);
+      } catch (error) {
+        console.error(`Action "${action.type}" failed:`, error);
+        return prev;
+      }
+    });
+  };
+
   // Day phase handlers
   const handleStartDay = () => {
     if (!gameState.dayState) return;
 
-    // Check for start-of-day events
-    const event = checkForEvent(gameState, "start_day");
-
-    setGameState((prev) => {
-      let newState: GameState = {
-        ...prev,
-        dayState: prev.dayState ? startService(prev.dayState) : prev.dayState,
-      };
-
-      if (event) {
-        newState = applyEventEffects(newState, event);
-        newState.activeEvent = event;
-      }
-
-      return newState;
-    });
+    applyGameAction({ type: "start_day" });
   };
 
   const handleEndDay = () => {
     if (!gameState.dayState) return;
 
-    setGameState((prev) => ({
-      ...prev,
-      dayState: prev.dayState ? endService(prev.dayState) : prev.dayState,
-    }));
+    applyGameAction({ type: "end_day" });
   };
 
   const handleRestock = () => {
@@ -225,23 +424,13 @@ export default function Game() {
       return;
     }
 
-    setGameState((prev) => ({
-      ...prev,
-      money: prev.money - cost,
-      inventory: restockInventory(prev.inventory, prev.dayState?.dayNumber || 1),
-    }));
+    applyGameAction({ type: "restock" });
   };
 
   const handleNextDay = () => {
     if (!gameState.dayState) return;
 
-    setGameState((prev) => ({
-      ...prev,
-      dayState: prev.dayState ? startNewDay(prev.dayState) : prev.dayState,
-      customer: null,
-      result: null,
-      activeEvent: undefined, // Clear any active event
-    }));
+    applyGameAction({ type: "next_day" });
   };
 
   const handlePurchaseEquipment = (itemId: string) => {
@@ -249,16 +438,79 @@ export default function Game() {
 
     const result = purchaseEquipment(gameState.equipment, gameState.money, itemId);
 
-    if (result.success && result.newEquipment && result.newMoney !== undefined) {
-      setGameState((prev) => ({
-        ...prev,
-        equipment: result.newEquipment,
-        money: result.newMoney!,
-      }));
-      alert(result.message);
-    } else {
-      alert(result.message);
+    if (result.success) {
+      applyGameAction({ type: "purchase_equipment", itemId });
+    }
+    alert(result.message);
+  };
+
+  const handleBuyBeans = (beanId: string) => {
+    const variety = BEAN_CATALOG[beanId];
+    const cost = BEAN_BAG_GRAMS * variety.costPerGram;
+
+    if (gameState.money < cost) {
+      alert(`Not enough money! ${variety.name} costs $${cost.toFixed(2)}`);
+      return;
+    }
+
+    applyGameAction({ type: "buy_beans", beanId });
+  };
+
+  const handleUpdateMenu = (sku: DrinkType | FoodType, changes: Partial<MenuItem>) => {
+    applyGameAction({ type: "update_menu", sku, ...changes });
+  };
+
+  const handlePlaceOrder = (supplierId: string, sku: SupplySku, quantity: number) => {
+    const offer = getOffer(SUPPLIERS[supplierId], sku);
+    const cost = offer ? getOrderCost(offer, quantity) : 0;
+
+    if (gameState.money < cost) {
+      alert(`Not enough money! This order costs $${cost.toFixed(2)}`);
+      return;
     }
+
+    applyGameAction({ type: "place_order", supplierId, sku, quantity });
+  };
+
+  const handleHireStaff = (candidateId: string) => {
+    applyGameAction({ type: "hire_staff", candidateId });
+  };
+
+  const handleFireStaff = (staffId: string) => {
+    applyGameAction({ type: "fire_staff", staffId });
+  };
+
+  const handleSetShift = (staffId: string, onShift: boolean) => {
+    applyGameAction({ type: "set_shift", staffId, onShift });
+  };
+
+  const handleTakeTicket = (ticketId: string) => {
+    if (gameState.customer) {
+      alert("Finish with your current customer first");
+      return;
+    }
+    const stations = syncStations(gameState.stations, gameState.equipment);
+    if (stations.stations.every((station) => station.ticketId && getStationTimeLeft(station, Date.now()) > 0)) {
+      alert("Every station is busy");
+      return;
+    }
+
+    applyGameAction({ type: "take_ticket", ticketId });
+  };
+
+  const handleTrainBarista = (category: DrinkCategory) => {
+    const course = TRAINING_COURSES[category];
+
+    if (gameState.proficiency?.lastTrainedDay === gameState.dayState?.dayNumber) {
+      alert("You've already trained today");
+      return;
+    }
+    if (gameState.money < course.cost) {
+      alert(`Not enough money! ${course.name} costs $${course.cost.toFixed(2)}`);
+      return;
+    }
+
+    applyGameAction({ type: "train_barista", category });
   };
 
   const startNewOrder = async () => {
@@ -280,7 +532,11 @@ export default function Game() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({}), // No drink preference - let RNG decide
+        body: JSON.stringify({
+          reputation: gameState.reputation,
+          menu: gameState.menu,
+          recollections: gameState.customerMemory ? getRecollections(gameState.customerMemory) : undefined,
+        }), // No drink preference - let RNG decide
       });
 
       if (!response.ok) {
@@ -302,44 +558,22 @@ export default function Game() {
         }),
       });
 
-      let ticket: OrderTicket | null = null;
+      let ticket: OrderTicket | undefined;
       if (ticketResponse.ok) {
         const ticketData = await ticketResponse.json();
-        ticket = ticketData.ticket;
+        ticket = ticketData.ticket ?? undefined;
       }
 
-      setGameState((prev) => {
-        let newQueue = prev.queue;
-        if (ticket && newQueue) {
-          newQueue = addTicket(newQueue, ticket);
-          newQueue = startTicket(newQueue, ticket.id);
-        }
-
-        return {
-          ...prev,
-          customer,
-          brewParams: getDefaultParameters(customer.drinkType), // Reset params for what customer wants
-          result: null,
-          queue: newQueue,
-        };
-      });
+      // The session builds the ticket from the generated order if the LLM ticket call failed
+      applyGameAction({ type: "customer_arrives", customer, ticket });
     } catch (error) {
       console.error("Failed to generate customer:", error);
 
       // Set user-facing error message
       setApiError("Unable to reach our customer system. Using a backup customer instead.");
 
-      // Fallback to static customer if API fails - random drink
-      const randomDrink = ["espresso", "latte", "cappuccino", "pourover", "aeropress"][
-        Math.floor(Math.random() * 5)
-      ] as DrinkType;
-
-      setGameState((prev) => ({
-        ...prev,
-        customer: createStaticCustomer(randomDrink),
-        brewParams: getDefaultParameters(randomDrink),
-        result: null,
-      }));
+      // Fall back to a customer rolled from the session seed
+      applyGameAction({ type: "customer_arrives" });
 
       // Auto-clear error after 5 seconds
       setTimeout(() => setApiError(null), 5000);
@@ -348,6 +582,42 @@ export default function Game() {
     }
   };
 
+  // The customer answers through the LLM; a changed order only comes back as parse_order items
+  const handleChat = async (said: string) => {
+    if (!gameState.customer || isChatting) return;
+
+    setIsChatting(true);
+    try {
+      const response = await fetch("/api/chat-customer", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          customer: gameState.customer,
+          lines: getConversation(gameState.conversation, gameState.queue?.activeTicketId)?.lines ?? [],
+          said,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API returned ${response.status}`);
+      }
+
+      const { chat } = await response.json();
+      applyGameAction({ type: "chat", said, reply: chat.reply, impression: chat.impression });
+      if (chat.items) {
+        applyGameAction({ type: "revise_order", items: chat.items });
+      }
+    } catch (error) {
+      console.error("Failed to chat with customer:", error);
+      setApiError("The customer didn't catch that. Try again in a moment.");
+      setTimeout(() => setApiError(null), 5000);
+    } finally {
+      setIsChatting(false);
+    }
+  };
+
   const handleBrew = async () => {
     // Guard against race conditions (prevent double-clicks)
     if (!gameState.customer || isBrewing) return;
@@ -365,7 +635,7 @@ export default function Game() {
             },
             body: JSON.stringify({
               action: "check_allergens",
-              drinkType: gameState.customer.drinkType,
+              drinkType: currentDrinkType,
               milkType: gameState.brewParams.milkType,
               customerAllergens: gameState.customer.allergens,
             }),
@@ -393,10 +663,26 @@ export default function Game() {
         }
       }
 
+      // Staff tickets may have the espresso machine or steam wand tied up
+      const resourceWait = getResourceWait(
+        syncStations(gameState.stations, gameState.equipment),
+        currentDrinkType,
+        orderedModifiers?.temp === "iced",
+        gameState.equipment,
+        Date.now()
+      );
+      if (resourceWait) {
+        alert(getOutage(gameState, resourceWait.resource, Date.now())
+          ? `The ${resourceWait.resource} is out of action - try again in ${resourceWait.seconds}s`
+          : `The ${resourceWait.resource} is busy for another ${resourceWait.seconds}s`);
+        setIsBrewing(false);
+        return;
+      }
+
       // Check if we have enough stock
       const stockCheck = checkStock(
         gameState.inventory,
-        gameState.customer.drinkType,
+        currentDrinkType,
         gameState.brewParams
       );
 
@@ -412,46 +698,33 @@ export default function Game() {
 
       await new Promise(resolve => setTimeout(resolve, animationDuration));
 
-      // Brew the drink (with equipment bonuses)
-      const result = brewDrink(
-        gameState.customer.drinkType,
-        gameState.brewParams,
-        gameState.equipment
-      );
-
-      // Deplete stock
-      const newInventory = depleteStock(
-        gameState.inventory,
-        gameState.customer.drinkType,
-        gameState.brewParams
-      );
-
-      setGameState((prev) => ({
-        ...prev,
-        result,
-        inventory: newInventory,
-      }));
-
-      // Trigger customer reaction animation
-      setTimeout(() => {
-        setShowReaction(true);
-      }, 800); // Delay to let drink visual appear first
-
-      // Trigger particle effects based on quality
-      if (result.quality >= 95) {
-        // Perfect brew - confetti!
-        setShowConfetti(true);
-        setTimeout(() => setShowConfetti(false), 3000);
-      } else if (result.quality >= 85) {
-        // Excellent brew - stars!
-        setShowExcellenceParticles(true);
-        setTimeout(() => setShowExcellenceParticles(false), 2000);
-      }
+      // Brew the drink; the session scores it and the reaction follows its result
+      applyGameAction({ type: "brew", params: gameState.brewParams });
     } finally {
       setIsBrewing(false);
     }
   };
 
+  const handlePlateFood = () => {
+    if (!gameState.queue || !activeTicket || !currentLine || currentLine.item.type !== "food") return;
+
+    const food = currentLine.item.sku;
+    const stockCheck = checkFoodStock(gameState.inventory, food);
+    if (!stockCheck.available) {
+      alert(`Out of stock: ${stockCheck.missing.join(", ")}`);
+      return;
+    }
+
+    applyGameAction({ type: "plate_food" });
+  };
+
+  const handleNextItem = () => {
+    if (!gameState.result || !activeTicket || !currentLine) return;
+
+    setShowReaction(false);
+    applyGameAction({ type: "next_item" });
+  };
+
   const handleServe = () => {
     // Guard against race conditions (prevent double-clicks)
     if (!gameState.result || !gameState.customer || isServing) return;
@@ -466,74 +739,11 @@ export default function Game() {
     setShowMoneyFloat(true);
     setTimeout(() => setShowMoneyFloat(false), 2000);
 
-    setGameState((prev) => {
-      let newQueue = prev.queue;
-      let newMemory = prev.customerMemory;
-      let newDayState = prev.dayState;
-
-      // Complete the active ticket if there is one
-      if (newQueue && newQueue.activeTicketId) {
-        newQueue = completeTicket(newQueue, newQueue.activeTicketId, prev.customer!.payment);
-      }
-
-      // Check if customer is returning/regular
-      const isReturning = newMemory ? isReturningCustomer(newMemory, prev.customer!.name) : false;
-      const customerProfile = newMemory ? getCustomer(newMemory, prev.customer!.name) : null;
-      const isRegular = customerProfile
-        ? (customerProfile.relationshipLevel === "regular" || customerProfile.relationshipLevel === "favorite")
-        : false;
-
-      // Record visit in customer memory
-      if (newMemory && prev.customer && prev.result) {
-        newMemory = recordVisit(newMemory, prev.customer.name, {
-          drinkOrdered: prev.customer.drinkType,
-          milkType: prev.brewParams.milkType,
-          quality: prev.result.quality,
-          satisfaction: prev.result.quality, // Use quality as satisfaction for now
-          payment: prev.customer.payment,
-          allergens: prev.customer.allergens,
-        });
-      }
-
-      // Record customer in day stats
-      if (newDayState && prev.customer && prev.result) {
-        newDayState = recordCustomer(newDayState, {
-          earnings: prev.customer.payment,
-          quality: prev.result.quality,
-          isReturning,
-          isRegular,
-          drinkType: prev.customer.drinkType,
-        });
-      }
-
-      return {
-        ...prev,
-        money: prev.money + prev.customer!.payment,
-        drinksServed: prev.drinksServed + 1,
-        customer: null,
-        result: null,
-        queue: newQueue,
-        customerMemory: newMemory,
-        dayState: newDayState,
-      };
-    });
+    // Scores the ticket, pays, records the visit and may trigger a service event
+    applyGameAction({ type: "serve" });
 
     // Reset serving flag after state update
     setIsServing(false);
-
-    // Check for random service events after serving
-    // Small delay to let other animations finish
-    setTimeout(() => {
-      const event = checkForEvent(gameState, "random_service");
-      if (event) {
-        setGameState(prev => {
-          let newState = { ...prev };
-          newState = applyEventEffects(newState, event);
-          newState.activeEvent = event;
-          return newState;
-        });
-      }
-    }, 1500);
   };
 
   const updateBrewParam = <K extends keyof BrewParameters>(
@@ -559,20 +769,52 @@ export default function Game() {
 
   const milkTypes: MilkType[] = ["none", "whole", "skim", "oat", "almond"];
 
-  const currentDrinkType = gameState.customer?.drinkType || "espresso";
+  // Iced drinks swap steamed milk for cold milk
+  const setIced = (iced: boolean) => {
+    setGameState((prev) => ({
+      ...prev,
+      brewParams: {
+        ...prev.brewParams,
+        iced,
+        milkTemp: prev.brewParams.milkTemp === undefined
+          ? undefined
+          : iced ? ICED_MILK_TEMP : getDefaultParameters(currentDrinkType).milkTemp,
+      },
+    }));
+  };
+
+  // The ticket line being worked on decides which drink the station is set up for
+  const activeTicket = gameState.queue ? getActiveTicket(gameState.queue) : null;
+  const ticketLines = activeTicket ? getTicketItems(activeTicket) : [];
+  const currentLine = activeTicket ? getNextTicketItem(activeTicket) : null;
+  const remainingLines = ticketLines.filter(line => line.status === "pending");
+  const nextLine = remainingLines.length > 1 ? remainingLines[1] : null;
+  const isPlatingFood = currentLine?.item.type === "food";
+
+  const currentDrinkType: DrinkType =
+    currentLine?.item.type === "drink"
+      ? currentLine.item.sku
+      : gameState.customer?.drinkType || "espresso";
   const recipe = RECIPES[currentDrinkType];
   const requiredParams = getRequiredParameters(currentDrinkType);
+  const milkRange = gameState.brewParams.iced ? ICED_MILK_RANGE : MILK_RANGE;
+
+  // Practice unlocks hints for the ideal parameters (see getParameterHints)
+  const hints = getParameterHints(recipe, getProficiencyLevel(gameState.proficiency, recipe.category).level);
+
+  // Only ticket lines carry modifiers; a ticketless customer has nothing to check against
+  const orderedModifiers =
+    currentLine?.item.type === "drink" ? currentLine.item.modifiers ?? {} : undefined;
 
   const hasMilk = requiredParams.includes("milkType");
   const hasBloom = requiredParams.includes("bloomTime");
 
-  // Calculate time of day based on progress
-  const timeData = gameState.dayState
-    ? calculateTimeOfDay(
-      gameState.dayState.stats.customersServed,
-      gameState.dayState.targetCustomers
-    )
-    : calculateTimeOfDay(0, 20);
+  // In-game time runs from opening until close (and stays there through the debrief)
+  const timeData = calculateTimeOfDay(
+    gameState.dayState && gameState.dayState.phase !== "prep"
+      ? getMinutesSinceOpen(gameState.dayState.openTime, gameState.dayState.closeTime ?? now)
+      : 0
+  );
   const lighting = getLightingForTime(timeData);
 
   return (
@@ -585,7 +827,8 @@ export default function Game() {
 
         <EventNotification
           event={gameState.activeEvent || null}
-          onDismiss={() => setGameState(prev => ({ ...prev, activeEvent: undefined }))}
+          onDismiss={() => applyGameAction({ type: "dismiss_event" })}
+          onChoose={(choiceId) => applyGameAction({ type: "choose_event_option", choiceId })}
         />
 
         {/* Atmospheric lighting overlay */}
@@ -722,6 +965,22 @@ export default function Game() {
                       {gameState.drinksServed}
                     </span>
                   </div>
+                  {(() => {
+                    const stars = getStarRating(gameState.reputation);
+                    const lastRating = getLastRating(gameState.ratings);
+                    return (
+                      <div
+                        className="flex items-center gap-2"
+                        title={`${gameState.ratings?.count || 0} ratings${lastRating ? ` • Last: ${lastRating.customerName} ${lastRating.stars.toFixed(1)}★ (${lastRating.reasons.join(", ") || "no comment"})` : ""}`}
+                      >
+                        <span className="text-lg text-yellow-500">{formatStars(stars)}</span>
+                        <span className="text-xl font-bold text-yellow-700">{stars.toFixed(1)}</span>
+                        {lastRating && lastRating.tip > 0 && (
+                          <span className="text-xs text-green-700 font-semibold">+${lastRating.tip.toFixed(2)} tip</span>
+                        )}
+                      </div>
+                    );
+                  })()}
                   {gameState.queue && (
                     <div className="flex items-center gap-2">
                       <span className="text-2xl">📋</span>
@@ -779,7 +1038,10 @@ export default function Game() {
                 {gameState.dayState.phase === "prep" && (
                   <div className="bg-gradient-to-br from-indigo-500 to-purple-600 rounded-2xl shadow-xl p-6 mb-4 text-white">
                     <div className="text-center mb-4">
-                      <h2 className="text-3xl font-bold">☀️ Day {gameState.dayState.dayNumber}</h2>
+                      <h2 className="text-3xl font-bold">
+                        ☀️ Day {gameState.dayState.dayNumber}
+                        <span className="text-lg font-medium opacity-80 ml-2">{getDayOfWeek(gameState.dayState.dayNumber)}</span>
+                      </h2>
                       <p className="text-indigo-100 text-sm">Small Hours - Morning Preparation</p>
                     </div>
 
@@ -790,13 +1052,22 @@ export default function Game() {
                         <h3 className="text-lg font-bold mb-3">Today's Goals</h3>
                         <div className="space-y-2">
                           <div className="flex justify-between items-center">
-                            <span className="text-sm text-indigo-200">Target Customers</span>
-                            <span className="text-2xl font-bold">{gameState.dayState.targetCustomers}</span>
+                            <span className="text-sm text-indigo-200">Expected Customers</span>
+                            <span className="text-2xl font-bold">{getExpectedCustomers(gameState)}</span>
                           </div>
                           <div className="flex justify-between items-center">
                             <span className="text-sm text-indigo-200">Restock Cost</span>
                             <span className="text-2xl font-bold">${getRestockCost(gameState.dayState.dayNumber).toFixed(2)}</span>
                           </div>
+                          {(gameState.dayState.stats.waste || 0) > 0 && (
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm text-indigo-200">Spoiled Overnight</span>
+                              <span className="text-2xl font-bold text-red-300">-${gameState.dayState.stats.waste!.toFixed(2)}</span>
+                            </div>
+                          )}
+                          {getLowStockWarnings(gameState.inventory).map((warning) => (
+                            <div key={warning} className="text-xs text-amber-200">⚠️ {warning}</div>
+                          ))}
                         </div>
                       </div>
 
@@ -809,6 +1080,29 @@ export default function Game() {
                           🛒 Equipment Shop
                         </button>
 
+                        <button
+                          onClick={() => setShowMenu(true)}
+                          className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white font-bold py-3 rounded-xl hover:from-amber-600 hover:to-orange-700 transition-all shadow-lg text-sm"
+                        >
+                          📋 Menu &amp; Prices
+                        </button>
+
+                        <button
+                          onClick={() => setShowSuppliers(true)}
+                          className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white font-bold py-3 rounded-xl hover:from-amber-600 hover:to-orange-700 transition-all shadow-lg text-sm"
+                        >
+                          🚚 Order from Suppliers
+                          {(gameState.purchaseOrders?.length || 0) > 0 && ` (${gameState.purchaseOrders!.length} on order)`}
+                        </button>
+
+                        <button
+                          onClick={() => setShowStaff(true)}
+                          className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white font-bold py-3 rounded-xl hover:from-amber-600 hover:to-orange-700 transition-all shadow-lg text-sm"
+                        >
+                          👥 Staff
+                          {getOnShift(gameState.staff).length > 0 && ` (${getOnShift(gameState.staff).length} on shift)`}
+                        </button>
+
                         <button
                           onClick={handleRestock}
                           className="w-full bg-white/90 text-indigo-600 font-bold py-3 rounded-xl hover:bg-white transition-all shadow-lg text-sm"
@@ -825,6 +1119,69 @@ export default function Game() {
                       </div>
                     </div>
 
+                    {/* Bean Roaster - fresh bags roasted today */}
+                    <details className="bg-white/10 backdrop-blur rounded-xl overflow-hidden mb-4">
+                      <summary className="px-4 py-2 cursor-pointer hover:bg-white/10 transition-all font-semibold text-sm">
+                        🫘 Buy Fresh Beans ({BEAN_BAG_GRAMS}g bags)
+                      </summary>
+                      <div className="px-4 py-3 space-y-2">
+                        {gameState.inventory.beans.map((bag, index) => {
+                          const age = getBeanAgeDays(bag.roastDate, Date.now());
+                          return (
+                            <div key={`${bag.name}-${index}`} className="flex justify-between text-xs text-indigo-100">
+                              <span>{bag.name}: {bag.grams}g</span>
+                              <span>roasted {age}d ago ({describeFreshness(age)})</span>
+                            </div>
+                          );
+                        })}
+                        <div className="border-t border-white/20 pt-2 grid md:grid-cols-2 gap-2">
+                          {Object.values(BEAN_CATALOG).map((variety) => (
+                            <button
+                              key={variety.id}
+                              onClick={() => handleBuyBeans(variety.id)}
+                              className="text-left bg-white/90 text-indigo-700 rounded-lg px-3 py-2 hover:bg-white transition-all text-xs"
+                            >
+                              <div className="font-bold">
+                                {variety.origin} {variety.name} · ${(BEAN_BAG_GRAMS * variety.costPerGram).toFixed(2)}
+                              </div>
+                              <div className="text-indigo-500">
+                                {variety.roast} roast{variety.decaf ? ", decaf" : ""}: {variety.notes}
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </details>
+
+                    {/* Barista Training - one paid course a day */}
+                    <details className="bg-white/10 backdrop-blur rounded-xl overflow-hidden mb-4">
+                      <summary className="px-4 py-2 cursor-pointer hover:bg-white/10 transition-all font-semibold text-sm">
+                        🎓 Barista Training
+                        {gameState.proficiency?.lastTrainedDay === gameState.dayState.dayNumber && " (done for today)"}
+                      </summary>
+                      <div className="px-4 py-3 grid md:grid-cols-3 gap-2">
+                        {DRINK_CATEGORIES.map((category) => {
+                          const level = getProficiencyLevel(gameState.proficiency, category);
+                          const course = TRAINING_COURSES[category];
+                          return (
+                            <div key={category} className="bg-white/90 text-indigo-700 rounded-lg px-3 py-2 text-xs">
+                              <div className="font-bold capitalize">{category.replace("-", " ")}</div>
+                              <div className="text-indigo-500">
+                                {level.name} · {level.xp}{level.nextLevelXp !== null ? ` / ${level.nextLevelXp}` : ""} XP
+                              </div>
+                              <button
+                                onClick={() => handleTrainBarista(category)}
+                                disabled={gameState.proficiency?.lastTrainedDay === gameState.dayState!.dayNumber}
+                                className="mt-2 w-full bg-indigo-600 text-white rounded-md py-1 font-semibold hover:bg-indigo-700 disabled:opacity-40"
+                              >
+                                {course.name} · ${course.cost.toFixed(2)}
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </details>
+
                     {/* Optional Story Section - Collapsible for Day 1+ */}
                     {gameState.dayState.dayNumber === 1 && (
                       <details className="bg-amber-500/20 border border-amber-300/50 rounded-xl overflow-hidden">
@@ -849,12 +1206,34 @@ export default function Game() {
                         </p>
                       </div>
                     )}
+
+                    {/* Story arcs under way, and the chapter each has reached */}
+                    {getStoryProgress(gameState).length > 0 && (
+                      <div className="bg-white/10 backdrop-blur rounded-xl px-4 py-3">
+                        <h3 className="font-semibold text-sm mb-2">📖 Your Story</h3>
+                        <div className="space-y-1 text-sm text-indigo-100">
+                          {getStoryProgress(gameState).map((progress) => (
+                            <div key={progress.arc.id} className="flex justify-between gap-3">
+                              <span>{progress.arc.title}</span>
+                              <span className="opacity-80">
+                                {isArcComplete(progress) ? "✓ " : `Ch. ${progress.chapterNumber}: `}
+                                {progress.chapter.title}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
 
                 {/* DEBRIEF PHASE */}
                 {gameState.dayState.phase === "debrief" && (() => {
-                  const summary = getDaySummary(gameState.dayState);
+                  const summary = getDaySummary(
+                    gameState.dayState,
+                    gameState.equipment ? getDailyDepreciation(gameState.equipment) : 0
+                  );
+                  const pnl = summary.profitAndLoss;
                   const performanceEmoji = getPerformanceEmoji(summary.performance);
                   const performanceDesc = getPerformanceDescription(summary.performance);
 
@@ -881,6 +1260,7 @@ export default function Game() {
                           </div>
                           <div className="text-xs text-slate-400 mt-1">
                             {summary.customersServed >= summary.targetCustomers ? "✓ Target met!" : "✗ Below target"}
+                            {summary.walkOuts > 0 && ` · 🚶 ${summary.walkOuts} walked out`}
                           </div>
                         </div>
 
@@ -913,6 +1293,67 @@ export default function Game() {
                         </div>
                       </div>
 
+                      {/* Profit & Loss */}
+                      <div className="bg-white/10 backdrop-blur rounded-xl p-6 mb-6">
+                        <h3 className="text-xl font-bold mb-3">📒 Profit & Loss</h3>
+                        <div className="grid md:grid-cols-2 gap-6 text-sm">
+                          <div className="space-y-1">
+                            {([
+                              ["Revenue (excl. tax)", pnl.revenue],
+                              ["Ingredients (COGS)", -pnl.cogs],
+                              ["Gross profit", pnl.grossProfit],
+                              ["Spoiled stock (waste)", -pnl.waste],
+                              ["Staff wages", -pnl.wages],
+                              ["Barista training", -pnl.training],
+                              ["Rent", -pnl.rent],
+                              ["Equipment depreciation", -pnl.depreciation],
+                              ["Events", pnl.eventMoney],
+                            ] as [string, number][]).map(([label, amount]) => (
+                              <div key={label} className="flex justify-between">
+                                <span className="text-slate-300">{label}</span>
+                                <span className={amount < 0 ? "text-red-300" : "text-slate-100"}>
+                                  {amount < 0 ? "-" : ""}${Math.abs(amount).toFixed(2)}
+                                </span>
+                              </div>
+                            ))}
+                            <div className="flex justify-between border-t border-white/20 pt-1 font-bold">
+                              <span>Net profit</span>
+                              <span className={pnl.net < 0 ? "text-red-300" : "text-green-400"}>
+                                {pnl.net < 0 ? "-" : ""}${Math.abs(pnl.net).toFixed(2)}
+                              </span>
+                            </div>
+                            <div className="flex justify-between text-xs text-slate-400 pt-2">
+                              <span>Tax collected (owed)</span>
+                              <span>${pnl.taxCollected.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between text-xs text-slate-400">
+                              <span>Restock spend (cash)</span>
+                              <span>${pnl.restockSpend.toFixed(2)}</span>
+                            </div>
+                          </div>
+
+                          <div>
+                            <div className="text-slate-300 mb-1">Margins on today&apos;s drinks</div>
+                            {Object.keys(gameState.dayState.stats.drinksBrewedByType).length === 0 ? (
+                              <div className="text-slate-400">No drinks sold</div>
+                            ) : (
+                              Object.entries(gameState.dayState.stats.drinksBrewedByType).map(([drink, count]) => {
+                                const margin = getItemMargin({ type: "drink", sku: drink as DrinkType, quantity: 1 }, gameState.menu);
+                                return (
+                                  <div key={drink} className="flex justify-between">
+                                    <span className="capitalize text-slate-300">{drink} ×{count}</span>
+                                    <span>
+                                      ${margin.price.toFixed(2)} − ${margin.cost.toFixed(2)} = ${margin.margin.toFixed(2)}
+                                      <span className="text-slate-400"> ({margin.marginPercent}%)</span>
+                                    </span>
+                                  </div>
+                                );
+                              })
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
                       {/* Story moment based on performance */}
                       <div className="bg-white/10 backdrop-blur rounded-xl p-6 mb-6">
                         <h3 className="text-xl font-bold mb-3">💬 As You Close Up...</h3>
@@ -973,6 +1414,17 @@ export default function Game() {
                         <div className="text-lg font-bold">${gameState.dayState.stats.totalEarnings.toFixed(2)}</div>
                       </div>
 
+                      {/* Let the next customer queue while the player is busy */}
+                      {gameState.customer && (
+                        <button
+                          onClick={startNewOrder}
+                          disabled={isGeneratingCustomer}
+                          className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded-lg text-xs font-semibold transition-all whitespace-nowrap disabled:opacity-50"
+                        >
+                          🔔 Next in line
+                        </button>
+                      )}
+
                       {/* Close Button */}
                       <button
                         onClick={handleEndDay}
@@ -981,11 +1433,76 @@ export default function Game() {
                         🌙 Close
                       </button>
                     </div>
+
+                    {/* Whatever the day's events are still doing to the cafe */}
+                    {getActiveModifiers(gameState, now).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {getActiveModifiers(gameState, now).map((modifier) => (
+                          <span
+                            key={`${modifier.source}-${modifier.kind}`}
+                            className="bg-white/20 px-2 py-0.5 rounded-full text-xs whitespace-nowrap"
+                          >
+                            {describeModifier(modifier)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
               </>
             )}
 
+            {/* Stations Panel */}
+            {gameState.dayState?.phase === "service" && gameState.stations &&
+              (gameState.stations.stations.length > 1 || getOnShift(gameState.staff).length > 0) && (
+              <div className="bg-amber-50/90 backdrop-blur rounded-xl shadow-lg p-3 mb-3">
+                <h3 className="text-lg font-bold text-amber-900 mb-3 flex items-center gap-2">
+                  <span>☕</span>
+                  Brewing Stations
+                </h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {gameState.stations.stations.map((station) => {
+                    const ticket = station.ticketId && gameState.queue ? getTicket(gameState.queue, station.ticketId) : null;
+                    const timeLeft = getStationTimeLeft(station, now);
+                    const staffName = gameState.staff?.find((member) => member.id === station.staffId)?.name;
+
+                    return (
+                      <div
+                        key={station.id}
+                        className={`p-2 rounded-lg text-sm border-l-4 ${
+                          ticket && (!station.staffId || timeLeft > 0)
+                            ? "bg-white border-amber-500"
+                            : "bg-white/50 border-gray-300 text-gray-400"
+                        }`}
+                      >
+                        <div className="text-xs text-gray-500">Station {station.id}</div>
+                        {ticket && (!station.staffId || timeLeft > 0) ? (
+                          <>
+                            <div className="font-semibold text-gray-800">
+                              {ticket.customerName} · {RECIPES[ticket.drinkType].name}
+                            </div>
+                            <div className="text-xs text-gray-600">
+                              {staffName ? `${staffName} · ${timeLeft}s left` : "You"}
+                            </div>
+                          </>
+                        ) : (
+                          <div>Free</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Reviews Feed */}
+            {gameState.dayState && (
+              <ReviewsFeed
+                reviews={getReviewsForDay(gameState.reviews, gameState.dayState.dayNumber)}
+                average={getDayReviewSummary(gameState.reviews, gameState.dayState.dayNumber).average}
+              />
+            )}
+
             {/* Queue Panel */}
             {gameState.queue && getPendingTickets(gameState.queue).length > 0 && (
               <div className="bg-blue-50/90 backdrop-blur rounded-xl shadow-lg p-3 mb-3">
@@ -1003,6 +1520,11 @@ export default function Game() {
                         <div className="font-semibold text-gray-800">{ticket.customerName}</div>
                         <div className="text-sm text-gray-600">
                           {RECIPES[ticket.drinkType].name}
+                          {getTicketItems(ticket).length > 1 && (
+                            <span className="ml-1 text-xs text-gray-500">
+                              +{getTicketItems(ticket).length - 1} more
+                            </span>
+                          )}
                           {ticket.priority === "high" && (
                             <span className="ml-2 text-xs bg-red-100 text-red-800 px-2 py-1 rounded">
                               ⚡ RUSHED
@@ -1010,8 +1532,22 @@ export default function Game() {
                           )}
                         </div>
                       </div>
-                      <div className="text-sm text-gray-500">
-                        #{idx + 1} in queue
+                      <div className="text-sm text-gray-500 text-right">
+                        <div>#{idx + 1} in queue</div>
+                        {!gameState.customer && gameState.waitingCustomers?.[ticket.id] && (
+                          <button
+                            onClick={() => handleTakeTicket(ticket.id)}
+                            className="mt-1 bg-blue-500 hover:bg-blue-600 text-white px-2 py-0.5 rounded text-xs font-semibold"
+                          >
+                            Take order
+                          </button>
+                        )}
+                        {gameState.waitingCustomers?.[ticket.id] && (
+                          <div className="text-xs">
+                            ~{getEstimatedWaitTime(gameState.queue!, ticket.id)}s wait · ⏳{" "}
+                            {getPatienceLeft(gameState.waitingCustomers[ticket.id], ticket, now)}s patience
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1133,8 +1669,31 @@ export default function Game() {
                                 &quot;{gameState.customer.order}&quot;
                               </p>
                             </div>
+
+                            {/* Ticket line items */}
+                            {ticketLines.length > 1 && (
+                              <ul className="mt-3 space-y-1 text-sm">
+                                {ticketLines.map((line) => (
+                                  <li
+                                    key={line.id}
+                                    className={`flex items-center gap-2 ${line.id === currentLine?.id ? "font-semibold text-amber-900" : "text-gray-600"}`}
+                                  >
+                                    <span>{line.status === "completed" ? "✅" : line.id === currentLine?.id ? "👉" : "⬜"}</span>
+                                    <span>{describeOrderItem(line.item)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
 
+                          {/* Chat with the customer while the order is made */}
+                          <CustomerChat
+                            customerName={gameState.customer.name}
+                            conversation={getConversation(gameState.conversation, gameState.queue?.activeTicketId)}
+                            isWaiting={isChatting}
+                            onSend={handleChat}
+                          />
+
                           {/* Allergen Warning */}
                           {gameState.customer.allergens && gameState.customer.allergens.length > 0 && (
                             <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -1158,7 +1717,10 @@ export default function Game() {
 
                           <div className="flex justify-between text-sm text-gray-600 border-t pt-2">
                             <span>
-                              Drink: <span className="font-semibold">{recipe.name}</span>
+                              {isPlatingFood ? "Plating" : "Drink"}:{" "}
+                              <span className="font-semibold">
+                                {isPlatingFood && currentLine ? describeOrderItem(currentLine.item) : recipe.name}
+                              </span>
                             </span>
                             <span>
                               Payment: <span className="font-semibold text-green-600">${gameState.customer.payment.toFixed(2)}</span>
@@ -1227,9 +1789,29 @@ export default function Game() {
                   </AnimatePresence>
                 </div>
 
+                {/* Food Plating */}
+                {gameState.customer && !gameState.result && isPlatingFood && currentLine && (
+                  <div className="bg-gradient-to-br from-rose-400 to-orange-400 rounded-xl shadow-xl p-3 text-white">
+                    <h2 className="text-lg font-bold flex items-center gap-2 mb-2">
+                      <span>🥐</span>
+                      Pastry Counter
+                    </h2>
+                    <p className="text-sm mb-3">
+                      {describeOrderItem(currentLine.item)}
+                      <span className="opacity-80"> — {gameState.inventory.food[currentLine.item.sku] || 0} left</span>
+                    </p>
+                    <button
+                      onClick={handlePlateFood}
+                      className="w-full bg-white text-rose-700 font-bold px-4 py-2 rounded-xl hover:bg-rose-50 transition-all shadow-lg text-sm"
+                    >
+                      Plate It
+                    </button>
+                  </div>
+                )}
+
                 {/* Brewing Controls */}
                 <AnimatePresence>
-                  {gameState.customer && !gameState.result && (
+                  {gameState.customer && !gameState.result && !isPlatingFood && (
                     <motion.div
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -1266,6 +1848,7 @@ export default function Game() {
                         <div>
                           <label className="block text-xs font-semibold mb-1 text-amber-100">
                             Grind Size
+                            {hints.grindSize && <span className="ml-1 font-normal opacity-75">(aim for {hints.grindSize})</span>}
                           </label>
                           <select
                             value={gameState.brewParams.grindSize}
@@ -1286,6 +1869,7 @@ export default function Game() {
                         <div>
                           <label className="block text-xs font-semibold mb-1 text-amber-100">
                             Water Temperature: {gameState.brewParams.temperature}°C
+                            {hints.temperature && <span className="ml-1 font-normal opacity-75">(aim for {hints.temperature})</span>}
                           </label>
                           <input
                             type="range"
@@ -1307,6 +1891,7 @@ export default function Game() {
                         <div>
                           <label className="block text-xs font-semibold mb-1 text-amber-100">
                             {recipe.category === "espresso-based" ? "Pull Time" : "Brew Time"}: {gameState.brewParams.brewTime}s
+                            {hints.brewTime && <span className="ml-1 font-normal opacity-75">(aim for {hints.brewTime})</span>}
                           </label>
                           <input
                             type="range"
@@ -1353,11 +1938,12 @@ export default function Game() {
                             <div>
                               <label className="block text-xs font-semibold mb-1 text-amber-100">
                                 Milk Temperature: {gameState.brewParams.milkTemp}°C
+                                {hints.milkTemp && <span className="ml-1 font-normal opacity-75">(aim for {hints.milkTemp})</span>}
                               </label>
                               <input
                                 type="range"
-                                min="49"
-                                max="82"
+                                min={milkRange.TEMP_MIN}
+                                max={milkRange.TEMP_MAX}
                                 value={gameState.brewParams.milkTemp}
                                 onChange={(e) =>
                                   updateBrewParam("milkTemp", parseInt(e.target.value))
@@ -1365,8 +1951,8 @@ export default function Game() {
                                 className="w-full"
                               />
                               <div className="flex justify-between text-xs text-amber-100 mt-1">
-                                <span className="text-xs">49°C</span>
-                                <span className="text-xs">82°C</span>
+                                <span className="text-xs">{milkRange.TEMP_MIN}°C</span>
+                                <span className="text-xs">{milkRange.TEMP_MAX}°C</span>
                               </div>
                             </div>
 
@@ -1421,6 +2007,125 @@ export default function Game() {
                           </>
                         )}
 
+                        {/* Beans (bags matching decaf, oldest roast first when left on any) */}
+                        {currentDrinkType !== "matcha" && (
+                          <div>
+                            <label className="block text-xs font-semibold mb-1 text-amber-100">
+                              Beans
+                            </label>
+                            <select
+                              value={gameState.brewParams.beanId || ""}
+                              onChange={(e) => updateBrewParam("beanId", e.target.value || undefined)}
+                              className="w-full px-2 py-1 rounded-lg text-gray-800 font-medium text-sm"
+                            >
+                              <option value="">Any (oldest bag first)</option>
+                              {Array.from(
+                                new Map(
+                                  gameState.inventory.beans
+                                    .filter((bag) => !!bag.decaf === !!gameState.brewParams.decaf)
+                                    .map((bag) => [getBagVariety(bag).id, bag] as const)
+                                ).values()
+                              ).map((bag) => {
+                                const variety = getBagVariety(bag);
+                                const age = getBeanAgeDays(bag.roastDate, Date.now());
+                                return (
+                                  <option key={variety.id} value={variety.id}>
+                                    {variety.name} ({variety.roast} roast, {describeFreshness(age)})
+                                  </option>
+                                );
+                              })}
+                            </select>
+                          </div>
+                        )}
+
+                        {/* Order Modifiers */}
+                        <div className="border-t border-amber-400 pt-2">
+                          <h3 className="font-bold text-amber-100 mb-1 text-xs">Modifiers</h3>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <label className="block text-xs font-semibold mb-1 text-amber-100">
+                              Size
+                            </label>
+                            <select
+                              value={gameState.brewParams.size || "medium"}
+                              onChange={(e) =>
+                                updateBrewParam("size", e.target.value as OrderSize)
+                              }
+                              className="w-full px-2 py-1 rounded-lg text-gray-800 font-medium text-sm"
+                            >
+                              {VALID_SIZES.map((size) => (
+                                <option key={size} value={size}>
+                                  {size.charAt(0).toUpperCase() + size.slice(1)}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+
+                          <div>
+                            <label className="block text-xs font-semibold mb-1 text-amber-100">
+                              Syrup
+                            </label>
+                            <select
+                              value={gameState.brewParams.syrup || ""}
+                              onChange={(e) =>
+                                updateBrewParam("syrup", e.target.value || undefined)
+                              }
+                              className="w-full px-2 py-1 rounded-lg text-gray-800 font-medium text-sm"
+                            >
+                              <option value="">None</option>
+                              {VALID_SYRUPS.map((syrup) => (
+                                <option key={syrup} value={syrup}>
+                                  {syrup.charAt(0).toUpperCase() + syrup.slice(1)}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs font-semibold text-amber-100">
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              checked={!!gameState.brewParams.iced}
+                              onChange={(e) => setIced(e.target.checked)}
+                            />
+                            Iced
+                          </label>
+                          {supportsModifier(currentDrinkType, "extraShot") && (
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={!!gameState.brewParams.extraShot}
+                                onChange={(e) => updateBrewParam("extraShot", e.target.checked)}
+                              />
+                              Extra Shot
+                            </label>
+                          )}
+                          {supportsModifier(currentDrinkType, "decaf") && (
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={!!gameState.brewParams.decaf}
+                                onChange={(e) => {
+                                  updateBrewParam("decaf", e.target.checked);
+                                  updateBrewParam("beanId", undefined);
+                                }}
+                              />
+                              Decaf
+                            </label>
+                          )}
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              checked={!!gameState.brewParams.whippedCream}
+                              onChange={(e) => updateBrewParam("whippedCream", e.target.checked)}
+                            />
+                            Whipped Cream
+                          </label>
+                        </div>
+
                         {/* Brewing Progress Overlay - Removed: Now using full animation on right side */}
 
                         {/* Brew Button */}
@@ -1503,7 +2208,7 @@ export default function Game() {
                       {/* Drink Visual */}
                       <div className="flex justify-center mb-3">
                         <DrinkResultVisual
-                          drinkType={gameState.customer.drinkType}
+                          drinkType={currentDrinkType}
                           quality={gameState.result.quality}
                           className="w-32 h-32"
                           animated={true}
@@ -1531,6 +2236,12 @@ export default function Game() {
                         >
                           {gameState.result.feedback}
                         </div>
+                        {gameState.result.beanComment && (
+                          <div className="mt-2 text-xs italic text-gray-700">
+                            &ldquo;{gameState.result.beanComment}&rdquo;
+                            {gameState.customer && <span className="not-italic text-gray-500"> ({gameState.customer.name})</span>}
+                          </div>
+                        )}
                       </div>
 
                       {/* Breakdown */}
@@ -1575,16 +2286,27 @@ export default function Game() {
                         />
                       </div>
 
-                      {/* Serve Button */}
-                      <motion.button
-                        onClick={handleServe}
-                        disabled={isServing}
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                        className="w-full bg-gradient-to-r from-green-500 to-emerald-500 text-white font-bold px-4 py-2 rounded-xl hover:from-green-600 hover:to-emerald-600 transition-all shadow-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        {isServing ? "Serving..." : `Serve & Collect $${gameState.customer.payment.toFixed(2)}`}
-                      </motion.button>
+                      {/* Next Item / Serve Button */}
+                      {nextLine ? (
+                        <motion.button
+                          onClick={handleNextItem}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="w-full bg-gradient-to-r from-amber-500 to-orange-500 text-white font-bold px-4 py-2 rounded-xl hover:from-amber-600 hover:to-orange-600 transition-all shadow-lg text-sm"
+                        >
+                          Next: {describeOrderItem(nextLine.item)} →
+                        </motion.button>
+                      ) : (
+                        <motion.button
+                          onClick={handleServe}
+                          disabled={isServing}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className="w-full bg-gradient-to-r from-green-500 to-emerald-500 text-white font-bold px-4 py-2 rounded-xl hover:from-green-600 hover:to-emerald-600 transition-all shadow-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isServing ? "Serving..." : `Serve & Collect $${gameState.customer.payment.toFixed(2)}`}
+                        </motion.button>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -1605,7 +2327,7 @@ export default function Game() {
                   <>
                     {/* Brewing Animation */}
                     <BrewingAnimation
-                      drinkType={gameState.customer.drinkType}
+                      drinkType={currentDrinkType}
                       category={recipe.category}
                       brewParams={gameState.brewParams}
                       isBrewing={isBrewing}
@@ -1638,6 +2360,35 @@ export default function Game() {
           />
         )}
 
+        {/* Menu Modal */}
+        <MenuModal
+          isOpen={showMenu && gameState.dayState?.phase === "prep"}
+          onClose={() => setShowMenu(false)}
+          menu={gameState.menu ?? createDefaultMenu()}
+          expectedCustomers={getExpectedCustomers(gameState)}
+          onUpdate={handleUpdateMenu}
+        />
+
+        {/* Supplier Modal */}
+        <SupplierModal
+          isOpen={showSuppliers && gameState.dayState?.phase === "prep"}
+          onClose={() => setShowSuppliers(false)}
+          money={gameState.money}
+          dayNumber={gameState.dayState?.dayNumber || 1}
+          orders={gameState.purchaseOrders || []}
+          onOrder={handlePlaceOrder}
+        />
+
+        {/* Staff Modal */}
+        <StaffModal
+          isOpen={showStaff && gameState.dayState?.phase === "prep"}
+          onClose={() => setShowStaff(false)}
+          staff={gameState.staff || []}
+          onHire={handleHireStaff}
+          onFire={handleFireStaff}
+          onSetShift={handleSetShift}
+        />
+
         {/* Help Dialog Overlay - Positioned at top level */}
         <AnimatePresence>
           {showHelp && gameState.customer && (
@@ -2,13 +2,15 @@
  * Compact Inventory Display
  *
  * Visual inventory badges with depletion animations
- * Shows coffee beans and milk with fill levels and color coding
+ * Shows coffee beans and milk with fill levels and color coding,
+ * plus a badge for milk and pastries about to spoil
  * Updated: Fixed null reference handling
  */
 
 import { motion } from "framer-motion";
 import { useEffect, useRef, useState } from "react";
 import type { Inventory } from "@/lib/types";
+import { getExpiringStock } from "@/lib/inventory";
 
 interface CompactInventoryProps {
   inventory: Inventory;
@@ -59,6 +61,9 @@ export function CompactInventory({ inventory, className = "" }: CompactInventory
       }))
     : [];
 
+  // Batches spoiling by tomorrow
+  const expiring = inventory ? getExpiringStock(inventory, Date.now()) : [];
+
   // Detect depletion and trigger animations
   useEffect(() => {
     if (!inventory?.beans || !inventory?.milks) return;
@@ -249,6 +254,24 @@ export function CompactInventory({ inventory, className = "" }: CompactInventory
           </motion.div>
         );
       })}
+
+      {/* Expiring Stock */}
+      {expiring.length > 0 && (
+        <div
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${statusColors.low.bg}`}
+          title={expiring
+            .map(({ item, amount, unit }) => `${unit === "ml" ? `${amount}ml` : amount} ${item}`)
+            .join(", ")}
+        >
+          <span className="text-lg">⏳</span>
+          <div className="flex flex-col items-start">
+            <span className={`text-xs font-bold ${statusColors.low.text}`}>
+              {expiring.length} batch{expiring.length === 1 ? "" : "es"}
+            </span>
+            <span className="text-xs text-gray-600">Expiring</span>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
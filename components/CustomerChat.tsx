@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import type { Conversation } from "@/lib/types";
+import { MAX_CHAT_LENGTH, MAX_CHAT_EXCHANGES, getExchangeCount } from "@/lib/game-engine";
+
+interface CustomerChatProps {
+  customerName: string;
+  conversation: Conversation | null;
+  isWaiting: boolean;
+  onSend: (said: string) => void;
+}
+
+const SUGGESTIONS = ["Hot or iced?", "Would you like a croissant with that?", "How's your day going?"];
+
+export function CustomerChat({ customerName, conversation, isWaiting, onSend }: CustomerChatProps) {
+  const [draft, setDraft] = useState("");
+  const exchangesLeft = MAX_CHAT_EXCHANGES - getExchangeCount(conversation);
+  const canSend = !isWaiting && exchangesLeft > 0;
+
+  const send = (said: string) => {
+    if (!canSend || !said.trim()) return;
+    onSend(said.trim());
+    setDraft("");
+  };
+
+  return (
+    <div className="mb-3 p-3 bg-white rounded-lg border border-amber-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-semibold text-amber-900">💬 Chat with {customerName}</span>
+        {conversation && conversation.upsells > 0 && (
+          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
+            ⬆️ Upsold
+          </span>
+        )}
+      </div>
+
+      {conversation && conversation.lines.length > 0 && (
+        <div className="space-y-1 mb-2 max-h-40 overflow-y-auto text-sm">
+          {conversation.lines.map((line, i) => (
+            <p
+              key={i}
+              className={line.speaker === "barista" ? "text-right text-amber-800" : "text-gray-700"}
+            >
+              <span className="inline-block px-2 py-1 rounded-lg bg-amber-50">{line.text}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {exchangesLeft > 0 ? (
+        <>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {SUGGESTIONS.map((suggestion) => (
+              <button
+                key={suggestion}
+                onClick={() => send(suggestion)}
+                disabled={!canSend}
+                className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800 hover:bg-amber-200 disabled:opacity-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              send(draft);
+            }}
+          >
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_CHAT_LENGTH}
+              placeholder={isWaiting ? `${customerName} is answering...` : "Ask a question or suggest something"}
+              disabled={!canSend}
+              className="flex-1 text-sm px-2 py-1 border rounded"
+            />
+            <button
+              type="submit"
+              disabled={!canSend || !draft.trim()}
+              className="text-sm px-3 py-1 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+            >
+              Say
+            </button>
+          </form>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500 italic">{customerName} would rather you got on with their order.</p>
+      )}
+    </div>
+  );
+}
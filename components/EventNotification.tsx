@@ -1,13 +1,56 @@
 import React from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import type { GameEvent } from "@/lib/types";
+import { describeModifier } from "@/lib/game-engine";
+
+type Effects = NonNullable<GameEvent["effects"]>;
 
 interface EventNotificationProps {
     event: GameEvent | null;
     onDismiss: () => void;
+    onChoose: (choiceId: string) => void;
+}
+
+function EffectList({ effects }: { effects: Effects }) {
+    return (
+        <>
+            {effects.money && (
+                <div className="flex justify-between items-center">
+                    <span>Money</span>
+                    <span className={effects.money > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
+                        {effects.money > 0 ? "+" : ""}${effects.money}
+                    </span>
+                </div>
+            )}
+            {effects.reputation && (
+                <div className="flex justify-between items-center">
+                    <span>Reputation</span>
+                    <span className={effects.reputation > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
+                        {effects.reputation > 0 ? "+" : ""}{effects.reputation}
+                    </span>
+                </div>
+            )}
+            {effects.inventory && Object.entries(effects.inventory).map(([key, value]) => (
+                <div key={key} className="flex justify-between items-center capitalize">
+                    <span>{key}</span>
+                    <span className={value && value > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
+                        {value && value > 0 ? "+" : ""}{value}
+                    </span>
+                </div>
+            ))}
+            {effects.modifiers && effects.modifiers.map((modifier) => (
+                <div key={modifier.kind} className="flex justify-between items-center">
+                    <span>{describeModifier(modifier)}</span>
+                    <span className="opacity-70">
+                        {modifier.minutes ? `${modifier.minutes} min` : modifier.days && modifier.days > 1 ? `${modifier.days} days` : "today"}
+                    </span>
+                </div>
+            ))}
+        </>
+    );
 }
 
-export function EventNotification({ event, onDismiss }: EventNotificationProps) {
+export function EventNotification({ event, onDismiss, onChoose }: EventNotificationProps) {
     if (!event) return null;
 
     const getIcon = (type: string) => {
@@ -53,39 +96,42 @@ export function EventNotification({ event, onDismiss }: EventNotificationProps)
 
                         {event.effects && (
                             <div className="bg-white/50 rounded-lg p-3 mb-6 text-sm">
-                                {event.effects.money && (
-                                    <div className="flex justify-between items-center">
-                                        <span>Money</span>
-                                        <span className={event.effects.money > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
-                                            {event.effects.money > 0 ? "+" : ""}${event.effects.money}
-                                        </span>
-                                    </div>
-                                )}
-                                {event.effects.reputation && (
-                                    <div className="flex justify-between items-center">
-                                        <span>Reputation</span>
-                                        <span className={event.effects.reputation > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
-                                            {event.effects.reputation > 0 ? "+" : ""}{event.effects.reputation}
-                                        </span>
-                                    </div>
-                                )}
-                                {event.effects.inventory && Object.entries(event.effects.inventory).map(([key, value]) => (
-                                    <div key={key} className="flex justify-between items-center capitalize">
-                                        <span>{key}</span>
-                                        <span className={value && value > 0 ? "text-green-700 font-bold" : "text-red-700 font-bold"}>
-                                            {value && value > 0 ? "+" : ""}{value}
-                                        </span>
-                                    </div>
-                                ))}
+                                <EffectList effects={event.effects} />
                             </div>
                         )}
 
-                        <button
-                            onClick={onDismiss}
-                            className="w-full bg-white/80 hover:bg-white text-inherit font-bold py-3 px-6 rounded-xl transition-colors shadow-sm"
-                        >
-                            Continue
-                        </button>
+                        {event.choices && event.choices.length > 0 ? (
+                            <div className="space-y-3">
+                                {event.choices.map((choice) => (
+                                    <button
+                                        key={choice.id}
+                                        onClick={() => onChoose(choice.id)}
+                                        className="w-full bg-white/80 hover:bg-white text-inherit py-3 px-6 rounded-xl transition-colors shadow-sm text-left"
+                                    >
+                                        <div className="font-bold">{choice.text}</div>
+                                        {choice.effects && (
+                                            <div className="text-sm mt-1 opacity-80">
+                                                <EffectList effects={choice.effects} />
+                                            </div>
+                                        )}
+                                        {choice.followUp && (
+                                            <div className="text-xs mt-1 italic opacity-70">
+                                                {choice.followUp.chance !== undefined && choice.followUp.chance < 1
+                                                    ? "It might come back to bite you..."
+                                                    : "There will be more to this..."}
+                                            </div>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <button
+                                onClick={onDismiss}
+                                className="w-full bg-white/80 hover:bg-white text-inherit font-bold py-3 px-6 rounded-xl transition-colors shadow-sm"
+                            >
+                                Continue
+                            </button>
+                        )}
                     </div>
                 </motion.div>
             </motion.div>
@@ -0,0 +1,171 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import type { DrinkType, FoodType, Menu, MenuItem } from "@/lib/game-engine";
+import {
+  DRINK_BASE_PRICES,
+  FOOD_BASE_PRICES,
+  getItemMargin,
+  type OrderItem,
+} from "@/lib/pricing";
+import { MIN_MENU_PRICE, MAX_MENU_PRICE } from "@/lib/game-engine";
+
+interface MenuModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  menu: Menu;
+  expectedCustomers: number;
+  onUpdate: (sku: DrinkType | FoodType, changes: Partial<MenuItem>) => void;
+}
+
+const PRICE_STEP = 0.25;
+
+export function MenuModal({
+  isOpen,
+  onClose,
+  menu,
+  expectedCustomers,
+  onUpdate,
+}: MenuModalProps) {
+  if (!isOpen) return null;
+
+  const enabledDrinks = Object.values(menu.drinks).filter((item) => item.enabled).length;
+
+  const renderRow = (
+    sku: DrinkType | FoodType,
+    item: MenuItem,
+    standardPrice: number,
+    orderItem: OrderItem
+  ) => {
+    const margin = getItemMargin(orderItem, menu);
+    const isLastDrink = orderItem.type === "drink" && item.enabled && enabledDrinks === 1;
+    const label = sku.replace("_", " ");
+
+    return (
+      <div
+        key={sku}
+        className={`flex items-center gap-3 bg-white rounded-xl p-3 shadow-sm border-2 ${
+          item.enabled ? "border-amber-200" : "border-gray-200 opacity-60"
+        }`}
+      >
+        <label className="flex items-center gap-2 flex-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={item.enabled}
+            disabled={isLastDrink}
+            onChange={(e) => onUpdate(sku, { enabled: e.target.checked })}
+            className="w-4 h-4 accent-amber-600"
+          />
+          <span className="font-semibold text-gray-900 capitalize">{label}</span>
+        </label>
+
+        <div className="text-xs text-gray-500 w-28 text-right">
+          <div>Cost ${margin.cost.toFixed(2)}</div>
+          <div className={margin.marginPercent < 50 ? "text-red-600" : "text-green-600"}>
+            Margin {margin.marginPercent}%
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onUpdate(sku, { price: item.price - PRICE_STEP })}
+            disabled={item.price - PRICE_STEP < MIN_MENU_PRICE}
+            className="w-8 h-8 rounded-lg bg-amber-100 text-amber-800 font-bold hover:bg-amber-200 disabled:opacity-40"
+          >
+            −
+          </button>
+          <div className="w-16 text-center font-bold text-gray-900">${item.price.toFixed(2)}</div>
+          <button
+            onClick={() => onUpdate(sku, { price: item.price + PRICE_STEP })}
+            disabled={item.price + PRICE_STEP > MAX_MENU_PRICE}
+            className="w-8 h-8 rounded-lg bg-amber-100 text-amber-800 font-bold hover:bg-amber-200 disabled:opacity-40"
+          >
+            +
+          </button>
+        </div>
+
+        <button
+          onClick={() => onUpdate(sku, { price: standardPrice })}
+          disabled={item.price === standardPrice}
+          className="text-xs text-amber-700 hover:underline disabled:opacity-0 w-14"
+        >
+          Reset
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-600 to-orange-600 text-white p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-3xl font-bold flex items-center gap-3">
+                <span>📋</span>
+                Menu &amp; Prices
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-white/80 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center justify-between text-amber-100 text-sm">
+              <div>Prices are for a medium with no extras. Customers compare them to their budget.</div>
+              <div className="text-lg font-bold bg-white/20 px-4 py-2 rounded-lg whitespace-nowrap ml-4">
+                👥 ~{expectedCustomers}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)] space-y-6">
+            <div>
+              <h3 className="text-xl font-bold text-amber-900 mb-3">☕ Drinks</h3>
+              <div className="space-y-2">
+                {(Object.entries(menu.drinks) as [DrinkType, MenuItem][]).map(([sku, item]) =>
+                  renderRow(sku, item, DRINK_BASE_PRICES[sku], { type: "drink", sku, quantity: 1 })
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-xl font-bold text-amber-900 mb-3">🥐 Food</h3>
+              <div className="space-y-2">
+                {(Object.entries(menu.food) as [FoodType, MenuItem][]).map(([sku, item]) =>
+                  renderRow(sku, item, FOOD_BASE_PRICES[sku], { type: "food", sku, quantity: 1 })
+                )}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
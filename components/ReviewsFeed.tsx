@@ -0,0 +1,51 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import type { CustomerReview } from "@/lib/types";
+import { formatStars, getReviewText } from "@/lib/game-engine";
+
+interface ReviewsFeedProps {
+  reviews: CustomerReview[]; // Oldest first
+  average: number;
+  limit?: number;
+}
+
+export function ReviewsFeed({ reviews, average, limit = 5 }: ReviewsFeedProps) {
+  if (reviews.length === 0) return null;
+
+  const newestFirst = [...reviews].reverse().slice(0, limit);
+
+  return (
+    <div className="bg-yellow-50/90 backdrop-blur rounded-xl shadow-lg p-3 mb-3">
+      <h3 className="text-lg font-bold text-yellow-900 mb-3 flex items-center gap-2">
+        <span>💬</span>
+        Today&apos;s Reviews
+        <span className="ml-auto text-sm font-semibold text-yellow-700">
+          {average.toFixed(1)}★ from {reviews.length}
+        </span>
+      </h3>
+      <div className="space-y-2">
+        <AnimatePresence initial={false}>
+          {newestFirst.map((review) => (
+            <motion.div
+              key={review.id}
+              initial={{ opacity: 0, y: -8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white p-2 rounded-lg border-l-4 border-yellow-400 text-sm"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-gray-800">{review.customerName}</span>
+                <span className="text-yellow-500" title={`${review.stars.toFixed(1)} stars`}>
+                  {formatStars(review.stars)}
+                </span>
+              </div>
+              <p className={`text-gray-700 ${review.text ? "" : "italic opacity-70"}`}>
+                {getReviewText(review)}
+              </p>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import type { StaffMember, StaffSkills } from "@/lib/game-engine";
+import {
+  STAFF_CANDIDATES,
+  MAX_STAFF,
+  getDailyWages,
+} from "@/lib/game-engine";
+
+interface StaffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  staff: StaffMember[];
+  onHire: (candidateId: string) => void;
+  onFire: (staffId: string) => void;
+  onSetShift: (staffId: string, onShift: boolean) => void;
+}
+
+const SKILL_LABELS: [keyof StaffSkills, string][] = [
+  ["speed", "⚡ Speed"],
+  ["accuracy", "🎯 Accuracy"],
+  ["friendliness", "😊 Friendliness"],
+];
+
+export function StaffModal({
+  isOpen,
+  onClose,
+  staff,
+  onHire,
+  onFire,
+  onSetShift,
+}: StaffModalProps) {
+  if (!isOpen) return null;
+
+  const candidates = Object.values(STAFF_CANDIDATES).filter(
+    (candidate) => !staff.some((member) => member.id === candidate.id)
+  );
+
+  const renderSkills = (skills: StaffSkills) => (
+    <div className="grid grid-cols-3 gap-2 mt-2">
+      {SKILL_LABELS.map(([skill, label]) => (
+        <div key={skill} className="text-xs text-gray-600">
+          <div>{label}</div>
+          <div className="w-full bg-amber-100 rounded-full h-1.5 mt-1">
+            <div className="bg-amber-500 h-1.5 rounded-full" style={{ width: `${skills[skill] * 10}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-600 to-orange-600 text-white p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-3xl font-bold flex items-center gap-3">
+                <span>👥</span>
+                Staff
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-white/80 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center justify-between text-amber-100 text-sm">
+              <div>Staff on shift take queued orders while you&apos;re busy. Wages are paid at close.</div>
+              <div className="text-lg font-bold bg-white/20 px-4 py-2 rounded-lg whitespace-nowrap ml-4">
+                💸 ${getDailyWages(staff).toFixed(2)}/day
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)] space-y-6">
+            {/* Current staff */}
+            <div>
+              <h3 className="text-xl font-bold text-amber-900 mb-3">
+                Your Team ({staff.length}/{MAX_STAFF})
+              </h3>
+              {staff.length === 0 ? (
+                <div className="text-sm text-gray-500">Nobody yet — it&apos;s just you behind the bar.</div>
+              ) : (
+                <div className="space-y-2">
+                  {staff.map((member) => (
+                    <div key={member.id} className="bg-white rounded-xl p-3 shadow-sm border-2 border-amber-200">
+                      <div className="flex items-center gap-3">
+                        <div className="flex-1">
+                          <div className="font-semibold text-gray-900">{member.name}</div>
+                          <div className="text-xs text-gray-500">${member.dailyWage.toFixed(2)} per shift</div>
+                        </div>
+                        <button
+                          onClick={() => onSetShift(member.id, !member.onShift)}
+                          className={`w-28 py-2 rounded-lg text-sm font-bold transition-all ${
+                            member.onShift
+                              ? "bg-green-500 text-white hover:bg-green-600"
+                              : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                          }`}
+                        >
+                          {member.onShift ? "On shift" : "Off today"}
+                        </button>
+                        <button
+                          onClick={() => onFire(member.id)}
+                          className="py-2 px-3 rounded-lg text-sm text-red-600 hover:bg-red-50"
+                        >
+                          Let go
+                        </button>
+                      </div>
+                      {renderSkills(member.skills)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Candidates */}
+            <div>
+              <h3 className="text-xl font-bold text-amber-900 mb-3">Looking for Work</h3>
+              <div className="space-y-2">
+                {candidates.map((candidate) => (
+                  <div key={candidate.id} className="bg-white rounded-xl p-3 shadow-sm border-2 border-amber-200">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1">
+                        <div className="font-semibold text-gray-900">{candidate.name}</div>
+                        <div className="text-xs text-gray-500">{candidate.bio}</div>
+                      </div>
+                      <button
+                        onClick={() => onHire(candidate.id)}
+                        disabled={staff.length >= MAX_STAFF}
+                        className="w-28 py-2 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-700 disabled:opacity-40"
+                      >
+                        Hire
+                        <span className="block text-[10px] font-normal">${candidate.dailyWage}/shift</span>
+                      </button>
+                    </div>
+                    {renderSkills(candidate.skills)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
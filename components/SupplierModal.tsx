@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { PurchaseOrder, SupplySku, Supplier, SupplierOffer } from "@/lib/game-engine";
+import {
+  SUPPLIERS,
+  describeSku,
+  getSkuUnit,
+  getOrderCost,
+} from "@/lib/game-engine";
+
+interface SupplierModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  money: number;
+  dayNumber: number;
+  orders: PurchaseOrder[];
+  onOrder: (supplierId: string, sku: SupplySku, quantity: number) => void;
+}
+
+export function SupplierModal({
+  isOpen,
+  onClose,
+  money,
+  dayNumber,
+  orders,
+  onOrder,
+}: SupplierModalProps) {
+  // Quantity being ordered per supplier offer, defaulting to the minimum
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  if (!isOpen) return null;
+
+  const renderOffer = (supplier: Supplier, offer: SupplierOffer) => {
+    const key = `${supplier.id}/${offer.sku}`;
+    const quantity = quantities[key] ?? offer.minQuantity;
+    const cost = getOrderCost(offer, quantity);
+    const unit = getSkuUnit(offer.sku);
+    const discounted = offer.bulk && quantity >= offer.bulk.minQuantity;
+    const setQuantity = (value: number) => setQuantities({ ...quantities, [key]: value });
+
+    return (
+      <div key={key} className="flex items-center gap-3 bg-white rounded-xl p-3 shadow-sm border-2 border-amber-200">
+        <div className="flex-1">
+          <div className="font-semibold text-gray-900 capitalize">{describeSku(offer.sku)}</div>
+          <div className="text-xs text-gray-500">
+            Min {offer.minQuantity}{unit}
+            {offer.bulk && ` • ${Math.round(offer.bulk.discount * 100)}% off from ${offer.bulk.minQuantity}${unit}`}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setQuantity(quantity - offer.step)}
+            disabled={quantity - offer.step < offer.minQuantity}
+            className="w-8 h-8 rounded-lg bg-amber-100 text-amber-800 font-bold hover:bg-amber-200 disabled:opacity-40"
+          >
+            −
+          </button>
+          <div className="w-20 text-center font-bold text-gray-900">{quantity}{unit}</div>
+          <button
+            onClick={() => setQuantity(quantity + offer.step)}
+            className="w-8 h-8 rounded-lg bg-amber-100 text-amber-800 font-bold hover:bg-amber-200"
+          >
+            +
+          </button>
+        </div>
+
+        <button
+          onClick={() => onOrder(supplier.id, offer.sku, quantity)}
+          disabled={money < cost}
+          className="w-24 py-2 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-700 disabled:opacity-40"
+        >
+          ${cost.toFixed(2)}
+          {discounted && <span className="block text-[10px] font-normal">bulk price</span>}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-600 to-orange-600 text-white p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-3xl font-bold flex items-center gap-3">
+                <span>🚚</span>
+                Suppliers
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-white/80 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center justify-between text-amber-100 text-sm">
+              <div>Orders are paid now and delivered at the start of the day they&apos;re due.</div>
+              <div className="text-lg font-bold bg-white/20 px-4 py-2 rounded-lg whitespace-nowrap ml-4">
+                💰 ${money.toFixed(2)}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)] space-y-6">
+            {/* Orders on their way */}
+            <div>
+              <h3 className="text-xl font-bold text-amber-900 mb-3">📦 On Order</h3>
+              {orders.length === 0 ? (
+                <div className="text-sm text-gray-500">Nothing on order.</div>
+              ) : (
+                <div className="space-y-1 text-sm">
+                  {orders.map((order) => (
+                    <div key={order.id} className="flex justify-between bg-white/70 rounded-lg px-3 py-2">
+                      <span className="capitalize">
+                        {order.quantity}{getSkuUnit(order.sku)} {describeSku(order.sku)}
+                        <span className="text-gray-500"> from {SUPPLIERS[order.supplierId]?.name}</span>
+                      </span>
+                      <span className={order.late ? "text-red-600" : "text-gray-600"}>
+                        {order.dueOnDay <= dayNumber + 1 ? "Tomorrow" : `Day ${order.dueOnDay}`}
+                        {order.late && " (late)"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {Object.values(SUPPLIERS).map((supplier) => (
+              <div key={supplier.id}>
+                <h3 className="text-xl font-bold text-amber-900">{supplier.name}</h3>
+                <div className="text-sm text-gray-600 mb-3">
+                  {supplier.description} • Delivers {supplier.leadDays === 1 ? "next morning" : `in ${supplier.leadDays} days`}
+                </div>
+                <div className="space-y-2">
+                  {supplier.offers.map((offer) => renderOffer(supplier, offer))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
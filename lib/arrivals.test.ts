@@ -0,0 +1,78 @@
+/**
+ * Tests for Customer Arrivals
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getHourlyTraffic,
+  getEventTraffic,
+  getArrivalRate,
+  scheduleNextArrival,
+} from "./arrivals";
+import { createInitialState } from "./game-engine";
+import { startService } from "./day-structure";
+import { SERVICE_MINUTES, getDayOfWeek } from "./time-system";
+import { EVENTS, applyEventEffects } from "./events";
+import { SeededRandom, ManualClock } from "./random";
+import { START } from "./test-helpers";
+import type { GameState } from "./types";
+
+function openCafe(dayNumber = 1, targetCustomers = 24): GameState {
+  const state = createInitialState(new ManualClock(START));
+  return {
+    ...state,
+    dayState: startService({ ...state.dayState!, dayNumber, targetCustomers }, new ManualClock(START)),
+  };
+}
+
+describe("Customer Arrivals", () => {
+  describe("traffic", () => {
+    it("should peak in the morning rush and dip in the afternoon", () => {
+      expect(getHourlyTraffic(90)).toBeGreaterThan(1.5);
+      expect(getHourlyTraffic(8 * 60)).toBeLessThan(0.6);
+    });
+
+    it("should be busier at the weekend", () => {
+      expect(getDayOfWeek(1)).toBe("Monday");
+      expect(getDayOfWeek(13)).toBe("Saturday");
+      expect(getArrivalRate(openCafe(6), 60)).toBeGreaterThan(getArrivalRate(openCafe(1), 60));
+    });
+
+    it("should follow the day's events for as long as they last", () => {
+      const clock = new ManualClock(START);
+      const rainy = applyEventEffects(openCafe(), EVENTS.find(event => event.id === "rainy_day")!, clock);
+      const yesterday = { ...rainy, dayState: { ...rainy.dayState!, dayNumber: 2 } };
+      const rush = applyEventEffects(openCafe(), EVENTS.find(event => event.id === "rush_hour")!, clock);
+
+      expect(getEventTraffic(rainy, START)).toBe(1.2);
+      expect(getEventTraffic(yesterday, START)).toBe(1);
+      expect(getEventTraffic(rush, START + 89000)).toBe(1.5);
+      expect(getEventTraffic(rush, START + 90000)).toBe(1);
+      expect(getArrivalRate(rush, 60)).toBeCloseTo(getArrivalRate(openCafe(), 60) * 1.5);
+    });
+  });
+
+  describe("scheduleNextArrival", () => {
+    it("should bring in about the day's target customers before closing", () => {
+      const state = openCafe();
+      const rng = new SeededRandom(5);
+      const closing = START + SERVICE_MINUTES * 1000;
+
+      let arrivals = 0;
+      let next = scheduleNextArrival(state, START, rng);
+      while (next !== null) {
+        expect(next).toBeLessThan(closing);
+        arrivals++;
+        next = scheduleNextArrival(state, next, rng);
+      }
+
+      expect(arrivals).toBeGreaterThan(12);
+      expect(arrivals).toBeLessThan(36);
+    });
+
+    it("should bring nobody in once the doors have closed", () => {
+      expect(scheduleNextArrival(openCafe(), START + SERVICE_MINUTES * 1000, new SeededRandom(1))).toBeNull();
+      expect(scheduleNextArrival(openCafe(1, 0), START, new SeededRandom(1))).toBeNull();
+    });
+  });
+});
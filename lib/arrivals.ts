@@ -0,0 +1,91 @@
+/**
+ * Customer Arrivals
+ *
+ * Once the doors open, customers turn up on their own as a Poisson process
+ * over the in-game day (see time-system.ts). The day's target customers sets
+ * the average rate (it already follows reputation through startNewDay and
+ * menu prices through getExpectedCustomers), which then rises and falls:
+ * - by hour: a morning rush, a lunchtime bump and an afternoon lull
+ * - by day of the week: quieter early in the week, busiest on Saturday
+ * - with events' traffic modifiers: rain drives people indoors, a competitor draws them away
+ */
+
+import type { GameState } from "./types";
+import type { RandomSource } from "./random";
+import { SERVICE_MINUTES, getClockTimeAt, getMinutesSinceOpen } from "./time-system";
+import { getModifierFactor, getPeakModifierFactor } from "./event-modifiers";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Relative traffic for each hour of service, from 7 AM
+const HOURLY_TRAFFIC = [1.6, 2.0, 1.3, 0.8, 1.0, 1.2, 0.7, 0.5, 0.5, 0.7, 0.9, 0.6];
+const MEAN_HOURLY_TRAFFIC = HOURLY_TRAFFIC.reduce((sum, weight) => sum + weight, 0) / HOURLY_TRAFFIC.length;
+const PEAK_HOURLY_TRAFFIC = Math.max(...HOURLY_TRAFFIC) / MEAN_HOURLY_TRAFFIC;
+
+// Monday to Sunday
+const DAY_OF_WEEK_TRAFFIC = [0.9, 0.9, 1.0, 1.0, 1.15, 1.3, 1.1];
+
+// ============================================================================
+// TRAFFIC
+// ============================================================================
+
+/**
+ * How busy an hour of service is compared to the day's average
+ */
+export function getHourlyTraffic(minutesSinceOpen: number): number {
+  const hour = Math.min(HOURLY_TRAFFIC.length - 1, Math.floor(minutesSinceOpen / 60));
+  return HOURLY_TRAFFIC[Math.max(0, hour)] / MEAN_HOURLY_TRAFFIC;
+}
+
+/**
+ * Combined traffic multiplier from events' modifiers at a clock time
+ */
+export function getEventTraffic(state: GameState, at: number): number {
+  return getModifierFactor(state, "traffic", at);
+}
+
+/**
+ * Expected customers per in-game minute at a point in the day
+ */
+export function getArrivalRate(state: GameState, minutesSinceOpen: number): number {
+  const openTime = state.dayState?.openTime;
+  const at = openTime == null ? 0 : getClockTimeAt(openTime, minutesSinceOpen);
+
+  return getBaseRate(state) * getHourlyTraffic(minutesSinceOpen) * getEventTraffic(state, at);
+}
+
+/**
+ * The day's average arrival rate before the hourly curve and events
+ */
+function getBaseRate(state: GameState): number {
+  const dayNumber = state.dayState?.dayNumber || 1;
+  const target = state.dayState?.targetCustomers ?? 0;
+
+  return (target / SERVICE_MINUTES) * DAY_OF_WEEK_TRAFFIC[(dayNumber - 1) % 7];
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Clock time the next customer walks in after `from`, or null if nobody else comes before closing
+ * Samples the changing rate by thinning: candidates arrive at the peak rate and each is kept
+ * with the chance the rate at that minute bears to the peak
+ */
+export function scheduleNextArrival(state: GameState, from: number, rng: RandomSource): number | null {
+  const openTime = state.dayState?.openTime;
+  const peakRate = getBaseRate(state) * PEAK_HOURLY_TRAFFIC * getPeakModifierFactor(state, "traffic", from);
+  if (openTime == null || peakRate <= 0) return null;
+
+  let minutes = getMinutesSinceOpen(openTime, from);
+  for (;;) {
+    minutes += -Math.log(1 - rng.next()) / peakRate;
+    if (minutes >= SERVICE_MINUTES) return null;
+    if (rng.next() < getArrivalRate(state, minutes) / peakRate) {
+      return Math.max(from, getClockTimeAt(openTime, minutes));
+    }
+  }
+}
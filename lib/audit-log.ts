@@ -11,7 +11,7 @@ export interface AuditLogEntry {
   id: string;
   timestamp: number;
   type: "llm_call" | "tool_call" | "state_mutation" | "error";
-  source: "generate_customer" | "process_order" | "system";
+  source: "generate_customer" | "process_order" | "game_master" | "write_review" | "summarize_memory" | "conversation" | "system";
 
   // LLM interaction details
   model?: string;
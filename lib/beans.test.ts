@@ -0,0 +1,110 @@
+/**
+ * Tests for the Bean Catalog and Freshness
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  BEAN_CATALOG,
+  getBagVariety,
+  getBeanAgeDays,
+  getFreshness,
+  describeFreshness,
+  applyBeanToRecipe,
+  getBeanComment,
+} from "./beans";
+import { brewDrink, getDefaultParameters } from "./game-engine";
+import { RECIPES } from "./recipes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Beans", () => {
+  describe("getBagVariety", () => {
+    it("should look bags up in the catalog", () => {
+      expect(getBagVariety({ name: "Yirg", grams: 100, roastDate: "", varietyId: "ethiopia_yirgacheffe" }).origin)
+        .toBe("Ethiopia");
+    });
+
+    it("should treat bags from before the catalog as the house beans", () => {
+      expect(getBagVariety({ name: "Old Bag", grams: 100, roastDate: "" }).id).toBe("house_blend");
+      expect(getBagVariety({ name: "Old Decaf", grams: 100, roastDate: "", decaf: true }).id).toBe("swiss_water_decaf");
+    });
+  });
+
+  describe("freshness", () => {
+    it("should count whole days since roasting", () => {
+      const roastDate = new Date(0).toISOString();
+
+      expect(getBeanAgeDays(roastDate, 0)).toBe(0);
+      expect(getBeanAgeDays(roastDate, 2.5 * DAY_MS)).toBe(2);
+    });
+
+    it("should stay fresh for two weeks, then fade to a floor", () => {
+      expect(getFreshness(0)).toBe(1);
+      expect(getFreshness(14)).toBe(1);
+      expect(getFreshness(24)).toBe(0.9);
+      expect(getFreshness(200)).toBe(0.6);
+    });
+
+    it("should describe each stage", () => {
+      expect([1, 20, 90].map(describeFreshness)).toEqual(["fresh", "fading", "stale"]);
+    });
+  });
+
+  describe("applyBeanToRecipe", () => {
+    it("should leave the recipe alone for the house blend", () => {
+      expect(applyBeanToRecipe(RECIPES.espresso, BEAN_CATALOG.house_blend)).toBe(RECIPES.espresso);
+    });
+
+    it("should grind finer and hotter for light roasts, coarser and cooler for dark", () => {
+      const light = applyBeanToRecipe(RECIPES.espresso, BEAN_CATALOG.ethiopia_yirgacheffe);
+      const dark = applyBeanToRecipe(RECIPES.espresso, BEAN_CATALOG.sumatra_mandheling);
+
+      expect(light.idealGrind).toBe("fine"); // Already as fine as the grinder goes
+      expect(light.idealTemp).toBe(RECIPES.espresso.idealTemp + 2);
+      expect(dark.idealGrind).toBe("medium-fine");
+      expect(dark.idealTemp).toBe(RECIPES.espresso.idealTemp - 2);
+    });
+  });
+
+  describe("brewing with beans", () => {
+    it("should score against the bean's targets", () => {
+      const params = {
+        grindSize: RECIPES.espresso.idealGrind,
+        temperature: RECIPES.espresso.idealTemp,
+        brewTime: RECIPES.espresso.idealBrewTime,
+      };
+      const bean = { variety: BEAN_CATALOG.sumatra_mandheling, freshness: 1 };
+
+      expect(brewDrink("espresso", params, { bean }).quality)
+        .toBeLessThan(brewDrink("espresso", params).quality);
+    });
+
+    it("should lose quality with stale beans", () => {
+      const params = getDefaultParameters("latte");
+      const fresh = brewDrink("latte", params, { bean: { variety: BEAN_CATALOG.house_blend, freshness: 1 } });
+      const stale = brewDrink("latte", params, { bean: { variety: BEAN_CATALOG.house_blend, freshness: 0.6 } });
+
+      expect(stale.quality).toBe(Math.round(fresh.quality * 0.6));
+      expect(stale.breakdown["Bean Freshness"]).toBe(60);
+      expect(stale.feedback).toContain("past their best");
+    });
+
+    it("should ignore beans for matcha", () => {
+      const params = getDefaultParameters("matcha");
+      const stale = brewDrink("matcha", params, { bean: { variety: BEAN_CATALOG.house_blend, freshness: 0.6 } });
+
+      expect(stale.quality).toBe(brewDrink("matcha", params).quality);
+    });
+  });
+
+  describe("getBeanComment", () => {
+    it("should enjoy their favourite roast and call out stale beans", () => {
+      expect(getBeanComment({ variety: BEAN_CATALOG.ethiopia_yirgacheffe, freshness: 1 }, "light"))
+        .toContain("jasmine");
+      expect(getBeanComment({ variety: BEAN_CATALOG.house_blend, freshness: 1 }, "light"))
+        .toContain("house blend");
+      expect(getBeanComment({ variety: BEAN_CATALOG.ethiopia_yirgacheffe, freshness: 0.6 }, "light"))
+        .toContain("stale");
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Bean Catalog and Freshness
+ *
+ * Each bag in the inventory is one of the catalog's beans. A bean brings:
+ * - An origin and roast level (what enthusiasts notice)
+ * - Its own cost per gram
+ * - Offsets to the recipe's ideal grind and temperature (light roasts want
+ *   finer and hotter, dark roasts coarser and cooler)
+ *
+ * Beans are at their best for two weeks after roasting, then go flat day by
+ * day, which scales the quality of every coffee brewed with them.
+ */
+
+import type { BeanStock } from "./inventory";
+import type { DrinkRecipe, DrinkType, GrindSize } from "./types";
+import { GRIND_VALUES } from "./scoring";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RoastLevel = "light" | "medium" | "dark";
+
+export interface BeanVariety {
+  id: string;
+  name: string;
+  origin: string;
+  roast: RoastLevel;
+  costPerGram: number;
+  grindOffset: number; // Steps from the recipe's ideal grind (+ finer, - coarser)
+  tempOffset: number; // °C from the recipe's ideal temperature
+  notes: string; // Tasting notes
+  decaf?: boolean;
+}
+
+export interface BeanUse {
+  variety: BeanVariety;
+  freshness: number; // 0-1 quality multiplier
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+export const BEAN_CATALOG: Record<string, BeanVariety> = {
+  house_blend: {
+    id: "house_blend",
+    name: "House Blend",
+    origin: "Brazil & Colombia",
+    roast: "medium",
+    costPerGram: 0.02,
+    grindOffset: 0,
+    tempOffset: 0,
+    notes: "chocolate and toasted nuts",
+  },
+  ethiopia_yirgacheffe: {
+    id: "ethiopia_yirgacheffe",
+    name: "Yirgacheffe",
+    origin: "Ethiopia",
+    roast: "light",
+    costPerGram: 0.034,
+    grindOffset: 1,
+    tempOffset: 2,
+    notes: "jasmine, bergamot and lemon",
+  },
+  kenya_nyeri: {
+    id: "kenya_nyeri",
+    name: "Nyeri AA",
+    origin: "Kenya",
+    roast: "light",
+    costPerGram: 0.038,
+    grindOffset: 1,
+    tempOffset: 1,
+    notes: "blackcurrant and grapefruit",
+  },
+  guatemala_huehuetenango: {
+    id: "guatemala_huehuetenango",
+    name: "Huehuetenango",
+    origin: "Guatemala",
+    roast: "medium",
+    costPerGram: 0.028,
+    grindOffset: 0,
+    tempOffset: 1,
+    notes: "brown sugar and red apple",
+  },
+  sumatra_mandheling: {
+    id: "sumatra_mandheling",
+    name: "Mandheling",
+    origin: "Sumatra",
+    roast: "dark",
+    costPerGram: 0.026,
+    grindOffset: -1,
+    tempOffset: -2,
+    notes: "cedar, dark cocoa and earth",
+  },
+  swiss_water_decaf: {
+    id: "swiss_water_decaf",
+    name: "Swiss Water Decaf",
+    origin: "Colombia",
+    roast: "medium",
+    costPerGram: 0.025,
+    grindOffset: 0,
+    tempOffset: 0,
+    notes: "caramel and malt",
+    decaf: true,
+  },
+};
+
+export const DEFAULT_BEAN_ID = "house_blend";
+export const DEFAULT_DECAF_BEAN_ID = "swiss_water_decaf";
+export const BEAN_BAG_GRAMS = 500;
+
+// Days after roasting at full flavour, then a daily fade down to a floor
+const PEAK_DAYS = 14;
+const FADE_PER_DAY = 0.01;
+const MIN_FRESHNESS = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drinks that don't taste of the beans (matcha still pulls a shot for stock, but it's tea)
+const BEANLESS_DRINKS: DrinkType[] = ["matcha"];
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Catalog entry for a bag (bags from before the catalog fall back to the house beans)
+ */
+export function getBagVariety(bag: BeanStock): BeanVariety {
+  return (bag.varietyId && BEAN_CATALOG[bag.varietyId])
+    || BEAN_CATALOG[bag.decaf ? DEFAULT_DECAF_BEAN_ID : DEFAULT_BEAN_ID];
+}
+
+/**
+ * Whether a drink's flavour depends on the beans it's brewed with
+ */
+export function usesBeans(drinkType: DrinkType): boolean {
+  return !BEANLESS_DRINKS.includes(drinkType);
+}
+
+// ============================================================================
+// FRESHNESS
+// ============================================================================
+
+/**
+ * Whole days since a bag was roasted
+ */
+export function getBeanAgeDays(roastDate: string, now: number): number {
+  return Math.max(0, Math.floor((now - new Date(roastDate).getTime()) / DAY_MS));
+}
+
+/**
+ * Quality multiplier for beans of a given age
+ */
+export function getFreshness(ageDays: number): number {
+  if (ageDays <= PEAK_DAYS) return 1;
+
+  return Math.max(MIN_FRESHNESS, Math.round((1 - (ageDays - PEAK_DAYS) * FADE_PER_DAY) * 100) / 100);
+}
+
+/**
+ * Short label for how fresh a bag is
+ */
+export function describeFreshness(ageDays: number): string {
+  if (ageDays <= PEAK_DAYS) return "fresh";
+  if (getFreshness(ageDays) > MIN_FRESHNESS) return "fading";
+  return "stale";
+}
+
+// ============================================================================
+// BREWING
+// ============================================================================
+
+/**
+ * Shift a recipe's ideal grind and temperature for a bean
+ */
+export function applyBeanToRecipe(recipe: DrinkRecipe, variety: BeanVariety): DrinkRecipe {
+  if (variety.grindOffset === 0 && variety.tempOffset === 0) return recipe;
+
+  const grinds = Object.keys(GRIND_VALUES) as GrindSize[];
+  const target = Math.max(1, Math.min(grinds.length, GRIND_VALUES[recipe.idealGrind] + variety.grindOffset));
+
+  return {
+    ...recipe,
+    idealGrind: grinds.find(grind => GRIND_VALUES[grind] === target) || recipe.idealGrind,
+    idealTemp: recipe.idealTemp + variety.tempOffset,
+  };
+}
+
+/**
+ * What a bean-savvy customer says about the coffee they were served
+ */
+export function getBeanComment(use: BeanUse, favoriteRoast?: RoastLevel): string {
+  const { variety, freshness } = use;
+
+  if (freshness <= MIN_FRESHNESS) {
+    return `These ${variety.name} beans taste stale. When were they roasted?`;
+  }
+  if (freshness < 1 - FADE_PER_DAY * 5) {
+    return `The ${variety.name} is a bit past its best, the ${variety.notes} is fading.`;
+  }
+  if (favoriteRoast && variety.roast === favoriteRoast) {
+    return `Oh, ${variety.origin} ${variety.name}! I can really taste the ${variety.notes}.`;
+  }
+  if (favoriteRoast && variety.id === DEFAULT_BEAN_ID) {
+    return `A house blend, huh? Fine, but I'd have loved a ${favoriteRoast} roast single origin.`;
+  }
+  return `Nice ${variety.roast} roast, ${variety.notes}.`;
+}
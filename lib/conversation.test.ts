@@ -0,0 +1,182 @@
+/**
+ * Tests for Counter Chats (the LLM runs offline against the stub provider)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { MAX_CHAT_EXCHANGES, addExchange, adjustSatisfaction, getConversation, reviseOrder } from "./conversation";
+import { buildTicket } from "./function-calling";
+import { createDefaultMenu } from "./menu";
+import { chatWithCustomer } from "./llm";
+import { createStubProvider } from "./llm-stub";
+import { setLLMProvider } from "./llm-provider";
+import { auditLog } from "./audit-log";
+import { createSession, dispatch } from "./session";
+import { getDefaultParameters } from "./game-engine";
+import { ManualClock } from "./random";
+import { START } from "./test-helpers";
+import type { Customer, GameState } from "./types";
+
+const sam: Customer = {
+  name: "Sam",
+  order: "A latte, please",
+  drinkType: "latte",
+  items: [{ type: "drink", sku: "latte", quantity: 1 }],
+  payment: 4.5,
+  budget: 8,
+  personality: "a cheerful nurse coming off a night shift",
+  mood: "happy",
+};
+
+// Sam at the counter on day 1, with the player's ticket started
+function atCounter(clock: ManualClock, customer: Customer = sam): GameState {
+  const state = dispatch({ ...createSession(5, clock), money: 100, activeEvent: undefined }, { type: "start_day" }, clock);
+  return dispatch({ ...state, activeEvent: undefined }, { type: "customer_arrives", customer }, clock);
+}
+
+function serve(state: GameState, clock: ManualClock): GameState {
+  while (state.customer) {
+    const drink = state.customer.drinkType;
+    state = dispatch(state, { type: "brew", params: getDefaultParameters(drink) }, clock);
+    state = dispatch(state, { type: "serve" }, clock);
+  }
+  return state;
+}
+
+describe("Counter chats", () => {
+  beforeEach(() => {
+    setLLMProvider(createStubProvider());
+    auditLog.clearLogs();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("addExchange", () => {
+    it("should build rapport from how each exchange landed, up to a point", () => {
+      let conversation = addExchange(null, sam, "t1", { said: "Morning!", reply: "Hi!", impression: "warm" }, START);
+      conversation = addExchange(conversation, sam, "t1", { said: "Hurry up", reply: "Okay...", impression: "cold" }, START);
+
+      expect(conversation.lines.map(line => line.speaker)).toEqual(["barista", "customer", "barista", "customer"]);
+      expect(conversation.rapport).toBe(-0.1);
+      expect(getConversation(conversation, "t2")).toBeNull();
+      expect(() => addExchange(conversation, sam, "t1", { said: " ", reply: "Hm?", impression: "neutral" }, START)).toThrow(
+        "A chat needs something said on both sides"
+      );
+
+      for (let i = 2; i < MAX_CHAT_EXCHANGES; i++) {
+        conversation = addExchange(conversation, sam, "t1", { said: "So...", reply: "Yes?", impression: "neutral" }, START);
+      }
+      expect(() => addExchange(conversation, sam, "t1", { said: "One more", reply: "No", impression: "neutral" }, START)).toThrow(
+        "Sam would rather you got on with their order"
+      );
+    });
+
+    it("should move satisfaction with rapport and upsells", () => {
+      expect(adjustSatisfaction(80, { rapport: 0.5, upsells: 1 })).toBe(90);
+      expect(adjustSatisfaction(95, { rapport: 1 })).toBe(100);
+      expect(adjustSatisfaction(80, {})).toBe(80);
+    });
+  });
+
+  describe("reviseOrder", () => {
+    it("should re-price the ticket and call a bigger bill an upsell", () => {
+      const ticket = buildTicket("Sam", sam.items!);
+      const revised = reviseOrder(sam, ticket, [...sam.items!, { type: "food", sku: "croissant", quantity: 1 }], { started: false });
+
+      expect(revised.ticket.id).toBe(ticket.id);
+      expect(revised.ticket.items).toHaveLength(2);
+      expect(revised.ticket.quote!.subtotal).toBeGreaterThan(ticket.quote!.subtotal);
+      expect(revised.customer.payment).toBeGreaterThan(sam.payment);
+      expect(revised.upsold).toBe(true);
+
+      const iced = reviseOrder(sam, ticket, [{ type: "drink", sku: "latte", quantity: 1, modifiers: { temp: "iced" } }], { started: false });
+      expect(iced.upsold).toBe(false);
+    });
+
+    it("should refuse changes once the order is being made, or off the menu", () => {
+      const ticket = buildTicket("Sam", sam.items!);
+      const menu = createDefaultMenu();
+      menu.food.croissant = { ...menu.food.croissant, enabled: false };
+
+      expect(() => reviseOrder(sam, ticket, sam.items!, { started: true })).toThrow("Sam's order is already being made");
+      expect(() => reviseOrder(sam, ticket, [{ type: "food", sku: "croissant", quantity: 1 }], { started: false })).toThrow(
+        "Order must include at least one drink"
+      );
+      expect(() =>
+        reviseOrder(sam, ticket, [...sam.items!, { type: "food", sku: "croissant", quantity: 1 }], { started: false, menu })
+      ).toThrow("croissant isn't on the menu");
+    });
+  });
+
+  describe("chatWithCustomer", () => {
+    it("should answer in character and change the order only through parse_order, audited", async () => {
+      const chat = await chatWithCustomer(sam, [], "Would you like a croissant with that? Thanks!");
+
+      expect(chat).toMatchObject({ reply: "Go on then, I'll have a croissant too.", impression: "warm" });
+      expect(chat.items?.map(item => item.sku)).toEqual(["latte", "croissant"]);
+      expect(auditLog.getLogs({ source: "conversation", type: "llm_call" })).toHaveLength(1);
+      expect(auditLog.getLogs({ source: "conversation", type: "tool_call" })[0].toolName).toBe("parse_order");
+
+      const smallTalk = await chatWithCustomer(sam, [], "How are you today?");
+      expect(smallTalk).toEqual({ reply: "Not bad at all, thanks for asking!", impression: "warm" });
+    });
+
+    it("should keep the reply and drop the order change when parse_order goes wrong", async () => {
+      const reply = JSON.stringify({ reply: "Oh, go on then!", impression: "warm" });
+      setLLMProvider(createStubProvider([
+        { content: reply, toolCalls: [{ name: "parse_order", arguments: { items: [] } }] },
+      ]));
+      expect(await chatWithCustomer(sam, [], "A croissant?")).toEqual({ reply: "Oh, go on then!", impression: "warm" });
+
+      setLLMProvider({
+        name: "stub",
+        model: "stub",
+        chat: async () => ({ content: reply, toolCalls: [{ name: "parse_order", arguments: "{\"items\": [" }], model: "stub" }),
+      });
+      expect(await chatWithCustomer(sam, [], "A croissant?")).toEqual({ reply: "Oh, go on then!", impression: "warm" });
+
+      const errors = auditLog.getLogs({ source: "conversation", type: "error" });
+      expect(errors.map(error => error.toolName)).toEqual(["parse_order", "parse_order"]);
+    });
+  });
+
+  describe("in a session", () => {
+    it("should turn a warm chat and an upsell into a better rating and a bigger tip", async () => {
+      // The same latte and croissant, ordered up front without a word
+      const clock = new ManualClock(START);
+      const withCroissant: Customer = { ...sam, items: [...sam.items!, { type: "food", sku: "croissant", quantity: 1 }] };
+      const quiet = serve(dispatch(atCounter(clock, withCroissant), { type: "plate_food" }, clock), clock);
+
+      let state = atCounter(new ManualClock(START));
+      const chatClock = new ManualClock(START);
+      const chat = await chatWithCustomer(state.customer!, [], "Would you like a croissant with that? Thanks!");
+      state = dispatch(state, { type: "chat", said: "Would you like a croissant with that? Thanks!", reply: chat.reply, impression: chat.impression }, chatClock);
+      state = dispatch(state, { type: "revise_order", items: chat.items! }, chatClock);
+
+      expect(state.conversation).toMatchObject({ rapport: 0.25, upsells: 1 });
+      expect(state.customer!.items).toHaveLength(2);
+
+      state = dispatch(state, { type: "plate_food" }, chatClock);
+      state = serve(state, chatClock);
+      const chatty = state.ratings!.recent.at(-1)!;
+      const plain = quiet.ratings!.recent.at(-1)!;
+
+      expect(state.conversation).toBeUndefined();
+      expect(chatty.reasons).toContain("Good suggestion");
+      expect(chatty.stars).toBeGreaterThan(plain.stars);
+      expect(chatty.tip).toBeGreaterThan(plain.tip);
+    });
+
+    it("should keep the order as it is once brewing has started", () => {
+      const clock = new ManualClock(START);
+      let state = atCounter(clock);
+      state = dispatch(state, { type: "brew", params: getDefaultParameters("latte") }, clock);
+
+      expect(() => dispatch(state, { type: "revise_order", items: sam.items! }, clock)).toThrow("Sam's order is already being made");
+      expect(() => dispatch({ ...state, customer: null }, { type: "chat", said: "Hi", reply: "Hi", impression: "warm" }, clock)).toThrow(
+        "There's no customer at the counter to chat with"
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Conversations with Customers
+ *
+ * While making up an order the player can chat with the customer at the
+ * counter: ask clarifying questions ("hot or iced?"), suggest something extra,
+ * or just make small talk. The customer answers in character through the LLM,
+ * which also says how the barista came across. Any change to the order comes
+ * back only through the parse_order tool, and is checked here before the
+ * ticket is rebuilt and re-priced.
+ *
+ * How the chat went feeds the visit: warmth moves the stars (and so the tip)
+ * and the customer's satisfaction, and an accepted upsell adds a bonus on top
+ * of the bigger bill.
+ */
+
+import type {
+  ChatImpression,
+  Conversation,
+  Customer,
+  Menu,
+} from "./types";
+import type { OrderTicket } from "./function-calling";
+import { expandLineItems } from "./function-calling";
+import { calculatePriceQuote, type OrderItem } from "./pricing";
+import { isOnMenu } from "./menu";
+import { getTicketItems } from "./ticketing";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_CHAT_LENGTH = 200;
+export const MAX_CHAT_EXCHANGES = 6; // After this they'd rather you made their order
+
+export const CHAT_IMPRESSIONS: ChatImpression[] = ["warm", "neutral", "cold"];
+
+// How far one exchange moves rapport (-1 to 1)
+const RAPPORT_SHIFT: Record<ChatImpression, number> = {
+  warm: 0.25,
+  neutral: 0,
+  cold: -0.35,
+};
+
+// Satisfaction points either way for the warmest or rudest chat, and per upsell taken
+const RAPPORT_SATISFACTION = 10;
+const UPSELL_SATISFACTION = 5;
+
+// ============================================================================
+// CHATTING
+// ============================================================================
+
+/**
+ * Tidy chat text: one line, no markup, no longer than a chat message should be
+ */
+export function sanitizeChatText(text: string): string {
+  return text
+    .replace(/[<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_CHAT_LENGTH);
+}
+
+/**
+ * The chat with a ticket's customer, if the player has started one
+ */
+export function getConversation(conversation: Conversation | undefined, ticketId: string | null | undefined): Conversation | null {
+  return conversation && conversation.ticketId === ticketId ? conversation : null;
+}
+
+/**
+ * How many times the barista has spoken
+ */
+export function getExchangeCount(conversation: Conversation | null): number {
+  return conversation ? conversation.lines.filter(line => line.speaker === "barista").length : 0;
+}
+
+/**
+ * Record one exchange: what the barista said, the customer's reply and how it landed
+ */
+export function addExchange(
+  conversation: Conversation | null,
+  customer: Customer,
+  ticketId: string,
+  exchange: { said: string; reply: string; impression: ChatImpression },
+  at: number
+): Conversation {
+  if (!CHAT_IMPRESSIONS.includes(exchange.impression)) {
+    throw new Error(`Unknown impression: ${exchange.impression}`);
+  }
+  if (getExchangeCount(conversation) >= MAX_CHAT_EXCHANGES) {
+    throw new Error(`${customer.name} would rather you got on with their order`);
+  }
+
+  const said = sanitizeChatText(exchange.said);
+  const reply = sanitizeChatText(exchange.reply);
+  if (!said || !reply) {
+    throw new Error("A chat needs something said on both sides");
+  }
+
+  const current = conversation ?? { ticketId, customerName: customer.name, lines: [], rapport: 0, upsells: 0 };
+  const rapport = Math.max(-1, Math.min(1, current.rapport + RAPPORT_SHIFT[exchange.impression]));
+
+  return {
+    ...current,
+    lines: [
+      ...current.lines,
+      { speaker: "barista", text: said, at },
+      { speaker: "customer", text: reply, at },
+    ],
+    rapport: Math.round(rapport * 100) / 100,
+  };
+}
+
+// ============================================================================
+// ORDER CHANGES
+// ============================================================================
+
+/**
+ * Rebuild a customer's order from the items they settled on in conversation
+ * Only before anything on it has been made, and only from what's on the menu
+ */
+export function reviseOrder(
+  customer: Customer,
+  ticket: OrderTicket,
+  items: OrderItem[],
+  options: { started: boolean; menu?: Menu; priceFactor?: number }
+): { customer: Customer; ticket: OrderTicket; upsold: boolean } {
+  if (options.started || getTicketItems(ticket).some(line => line.status === "completed")) {
+    throw new Error(`${customer.name}'s order is already being made`);
+  }
+
+  const firstDrink = items.find(item => item.type === "drink");
+  if (!firstDrink || firstDrink.type !== "drink") {
+    throw new Error("Order must include at least one drink");
+  }
+  const offMenu = items.find(item => !isOnMenu(options.menu, item.sku));
+  if (offMenu) {
+    throw new Error(`${offMenu.sku} isn't on the menu`);
+  }
+
+  const priceFactor = options.priceFactor ?? 1;
+  const quote = calculatePriceQuote(items, options.menu, priceFactor);
+  const previousItems = customer.items ?? [{ type: "drink" as const, sku: customer.drinkType, quantity: 1 }];
+  const previousSubtotal = ticket.quote?.subtotal ?? calculatePriceQuote(previousItems, options.menu, priceFactor).subtotal;
+
+  return {
+    customer: { ...customer, drinkType: firstDrink.sku, items, payment: quote.total },
+    ticket: {
+      ...ticket,
+      drinkType: firstDrink.sku,
+      milkType: firstDrink.modifiers?.milk,
+      items: expandLineItems(ticket.id, items),
+      quote,
+    },
+    upsold: quote.subtotal > previousSubtotal,
+  };
+}
+
+/**
+ * Count an upsell on the chat (a revision that didn't raise the bill changes nothing)
+ */
+export function recordUpsell(conversation: Conversation | null, customer: Customer, ticketId: string): Conversation {
+  const current = conversation ?? { ticketId, customerName: customer.name, lines: [], rapport: 0, upsells: 0 };
+  return { ...current, upsells: current.upsells + 1 };
+}
+
+// ============================================================================
+// EFFECTS ON THE VISIT
+// ============================================================================
+
+/**
+ * Nudge a customer's satisfaction by how the chat went
+ */
+export function adjustSatisfaction(satisfaction: number, chat: { rapport?: number; upsells?: number }): number {
+  const shift = (chat.rapport ?? 0) * RAPPORT_SATISFACTION + (chat.upsells ?? 0) * UPSELL_SATISFACTION;
+  return Math.max(0, Math.min(100, Math.round(satisfaction + shift)));
+}
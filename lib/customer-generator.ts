@@ -6,51 +6,30 @@
  * - Preferences (caffeine, sweetness, temperature)
  * - Constraints (budget, allergens, time pressure)
  * - Moods (affects dialogue and patience)
+ * - Orders (a main drink with modifiers plus optional food or a drink for a friend)
+ * - Price sensitivity (what's on the menu, and what it costs against their budget)
  */
 
-import type { DrinkType, MilkType } from "./types";
+import type { Customer, DrinkType, FoodType, Menu, MilkType } from "./types";
 import { RECIPES } from "./recipes";
-
-// ============================================================================
-// SEEDED RNG - For deterministic replay and testing
-// ============================================================================
-
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  // Linear Congruential Generator (LCG)
-  next(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
-    return this.seed / 4294967296;
-  }
-
-  // Random integer between min (inclusive) and max (exclusive)
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min)) + min;
-  }
-
-  // Pick random element from array
-  choice<T>(array: T[]): T {
-    return array[this.nextInt(0, array.length)];
-  }
-
-  // Weighted random choice
-  weightedChoice<T>(items: { item: T; weight: number }[]): T {
-    const totalWeight = items.reduce((sum, i) => sum + i.weight, 0);
-    let random = this.next() * totalWeight;
-
-    for (const { item, weight } of items) {
-      random -= weight;
-      if (random <= 0) return item;
-    }
-
-    return items[items.length - 1].item;
-  }
-}
+import {
+  calculatePriceQuote,
+  describeOrderItem,
+  type DrinkOrderItem,
+  type OrderItem,
+  type OrderModifiers,
+  type OrderSize,
+} from "./pricing";
+import { VALID_SYRUPS, supportsModifier } from "./modifiers";
+import {
+  createDefaultMenu,
+  getMenuDrinks,
+  getMenuFoods,
+  getMenuPrice,
+  getPurchaseChance,
+} from "./menu";
+import { SeededRandom } from "./random";
+import type { RoastLevel } from "./beans";
 
 // ============================================================================
 // CUSTOMER ARCHETYPES
@@ -66,6 +45,7 @@ export interface CustomerArchetype {
   budgetRange: [number, number];
   timeConstraint: "relaxed" | "normal" | "rushed";
   personalityTraits: string[];
+  favoriteRoast?: RoastLevel; // Bean-savvy customers notice and comment on the beans
 }
 
 const ARCHETYPES: CustomerArchetype[] = [
@@ -90,6 +70,7 @@ const ARCHETYPES: CustomerArchetype[] = [
     budgetRange: [4, 8],
     timeConstraint: "relaxed",
     personalityTraits: ["curious", "knowledgeable", "particular"],
+    favoriteRoast: "light",
   },
   {
     name: "The Morning Rusher",
@@ -159,6 +140,72 @@ const ARCHETYPES: CustomerArchetype[] = [
   },
 ];
 
+// How strongly each archetype follows the cafe's reputation:
+// positive seeks out a well-rated cafe, negative prefers somewhere cheap and quiet
+const REPUTATION_AFFINITY: Record<string, number> = {
+  "The Regular": 0.5,
+  "The Coffee Enthusiast": 1,
+  "The Morning Rusher": -0.3,
+  "The Student": -0.5,
+  "The Remote Worker": 0.2,
+  "The Experimenter": 0.6,
+  "The Decaf Devotee": 0,
+  "The Social Butterfly": 0.4,
+};
+
+/**
+ * Look up an archetype by name
+ */
+export function getArchetype(name: string | undefined): CustomerArchetype | undefined {
+  return ARCHETYPES.find(archetype => archetype.name === name);
+}
+
+/**
+ * Archetype weights for a cafe's reputation (0-100, 50 is an even mix)
+ */
+export function getArchetypeWeights(reputation: number): { item: CustomerArchetype; weight: number }[] {
+  const pull = (Math.max(0, Math.min(100, reputation)) - 50) / 50;
+
+  return ARCHETYPES.map(archetype => ({
+    item: archetype,
+    weight: Math.max(0.1, 1 + (REPUTATION_AFFINITY[archetype.name] ?? 0) * pull),
+  }));
+}
+
+// Foot traffic never drops below this share however pricey the menu gets
+const MIN_MENU_DEMAND = 0.2;
+const MAX_MENU_DEMAND = 1.5;
+
+/**
+ * How keen the neighbourhood is on a menu: the chance each archetype finds a
+ * drink they'd buy at their typical budget
+ */
+function getMenuAppeal(menu: Menu): number {
+  const onMenu = getMenuDrinks(menu);
+
+  const total = ARCHETYPES.reduce((sum, archetype) => {
+    const preferred = archetype.drinkPreferences.filter(drink => onMenu.includes(drink));
+    const candidates = preferred.length > 0 ? preferred : onMenu;
+    const budget = (archetype.budgetRange[0] + archetype.budgetRange[1]) / 2;
+    const best = Math.max(0, ...candidates.map(drink => getPurchaseChance(getMenuPrice(menu, drink), budget)));
+
+    // Settling for something they don't usually drink is half as appealing
+    return sum + (preferred.length > 0 ? best : best / 2);
+  }, 0);
+
+  return total / ARCHETYPES.length;
+}
+
+/**
+ * Foot traffic a menu draws relative to the standard menu (1 at standard prices)
+ */
+export function getMenuDemandMultiplier(menu?: Menu): number {
+  if (!menu) return 1;
+
+  const demand = getMenuAppeal(menu) / getMenuAppeal(createDefaultMenu());
+  return Math.max(MIN_MENU_DEMAND, Math.min(MAX_MENU_DEMAND, demand));
+}
+
 // ============================================================================
 // NAMES POOL
 // ============================================================================
@@ -195,15 +242,55 @@ const MOOD_WEIGHTS = [
   { item: "tired" as Mood, weight: 10 },
 ];
 
+// ============================================================================
+// ORDER EXTRAS
+// ============================================================================
+
+// Chance of adding a pastry, by how much time the customer has
+const FOOD_ADDON_CHANCE: Record<CustomerArchetype["timeConstraint"], number> = {
+  relaxed: 0.35,
+  normal: 0.2,
+  rushed: 0.1,
+};
+
+// Chance a relaxed customer also orders for a friend
+const COMPANION_DRINK_CHANCE = 0.1;
+
+// Simple black drinks a customer might grab for a friend (no milk decision needed)
+const COMPANION_DRINKS: DrinkType[] = ["espresso", "americano"];
+
+// Chance of each customisation on the main drink
+const MODIFIER_CHANCES = {
+  size: 0.3,
+  iced: 0.15,
+  extraShot: 0.15,
+  decaf: 0.05,
+  syrup: 0.15,
+  whippedCream: 0.1,
+};
+
+// However hot it gets, some customers still want a hot drink
+const MAX_ICED_CHANCE = 0.8;
+
+// Drinks that are never served iced or sweetened here
+const HOT_ONLY_DRINKS: DrinkType[] = ["espresso", "pourover", "aeropress"];
+
 // ============================================================================
 // CUSTOMER GENERATION
 // ============================================================================
 
+// How the day's events sway what customers order (see event-modifiers.ts)
+export interface OrderInfluences {
+  iced?: number; // Multiplies the chance of an iced drink
+  spend?: number; // Multiplies what they're willing to pay
+}
+
 export interface GeneratedCustomerProfile {
   name: string;
   archetype: CustomerArchetype;
   mood: Mood;
   drinkType: DrinkType;
+  items: OrderItem[]; // Full order, main drink first
   budget: number;
   allergens: string[];
   milkPreference?: MilkType;
@@ -213,16 +300,24 @@ export interface GeneratedCustomerProfile {
 /**
  * Generate a customer profile using seeded RNG
  * Seed can be based on timestamp, customer count, or name hash for consistency
+ * Reputation, when given, shifts which archetypes walk in
+ * The menu limits what they order, and its prices what they're willing to add
+ * Events can push them toward iced drinks or loosen their purse strings
  */
 export function generateCustomerProfile(
   seed?: number,
-  preferredDrink?: DrinkType
+  preferredDrink?: DrinkType,
+  reputation?: number,
+  menu?: Menu,
+  influences: OrderInfluences = {}
 ): GeneratedCustomerProfile {
   // Use timestamp if no seed provided
   const rng = new SeededRandom(seed ?? Date.now());
 
   // Select archetype
-  const archetype = rng.choice(ARCHETYPES);
+  const archetype = reputation === undefined
+    ? rng.choice(ARCHETYPES)
+    : rng.weightedChoice(getArchetypeWeights(reputation));
 
   // Generate name
   const name = rng.choice(FIRST_NAMES);
@@ -245,12 +340,12 @@ export function generateCustomerProfile(
     mood = rng.weightedChoice(MOOD_WEIGHTS);
   }
 
-  // Select drink based on preferences or override
-  const drinkType = preferredDrink || rng.choice(archetype.drinkPreferences);
-
   // Determine budget
   const [minBudget, maxBudget] = archetype.budgetRange;
-  const budget = rng.nextInt(minBudget, maxBudget + 1);
+  const budget = rng.nextInt(minBudget, maxBudget + 1) * (influences.spend ?? 1);
+
+  // Select drink from preferences on the menu (favouring affordable ones) or override
+  const drinkType = preferredDrink || chooseMenuDrink(rng, archetype, budget, menu);
 
   // Generate allergens
   const allergenType = rng.weightedChoice(ALLERGEN_WEIGHTS);
@@ -269,6 +364,37 @@ export function generateCustomerProfile(
     }
   }
 
+  // Build the full order (extras are rolled last so earlier fields stay stable per seed)
+  const mainDrink: DrinkOrderItem = {
+    type: "drink",
+    sku: drinkType,
+    quantity: 1,
+    modifiers: milkPreference ? { milk: milkPreference } : undefined,
+  };
+  const items: OrderItem[] = [mainDrink];
+
+  const companionDrinks = COMPANION_DRINKS.filter(drink => getMenuDrinks(menu).includes(drink));
+  if (archetype.timeConstraint === "relaxed" && companionDrinks.length > 0 && rng.next() < COMPANION_DRINK_CHANCE) {
+    const companion = rng.choice(companionDrinks);
+    if (rng.next() < getPurchaseChance(getMenuPrice(menu, companion), budget)) {
+      items.push({ type: "drink", sku: companion, quantity: 1 });
+    }
+  }
+
+  const foods = getMenuFoods(menu);
+  if (foods.length > 0 && rng.next() < FOOD_ADDON_CHANCE[archetype.timeConstraint]) {
+    const food: FoodType = rng.choice(foods);
+    const warm = rng.next() < 0.5 || undefined;
+    if (rng.next() < getPurchaseChance(getMenuPrice(menu, food), budget)) {
+      items.push({ type: "food", sku: food, quantity: 1, warm });
+    }
+  }
+
+  const modifiers = rollDrinkModifiers(rng, drinkType, allergens, influences.iced);
+  if (Object.keys(modifiers).length > 0) {
+    mainDrink.modifiers = { ...mainDrink.modifiers, ...modifiers };
+  }
+
   // Build personality description for LLM
   const personality = `${archetype.description}. Traits: ${archetype.personalityTraits.join(", ")}. ${archetype.timeConstraint === "rushed" ? "In a hurry." :
       archetype.timeConstraint === "relaxed" ? "Taking their time." : ""
@@ -279,6 +405,7 @@ export function generateCustomerProfile(
     archetype,
     mood,
     drinkType,
+    items,
     budget,
     allergens,
     milkPreference,
@@ -287,36 +414,108 @@ export function generateCustomerProfile(
 }
 
 /**
- * Calculate payment based on drink and customer budget
+ * Turn a profile into a customer with a plain-spoken order (no LLM dialogue)
  */
-export function calculatePayment(
-  drinkType: DrinkType,
-  customerBudget: number
-): number {
-  const basePayments: Record<DrinkType, number> = {
-    espresso: 3,
-    latte: 4.5,
-    cappuccino: 4.5,
-    pourover: 5,
-    aeropress: 4,
-    mocha: 5.5,
-    americano: 3.5,
-    matcha: 5.0,
+export function createCustomerFromProfile(
+  profile: GeneratedCustomerProfile,
+  order?: string,
+  menu?: Menu
+): Customer {
+  const orderSummary = profile.items.map(describeOrderItem).join(", ");
+
+  return {
+    name: profile.name,
+    order: order ?? (profile.archetype.timeConstraint === "rushed"
+      ? `${orderSummary}, fast please!`
+      : `I'd like ${orderSummary}, please.`),
+    drinkType: profile.drinkType,
+    items: profile.items,
+    payment: calculateOrderPayment(profile.items, menu),
+    personality: profile.personality,
+    mood: profile.mood,
+    budget: profile.budget,
+    allergens: profile.allergens,
+    archetype: profile.archetype.name,
   };
+}
 
-  const basePrice = basePayments[drinkType];
+/**
+ * Pick the main drink: the archetype's favourites that are on the menu, or
+ * anything on the menu if none are, weighted by how affordable each one is
+ */
+function chooseMenuDrink(
+  rng: SeededRandom,
+  archetype: CustomerArchetype,
+  budget: number,
+  menu?: Menu
+): DrinkType {
+  const onMenu = getMenuDrinks(menu);
+  const preferred = archetype.drinkPreferences.filter(drink => onMenu.includes(drink));
+  const candidates = preferred.length > 0 ? preferred : onMenu;
+
+  return rng.weightedChoice(candidates.map(drink => ({
+    item: drink,
+    weight: Math.max(0.05, getPurchaseChance(getMenuPrice(menu, drink), budget)),
+  })));
+}
 
-  // Customer might tip if they have budget headroom
-  const headroom = customerBudget - basePrice;
-  if (headroom >= 2) {
-    // Generous budget - add tip
-    return basePrice + 0.5;
-  } else if (headroom >= 1) {
-    // Some headroom - small tip
-    return basePrice + 0.25;
+/**
+ * Roll customisations for the main drink
+ */
+function rollDrinkModifiers(
+  rng: SeededRandom,
+  drinkType: DrinkType,
+  allergens: string[],
+  icedFactor = 1
+): OrderModifiers {
+  const modifiers: OrderModifiers = {};
+  const canCustomise = !HOT_ONLY_DRINKS.includes(drinkType);
+
+  if (rng.next() < MODIFIER_CHANCES.size) {
+    modifiers.size = rng.choice(["small", "large"] as OrderSize[]);
+  }
+  if (canCustomise && rng.next() < Math.min(MAX_ICED_CHANCE, MODIFIER_CHANCES.iced * icedFactor)) {
+    modifiers.temp = "iced";
+  }
+  if (supportsModifier(drinkType, "extraShot") && rng.next() < MODIFIER_CHANCES.extraShot) {
+    modifiers.extraShot = true;
+  }
+  if (supportsModifier(drinkType, "decaf") && rng.next() < MODIFIER_CHANCES.decaf) {
+    modifiers.decaf = true;
+  }
+  if (canCustomise && rng.next() < MODIFIER_CHANCES.syrup) {
+    const syrups = allergens.includes("nuts")
+      ? VALID_SYRUPS.filter(syrup => syrup !== "hazelnut")
+      : VALID_SYRUPS;
+    modifiers.syrup = rng.choice(syrups);
+  }
+  if (canCustomise && !allergens.includes("dairy") && rng.next() < MODIFIER_CHANCES.whippedCream) {
+    modifiers.whippedCream = true;
   }
 
-  return basePrice;
+  return modifiers;
+}
+
+/**
+ * Calculate payment for a full order: exactly the quoted total
+ * Tips are worked out from the rating once they've been served (see calculateTip)
+ */
+export function calculateOrderPayment(
+  items: OrderItem[],
+  menu?: Menu,
+  priceFactor = 1
+): number {
+  return calculatePriceQuote(items, menu, priceFactor).total;
+}
+
+/**
+ * Calculate payment for a single drink
+ */
+export function calculatePayment(
+  drinkType: DrinkType,
+  menu?: Menu
+): number {
+  return calculateOrderPayment([{ type: "drink", sku: drinkType, quantity: 1 }], menu);
 }
 
 /**
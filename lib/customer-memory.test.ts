@@ -8,12 +8,25 @@ import {
   getCustomer,
   isReturningCustomer,
   recordVisit,
+  noteWalkOut,
   addNote,
   getFavoriteDrink,
   getRegularCustomers,
   getCustomerInsights,
   calculateReturningRate,
   getMemoryStats,
+  MAX_NOTES,
+  recallCustomer,
+  describeRecollection,
+  rememberFact,
+  MAX_RAW_VISITS,
+  KEEP_RAW_VISITS,
+  condenseProfile,
+  condenseMemory,
+  getCustomerDigest,
+  getPendingSummaries,
+  setCustomerSummary,
+  writeTemplateSummary,
 } from "./customer-memory";
 
 describe("Customer Memory System", () => {
@@ -259,6 +272,23 @@ describe("Customer Memory System", () => {
     });
   });
 
+  describe("noteWalkOut", () => {
+    it("should count walk-outs on a known customer's profile", () => {
+      let state = recordVisit(createMemoryState(), "Quinn", {
+        drinkOrdered: "latte",
+        quality: 80,
+        satisfaction: 80,
+        payment: 4.5,
+      });
+
+      state = noteWalkOut(noteWalkOut(state, "Quinn"), "Quinn");
+
+      expect(getCustomer(state, "Quinn")!.walkOuts).toBe(2);
+      expect(getCustomer(state, "Quinn")!.visitCount).toBe(1);
+      expect(noteWalkOut(state, "Unknown")).toBe(state);
+    });
+  });
+
   describe("getRegularCustomers", () => {
     it("should return only regular and favorite customers", () => {
       let state = createMemoryState();
@@ -406,4 +436,129 @@ describe("Customer Memory System", () => {
       expect(stats.averageSatisfaction).toBeGreaterThan(0);
     });
   });
+
+  describe("recall & remember", () => {
+    it("should recall the relationship, the last order's weekday and what was said", () => {
+      let state = createMemoryState();
+      for (const day of [1, 2]) {
+        state = recordVisit(state, "Rowan", {
+          drinkOrdered: "latte",
+          day,
+          milkType: "oat",
+          quality: 80,
+          satisfaction: 85,
+          payment: 4.5,
+        });
+      }
+      state = rememberFact(state, "Rowan", "Training for a marathon");
+
+      const recollection = recallCustomer(state, "Rowan")!;
+      expect(recollection).toMatchObject({
+        relationshipLevel: "newcomer",
+        visitCount: 2,
+        lastOrder: { drink: "latte", weekday: "Tuesday" },
+        favoriteDrink: "latte",
+        preferredMilk: "oat",
+        notes: ["Training for a marathon"],
+      });
+      expect(describeRecollection(recollection)).toContain("Last order: latte on Tuesday");
+      expect(describeRecollection(recollection)).toContain("Told the barista: Training for a marathon");
+      expect(recallCustomer(state, "Nobody")).toBeNull();
+    });
+
+    it("should remember each fact once and forget the oldest first", () => {
+      let state = recordVisit(createMemoryState(), "Rowan", {
+        drinkOrdered: "espresso",
+        quality: 80,
+        satisfaction: 85,
+        payment: 3.0,
+      });
+
+      state = rememberFact(state, "Rowan", "  Has a new <b>puppy</b> ");
+      state = rememberFact(state, "Rowan", "has a new bpuppy/b");
+      expect(getCustomer(state, "Rowan")!.notes).toEqual(["Has a new bpuppy/b"]);
+
+      for (let i = 1; i <= MAX_NOTES; i++) {
+        state = rememberFact(state, "Rowan", `Fact ${i}`);
+      }
+      expect(getCustomer(state, "Rowan")!.notes).toHaveLength(MAX_NOTES);
+      expect(getCustomer(state, "Rowan")!.notes[0]).toBe("Fact 1");
+      expect(rememberFact(state, "Unknown", "Anything")).toBe(state);
+    });
+  });
+
+  describe("nightly summaries", () => {
+    function visitMany(state: ReturnType<typeof createMemoryState>, count: number) {
+      for (let i = 0; i < count; i++) {
+        state = recordVisit(state, "Morgan", {
+          drinkOrdered: i % 4 === 0 ? "cappuccino" : "latte",
+          day: i + 1,
+          milkType: i % 3 === 0 ? "whole" : "oat",
+          quality: 80,
+          satisfaction: i % 2 === 0 ? 90 : 80,
+          payment: 4.5,
+          tip: 1,
+        });
+      }
+      return state;
+    }
+
+    it("should condense old visits without changing what the profile adds up to", () => {
+      const state = visitMany(createMemoryState(), MAX_RAW_VISITS + 1);
+      const before = getCustomer(state, "Morgan")!;
+      const after = condenseProfile(before);
+
+      expect(after.visits).toHaveLength(KEEP_RAW_VISITS);
+      expect(after.condensed!.count).toBe(MAX_RAW_VISITS + 1 - KEEP_RAW_VISITS);
+      expect(getCustomerDigest(after)).toEqual(getCustomerDigest(before));
+      expect(after.summary).toEqual({
+        text: "Came in 21 times, mostly for latte (15 times) with oat milk. Usually delighted with their drinks and tips well.",
+        visits: 21,
+        written: false,
+      });
+      expect(condenseProfile(after)).toBe(after);
+    });
+
+    it("should keep averages and preferences right as visits pile up after condensing", () => {
+      let condensed = createMemoryState();
+      const uncondensed = visitMany(createMemoryState(), 200);
+      for (let i = 0; i < 20; i++) {
+        condensed = condenseMemory(visitMany(condensed, 10));
+      }
+      const profile = getCustomer(condensed, "Morgan")!;
+
+      expect(profile.visits.length).toBeLessThanOrEqual(MAX_RAW_VISITS);
+      expect(profile.visitCount).toBe(200);
+      expect(profile.averageSatisfaction).toBeCloseTo(getCustomer(uncondensed, "Morgan")!.averageSatisfaction);
+      expect(profile.preferences.preferredMilk).toBe("oat");
+    });
+
+    it("should take the LLM's summary once, and leave the template's until then", () => {
+      const state = condenseMemory(visitMany(createMemoryState(), MAX_RAW_VISITS + 1));
+      expect(getPendingSummaries(state).map(profile => profile.name)).toEqual(["Morgan"]);
+
+      const written = setCustomerSummary(state, "Morgan", "  A <i>latte</i> regular who tips well. ");
+      expect(getCustomer(written, "Morgan")!.summary).toMatchObject({ text: "A ilatte/i regular who tips well.", written: true });
+      expect(getPendingSummaries(written)).toHaveLength(0);
+      expect(recallCustomer(written, "Morgan")!.summary).toBe("A ilatte/i regular who tips well.");
+      expect(getCustomerDigest(getCustomer(written, "Morgan")!).previousSummary).toBe("A ilatte/i regular who tips well.");
+
+      expect(() => setCustomerSummary(written, "Morgan", "Again")).toThrow("Morgan's summary has already been written");
+      expect(() => setCustomerSummary(state, "Nobody", "Hello")).toThrow("No summary to write for Nobody");
+      expect(() => setCustomerSummary(state, "Morgan", " ")).toThrow("A summary needs some words");
+    });
+
+    it("should mention walk-outs and unhappy visits in the template", () => {
+      expect(writeTemplateSummary({
+        name: "Pat",
+        relationshipLevel: "familiar",
+        visitCount: 4,
+        topDrinks: [],
+        averageSatisfaction: 40,
+        averageTip: 0,
+        walkOuts: 2,
+        notes: [],
+      })).toBe("Came in 4 times. Often let down by their drinks. Has walked out 2 times while waiting.");
+    });
+  });
 });
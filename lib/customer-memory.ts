@@ -7,9 +7,13 @@
  * - Personalized service based on history
  * - Relationship progression (stranger → regular)
  * - Preference learning
+ * - Recollections the customer agents recall, and facts they ask to be remembered
+ * - Nightly condensing of old visits into aggregates and a short summary
  */
 
 import type { DrinkType, MilkType } from "./types";
+import { systemClock, type Clock } from "./random";
+import { getDayOfWeek } from "./time-system";
 
 // ============================================================================
 // TYPES
@@ -19,6 +23,7 @@ export type RelationshipLevel = "stranger" | "newcomer" | "familiar" | "regular"
 
 export interface CustomerVisit {
   date: number;
+  day?: number; // Game day, so the customer can remember which weekday it was
   drinkOrdered: DrinkType;
   milkType?: MilkType;
   quality: number;
@@ -45,6 +50,29 @@ export interface CustomerProfile {
   totalSpent: number;
   averageSatisfaction: number;
   notes: string[];
+  walkOuts?: number; // Visits they gave up waiting on
+  condensed?: CondensedVisits; // Visits rolled out of `visits` at the end of a day
+  summary?: CustomerSummary;
+}
+
+/**
+ * Running totals for visits that are no longer kept one by one
+ */
+export interface CondensedVisits {
+  count: number;
+  totalQuality: number;
+  totalSatisfaction: number;
+  totalTips: number;
+  milkCounts: Partial<Record<MilkType, number>>;
+}
+
+/**
+ * A few sentences on a customer's history: the template's until the LLM writes one
+ */
+export interface CustomerSummary {
+  text: string;
+  visits: number; // Visit count when it was written
+  written: boolean; // Written by the LLM rather than the template
 }
 
 export interface CustomerMemoryState {
@@ -53,10 +81,48 @@ export interface CustomerMemoryState {
   returningCustomerRate: number;
 }
 
+/**
+ * What a customer remembers of the café: plain data that can go to the server
+ */
+export interface CustomerRecollection {
+  name: string;
+  relationshipLevel: RelationshipLevel;
+  visitCount: number;
+  lastOrder?: { drink: DrinkType; weekday?: string };
+  favoriteDrink?: DrinkType;
+  preferredMilk?: MilkType;
+  notes: string[];
+  summary?: string;
+}
+
+/**
+ * The facts a history summary is written from, as plain data
+ */
+export interface CustomerDigest {
+  name: string;
+  relationshipLevel: RelationshipLevel;
+  visitCount: number;
+  topDrinks: { drink: DrinkType; count: number }[]; // Most ordered first
+  preferredMilk?: MilkType;
+  averageSatisfaction: number;
+  averageTip: number;
+  walkOuts: number;
+  notes: string[];
+  previousSummary?: string; // The last summary the LLM wrote
+}
+
 // ============================================================================
 // RELATIONSHIP LEVELS
 // ============================================================================
 
+export const MAX_NOTES = 5; // Oldest facts are forgotten first
+export const MAX_NOTE_LENGTH = 120;
+
+// Raw visits build up to MAX_RAW_VISITS, then all but the latest KEEP_RAW_VISITS are condensed overnight
+export const MAX_RAW_VISITS = 20;
+export const KEEP_RAW_VISITS = 10;
+export const MAX_SUMMARY_LENGTH = 280;
+
 const RELATIONSHIP_THRESHOLDS = {
   stranger: 0,
   newcomer: 1,
@@ -116,19 +182,22 @@ export function recordVisit(
   customerName: string,
   visit: {
     drinkOrdered: DrinkType;
+    day?: number;
     milkType?: MilkType;
     quality: number;
     satisfaction: number;
     payment: number;
     tip?: number;
     allergens?: string[];
-  }
+  },
+  clock: Clock = systemClock
 ): CustomerMemoryState {
   const existingCustomer = state.customers.get(customerName);
-  const now = Date.now();
+  const now = clock.now();
 
   const newVisit: CustomerVisit = {
     date: now,
+    ...(visit.day !== undefined ? { day: visit.day } : {}),
     drinkOrdered: visit.drinkOrdered,
     milkType: visit.milkType,
     quality: visit.quality,
@@ -140,7 +209,7 @@ export function recordVisit(
   if (existingCustomer) {
     // Update existing customer
     const visits = [...existingCustomer.visits, newVisit];
-    const visitCount = visits.length;
+    const visitCount = existingCustomer.visitCount + 1;
     const totalSpent = existingCustomer.totalSpent + visit.payment;
 
     // Update drink preferences
@@ -150,14 +219,17 @@ export function recordVisit(
       (favoriteDrinks.get(visit.drinkOrdered) || 0) + 1
     );
 
-    // Calculate average satisfaction
-    const totalSatisfaction = visits.reduce((sum, v) => sum + v.satisfaction, 0);
-    const averageSatisfaction = totalSatisfaction / visits.length;
+    // Calculate average satisfaction (condensed visits count too)
+    const condensed = existingCustomer.condensed;
+    const totalSatisfaction = visits.reduce((sum, v) => sum + v.satisfaction, condensed?.totalSatisfaction || 0);
+    const averageSatisfaction = totalSatisfaction / visitCount;
 
     // Determine preferred milk (most ordered)
     let preferredMilk = existingCustomer.preferences.preferredMilk;
     if (visit.milkType) {
-      const milkCounts = new Map<MilkType, number>();
+      const milkCounts = new Map<MilkType, number>(
+        Object.entries(condensed?.milkCounts || {}) as [MilkType, number][]
+      );
       visits.forEach(v => {
         if (v.milkType) {
           milkCounts.set(v.milkType, (milkCounts.get(v.milkType) || 0) + 1);
@@ -230,6 +302,29 @@ export function recordVisit(
   }
 }
 
+/**
+ * Remember that a customer walked out before being served
+ * Only customers we've served before have a profile to remember it on
+ */
+export function noteWalkOut(
+  state: CustomerMemoryState,
+  customerName: string
+): CustomerMemoryState {
+  const customer = state.customers.get(customerName);
+  if (!customer) return state;
+
+  const newCustomers = new Map(state.customers);
+  newCustomers.set(customerName, {
+    ...customer,
+    walkOuts: (customer.walkOuts || 0) + 1,
+  });
+
+  return {
+    ...state,
+    customers: newCustomers,
+  };
+}
+
 /**
  * Add a note to customer profile
  */
@@ -312,9 +407,283 @@ export function getCustomerInsights(profile: CustomerProfile): string {
     parts.push(`allergic to: ${profile.preferences.allergens.join(", ")}`);
   }
 
+  if (profile.notes.length > 0) {
+    parts.push(`mentioned: ${profile.notes.join("; ")}`);
+  }
+
   return parts.join(" • ");
 }
 
+// ============================================================================
+// RECALL & REMEMBER
+// ============================================================================
+
+// How a customer at each level greets the barista
+const RELATIONSHIP_GREETINGS: Record<RelationshipLevel, string> = {
+  stranger: "You've been in once before, but the barista may not remember you",
+  newcomer: "You've been in a few times; the barista might recognise you",
+  familiar: "You're becoming a familiar face; greet the barista like someone you've chatted with before",
+  regular: "You're a regular; greet the barista warmly, like you do most days",
+  favorite: "You're one of the café's favourite regulars; greet the barista like an old friend",
+};
+
+/**
+ * What a customer remembers of their visits, or null if they've never been served
+ */
+export function recallCustomer(
+  state: CustomerMemoryState,
+  name: string
+): CustomerRecollection | null {
+  const profile = state.customers.get(name);
+  if (!profile) return null;
+
+  const lastVisit = profile.visits[profile.visits.length - 1];
+  const favoriteDrink = getFavoriteDrink(profile);
+
+  return {
+    name: profile.name,
+    relationshipLevel: profile.relationshipLevel,
+    visitCount: profile.visitCount,
+    ...(lastVisit ? {
+      lastOrder: {
+        drink: lastVisit.drinkOrdered,
+        ...(lastVisit.day !== undefined ? { weekday: getDayOfWeek(lastVisit.day) } : {}),
+      },
+    } : {}),
+    ...(favoriteDrink ? { favoriteDrink } : {}),
+    ...(profile.preferences.preferredMilk ? { preferredMilk: profile.preferences.preferredMilk } : {}),
+    notes: [...profile.notes],
+    ...(profile.summary ? { summary: profile.summary.text } : {}),
+  };
+}
+
+/**
+ * Recollections for every customer the café has served
+ */
+export function getRecollections(state: CustomerMemoryState): CustomerRecollection[] {
+  return Array.from(state.customers.keys()).map(name => recallCustomer(state, name)!);
+}
+
+/**
+ * Put a recollection into words for the customer's prompt
+ */
+export function describeRecollection(recollection: CustomerRecollection): string {
+  const { lastOrder } = recollection;
+  const usual = recollection.favoriteDrink
+    ? `${recollection.favoriteDrink}${recollection.preferredMilk ? ` with ${recollection.preferredMilk} milk` : ""}`
+    : undefined;
+
+  return [
+    `Relationship: ${recollection.relationshipLevel} (${recollection.visitCount} ${recollection.visitCount === 1 ? "visit" : "visits"})`,
+    RELATIONSHIP_GREETINGS[recollection.relationshipLevel],
+    lastOrder && `Last order: ${lastOrder.drink}${lastOrder.weekday ? ` on ${lastOrder.weekday}` : ""}`,
+    usual && `Usually orders: ${usual}`,
+    recollection.notes.length > 0 && `Told the barista: ${recollection.notes.join("; ")}`,
+    recollection.summary && `Your history here: ${recollection.summary}`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * Tidy a remembered fact: one line, no markup, short enough to keep
+ */
+export function sanitizeNote(note: string): string {
+  return note
+    .replace(/[<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_NOTE_LENGTH);
+}
+
+/**
+ * Note a fact a customer told the barista, once, keeping only the latest few
+ */
+export function rememberFact(
+  state: CustomerMemoryState,
+  customerName: string,
+  fact: string
+): CustomerMemoryState {
+  const customer = state.customers.get(customerName);
+  const note = sanitizeNote(fact);
+  if (!customer || !note) return state;
+  if (customer.notes.some(existing => existing.toLowerCase() === note.toLowerCase())) return state;
+
+  const newCustomers = new Map(state.customers);
+  newCustomers.set(customerName, {
+    ...customer,
+    notes: [...customer.notes, note].slice(-MAX_NOTES),
+  });
+
+  return {
+    ...state,
+    customers: newCustomers,
+  };
+}
+
+// ============================================================================
+// NIGHTLY SUMMARIES
+// ============================================================================
+
+/**
+ * The facts about a customer's whole history, condensed visits included
+ */
+export function getCustomerDigest(profile: CustomerProfile): CustomerDigest {
+  const totalTips = profile.visits.reduce((sum, v) => sum + (v.tip || 0), profile.condensed?.totalTips || 0);
+  const topDrinks = Array.from(profile.preferences.favoriteDrinks.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([drink, count]) => ({ drink, count }));
+
+  return {
+    name: profile.name,
+    relationshipLevel: profile.relationshipLevel,
+    visitCount: profile.visitCount,
+    topDrinks,
+    ...(profile.preferences.preferredMilk ? { preferredMilk: profile.preferences.preferredMilk } : {}),
+    averageSatisfaction: Math.round(profile.averageSatisfaction),
+    averageTip: profile.visitCount > 0 ? Number((totalTips / profile.visitCount).toFixed(2)) : 0,
+    walkOuts: profile.walkOuts || 0,
+    notes: [...profile.notes],
+    ...(profile.summary?.written ? { previousSummary: profile.summary.text } : {}),
+  };
+}
+
+/**
+ * Put a digest into lines for the LLM to summarize
+ */
+export function describeDigest(digest: CustomerDigest): string {
+  return [
+    `Customer: ${digest.name} (${digest.relationshipLevel}, ${digest.visitCount} visits)`,
+    digest.topDrinks.length > 0 && `Orders: ${digest.topDrinks.map(({ drink, count }) => `${drink} x${count}`).join(", ")}`,
+    digest.preferredMilk && `Milk: ${digest.preferredMilk}`,
+    `Average satisfaction: ${digest.averageSatisfaction}/100`,
+    `Average tip: $${digest.averageTip.toFixed(2)}`,
+    digest.walkOuts > 0 && `Walked out while waiting: ${digest.walkOuts} times`,
+    digest.notes.length > 0 && `Mentioned: ${digest.notes.join("; ")}`,
+    digest.previousSummary && `Previous summary: ${digest.previousSummary}`,
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * A plain summary of a customer's history, used until (or unless) the LLM writes one
+ */
+export function writeTemplateSummary(digest: CustomerDigest): string {
+  const [top] = digest.topDrinks;
+  const orders = top
+    ? `, mostly for ${top.drink} (${top.count} times)${digest.preferredMilk ? ` with ${digest.preferredMilk} milk` : ""}`
+    : "";
+
+  const feeling =
+    digest.averageSatisfaction >= 85 ? "Usually delighted with their drinks" :
+    digest.averageSatisfaction >= 70 ? "Usually happy with their drinks" :
+    digest.averageSatisfaction >= 55 ? "Has mixed feelings about their drinks" :
+    "Often let down by their drinks";
+  const tipping = digest.averageTip >= 1 ? " and tips well" : "";
+  const walkOuts = digest.walkOuts > 0
+    ? ` Has walked out ${digest.walkOuts === 1 ? "once" : `${digest.walkOuts} times`} while waiting.`
+    : "";
+
+  return sanitizeSummary(`Came in ${digest.visitCount} times${orders}. ${feeling}${tipping}.${walkOuts}`);
+}
+
+/**
+ * Tidy a summary: one line, no markup, no longer than a summary should be
+ */
+export function sanitizeSummary(text: string): string {
+  return text
+    .replace(/[<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_SUMMARY_LENGTH);
+}
+
+/**
+ * Roll all but the latest visits into running totals, with a fresh template summary
+ * Profiles under MAX_RAW_VISITS are left as they are
+ */
+export function condenseProfile(profile: CustomerProfile): CustomerProfile {
+  if (profile.visits.length <= MAX_RAW_VISITS) return profile;
+
+  const condensed = profile.visits.slice(0, -KEEP_RAW_VISITS).reduce<CondensedVisits>(
+    (totals, visit) => ({
+      count: totals.count + 1,
+      totalQuality: totals.totalQuality + visit.quality,
+      totalSatisfaction: totals.totalSatisfaction + visit.satisfaction,
+      totalTips: totals.totalTips + (visit.tip || 0),
+      milkCounts: visit.milkType
+        ? { ...totals.milkCounts, [visit.milkType]: (totals.milkCounts[visit.milkType] || 0) + 1 }
+        : totals.milkCounts,
+    }),
+    profile.condensed || { count: 0, totalQuality: 0, totalSatisfaction: 0, totalTips: 0, milkCounts: {} }
+  );
+  const condensedProfile = { ...profile, visits: profile.visits.slice(-KEEP_RAW_VISITS), condensed };
+
+  return {
+    ...condensedProfile,
+    summary: {
+      text: writeTemplateSummary(getCustomerDigest(condensedProfile)),
+      visits: profile.visitCount,
+      written: false,
+    },
+  };
+}
+
+/**
+ * The end-of-day job: condense every customer whose visit history has grown too long
+ */
+export function condenseMemory(state: CustomerMemoryState): CustomerMemoryState {
+  let newCustomers: Map<string, CustomerProfile> | null = null;
+
+  for (const [name, profile] of state.customers) {
+    const condensed = condenseProfile(profile);
+    if (condensed !== profile) {
+      newCustomers = newCustomers || new Map(state.customers);
+      newCustomers.set(name, condensed);
+    }
+  }
+
+  return newCustomers ? { ...state, customers: newCustomers } : state;
+}
+
+/**
+ * Customers whose summary is still the template's, waiting on the LLM
+ */
+export function getPendingSummaries(state: CustomerMemoryState): CustomerProfile[] {
+  return Array.from(state.customers.values()).filter(profile => profile.summary && !profile.summary.written);
+}
+
+/**
+ * Replace a template summary with the one the LLM wrote
+ */
+export function setCustomerSummary(
+  state: CustomerMemoryState,
+  customerName: string,
+  text: string
+): CustomerMemoryState {
+  const customer = state.customers.get(customerName);
+  if (!customer?.summary) {
+    throw new Error(`No summary to write for ${customerName}`);
+  }
+  if (customer.summary.written) {
+    throw new Error(`${customerName}'s summary has already been written`);
+  }
+
+  const summary = sanitizeSummary(text);
+  if (!summary) {
+    throw new Error("A summary needs some words");
+  }
+
+  const newCustomers = new Map(state.customers);
+  newCustomers.set(customerName, {
+    ...customer,
+    summary: { ...customer.summary, text: summary, written: true },
+  });
+
+  return {
+    ...state,
+    customers: newCustomers,
+  };
+}
+
 /**
  * Calculate returning customer rate
  */
@@ -9,13 +9,17 @@ import {
   endService,
   startNewDay,
   recordCustomer,
+  recordWalkOut,
   getRestockCost,
   restockInventory,
   getDaySummary,
+  getProfitAndLoss,
+  recordTransaction,
   getPerformanceEmoji,
   getPerformanceDescription,
 } from "./day-structure";
 import { createInventory } from "./inventory";
+import { ManualClock } from "./random";
 
 describe("Day Structure System", () => {
   describe("createDayState", () => {
@@ -110,6 +114,23 @@ describe("Day Structure System", () => {
       expect(updatedState.stats.drinksBrewedByType["latte"]).toBe(1);
     });
 
+    it("should count every drink on a multi-item order", () => {
+      const serviceState = startService(createDayState());
+
+      const updatedState = recordCustomer(serviceState, {
+        earnings: 9.5,
+        quality: 80,
+        isReturning: false,
+        isRegular: false,
+        drinkType: "latte",
+        drinkTypes: ["latte", "espresso", "espresso"],
+      });
+
+      expect(updatedState.stats.customersServed).toBe(1);
+      expect(updatedState.stats.drinksBrewedByType["latte"]).toBe(1);
+      expect(updatedState.stats.drinksBrewedByType["espresso"]).toBe(2);
+    });
+
     it("should track returning customers", () => {
       const state = createDayState();
       const serviceState = startService(state);
@@ -180,25 +201,79 @@ describe("Day Structure System", () => {
       expect(serviceState.stats.drinksBrewedByType["latte"]).toBe(2);
       expect(serviceState.stats.drinksBrewedByType["espresso"]).toBe(1);
     });
+
+    it("should count walk-outs separately from customers served", () => {
+      const state = recordWalkOut(recordWalkOut(startService(createDayState())));
+
+      expect(state.stats.walkOuts).toBe(2);
+      expect(state.stats.customersServed).toBe(0);
+      expect(getDaySummary(state).walkOuts).toBe(2);
+    });
   });
 
   describe("inventory management", () => {
-    it("should calculate restock cost based on day number", () => {
-      expect(getRestockCost(1)).toBe(50);
-      expect(getRestockCost(2)).toBe(55);
-      expect(getRestockCost(5)).toBe(70);
+    it("should calculate restock cost based on day number, with the extras at cost", () => {
+      // Six of each pastry (27.60), 250g of decaf (6.25) and 250ml of each syrup (9.00)
+      expect(getRestockCost(1)).toBe(92.85);
+      expect(getRestockCost(2)).toBe(97.85);
+      expect(getRestockCost(5)).toBe(112.85);
     });
 
-    it("should restock beans and milk", () => {
+    it("should restock beans, decaf, syrups and milk", () => {
       const inventory = createInventory();
-      const originalBeans = inventory.beans[0].grams;
       const originalWholeMilk = inventory.milks.whole;
 
       const restocked = restockInventory(inventory, 1);
 
-      expect(restocked.beans[0].grams).toBe(originalBeans + 500);
+      expect(restocked.beans.slice(-2)).toMatchObject([
+        { name: "House Blend", grams: 500, varietyId: "house_blend" },
+        { name: "Swiss Water Decaf", grams: 250, varietyId: "swiss_water_decaf", decaf: true },
+      ]);
+      expect(restocked.syrups).toEqual({ vanilla: 750, caramel: 750, hazelnut: 500 });
       expect(restocked.milks.whole).toBe(originalWholeMilk + 2000);
     });
+
+    it("should bring beans in as a new bag and leave the old one as stale as it was", () => {
+      const start = Date.UTC(2025, 0, 6, 8, 0, 0);
+      const inventory = createInventory(new ManualClock(start));
+      const later = new ManualClock(start + 20 * 24 * 60 * 60 * 1000);
+
+      const restocked = restockInventory(inventory, 21, later);
+
+      expect(restocked.beans[0]).toEqual(inventory.beans[0]);
+      expect(restocked.beans.at(-2)).toMatchObject({
+        grams: 500,
+        roastDate: new Date(later.now()).toISOString(),
+        varietyId: "house_blend",
+      });
+    });
+
+    it("should restock the house beans once their bag is used up, or every bag is", () => {
+      const inventory = createInventory();
+      const decafOnly = { ...inventory, beans: inventory.beans.filter(bag => bag.decaf) };
+      const noBeans = { ...inventory, beans: [] };
+
+      const houseBags = (restocked: typeof inventory) =>
+        restocked.beans.filter(bag => bag.varietyId === "house_blend").map(bag => bag.grams);
+      expect(houseBags(restockInventory(decafOnly, 4))).toEqual([500]);
+      expect(houseBags(restockInventory(noBeans, 4))).toEqual([500]);
+      expect(restockInventory(noBeans, 4).beans.filter(bag => bag.decaf)).toHaveLength(1);
+    });
+
+    it("should deliver fresh batches of milk and pastries", () => {
+      const start = Date.UTC(2025, 0, 6, 8, 0, 0);
+      const inventory = createInventory(new ManualClock(start));
+      const delivery = new Date(start + 24 * 60 * 60 * 1000).toISOString();
+
+      const restocked = restockInventory(inventory, 2, new ManualClock(start + 24 * 60 * 60 * 1000));
+
+      expect(restocked.food.croissant).toBe(inventory.food.croissant + 6);
+      expect(restocked.foodBatches?.croissant.map(batch => batch.receivedDate)).toEqual([
+        new Date(start).toISOString(),
+        delivery,
+      ]);
+      expect(restocked.milkBatches?.oat?.[1]).toMatchObject({ amount: 2000, receivedDate: delivery });
+    });
   });
 
   describe("day summary", () => {
@@ -347,6 +422,69 @@ describe("Day Structure System", () => {
     });
   });
 
+  describe("profit and loss", () => {
+    it("should accumulate transactions by account", () => {
+      let state = startService(createDayState());
+      state = recordTransaction(state, "cogs", 0.65);
+      state = recordTransaction(state, "cogs", 0.36);
+      state = recordTransaction(state, "rent", 50);
+
+      expect(state.stats.cogs).toBe(1.01);
+      expect(state.stats.rent).toBe(50);
+    });
+
+    it("should keep tax out of revenue and take costs from profit", () => {
+      let state = startService(createDayState());
+      state = recordCustomer(state, {
+        earnings: 10.8,
+        quality: 80,
+        isReturning: false,
+        isRegular: false,
+        drinkType: "latte",
+        tax: 0.8,
+      });
+      state = recordTransaction(state, "cogs", 2);
+      state = recordTransaction(state, "restockSpend", 30);
+      state = recordTransaction(state, "rent", 5);
+      state = recordTransaction(state, "eventMoney", 1);
+
+      const pnl = getProfitAndLoss(state.stats, 1.5);
+
+      expect(pnl.revenue).toBe(10);
+      expect(pnl.taxCollected).toBe(0.8);
+      expect(pnl.grossProfit).toBe(8);
+      expect(pnl.restockSpend).toBe(30);
+      expect(pnl.net).toBe(2.5); // 8 - 5 rent - 1.5 depreciation + 1 event
+    });
+
+    it("should take spoiled stock off the net", () => {
+      const state = recordTransaction(createDayState(), "waste", 3.5);
+
+      const pnl = getProfitAndLoss(state.stats);
+
+      expect(pnl.waste).toBe(3.5);
+      expect(pnl.grossProfit).toBe(0);
+      expect(pnl.net).toBe(-3.5);
+    });
+
+    it("should book staff wages at close and take them off the net", () => {
+      const state = endService(startService(createDayState()), undefined, 90);
+
+      const pnl = getProfitAndLoss(state.stats);
+
+      expect(state.stats.wages).toBe(90);
+      expect(pnl.wages).toBe(90);
+      expect(pnl.net).toBe(-90);
+    });
+
+    it("should include the P&L in the day summary", () => {
+      const summary = getDaySummary(endService(startService(createDayState())), 2);
+
+      expect(summary.profitAndLoss.depreciation).toBe(2);
+      expect(summary.profitAndLoss.net).toBe(-2);
+    });
+  });
+
   describe("performance helpers", () => {
     it("should get performance emoji", () => {
       expect(getPerformanceEmoji("excellent")).toBe("⭐");
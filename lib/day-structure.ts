@@ -7,7 +7,11 @@
  * - Debrief: End of day review and earnings
  */
 
-import type { Inventory } from "./types";
+import type { FoodType, Inventory, MilkType } from "./types";
+import { addStock, getFoodCost, UNIT_COSTS } from "./inventory";
+import { DEFAULT_BEAN_ID, DEFAULT_DECAF_BEAN_ID } from "./beans";
+import { VALID_SYRUPS } from "./modifiers";
+import { systemClock, type Clock } from "./random";
 
 // ============================================================================
 // TYPES
@@ -24,8 +28,20 @@ export interface DayStats {
   newCustomers: number;
   regularCustomers: number;
   drinksBrewedByType: Record<string, number>;
+  walkOuts?: number; // Customers who gave up waiting
+  // Accounting (optional so saves from before the P&L still load)
+  taxCollected?: number;
+  cogs?: number; // Ingredients used
+  restockSpend?: number;
+  waste?: number; // Stock that spoiled before it was used
+  wages?: number; // Paid to staff at close
+  training?: number; // Barista training courses
+  rent?: number;
+  eventMoney?: number; // Net money from other events
 }
 
+export type DayAccount = "cogs" | "restockSpend" | "waste" | "wages" | "training" | "rent" | "eventMoney";
+
 export interface DayState {
   dayNumber: number;
   phase: DayPhase;
@@ -42,6 +58,18 @@ export interface DayState {
 const DEFAULT_TARGET_CUSTOMERS = 20;
 const BASE_RESTOCK_AMOUNT = 500; // grams of beans
 const BASE_MILK_RESTOCK = 2000; // ml per type
+const BASE_FOOD_RESTOCK = 6; // of each pastry
+const BASE_DECAF_RESTOCK = 250; // grams of decaf beans
+const BASE_SYRUP_RESTOCK = 250; // ml per flavour
+
+// Pastries, decaf and syrups come on top of the base fee, at cost
+const EXTRAS_RESTOCK_COST =
+  (Object.keys(UNIT_COSTS.food) as FoodType[]).reduce(
+    (total, food) => total + getFoodCost(food, BASE_FOOD_RESTOCK),
+    0
+  ) +
+  BASE_DECAF_RESTOCK * UNIT_COSTS.decafBeans +
+  VALID_SYRUPS.length * BASE_SYRUP_RESTOCK * UNIT_COSTS.syrup;
 
 // ============================================================================
 // DAY INITIALIZATION
@@ -74,6 +102,11 @@ function createEmptyStats(): DayStats {
     newCustomers: 0,
     regularCustomers: 0,
     drinksBrewedByType: {},
+    taxCollected: 0,
+    cogs: 0,
+    restockSpend: 0,
+    rent: 0,
+    eventMoney: 0,
   };
 }
 
@@ -84,7 +117,7 @@ function createEmptyStats(): DayStats {
 /**
  * Start service phase (open cafe)
  */
-export function startService(state: DayState): DayState {
+export function startService(state: DayState, clock: Clock = systemClock): DayState {
   if (state.phase !== "prep") {
     throw new Error("Can only start service from prep phase");
   }
@@ -92,29 +125,31 @@ export function startService(state: DayState): DayState {
   return {
     ...state,
     phase: "service",
-    openTime: Date.now(),
+    openTime: clock.now(),
   };
 }
 
 /**
  * End service phase (close cafe)
+ * Staff wages for the shift (see getDailyWages) are booked as the cafe closes
  */
-export function endService(state: DayState): DayState {
+export function endService(state: DayState, clock: Clock = systemClock, wages = 0): DayState {
   if (state.phase !== "service") {
     throw new Error("Can only end service from service phase");
   }
 
   return {
-    ...state,
+    ...(wages > 0 ? recordTransaction(state, "wages", wages) : state),
     phase: "debrief",
-    closeTime: Date.now(),
+    closeTime: clock.now(),
   };
 }
 
 /**
  * Start new day (from debrief)
+ * Foot traffic scales the day's target customers (see getFootTrafficMultiplier)
  */
-export function startNewDay(state: DayState): DayState {
+export function startNewDay(state: DayState, footTraffic = 1): DayState {
   if (state.phase !== "debrief") {
     throw new Error("Can only start new day from debrief phase");
   }
@@ -126,17 +161,17 @@ export function startNewDay(state: DayState): DayState {
     stats: createEmptyStats(),
     openTime: null,
     closeTime: null,
-    targetCustomers: calculateTargetCustomers(state.dayNumber + 1),
+    targetCustomers: calculateTargetCustomers(state.dayNumber + 1, footTraffic),
   };
 }
 
 /**
- * Calculate target customers for a day (increases with progression)
+ * Calculate target customers for a day (increases with progression, scaled by foot traffic)
  */
-function calculateTargetCustomers(dayNumber: number): number {
+function calculateTargetCustomers(dayNumber: number, footTraffic = 1): number {
   // Start at 20, increase by 2 every day, cap at 50
-  const target = DEFAULT_TARGET_CUSTOMERS + (dayNumber - 1) * 2;
-  return Math.min(target, 50);
+  const target = Math.min(DEFAULT_TARGET_CUSTOMERS + (dayNumber - 1) * 2, 50);
+  return Math.max(1, Math.round(target * footTraffic));
 }
 
 // ============================================================================
@@ -154,6 +189,8 @@ export function recordCustomer(
     isReturning: boolean;
     isRegular: boolean;
     drinkType: string;
+    drinkTypes?: string[]; // Every drink on a multi-item order (defaults to drinkType)
+    tax?: number; // Sales tax included in earnings
   }
 ): DayState {
   if (state.phase !== "service") {
@@ -166,7 +203,9 @@ export function recordCustomer(
     newQualityScores.reduce((sum, q) => sum + q, 0) / newQualityScores.length;
 
   const newDrinksBrewedByType = { ...state.stats.drinksBrewedByType };
-  newDrinksBrewedByType[data.drinkType] = (newDrinksBrewedByType[data.drinkType] || 0) + 1;
+  for (const drinkType of data.drinkTypes ?? [data.drinkType]) {
+    newDrinksBrewedByType[drinkType] = (newDrinksBrewedByType[drinkType] || 0) + 1;
+  }
 
   return {
     ...state,
@@ -186,10 +225,43 @@ export function recordCustomer(
         ? state.stats.regularCustomers + 1
         : state.stats.regularCustomers,
       drinksBrewedByType: newDrinksBrewedByType,
+      taxCollected: roundCents((state.stats.taxCollected || 0) + (data.tax || 0)),
     },
   };
 }
 
+/**
+ * Record a customer who walked out before being served
+ */
+export function recordWalkOut(state: DayState): DayState {
+  return {
+    ...state,
+    stats: { ...state.stats, walkOuts: (state.stats.walkOuts || 0) + 1 },
+  };
+}
+
+/**
+ * Add an amount to one of the day's accounts (costs are positive, event money is signed)
+ * Unlike recordCustomer this works in any phase, since restocks and rent happen outside service
+ */
+export function recordTransaction(
+  state: DayState,
+  account: DayAccount,
+  amount: number
+): DayState {
+  return {
+    ...state,
+    stats: {
+      ...state.stats,
+      [account]: roundCents((state.stats[account] || 0) + amount),
+    },
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
 // ============================================================================
 // INVENTORY MANAGEMENT
 // ============================================================================
@@ -201,41 +273,67 @@ export function getRestockCost(dayNumber: number): number {
   // Base cost increases slightly each day
   const baseCost = 50;
   const dailyIncrease = 5;
-  return baseCost + (dayNumber - 1) * dailyIncrease;
+  return roundCents(baseCost + (dayNumber - 1) * dailyIncrease + EXTRAS_RESTOCK_COST);
 }
 
 /**
  * Restock inventory for new day
+ * Beans arrive as new bags roasted today (the open bags keep their own roast dates),
+ * and milk and pastries as fresh batches, so everything ages on its own schedule
  */
-export function restockInventory(inventory: Inventory, dayNumber: number): Inventory {
-  // Add beans to first bean stock
-  const newBeans = [...inventory.beans];
-  if (newBeans.length > 0) {
-    newBeans[0] = {
-      ...newBeans[0],
-      grams: newBeans[0].grams + BASE_RESTOCK_AMOUNT,
-    };
-  }
+export function restockInventory(inventory: Inventory, dayNumber: number, clock?: Clock): Inventory {
+  const receivedDate = new Date((clock ?? systemClock).now()).toISOString();
+
+  // The house beans and decaf by catalog id, whichever bags happen to be left
+  let restocked = addStock(inventory, "beans", {
+    amount: BASE_RESTOCK_AMOUNT,
+    roastDate: receivedDate,
+    varietyId: DEFAULT_BEAN_ID,
+  });
+  restocked = addStock(restocked, "beans", {
+    amount: BASE_DECAF_RESTOCK,
+    roastDate: receivedDate,
+    varietyId: DEFAULT_DECAF_BEAN_ID,
+  });
+
+  VALID_SYRUPS.forEach((syrup) => {
+    restocked = addStock(restocked, "syrup", { name: syrup, amount: BASE_SYRUP_RESTOCK });
+  });
 
   // Restock all milk types
-  const newMilks = { ...inventory.milks };
-  Object.keys(newMilks).forEach((milkType) => {
-    if (milkType !== "none") {
-      newMilks[milkType as keyof typeof newMilks] += BASE_MILK_RESTOCK;
-    }
+  (Object.keys(inventory.milks) as MilkType[])
+    .filter((milkType) => milkType !== "none")
+    .forEach((milkType) => {
+      restocked = addStock(restocked, "milk", { type: milkType, amount: BASE_MILK_RESTOCK, receivedDate });
+    });
+
+  // Restock every pastry
+  Object.keys(inventory.food).forEach((food) => {
+    restocked = addStock(restocked, "food", { name: food, amount: BASE_FOOD_RESTOCK, receivedDate });
   });
 
-  return {
-    ...inventory,
-    beans: newBeans,
-    milks: newMilks,
-  };
+  return restocked;
 }
 
 // ============================================================================
 // DAY SUMMARY
 // ============================================================================
 
+export interface ProfitAndLoss {
+  revenue: number; // Sales and tips, excluding tax
+  taxCollected: number; // Owed to the tax office, not profit
+  cogs: number;
+  grossProfit: number;
+  restockSpend: number; // Cash spent on stock (expensed as COGS when used, so not in net)
+  waste: number; // Stock that spoiled unused (expensed like COGS)
+  wages: number;
+  training: number;
+  rent: number;
+  depreciation: number;
+  eventMoney: number;
+  net: number;
+}
+
 export interface DaySummary {
   dayNumber: number;
   customersServed: number;
@@ -246,12 +344,45 @@ export interface DaySummary {
   topDrink: string | null;
   performance: "excellent" | "good" | "fair" | "poor";
   hoursOpen: number;
+  walkOuts: number;
+  profitAndLoss: ProfitAndLoss;
+}
+
+/**
+ * Build the day's profit & loss statement
+ */
+export function getProfitAndLoss(stats: DayStats, depreciation = 0): ProfitAndLoss {
+  const taxCollected = stats.taxCollected || 0;
+  const revenue = roundCents(stats.totalEarnings - taxCollected);
+  const cogs = stats.cogs || 0;
+  const waste = stats.waste || 0;
+  const wages = stats.wages || 0;
+  const training = stats.training || 0;
+  const rent = stats.rent || 0;
+  const eventMoney = stats.eventMoney || 0;
+  const grossProfit = roundCents(revenue - cogs);
+
+  return {
+    revenue,
+    taxCollected,
+    cogs,
+    grossProfit,
+    restockSpend: stats.restockSpend || 0,
+    waste,
+    wages,
+    training,
+    rent,
+    depreciation: roundCents(depreciation),
+    eventMoney,
+    net: roundCents(grossProfit - waste - wages - training - rent - depreciation + eventMoney),
+  };
 }
 
 /**
  * Generate end of day summary
+ * Pass the day's equipment depreciation (see getDailyDepreciation) to include it in the P&L
  */
-export function getDaySummary(state: DayState): DaySummary {
+export function getDaySummary(state: DayState, depreciation = 0): DaySummary {
   const { stats, dayNumber, targetCustomers, openTime, closeTime } = state;
 
   // Calculate hours open
@@ -301,6 +432,8 @@ export function getDaySummary(state: DayState): DaySummary {
     topDrink,
     performance,
     hoursOpen: Math.round(hoursOpen * 10) / 10,
+    walkOuts: stats.walkOuts || 0,
+    profitAndLoss: getProfitAndLoss(stats, depreciation),
   };
 }
 
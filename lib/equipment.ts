@@ -54,6 +54,8 @@ export interface PurchaseResult {
 // EQUIPMENT CATALOG
 // ============================================================================
 
+export const EQUIPMENT_LIFETIME_DAYS = 100; // Days an upgrade is depreciated over
+
 export const ESPRESSO_MACHINES: Record<EspressoMachineTier, EquipmentItem> = {
   basic: {
     id: "espresso_basic",
@@ -277,6 +279,13 @@ export function getEquipmentValue(equipment: Equipment): number {
   return items.reduce((sum, item) => sum + item.price, 0);
 }
 
+/**
+ * Daily depreciation of owned equipment (straight line over its lifetime)
+ */
+export function getDailyDepreciation(equipment: Equipment): number {
+  return Math.round((getEquipmentValue(equipment) / EQUIPMENT_LIFETIME_DAYS) * 100) / 100;
+}
+
 // ============================================================================
 // EQUIPMENT BONUSES
 // ============================================================================
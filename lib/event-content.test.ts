@@ -0,0 +1,163 @@
+/**
+ * Tests for Event Content
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseEventDefinitions, mergeEvents, meetsConditions } from "./event-content";
+import { EVENTS, type GameEvent } from "./events";
+import { START, onDay } from "./test-helpers";
+import eventContent from "../content/events.json";
+
+const marketDay = {
+  id: "market_day",
+  title: "Market Day",
+  description: "Stalls are going up outside.",
+  type: "positive",
+  trigger: "start_day",
+  probability: 0.5,
+  conditions: { weekday: ["Saturday"] },
+  effects: { modifiers: [{ kind: "traffic", value: 1.2 }] },
+};
+
+describe("Event Content", () => {
+  describe("parseEventDefinitions", () => {
+    it("should load the shipped content", () => {
+      const events = parseEventDefinitions(eventContent);
+
+      expect(events.length).toBeGreaterThan(0);
+      expect(EVENTS.some(event => event.id === events[0].id)).toBe(true);
+    });
+
+    it("should turn valid definitions into events", () => {
+      const [event] = parseEventDefinitions({ events: [marketDay] });
+
+      expect(event.id).toBe("market_day");
+      expect(event.conditions).toEqual({ weekday: ["Saturday"] });
+      expect(event.effects).toEqual({ modifiers: [{ kind: "traffic", value: 1.2 }] });
+    });
+
+    it("should name where a definition goes wrong", () => {
+      expect(() => parseEventDefinitions({ events: [{ ...marketDay, type: "great" }] })).toThrow(
+        "Invalid event content at events[0].type: expected one of positive, negative, neutral"
+      );
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, conditions: { weekday: ["Caturday"] } }] })
+      ).toThrow("events[0].conditions.weekday[0]");
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, conditions: { equipment: { grinder: ["gold"] } } }] })
+      ).toThrow("events[0].conditions.equipment.grinder[0]");
+      expect(() => parseEventDefinitions({ events: [{ ...marketDay, probability: 2 }] })).toThrow(
+        "events[0].probability"
+      );
+    });
+
+    it("should read story flags to set and to check", () => {
+      const [event] = parseEventDefinitions({
+        events: [{ ...marketDay, conditions: { flags: { market: { set: false } } }, effects: { flags: { market: 1 } } }],
+      });
+
+      expect(event.conditions?.flags).toEqual({ market: { set: false } });
+      expect(event.effects?.flags).toEqual({ market: 1 });
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, conditions: { flags: { market: { is: [] } } } }] })
+      ).toThrow("events[0].conditions.flags.market.is: expected a non-empty list");
+    });
+
+    it("should read modifiers and how long they last", () => {
+      const outage = { kind: "outage", resource: "steam wand", minutes: 45 };
+      const [event] = parseEventDefinitions({
+        events: [{ ...marketDay, effects: { modifiers: [{ kind: "spend", value: 1.3, days: 2 }, outage] } }],
+      });
+
+      expect(event.effects?.modifiers).toEqual([{ kind: "spend", value: 1.3, days: 2 }, outage]);
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, effects: { modifiers: [{ kind: "outage", resource: "grinder" }] } }] })
+      ).toThrow("events[0].effects.modifiers[0].resource");
+      expect(() =>
+        parseEventDefinitions({
+          events: [{ ...marketDay, effects: { modifiers: [{ kind: "traffic", value: 2, minutes: 30, days: 1 }] } }],
+        })
+      ).toThrow("events[0].effects.modifiers[0]: give minutes or days, not both");
+    });
+
+    it("should reject unknown fields, reversed ranges and duplicate ids", () => {
+      expect(() => parseEventDefinitions({ events: [{ ...marketDay, condition: "day > 3" }] })).toThrow(
+        "events[0].condition: unknown field"
+      );
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, conditions: { day: { min: 9, max: 3 } } }] })
+      ).toThrow("min is above max");
+      expect(() => parseEventDefinitions({ events: [marketDay, marketDay] })).toThrow(
+        'events[1].id: duplicate id "market_day"'
+      );
+    });
+  });
+
+  describe("choices", () => {
+    const choices = [
+      { id: "accept", text: "Accept", effects: { money: 50 }, followUp: { eventId: "market_day", inDays: 7, chance: 0.5 } },
+      { id: "decline", text: "Decline" },
+    ];
+
+    it("should read choices with their effects and follow-ups", () => {
+      const [event] = parseEventDefinitions({ events: [{ ...marketDay, choices }] });
+
+      expect(event.choices).toEqual(choices);
+    });
+
+    it("should want at least two distinct choices and follow-ups that exist", () => {
+      expect(() => parseEventDefinitions({ events: [{ ...marketDay, choices: [choices[1]] }] })).toThrow(
+        "events[0].choices: expected at least two choices"
+      );
+      expect(() =>
+        parseEventDefinitions({ events: [{ ...marketDay, choices: [choices[1], choices[1]] }] })
+      ).toThrow('events[0].choices[1].id: duplicate id "decline"');
+
+      const stray = { ...choices[0], followUp: { eventId: "nothing_here" } };
+      const events = parseEventDefinitions({ events: [{ ...marketDay, choices: [stray, choices[1]] }] });
+      expect(() => mergeEvents([], events)).toThrow('no event "nothing_here"');
+    });
+  });
+
+  describe("mergeEvents", () => {
+    it("should let content replace a built-in with the same id", () => {
+      const builtIn = [{ ...marketDay, description: "Old" }, { ...marketDay, id: "other" }] as GameEvent[];
+      const merged = mergeEvents(builtIn, parseEventDefinitions({ events: [marketDay] }));
+
+      expect(merged.map(event => event.id)).toEqual(["other", "market_day"]);
+      expect(merged[1].description).toBe("Stalls are going up outside.");
+    });
+  });
+
+  describe("meetsConditions", () => {
+    it("should check the day number and weekday", () => {
+      expect(meetsConditions(onDay(6), { weekday: ["Saturday"] })).toBe(true);
+      expect(meetsConditions(onDay(7), { weekday: ["Saturday"] })).toBe(false);
+      expect(meetsConditions(onDay(20), { day: { min: 10, every: 10 } })).toBe(true);
+      expect(meetsConditions(onDay(15), { day: { min: 10, every: 10 } })).toBe(false);
+    });
+
+    it("should check reputation and equipment", () => {
+      const state = onDay(1, { reputation: 70 });
+
+      expect(meetsConditions(state, { reputation: { min: 60, max: 70 } })).toBe(true);
+      expect(meetsConditions(state, { reputation: { max: 69 } })).toBe(false);
+      expect(meetsConditions(state, { equipment: { espressoMachine: ["basic"] } })).toBe(true);
+      expect(meetsConditions(state, { equipment: { espressoMachine: ["commercial"] } })).toBe(false);
+    });
+
+    it("should check stock levels and how service is going", () => {
+      const state = onDay(1);
+      const milk = Object.values(state.inventory.milks).reduce((total, amount) => total + amount, 0);
+
+      expect(meetsConditions(state, { inventory: { milk: { min: milk, max: milk } } })).toBe(true);
+      expect(meetsConditions(state, { inventory: { milk: { max: milk - 1 } } })).toBe(false);
+      expect(meetsConditions(state, { customersServed: { min: 1 } })).toBe(false);
+    });
+
+    it("should hold when there are no conditions", () => {
+      expect(meetsConditions(onDay(1), undefined)).toBe(true);
+      expect(meetsConditions(onDay(1), {})).toBe(true);
+    });
+  });
+});
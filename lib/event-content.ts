@@ -0,0 +1,390 @@
+/**
+ * Event Content
+ *
+ * Events can be written as JSON content (content/events.json) instead of
+ * TypeScript, so writers can add them without a code change. In place of a
+ * condition closure, content events describe when they can happen with
+ * declarative conditions (see EventConditions): day number, weekday,
+ * reputation, equipment tiers, inventory levels, how service is going and
+ * the story flags earlier events have set.
+ *
+ * Content is checked against the event schema as it loads; anything malformed
+ * fails loudly with the path to the problem rather than quietly never firing.
+ */
+
+import type { EventModifier, GameState, ModifierKind, StoryFlagValue } from "./types";
+import type {
+  EventChoice,
+  EventConditions,
+  EventEffect,
+  EventFollowUp,
+  EventTrigger,
+  EventType,
+  GameEvent,
+  NumberRange,
+} from "./events";
+import { getTotalBeans } from "./inventory";
+import { DAYS_OF_WEEK, getDayOfWeek } from "./time-system";
+import { meetsFlagConditions, type FlagCondition } from "./story";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EVENT_TYPES: EventType[] = ["positive", "negative", "neutral"];
+const EVENT_TRIGGERS: EventTrigger[] = ["random_service", "start_day", "end_day", "delivery"];
+
+const EQUIPMENT_TIERS: Record<keyof NonNullable<EventConditions["equipment"]>, string[]> = {
+  espressoMachine: ["basic", "professional", "commercial"],
+  grinder: ["hand", "burr", "commercial"],
+  milkSteamer: ["basic", "auto", "professional"],
+};
+
+const INVENTORY_LEVELS = ["beans", "milk", "syrup", "pastry"] as const;
+
+const MODIFIER_KINDS: ModifierKind[] = ["traffic", "iced", "spend", "price", "quality", "outage"];
+const OUTAGE_RESOURCES = ["espresso machine", "steam wand"] as const;
+
+// ============================================================================
+// SCHEMA VALIDATION
+// ============================================================================
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid event content at ${path}: ${message}`);
+}
+
+function expectObject(value: unknown, path: string, allowed: string[]): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "expected an object");
+  }
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) fail(`${path}.${key}`, "unknown field");
+  }
+  return value as Json;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.trim() === "") fail(path, "expected a non-empty string");
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "expected a number");
+  if (value < min || value > max) fail(path, `expected a number from ${min} to ${max}`);
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (typeof value !== "string" || !options.includes(value as T)) {
+    fail(path, `expected one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+function expectList<T extends string>(value: unknown, path: string, options: readonly T[]): T[] {
+  if (!Array.isArray(value) || value.length === 0) fail(path, "expected a non-empty list");
+  return value.map((item, i) => expectOneOf(item, `${path}[${i}]`, options));
+}
+
+function expectFlagValue(value: unknown, path: string): StoryFlagValue {
+  if (typeof value === "boolean" || typeof value === "number") return value;
+  return expectString(value, path);
+}
+
+function parseFlagValues(value: unknown, path: string): Record<string, StoryFlagValue> {
+  const raw = expectObject(value, path, Object.keys(value ?? {}));
+  return Object.fromEntries(Object.entries(raw).map(([name, flag]) => [name, expectFlagValue(flag, `${path}.${name}`)]));
+}
+
+function parseFlagConditions(value: unknown, path: string): Record<string, FlagCondition> {
+  const raw = expectObject(value, path, Object.keys(value ?? {}));
+  const conditions: Record<string, FlagCondition> = {};
+
+  for (const [name, rawCondition] of Object.entries(raw)) {
+    const conditionPath = `${path}.${name}`;
+    const flag = expectObject(rawCondition, conditionPath, ["set", "is", "daysSince"]);
+    const condition: FlagCondition = {};
+
+    if (flag.set !== undefined) {
+      if (typeof flag.set !== "boolean") fail(`${conditionPath}.set`, "expected true or false");
+      condition.set = flag.set;
+    }
+    if (flag.is !== undefined) {
+      if (!Array.isArray(flag.is) || flag.is.length === 0) fail(`${conditionPath}.is`, "expected a non-empty list");
+      condition.is = flag.is.map((item, i) => expectFlagValue(item, `${conditionPath}.is[${i}]`));
+    }
+    if (flag.daysSince !== undefined) {
+      const { min, max } = parseRange(flag.daysSince, `${conditionPath}.daysSince`);
+      condition.daysSince = { min, max };
+    }
+    conditions[name] = condition;
+  }
+
+  return conditions;
+}
+
+function parseRange(value: unknown, path: string, extra: string[] = []): NumberRange & Json {
+  const raw = expectObject(value, path, ["min", "max", ...extra]);
+  const range: NumberRange = {};
+  if (raw.min !== undefined) range.min = expectNumber(raw.min, `${path}.min`);
+  if (raw.max !== undefined) range.max = expectNumber(raw.max, `${path}.max`);
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    fail(path, "min is above max");
+  }
+  return { ...raw, ...range };
+}
+
+function parseModifier(value: unknown, path: string): EventModifier {
+  const raw = expectObject(value, path, ["kind", "value", "resource", "minutes", "days"]);
+  const modifier: EventModifier = { kind: expectOneOf(raw.kind, `${path}.kind`, MODIFIER_KINDS) };
+
+  if (modifier.kind === "outage") {
+    modifier.resource = expectOneOf(raw.resource, `${path}.resource`, OUTAGE_RESOURCES);
+    if (raw.minutes === undefined) fail(`${path}.minutes`, "outages need a length in minutes");
+  } else {
+    if (raw.resource !== undefined) fail(`${path}.resource`, "only outages take out a resource");
+    const [min, max] = modifier.kind === "quality" ? [-50, 50] : [0, 5];
+    modifier.value = expectNumber(raw.value, `${path}.value`, min, max);
+  }
+
+  if (raw.minutes !== undefined && raw.days !== undefined) fail(path, "give minutes or days, not both");
+  if (raw.minutes !== undefined) modifier.minutes = expectNumber(raw.minutes, `${path}.minutes`, 1, 720);
+  if (raw.days !== undefined) modifier.days = expectNumber(raw.days, `${path}.days`, 1, 14);
+
+  return modifier;
+}
+
+function parseEffects(value: unknown, path: string): EventEffect {
+  const raw = expectObject(value, path, ["money", "reputation", "inventory", "delivery", "modifiers", "flags"]);
+  const effects: EventEffect = {};
+
+  if (raw.money !== undefined) effects.money = expectNumber(raw.money, `${path}.money`);
+  if (raw.reputation !== undefined) effects.reputation = expectNumber(raw.reputation, `${path}.reputation`, -100, 100);
+  if (raw.modifiers !== undefined) {
+    if (!Array.isArray(raw.modifiers)) fail(`${path}.modifiers`, "expected a list");
+    effects.modifiers = raw.modifiers.map((modifier, i) => parseModifier(modifier, `${path}.modifiers[${i}]`));
+  }
+  if (raw.flags !== undefined) effects.flags = parseFlagValues(raw.flags, `${path}.flags`);
+  if (raw.inventory !== undefined) {
+    const inventory = expectObject(raw.inventory, `${path}.inventory`, [...INVENTORY_LEVELS]);
+    effects.inventory = {};
+    for (const level of INVENTORY_LEVELS) {
+      if (inventory[level] !== undefined) {
+        effects.inventory[level] = expectNumber(inventory[level], `${path}.inventory.${level}`);
+      }
+    }
+  }
+  if (raw.delivery !== undefined) {
+    const delivery = expectObject(raw.delivery, `${path}.delivery`, ["delayDays", "fractionSent"]);
+    effects.delivery = {};
+    if (delivery.delayDays !== undefined) {
+      effects.delivery.delayDays = expectNumber(delivery.delayDays, `${path}.delivery.delayDays`, 1, 7);
+    }
+    if (delivery.fractionSent !== undefined) {
+      effects.delivery.fractionSent = expectNumber(delivery.fractionSent, `${path}.delivery.fractionSent`, 0, 1);
+    }
+  }
+
+  return effects;
+}
+
+function parseFollowUp(value: unknown, path: string): EventFollowUp {
+  const raw = expectObject(value, path, ["eventId", "inDays", "chance"]);
+  const followUp: EventFollowUp = { eventId: expectString(raw.eventId, `${path}.eventId`) };
+
+  if (raw.inDays !== undefined) followUp.inDays = expectNumber(raw.inDays, `${path}.inDays`, 0, 30);
+  if (raw.chance !== undefined) followUp.chance = expectNumber(raw.chance, `${path}.chance`, 0, 1);
+
+  return followUp;
+}
+
+function parseChoice(value: unknown, path: string): EventChoice {
+  const raw = expectObject(value, path, ["id", "text", "effects", "followUp"]);
+  const choice: EventChoice = {
+    id: expectString(raw.id, `${path}.id`),
+    text: expectString(raw.text, `${path}.text`),
+  };
+
+  if (raw.effects !== undefined) choice.effects = parseEffects(raw.effects, `${path}.effects`);
+  if (raw.followUp !== undefined) choice.followUp = parseFollowUp(raw.followUp, `${path}.followUp`);
+
+  return choice;
+}
+
+function parseConditions(value: unknown, path: string): EventConditions {
+  const raw = expectObject(value, path, [
+    "day",
+    "weekday",
+    "reputation",
+    "equipment",
+    "inventory",
+    "customersServed",
+    "averageQuality",
+    "flags",
+  ]);
+  const conditions: EventConditions = {};
+
+  if (raw.day !== undefined) {
+    const day = parseRange(raw.day, `${path}.day`, ["every"]);
+    conditions.day = { min: day.min, max: day.max };
+    if (day.every !== undefined) conditions.day.every = expectNumber(day.every, `${path}.day.every`, 1);
+  }
+  if (raw.weekday !== undefined) conditions.weekday = expectList(raw.weekday, `${path}.weekday`, DAYS_OF_WEEK);
+  if (raw.reputation !== undefined) conditions.reputation = parseRange(raw.reputation, `${path}.reputation`);
+  if (raw.equipment !== undefined) {
+    const equipment = expectObject(raw.equipment, `${path}.equipment`, Object.keys(EQUIPMENT_TIERS));
+    conditions.equipment = {};
+    for (const [slot, tiers] of Object.entries(EQUIPMENT_TIERS)) {
+      if (equipment[slot] !== undefined) {
+        Object.assign(conditions.equipment, { [slot]: expectList(equipment[slot], `${path}.equipment.${slot}`, tiers) });
+      }
+    }
+  }
+  if (raw.inventory !== undefined) {
+    const inventory = expectObject(raw.inventory, `${path}.inventory`, [...INVENTORY_LEVELS]);
+    conditions.inventory = {};
+    for (const level of INVENTORY_LEVELS) {
+      if (inventory[level] !== undefined) {
+        conditions.inventory[level] = parseRange(inventory[level], `${path}.inventory.${level}`);
+      }
+    }
+  }
+  if (raw.customersServed !== undefined) {
+    conditions.customersServed = parseRange(raw.customersServed, `${path}.customersServed`);
+  }
+  if (raw.averageQuality !== undefined) {
+    conditions.averageQuality = parseRange(raw.averageQuality, `${path}.averageQuality`);
+  }
+  if (raw.flags !== undefined) conditions.flags = parseFlagConditions(raw.flags, `${path}.flags`);
+
+  return conditions;
+}
+
+function parseEvent(value: unknown, path: string): GameEvent {
+  const raw = expectObject(value, path, [
+    "id",
+    "title",
+    "description",
+    "type",
+    "trigger",
+    "probability",
+    "conditions",
+    "effects",
+    "choices",
+  ]);
+
+  const event: GameEvent = {
+    id: expectString(raw.id, `${path}.id`),
+    title: expectString(raw.title, `${path}.title`),
+    description: expectString(raw.description, `${path}.description`),
+    type: expectOneOf(raw.type, `${path}.type`, EVENT_TYPES),
+    trigger: expectOneOf(raw.trigger, `${path}.trigger`, EVENT_TRIGGERS),
+    probability: expectNumber(raw.probability, `${path}.probability`, 0, 1),
+  };
+
+  if (raw.conditions !== undefined) event.conditions = parseConditions(raw.conditions, `${path}.conditions`);
+  if (raw.effects !== undefined) event.effects = parseEffects(raw.effects, `${path}.effects`);
+  if (raw.choices !== undefined) {
+    if (!Array.isArray(raw.choices) || raw.choices.length < 2) fail(`${path}.choices`, "expected at least two choices");
+    event.choices = raw.choices.map((choice, i) => parseChoice(choice, `${path}.choices[${i}]`));
+    event.choices.forEach((choice, i) => {
+      if (event.choices!.findIndex(other => other.id === choice.id) !== i) {
+        fail(`${path}.choices[${i}].id`, `duplicate id "${choice.id}"`);
+      }
+    });
+  }
+
+  return event;
+}
+
+/**
+ * Check a content file against the event schema and turn it into events
+ * Throws on the first problem, naming where it is (e.g. events[2].conditions.weekday[0])
+ */
+export function parseEventDefinitions(content: unknown): GameEvent[] {
+  const raw = expectObject(content, "content", ["events"]);
+  if (!Array.isArray(raw.events)) fail("events", "expected a list");
+
+  const events = raw.events.map((event, i) => parseEvent(event, `events[${i}]`));
+  const seen = new Set<string>();
+  events.forEach((event, i) => {
+    if (seen.has(event.id)) fail(`events[${i}].id`, `duplicate id "${event.id}"`);
+    seen.add(event.id);
+  });
+
+  return events;
+}
+
+/**
+ * Join content events to the built-ins (a content event replaces a built-in with the same id)
+ * Throws if content files share an id, or a choice's follow-up names an event that doesn't exist
+ */
+export function mergeEvents(builtIn: GameEvent[], content: GameEvent[]): GameEvent[] {
+  const replaced = new Set(content.map(event => event.id));
+  if (replaced.size < content.length) {
+    const duplicate = content.find((event, i) => content.findIndex(other => other.id === event.id) !== i)!;
+    fail(duplicate.id, "defined in more than one content file");
+  }
+
+  const events = [...builtIn.filter(event => !replaced.has(event.id)), ...content];
+
+  const ids = new Set(events.map(event => event.id));
+  for (const event of events) {
+    for (const choice of event.choices || []) {
+      if (choice.followUp && !ids.has(choice.followUp.eventId)) {
+        fail(`${event.id}.choices.${choice.id}.followUp`, `no event "${choice.followUp.eventId}"`);
+      }
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+function inRange(value: number, range: NumberRange | undefined): boolean {
+  if (!range) return true;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function sum(values: Record<string, number>): number {
+  return Object.values(values).reduce((total, amount) => total + amount, 0);
+}
+
+/**
+ * Whether the game is in a state where an event's declarative conditions all hold
+ */
+export function meetsConditions(state: GameState, conditions: EventConditions | undefined): boolean {
+  if (!conditions) return true;
+
+  const dayNumber = state.dayState?.dayNumber || 1;
+  const { day, weekday, reputation, equipment, inventory, customersServed, averageQuality, flags } = conditions;
+
+  if (day && (!inRange(dayNumber, day) || (day.every !== undefined && dayNumber % day.every !== 0))) return false;
+  if (weekday && !weekday.includes(getDayOfWeek(dayNumber))) return false;
+  if (!inRange(state.reputation ?? 50, reputation)) return false;
+
+  if (equipment) {
+    if (!state.equipment) return false;
+    if (equipment.espressoMachine && !equipment.espressoMachine.includes(state.equipment.espressoMachine)) return false;
+    if (equipment.grinder && !equipment.grinder.includes(state.equipment.grinder)) return false;
+    if (equipment.milkSteamer && !equipment.milkSteamer.includes(state.equipment.milkSteamer)) return false;
+  }
+
+  if (inventory) {
+    if (!inRange(getTotalBeans(state.inventory), inventory.beans)) return false;
+    if (!inRange(sum(state.inventory.milks), inventory.milk)) return false;
+    if (!inRange(sum(state.inventory.syrups), inventory.syrup)) return false;
+    if (!inRange(sum(state.inventory.food), inventory.pastry)) return false;
+  }
+
+  const stats = state.dayState?.stats;
+  if (!inRange(stats?.customersServed || 0, customersServed)) return false;
+  if (!inRange(stats?.averageQuality || 0, averageQuality)) return false;
+
+  return !flags || meetsFlagConditions(state.storyFlags, flags, dayNumber);
+}
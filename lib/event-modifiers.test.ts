@@ -0,0 +1,96 @@
+/**
+ * Tests for Event Modifiers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  startModifiers,
+  pruneModifiers,
+  getActiveModifiers,
+  getModifierFactor,
+  getPeakModifierFactor,
+  getQualityShift,
+  getOutage,
+  describeModifier,
+} from "./event-modifiers";
+import { EVENTS, applyEventEffects } from "./events";
+import { getResourceWait } from "./stations";
+import { GAME_MINUTES_PER_SECOND } from "./time-system";
+import { ManualClock } from "./random";
+import { START, onDay } from "./test-helpers";
+
+// Real milliseconds for some in-game minutes
+const minutes = (count: number) => (count / GAME_MINUTES_PER_SECOND) * 1000;
+
+describe("Event Modifiers", () => {
+  describe("startModifiers", () => {
+    it("should last the rest of the day unless told otherwise", () => {
+      const state = startModifiers(onDay(3), "rainy_day", [{ kind: "traffic", value: 1.2 }], START);
+
+      expect(getModifierFactor(state, "traffic", START)).toBe(1.2);
+      expect(getModifierFactor(onDay(4, { activeModifiers: state.activeModifiers }), "traffic", START)).toBe(1);
+    });
+
+    it("should end after its minutes or days", () => {
+      const state = startModifiers(
+        onDay(3),
+        "heatwave",
+        [{ kind: "iced", value: 4, days: 2 }, { kind: "spend", value: 1.5, minutes: 90 }],
+        START
+      );
+
+      expect(getModifierFactor(state, "spend", START + minutes(89))).toBe(1.5);
+      expect(getModifierFactor(state, "spend", START + minutes(90))).toBe(1);
+
+      const nextDay = onDay(4, { activeModifiers: state.activeModifiers });
+      expect(getModifierFactor(nextDay, "iced", START)).toBe(4);
+      expect(getModifierFactor(onDay(5, { activeModifiers: state.activeModifiers }), "iced", START)).toBe(1);
+    });
+
+    it("should replace a modifier from the same event rather than stack it", () => {
+      const once = startModifiers(onDay(3), "viral_post", [{ kind: "traffic", value: 1.3 }], START);
+      const twice = startModifiers(once, "viral_post", [{ kind: "traffic", value: 1.3 }], START);
+      const alongside = startModifiers(twice, "rainy_day", [{ kind: "traffic", value: 1.2 }], START);
+
+      expect(twice.activeModifiers).toHaveLength(1);
+      expect(getModifierFactor(alongside, "traffic", START)).toBeCloseTo(1.56);
+    });
+  });
+
+  describe("consulting", () => {
+    it("should add up quality shifts and peak only on the lifts", () => {
+      let state = startModifiers(onDay(3), "muggy_weather", [{ kind: "quality", value: -5 }], START);
+      state = startModifiers(state, "competitor_opens", [{ kind: "traffic", value: 0.85 }], START);
+      state = startModifiers(state, "rush_hour", [{ kind: "traffic", value: 1.5, minutes: 90 }], START);
+
+      expect(getQualityShift(state, START)).toBe(-5);
+      expect(getModifierFactor(state, "traffic", START)).toBeCloseTo(1.275);
+      expect(getPeakModifierFactor(state, "traffic", START)).toBe(1.5);
+    });
+
+    it("should drop modifiers that have run their course", () => {
+      const state = startModifiers(onDay(3), "rush_hour", [{ kind: "traffic", value: 1.5, minutes: 90 }], START);
+
+      expect(getActiveModifiers(state, START)).toHaveLength(1);
+      expect(pruneModifiers(state, START + minutes(120)).activeModifiers).toEqual([]);
+    });
+
+    it("should describe modifiers for the UI", () => {
+      expect(describeModifier({ kind: "iced", value: 4 })).toBe("🧊 Iced orders ×4");
+      expect(describeModifier({ kind: "quality", value: -5 })).toBe("⭐ Drink quality -5");
+      expect(describeModifier({ kind: "outage", resource: "steam wand", minutes: 30 })).toBe("🔌 Out of action: steam wand");
+    });
+  });
+
+  describe("outages", () => {
+    it("should take the espresso machine out after a power surge", () => {
+      const surge = EVENTS.find(event => event.id === "power_surge")!;
+      const state = applyEventEffects(onDay(3), surge, new ManualClock(START));
+
+      expect(getOutage(state, "espresso machine", START)).not.toBeNull();
+      expect(getOutage(state, "steam wand", START)).toBeNull();
+      expect(getResourceWait(state.stations!, "espresso", false, state.equipment, START)?.resource).toBe("espresso machine");
+      expect(getResourceWait(state.stations!, "espresso", false, state.equipment, START + minutes(60))).toBeNull();
+    });
+  });
+});
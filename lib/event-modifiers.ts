@@ -0,0 +1,156 @@
+/**
+ * Event Modifiers
+ *
+ * Besides their one-off effects, events can change how the cafe runs for a
+ * while: rain brings people in for the rest of the day, a heatwave has them
+ * ordering iced drinks for two, a power surge takes the espresso machine out
+ * for an hour. Each modifier lasts a number of in-game minutes or days and is
+ * consulted where it matters:
+ * - traffic: customer arrivals (arrivals.ts)
+ * - iced and spend: what customers order and what they'll pay (customer-generator.ts)
+ * - price: what the menu charges (pricing.ts)
+ * - quality: points on every brew (brewDrink)
+ * - outage: a shared resource can't be used for some minutes (stations.ts)
+ *
+ * A modifier from an event that is already running is replaced rather than stacked.
+ */
+
+import type { ActiveModifier, EventModifier, GameState, ModifierKind } from "./types";
+import { GAME_MINUTES_PER_SECOND } from "./time-system";
+import { syncStations, blockResource, type SharedResource } from "./stations";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MODIFIER_LABELS: Record<ModifierKind, string> = {
+  traffic: "🚶 Foot traffic",
+  iced: "🧊 Iced orders",
+  spend: "💸 Customer spending",
+  price: "🏷️ Menu prices",
+  quality: "⭐ Drink quality",
+  outage: "🔌 Out of action",
+};
+
+// ============================================================================
+// STARTING AND ENDING
+// ============================================================================
+
+/**
+ * Start an event's modifiers as of now
+ * Outages also tie up the resource at the brewing stations until they end
+ */
+export function startModifiers(
+  state: GameState,
+  source: string,
+  modifiers: EventModifier[],
+  now: number
+): GameState {
+  const today = state.dayState?.dayNumber || 1;
+
+  const started: ActiveModifier[] = modifiers.map(modifier => ({
+    source,
+    kind: modifier.kind,
+    value: modifier.value ?? (modifier.kind === "quality" ? 0 : 1),
+    ...(modifier.resource ? { resource: modifier.resource } : {}),
+    lastDay: today + Math.max(1, modifier.days ?? 1) - 1,
+    ...(modifier.minutes !== undefined
+      ? { expiresAt: now + Math.round((modifier.minutes / GAME_MINUTES_PER_SECOND) * 1000) }
+      : {}),
+  }));
+
+  const replaced = (active: ActiveModifier) =>
+    started.some(modifier => modifier.source === active.source && modifier.kind === active.kind);
+
+  let stations = state.stations;
+  for (const modifier of started) {
+    if (modifier.kind === "outage" && modifier.resource && modifier.expiresAt !== undefined) {
+      stations = blockResource(syncStations(stations, state.equipment), modifier.resource, modifier.expiresAt);
+    }
+  }
+
+  return {
+    ...state,
+    stations,
+    activeModifiers: [...(state.activeModifiers || []).filter(active => !replaced(active)), ...started],
+  };
+}
+
+/**
+ * Whether a modifier still applies on a day at a clock time
+ */
+export function isModifierActive(modifier: ActiveModifier, day: number, now: number): boolean {
+  return day <= modifier.lastDay && (modifier.expiresAt === undefined || now < modifier.expiresAt);
+}
+
+/**
+ * Drop modifiers that have run their course
+ */
+export function pruneModifiers(state: GameState, now: number): GameState {
+  if (!state.activeModifiers) return state;
+
+  const today = state.dayState?.dayNumber || 1;
+  return { ...state, activeModifiers: state.activeModifiers.filter(modifier => isModifierActive(modifier, today, now)) };
+}
+
+// ============================================================================
+// CONSULTING
+// ============================================================================
+
+/**
+ * Modifiers in force right now
+ */
+export function getActiveModifiers(state: GameState, now: number): ActiveModifier[] {
+  const today = state.dayState?.dayNumber || 1;
+  return (state.activeModifiers || []).filter(modifier => isModifierActive(modifier, today, now));
+}
+
+/**
+ * Combined multiplier of one kind right now (1 when nothing applies)
+ */
+export function getModifierFactor(state: GameState, kind: Exclude<ModifierKind, "quality" | "outage">, now: number): number {
+  return getActiveModifiers(state, now)
+    .filter(modifier => modifier.kind === kind)
+    .reduce((factor, modifier) => factor * modifier.value, 1);
+}
+
+/**
+ * The most a multiplier can reach from now until its modifiers end (for sampling arrivals)
+ * Modifiers only ever end, so the ones below 1 may lift later but never drop further
+ */
+export function getPeakModifierFactor(state: GameState, kind: "traffic", now: number): number {
+  return getActiveModifiers(state, now)
+    .filter(modifier => modifier.kind === kind)
+    .reduce((factor, modifier) => factor * Math.max(1, modifier.value), 1);
+}
+
+/**
+ * Quality points added to every brew right now
+ */
+export function getQualityShift(state: GameState, now: number): number {
+  return getActiveModifiers(state, now)
+    .filter(modifier => modifier.kind === "quality")
+    .reduce((shift, modifier) => shift + modifier.value, 0);
+}
+
+/**
+ * The outage taking a resource out right now, if any
+ */
+export function getOutage(state: GameState, resource: SharedResource, now: number): ActiveModifier | null {
+  return getActiveModifiers(state, now).find(
+    modifier => modifier.kind === "outage" && modifier.resource === resource
+  ) || null;
+}
+
+/**
+ * Short description of a modifier for the UI, e.g. "🧊 Iced orders ×3"
+ */
+export function describeModifier(modifier: EventModifier | ActiveModifier): string {
+  const label = MODIFIER_LABELS[modifier.kind];
+  if (modifier.kind === "outage") return `${label}: ${modifier.resource}`;
+  if (modifier.kind === "quality") {
+    const value = modifier.value ?? 0;
+    return `${label} ${value > 0 ? "+" : ""}${value}`;
+  }
+  return `${label} ×${modifier.value ?? 1}`;
+}
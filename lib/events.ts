@@ -3,12 +3,37 @@
  * 
  * Handles random and scheduled events that occur during the game.
  * Events can affect money, reputation, inventory, or just provide flavor.
+ * Some put a decision to the player instead: each choice has its own effects
+ * and can set off a follow-up event on a later day, and the history records
+ * which one they picked.
+ *
+ * The built-in events below are joined by those our writers declare in
+ * content/events.json and the story arcs in content/story.json (see
+ * event-content.ts and story.ts); a content event with the id of a built-in
+ * replaces it.
  */
 
-import type { GameState } from "./types";
+import type {
+  GameState,
+  EspressoMachineTier,
+  GrinderTier,
+  MilkSteamerTier,
+  ScheduledEvent,
+  StoryFlagValue,
+  EventModifier,
+} from "./types";
+import { systemClock, systemRandom, type Clock, type RandomSource } from "./random";
+import { getDueOrders, delayDeliveries, shortDeliveries } from "./suppliers";
+import { parseEventDefinitions, mergeEvents, meetsConditions } from "./event-content";
+import { setStoryFlags, type FlagCondition } from "./story";
+import { startModifiers } from "./event-modifiers";
+import { adjustBeans } from "./inventory";
+import { DEFAULT_BEAN_ID } from "./beans";
+import eventContent from "../content/events.json";
+import storyContent from "../content/story.json";
 
 export type EventType = "positive" | "negative" | "neutral";
-export type EventTrigger = "random_service" | "start_day" | "end_day";
+export type EventTrigger = "random_service" | "start_day" | "end_day" | "delivery";
 
 export interface EventEffect {
   money?: number;
@@ -19,6 +44,53 @@ export interface EventEffect {
     syrup?: number;
     pastry?: number;
   };
+  delivery?: {
+    delayDays?: number; // Push the morning's deliveries back
+    fractionSent?: number; // Deliver only part of each order (the rest is refunded)
+  };
+  modifiers?: EventModifier[]; // Timed changes to how the cafe runs (see event-modifiers.ts)
+  flags?: Record<string, StoryFlagValue>; // Story flags to set (see story.ts)
+}
+
+// An event a choice can set off later, whatever its own probability and conditions
+export interface EventFollowUp {
+  eventId: string;
+  inDays?: number; // 0 (the default) for later today
+  chance?: number; // 0-1, rolled when the choice is made (default 1)
+}
+
+export interface EventChoice {
+  id: string;
+  text: string;
+  effects?: EventEffect;
+  followUp?: EventFollowUp;
+}
+
+// An inclusive range; either end can be left open
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+// Declarative conditions for events written as content; every one given must hold
+export interface EventConditions {
+  day?: NumberRange & { every?: number }; // Day number (every: only on multiples of it)
+  weekday?: string[]; // e.g. ["Saturday", "Sunday"]
+  reputation?: NumberRange;
+  equipment?: {
+    espressoMachine?: EspressoMachineTier[];
+    grinder?: GrinderTier[];
+    milkSteamer?: MilkSteamerTier[];
+  };
+  inventory?: {
+    beans?: NumberRange; // Grams across every bag
+    milk?: NumberRange; // ml across every milk
+    syrup?: NumberRange; // ml across every syrup
+    pastry?: NumberRange; // Items across every pastry
+  };
+  customersServed?: NumberRange; // Today
+  averageQuality?: NumberRange; // Today
+  flags?: Record<string, FlagCondition>; // Story flags, by name
 }
 
 export interface GameEvent {
@@ -29,18 +101,20 @@ export interface GameEvent {
   trigger: EventTrigger;
   probability: number; // 0-1
   condition?: (state: GameState) => boolean;
-  effects?: EventEffect;
-  choices?: {
-    text: string;
-    effects?: EventEffect;
-  }[];
+  conditions?: EventConditions;
+  effects?: EventEffect; // Applied as soon as the event happens, before any choice
+  choices?: EventChoice[];
 }
 
 // ============================================================================
 // EVENT DEFINITIONS
 // ============================================================================
 
-export const EVENTS: GameEvent[] = [
+function hasDeliveriesDue(state: GameState): boolean {
+  return getDueOrders(state.purchaseOrders || [], state.dayState?.dayNumber || 1).length > 0;
+}
+
+const BUILT_IN_EVENTS: GameEvent[] = [
   // --- SCHEDULED EVENTS ---
   {
     id: "grand_opening",
@@ -61,7 +135,7 @@ export const EVENTS: GameEvent[] = [
     type: "negative",
     trigger: "start_day",
     probability: 1.0,
-    condition: (state) => state.dayState?.dayNumber === 7,
+    condition: (state) => (state.dayState?.dayNumber || 0) % 7 === 0,
     effects: {
       money: -500,
     },
@@ -76,6 +150,9 @@ export const EVENTS: GameEvent[] = [
     trigger: "random_service",
     probability: 0.05,
     condition: (state) => (state.dayState?.stats.customersServed || 0) < 5,
+    effects: {
+      modifiers: [{ kind: "traffic", value: 1.5, minutes: 90 }],
+    },
   },
   {
     id: "generous_tip",
@@ -122,10 +199,52 @@ export const EVENTS: GameEvent[] = [
     trigger: "random_service",
     probability: 0.015,
     condition: (state) => state.equipment?.grinder === "hand",
+    choices: [
+      {
+        id: "repair",
+        text: "Pay for a proper repair",
+        effects: { money: -30 },
+      },
+      {
+        id: "quick_fix",
+        text: "Trust the quick fix",
+        followUp: { eventId: "grinder_failure", inDays: 1, chance: 0.5 },
+      },
+    ],
+  },
+  {
+    id: "grinder_failure",
+    title: "Grinder Gives Out",
+    description: "The quick fix didn't hold. The grinder jammed mid-rush and the emergency repair cost more than a proper one would have.",
+    type: "negative",
+    trigger: "start_day",
+    probability: 0, // Only follows a risky choice on grinder_malfunction
     effects: {
-      money: -30,
+      money: -45,
+      reputation: -2,
     },
   },
+  {
+    id: "machine_leak",
+    title: "Leaking Group Head",
+    description: "Water is seeping around the group head gasket. A technician can replace it today, or you can keep pulling shots and hope it holds.",
+    type: "negative",
+    trigger: "random_service",
+    probability: 0.01,
+    condition: (state) => state.equipment?.espressoMachine !== "commercial",
+    choices: [
+      {
+        id: "call_technician",
+        text: "Call the technician",
+        effects: { money: -25 },
+      },
+      {
+        id: "keep_going",
+        text: "Keep pulling shots",
+        followUp: { eventId: "machine_breakdown", chance: 0.6 },
+      },
+    ],
+  },
   {
     id: "machine_breakdown",
     title: "Machine Breakdown",
@@ -198,6 +317,7 @@ export const EVENTS: GameEvent[] = [
     probability: 0.15,
     effects: {
       reputation: 1,
+      modifiers: [{ kind: "traffic", value: 1.2 }],
     },
   },
   {
@@ -207,6 +327,9 @@ export const EVENTS: GameEvent[] = [
     type: "neutral",
     trigger: "start_day",
     probability: 0.15,
+    effects: {
+      modifiers: [{ kind: "traffic", value: 1.15 }],
+    },
   },
   {
     id: "heatwave",
@@ -218,6 +341,19 @@ export const EVENTS: GameEvent[] = [
     condition: (state) => (state.dayState?.dayNumber || 0) >= 3,
     effects: {
       money: 25,
+      modifiers: [{ kind: "traffic", value: 1.1, days: 2 }, { kind: "iced", value: 4, days: 2 }],
+    },
+  },
+  {
+    id: "muggy_weather",
+    title: "Muggy Morning",
+    description: "The air is thick and damp. Your grounds are clumping and shots are running unpredictably all day.",
+    type: "negative",
+    trigger: "start_day",
+    probability: 0.05,
+    condition: (state) => (state.dayState?.dayNumber || 0) >= 4,
+    effects: {
+      modifiers: [{ kind: "quality", value: -5 }],
     },
   },
 
@@ -276,6 +412,36 @@ export const EVENTS: GameEvent[] = [
     },
   },
 
+  // --- DELIVERY EVENTS (rolled overnight when purchase orders are due) ---
+  {
+    id: "delivery_late",
+    title: "Delivery Running Late",
+    description: "The supplier's van broke down on the ring road. This morning's deliveries will arrive tomorrow instead.",
+    type: "negative",
+    trigger: "delivery",
+    probability: 0.08,
+    condition: hasDeliveriesDue,
+    effects: {
+      delivery: {
+        delayDays: 1,
+      },
+    },
+  },
+  {
+    id: "delivery_short",
+    title: "Short Delivery",
+    description: "Your supplier couldn't fill the whole order. They sent half and refunded the rest.",
+    type: "negative",
+    trigger: "delivery",
+    probability: 0.06,
+    condition: hasDeliveriesDue,
+    effects: {
+      delivery: {
+        fractionSent: 0.5,
+      },
+    },
+  },
+
   // --- COMPETITION EVENTS ---
   {
     id: "competitor_opens",
@@ -287,6 +453,7 @@ export const EVENTS: GameEvent[] = [
     condition: (state) => (state.dayState?.dayNumber || 0) >= 10,
     effects: {
       reputation: -5,
+      modifiers: [{ kind: "traffic", value: 0.85, days: 3 }],
     },
   },
   {
@@ -300,6 +467,7 @@ export const EVENTS: GameEvent[] = [
     effects: {
       reputation: 8,
       money: 40,
+      modifiers: [{ kind: "traffic", value: 1.2, days: 3 }],
     },
   },
 
@@ -329,7 +497,7 @@ export const EVENTS: GameEvent[] = [
   {
     id: "power_surge",
     title: "Power Surge",
-    description: "A brief power surge messed with your equipment. Everything's fine, but you had to throw out some ingredients.",
+    description: "A power surge tripped the espresso machine. It'll take about an hour to get back up to pressure, and you had to throw out some ingredients.",
     type: "negative",
     trigger: "random_service",
     probability: 0.01,
@@ -338,6 +506,7 @@ export const EVENTS: GameEvent[] = [
         beans: -100,
         milk: -300,
       },
+      modifiers: [{ kind: "outage", resource: "espresso machine", minutes: 60 }],
     },
   },
 
@@ -353,6 +522,7 @@ export const EVENTS: GameEvent[] = [
     effects: {
       reputation: 10,
       money: 50,
+      modifiers: [{ kind: "traffic", value: 1.3, days: 2 }],
     },
   },
   {
@@ -419,6 +589,28 @@ export const EVENTS: GameEvent[] = [
   },
 ];
 
+export const EVENTS: GameEvent[] = mergeEvents(BUILT_IN_EVENTS, [
+  ...parseEventDefinitions(eventContent),
+  ...parseEventDefinitions(storyContent),
+]);
+
+// Events the game master may set off during service (see game-master.ts):
+// ones that stand on their own, never story chapters, follow-ups or milestones
+export const GM_EVENT_TEMPLATES = [
+  "rush_hour",
+  "generous_tip",
+  "spilled_milk",
+  "local_blogger",
+  "grinder_malfunction",
+  "machine_leak",
+  "power_surge",
+  "viral_post",
+  "broken_cup",
+  "neighbour_milk",
+  "lunch_crowd_regulars",
+  "catering_order",
+];
+
 // ============================================================================
 // EVENT LOGIC
 // ============================================================================
@@ -428,13 +620,15 @@ export const EVENTS: GameEvent[] = [
  */
 export function checkForEvent(
   state: GameState,
-  trigger: EventTrigger
+  trigger: EventTrigger,
+  rng: RandomSource = systemRandom,
+  clock: Clock = systemClock
 ): GameEvent | null {
   // Cooldown for random events (prevent multiple in quick succession)
   if (trigger === "random_service") {
     const lastEventTime = state.eventStats?.lastEventTimestamp;
     if (lastEventTime) {
-      const timeSinceLastEvent = Date.now() - lastEventTime;
+      const timeSinceLastEvent = clock.now() - lastEventTime;
       const COOLDOWN_MS = 60000; // 1 minute minimum between events
       if (timeSinceLastEvent < COOLDOWN_MS) {
         return null;
@@ -444,15 +638,17 @@ export function checkForEvent(
 
   // Filter events by trigger and condition
   const candidates = EVENTS.filter(
-    (event) =>
-      event.trigger === trigger &&
-      (!event.condition || event.condition(state)) &&
-      !hasEventOccurredToday(state, event.id)
+    (event) => event.trigger === trigger && canEventHappen(state, event)
   );
 
+  // Follow-ups that are due fire ahead of anything left to chance, but not ahead of
+  // a certain event like rent; they stay scheduled and come up on the next check
+  const followUp = getDueFollowUp(state, trigger);
+  if (followUp && !candidates.some(event => event.probability >= 1)) return followUp;
+
   // Check probabilities
   for (const event of candidates) {
-    if (Math.random() < event.probability) {
+    if (rng.next() < event.probability) {
       return event;
     }
   }
@@ -460,6 +656,30 @@ export function checkForEvent(
   return null;
 }
 
+/**
+ * The first scheduled follow-up due today (or overdue) for this trigger
+ */
+function getDueFollowUp(state: GameState, trigger: EventTrigger): GameEvent | null {
+  const today = state.dayState?.dayNumber || 1;
+
+  for (const scheduled of state.scheduledEvents || []) {
+    const event = EVENTS.find(candidate => candidate.id === scheduled.eventId);
+    if (event && event.trigger === trigger && scheduled.day <= today) return event;
+  }
+  return null;
+}
+
+/**
+ * Whether an event's conditions hold and it hasn't already happened today
+ */
+export function canEventHappen(state: GameState, event: GameEvent): boolean {
+  return (
+    (!event.condition || event.condition(state)) &&
+    meetsConditions(state, event.conditions) &&
+    !hasEventOccurredToday(state, event.id)
+  );
+}
+
 /**
  * Check if an event has already happened today to prevent duplicates
  */
@@ -473,79 +693,110 @@ function hasEventOccurredToday(state: GameState, eventId: string): boolean {
 }
 
 /**
- * Apply event effects to game state
+ * Apply an event's (or a choice's) effects to game state
  */
-export function applyEventEffects(
-  state: GameState,
-  event: GameEvent
-): GameState {
+function applyEffects(state: GameState, source: string, effects: EventEffect, now: number): GameState {
   let newState = { ...state };
 
-  if (!event.effects) return newState;
-
   // Apply money changes
-  if (event.effects.money) {
-    newState.money = Math.max(0, newState.money + event.effects.money);
+  if (effects.money) {
+    newState.money = Math.max(0, newState.money + effects.money);
   }
 
   // Apply reputation changes (clamped 0-100)
-  if (event.effects.reputation !== undefined) {
+  if (effects.reputation !== undefined) {
     const currentReputation = newState.reputation || 50; // Default to 50 if not set
     newState.reputation = Math.max(0, Math.min(100,
-      currentReputation + event.effects.reputation
+      currentReputation + effects.reputation
     ));
   }
 
   // Apply inventory changes
-  if (event.effects.inventory) {
-    const effects = event.effects.inventory;
+  if (effects.inventory) {
+    const stock = effects.inventory;
     const inventory = { ...newState.inventory };
 
     // Update milk (all types equally)
-    if (effects.milk) {
+    if (stock.milk) {
       inventory.milks = { ...inventory.milks };
       const milkTypes = ['whole', 'skim', 'oat', 'almond'] as const;
       milkTypes.forEach(type => {
         inventory.milks[type] = Math.max(0,
-          inventory.milks[type] + effects.milk!
+          inventory.milks[type] + stock.milk!
         );
       });
     }
 
-    // Update beans
-    if (effects.beans && inventory.beans.length > 0) {
-      inventory.beans = inventory.beans.map((bean, index) => {
-        if (index === 0) {
-          return {
-            ...bean,
-            grams: Math.max(0, bean.grams + effects.beans!)
-          };
-        }
-        return bean;
-      });
-    }
-
     // Update syrups
-    if (effects.syrup) {
+    if (stock.syrup) {
       inventory.syrups = { ...inventory.syrups };
       Object.keys(inventory.syrups).forEach(syrup => {
         inventory.syrups[syrup] = Math.max(0,
-          inventory.syrups[syrup] + effects.syrup!
+          inventory.syrups[syrup] + stock.syrup!
         );
       });
     }
 
     // Update food/pastries
-    if (effects.pastry) {
+    if (stock.pastry) {
       inventory.food = { ...inventory.food };
       Object.keys(inventory.food).forEach(food => {
         inventory.food[food] = Math.max(0,
-          inventory.food[food] + effects.pastry!
+          inventory.food[food] + stock.pastry!
         );
       });
     }
 
-    newState.inventory = inventory;
+    // Beans come and go from the house beans, whichever bags are left of them
+    newState.inventory = stock.beans
+      ? adjustBeans(inventory, DEFAULT_BEAN_ID, stock.beans, new Date(now).toISOString())
+      : inventory;
+  }
+
+  // Apply delivery problems to the purchase orders due today
+  if (effects.delivery && newState.purchaseOrders) {
+    const { delayDays, fractionSent } = effects.delivery;
+    const today = newState.dayState?.dayNumber || 1;
+
+    if (fractionSent !== undefined) {
+      const shorted = shortDeliveries(newState.purchaseOrders, today, fractionSent);
+      newState.purchaseOrders = shorted.orders;
+      newState.money += shorted.refund;
+    }
+    if (delayDays) {
+      newState.purchaseOrders = delayDeliveries(newState.purchaseOrders, today, delayDays);
+    }
+  }
+
+  // Move story arcs along
+  if (effects.flags) {
+    newState.storyFlags = setStoryFlags(newState.storyFlags, effects.flags, newState.dayState?.dayNumber || 1);
+  }
+
+  // Start anything that lasts a while
+  if (effects.modifiers) {
+    newState = startModifiers(newState, source, effects.modifiers, now);
+  }
+
+  return newState;
+}
+
+/**
+ * Apply an event to game state: its effects, statistics and history
+ */
+export function applyEventEffects(
+  state: GameState,
+  event: GameEvent,
+  clock: Clock = systemClock
+): GameState {
+  const newState = event.effects ? applyEffects(state, event.id, event.effects, clock.now()) : { ...state };
+
+  // A follow-up that has now happened is no longer waiting
+  if (newState.scheduledEvents) {
+    const today = state.dayState?.dayNumber || 1;
+    newState.scheduledEvents = newState.scheduledEvents.filter(
+      scheduled => scheduled.eventId !== event.id || scheduled.day > today
+    );
   }
 
   // Update event statistics
@@ -555,7 +806,7 @@ export function applyEventEffects(
       ...(state.eventStats?.eventCounts || {}),
       [event.id]: ((state.eventStats?.eventCounts?.[event.id] || 0) + 1),
     },
-    lastEventTimestamp: Date.now(),
+    lastEventTimestamp: clock.now(),
   };
   newState.eventStats = eventStats;
 
@@ -563,7 +814,7 @@ export function applyEventEffects(
   const historyEntry = {
     eventId: event.id,
     day: state.dayState?.dayNumber || 1,
-    timestamp: Date.now(),
+    timestamp: clock.now(),
   };
 
   newState.eventsHistory = [
@@ -573,3 +824,47 @@ export function applyEventEffects(
 
   return newState;
 }
+
+// ============================================================================
+// CHOICES
+// ============================================================================
+
+/**
+ * Whether the event on screen is still waiting for the player to decide
+ */
+export function isAwaitingChoice(state: GameState): boolean {
+  return (state.activeEvent?.choices?.length ?? 0) > 0;
+}
+
+/**
+ * Apply the option the player picked for an event: its effects, any follow-up
+ * it sets off, and a note of the decision on the event's history entry
+ */
+export function resolveEventChoice(
+  state: GameState,
+  event: GameEvent,
+  choiceId: string,
+  rng: RandomSource = systemRandom,
+  clock: Clock = systemClock
+): GameState {
+  const choice = event.choices?.find(option => option.id === choiceId);
+  if (!choice) throw new Error(`"${event.title}" has no choice "${choiceId}"`);
+
+  const newState = choice.effects ? applyEffects(state, event.id, choice.effects, clock.now()) : { ...state };
+  const today = state.dayState?.dayNumber || 1;
+
+  const followUp = choice.followUp;
+  if (followUp && (followUp.chance === undefined || rng.next() < followUp.chance)) {
+    const scheduled: ScheduledEvent = { eventId: followUp.eventId, day: today + (followUp.inDays ?? 0) };
+    newState.scheduledEvents = [...(state.scheduledEvents || []), scheduled];
+  }
+
+  // The decision goes on the latest history entry for the event
+  const history = state.eventsHistory || [];
+  const index = history.map(entry => entry.eventId).lastIndexOf(event.id);
+  if (index !== -1) {
+    newState.eventsHistory = history.map((entry, i) => (i === index ? { ...entry, choice: choice.id } : entry));
+  }
+
+  return newState;
+}
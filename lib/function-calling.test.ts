@@ -9,6 +9,7 @@ import {
   checkAllergens,
   completeOrder,
   executeFunctionCall,
+  buildTicket,
 } from "./function-calling";
 
 describe("Function Calling System", () => {
@@ -68,6 +69,74 @@ describe("Function Calling System", () => {
         });
       }).toThrow("Invalid drink type: invalid_drink");
     });
+
+    it("should parse a multi-item order", () => {
+      const result = parseOrder({
+        items: [
+          { item_type: "drink", sku: "latte", milk_type: "oat" },
+          { item_type: "food", sku: "croissant", warm: true },
+          { item_type: "drink", sku: "espresso" },
+        ],
+      });
+
+      expect(result.drinkType).toBe("latte");
+      expect(result.milkType).toBe("oat");
+      expect(result.items).toHaveLength(3);
+      expect(result.items[1]).toEqual({ type: "food", sku: "croissant", quantity: 1, warm: true });
+    });
+
+    it("should build a single item from the legacy drink_type", () => {
+      const result = parseOrder({ drink_type: "cappuccino", milk_type: "skim" });
+
+      expect(result.items).toEqual([
+        { type: "drink", sku: "cappuccino", quantity: 1, modifiers: { milk: "skim" } },
+      ]);
+    });
+
+    it("should reject invalid food items", () => {
+      expect(() => {
+        parseOrder({
+          items: [
+            { item_type: "drink", sku: "latte" },
+            { item_type: "food", sku: "pizza" },
+          ],
+        });
+      }).toThrow("Invalid food type: pizza");
+    });
+
+    it("should parse drink modifiers", () => {
+      const result = parseOrder({
+        items: [
+          {
+            item_type: "drink",
+            sku: "latte",
+            size: "large",
+            temp: "iced",
+            extra_shot: true,
+            syrup: "vanilla",
+          },
+        ],
+      });
+
+      expect(result.items[0]).toEqual({
+        type: "drink",
+        sku: "latte",
+        quantity: 1,
+        modifiers: { size: "large", temp: "iced", extraShot: true, syrup: "vanilla" },
+      });
+    });
+
+    it("should reject unknown syrups", () => {
+      expect(() => {
+        parseOrder({ items: [{ item_type: "drink", sku: "latte", syrup: "bacon" }] });
+      }).toThrow("Invalid syrup: bacon");
+    });
+
+    it("should reject orders without a drink", () => {
+      expect(() => {
+        parseOrder({ items: [{ item_type: "food", sku: "bagel" }] });
+      }).toThrow("Order must include at least one drink");
+    });
   });
 
   describe("createTicket", () => {
@@ -122,6 +191,52 @@ describe("Function Calling System", () => {
         });
       }).toThrow("Invalid drink type: invalid_drink");
     });
+
+    it("should create one line per unit with a price quote", () => {
+      const ticket = createTicket({
+        customer_name: "Riley",
+        items: [
+          { item_type: "drink", sku: "latte", milk_type: "oat" },
+          { item_type: "drink", sku: "espresso", quantity: 2 },
+          { item_type: "food", sku: "croissant", warm: true },
+        ],
+      });
+
+      expect(ticket.drinkType).toBe("latte");
+      expect(ticket.milkType).toBe("oat");
+      expect(ticket.items).toHaveLength(4);
+      expect(ticket.items!.every(line => line.item.quantity === 1)).toBe(true);
+      expect(ticket.items!.every(line => line.status === "pending")).toBe(true);
+      // latte 4.50 + oat 0.75 + 2x espresso 3.00 + croissant 3.50 = 14.75
+      expect(ticket.quote!.subtotal).toBe(14.75);
+    });
+
+    it("should plate food before the drinks", () => {
+      const ticket = createTicket({
+        customer_name: "Quinn",
+        items: [
+          { item_type: "drink", sku: "mocha" },
+          { item_type: "food", sku: "muffin" },
+        ],
+      });
+
+      expect(ticket.items!.map(line => line.item.sku)).toEqual(["muffin", "mocha"]);
+    });
+  });
+
+  describe("buildTicket", () => {
+    it("should require at least one drink", () => {
+      expect(() => {
+        buildTicket("Sage", [{ type: "food", sku: "bagel", quantity: 1 }]);
+      }).toThrow("Order must include at least one drink");
+    });
+
+    it("should give every line a unique id", () => {
+      const ticket = buildTicket("Sage", [{ type: "drink", sku: "americano", quantity: 3 }]);
+      const ids = new Set(ticket.items!.map(line => line.id));
+
+      expect(ids.size).toBe(3);
+    });
   });
 
   describe("checkAllergens", () => {
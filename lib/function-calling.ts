@@ -3,15 +3,97 @@
  *
  * Defines the schema and handlers for LLM function calls.
  * This allows the LLM to interact with game systems:
- * - parse_order: Extract structured data from natural language
- * - create_ticket: Add order to queue system
+ * - parse_order: Extract structured data (one or more line items) from natural language
+ * - create_ticket: Add a multi-item order to the queue system
  * - check_allergens: Validate drink safety
  * - complete_order: Finalize and score the order
+ * - spawn_event: Let the game master set off one of the whitelisted events
+ * - post_review: Write a customer's review (the stars are decided by the rules)
+ * - recall: Look up what a returning customer remembers of the café
+ * - remember: Note a fact a customer told the barista, for their next visit
  */
 
-import type { DrinkType, MilkType, GrindSize } from "./types";
-import { VALID_DRINKS, VALID_MILK_TYPES } from "./types";
+import type { DrinkType, FoodType, MilkType } from "./types";
+import { VALID_DRINKS, VALID_FOODS, VALID_MILK_TYPES } from "./types";
 import { RECIPES } from "./recipes";
+import {
+  calculatePriceQuote,
+  type OrderItem,
+  type OrderModifiers,
+  type OrderSize,
+  type PriceQuote,
+} from "./pricing";
+import { VALID_SIZES, VALID_SYRUPS } from "./modifiers";
+import { GM_EVENT_TEMPLATES } from "./events";
+import { MAX_REVIEW_LENGTH, sanitizeReviewText } from "./reviews";
+import { MAX_NOTE_LENGTH, sanitizeNote, type CustomerRecollection } from "./customer-memory";
+import { systemClock, systemRandom, type Clock, type RandomSource } from "./random";
+
+// ============================================================================
+// SHARED SCHEMA FRAGMENTS
+// ============================================================================
+
+const ORDER_ITEMS_SCHEMA = {
+  type: "array",
+  description: "Every item the customer asked for, including drinks for friends and food. One entry per distinct item; use quantity for repeats.",
+  items: {
+    type: "object",
+    properties: {
+      item_type: {
+        type: "string",
+        enum: ["drink", "food"],
+        description: "Whether this line is a drink or a food item"
+      },
+      sku: {
+        type: "string",
+        enum: [...VALID_DRINKS, ...VALID_FOODS],
+        description: "The drink or food being ordered"
+      },
+      quantity: {
+        type: "integer",
+        minimum: 1,
+        description: "How many of this item (defaults to 1)"
+      },
+      milk_type: {
+        type: "string",
+        enum: ["whole", "skim", "oat", "almond"],
+        description: "Milk for this drink if specified"
+      },
+      size: {
+        type: "string",
+        enum: VALID_SIZES,
+        description: "Cup size if the customer specified one"
+      },
+      temp: {
+        type: "string",
+        enum: ["hot", "iced"],
+        description: "Whether the drink is hot or iced (omit for hot)"
+      },
+      extra_shot: {
+        type: "boolean",
+        description: "Customer asked for an extra espresso shot"
+      },
+      decaf: {
+        type: "boolean",
+        description: "Customer asked for decaf"
+      },
+      syrup: {
+        type: "string",
+        enum: VALID_SYRUPS,
+        description: "Flavor syrup if requested"
+      },
+      whipped_cream: {
+        type: "boolean",
+        description: "Customer asked for whipped cream on top"
+      },
+      warm: {
+        type: "boolean",
+        description: "Whether a food item should be warmed"
+      }
+    },
+    required: ["item_type", "sku"]
+  }
+};
 
 // ============================================================================
 // TOOL DEFINITIONS (OpenAI Function Calling Schema)
@@ -22,14 +104,15 @@ export const TOOLS = [
     type: "function" as const,
     function: {
       name: "parse_order",
-      description: "Parse a customer's natural language order into structured drink parameters. Extract the drink type and any specific preferences mentioned.",
+      description: "Parse a customer's natural language order into structured line items. An order may contain several drinks and food items; extract each one along with any specific preferences mentioned.",
       parameters: {
         type: "object",
         properties: {
+          items: ORDER_ITEMS_SCHEMA,
           drink_type: {
             type: "string",
             enum: ["espresso", "latte", "cappuccino", "pourover", "aeropress"],
-            description: "The type of coffee drink ordered"
+            description: "The main coffee drink ordered (legacy single-drink field, prefer items)"
           },
           milk_type: {
             type: "string",
@@ -52,7 +135,7 @@ export const TOOLS = [
             description: "How rushed or relaxed the customer seems based on their language"
           }
         },
-        required: ["drink_type"]
+        required: ["items"]
       }
     }
   },
@@ -68,10 +151,11 @@ export const TOOLS = [
             type: "string",
             description: "Name of the customer"
           },
+          items: ORDER_ITEMS_SCHEMA,
           drink_type: {
             type: "string",
             enum: ["espresso", "latte", "cappuccino", "pourover", "aeropress"],
-            description: "The drink to prepare"
+            description: "The main drink to prepare (legacy single-drink field, prefer items)"
           },
           milk_type: {
             type: "string",
@@ -88,7 +172,7 @@ export const TOOLS = [
             description: "Priority level based on customer urgency"
           }
         },
-        required: ["customer_name", "drink_type"]
+        required: ["customer_name", "items"]
       }
     }
   },
@@ -144,6 +228,81 @@ export const TOOLS = [
         required: ["ticket_id", "drink_quality"]
       }
     }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "spawn_event",
+      description: "Set off an event at the café to shape the pacing of the day. Only the listed events can be spawned; the game rules decide whether it can happen right now and apply its effects.",
+      parameters: {
+        type: "object",
+        properties: {
+          event_id: {
+            type: "string",
+            enum: GM_EVENT_TEMPLATES,
+            description: "The event to set off"
+          },
+          reason: {
+            type: "string",
+            description: "Why this event, now: one sentence about the pacing of the day"
+          }
+        },
+        required: ["event_id", "reason"]
+      }
+    }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "post_review",
+      description: "Post a customer's short review of their visit, written in their own voice. The star rating has already been decided and cannot be changed; only write the words.",
+      parameters: {
+        type: "object",
+        properties: {
+          review_text: {
+            type: "string",
+            maxLength: MAX_REVIEW_LENGTH,
+            description: "The review, 1-2 sentences in the customer's voice, matching the star rating"
+          }
+        },
+        required: ["review_text"]
+      }
+    }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "recall",
+      description: "Recall your past visits to this café: how well the barista knows you, what you ordered last time and what you've told them before",
+      parameters: {
+        type: "object",
+        properties: {
+          customer_name: {
+            type: "string",
+            description: "Your name"
+          }
+        },
+        required: ["customer_name"]
+      }
+    }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "remember",
+      description: "Remember something about yourself that you mentioned to the barista (e.g. 'training for a marathon'), so you can bring it up next visit",
+      parameters: {
+        type: "object",
+        properties: {
+          fact: {
+            type: "string",
+            maxLength: MAX_NOTE_LENGTH,
+            description: "A short fact about you, in a few words"
+          }
+        },
+        required: ["fact"]
+      }
+    }
   }
 ];
 
@@ -151,19 +310,50 @@ export const TOOLS = [
 // TYPES
 // ============================================================================
 
+/**
+ * Raw line item as emitted by the LLM in parse_order / create_ticket
+ */
+export interface OrderItemArgs {
+  item_type: string;
+  sku: string;
+  quantity?: number;
+  milk_type?: string;
+  size?: string;
+  temp?: string;
+  extra_shot?: boolean;
+  decaf?: boolean;
+  syrup?: string;
+  whipped_cream?: boolean;
+  warm?: boolean;
+}
+
 export interface ParsedOrder {
-  drinkType: DrinkType;
+  drinkType: DrinkType; // First drink in the order
   milkType?: MilkType;
+  items: OrderItem[];
   temperaturePreference?: "hot" | "extra_hot" | "warm";
   specialRequests?: string[];
   urgency?: "relaxed" | "normal" | "rushed";
 }
 
+/**
+ * A single unit of work on a ticket (one drink to brew or one food to plate)
+ */
+export interface TicketLineItem {
+  id: string;
+  item: OrderItem; // Always quantity 1
+  status: "pending" | "completed";
+  quality?: number;
+  milkType?: MilkType; // What the barista brewed it with, recorded by the brew action
+}
+
 export interface OrderTicket {
   id: string;
   customerName: string;
-  drinkType: DrinkType;
+  drinkType: DrinkType; // First drink in the order
   milkType?: MilkType;
+  items?: TicketLineItem[]; // Missing on legacy single-drink tickets
+  quote?: PriceQuote;
   notes?: string;
   priority: "normal" | "high";
   status: "pending" | "in_progress" | "completed" | "cancelled";
@@ -177,6 +367,26 @@ export interface AllergenCheckResult {
   blockers: string[];
 }
 
+export interface SpawnEventRequest {
+  eventId: string;
+  reason: string;
+}
+
+export interface ReviewPost {
+  text: string;
+}
+
+export interface RememberedFact {
+  fact: string;
+}
+
+/**
+ * What tools that read game state can see (the rest only need their arguments)
+ */
+export interface ToolContext {
+  recollections?: CustomerRecollection[];
+}
+
 export interface OrderCompletion {
   ticketId: string;
   drinkQuality: number;
@@ -185,6 +395,142 @@ export interface OrderCompletion {
   tip?: number;
 }
 
+// ============================================================================
+// ORDER ITEM HELPERS
+// ============================================================================
+
+function isValidMilk(milkType?: string): milkType is Exclude<MilkType, "none"> {
+  return !!milkType && VALID_MILK_TYPES.includes(milkType as Exclude<MilkType, "none">);
+}
+
+/**
+ * Collect drink modifiers from a raw line item (undefined when none were given)
+ */
+function parseModifiers(raw: OrderItemArgs): OrderModifiers | undefined {
+  const modifiers: OrderModifiers = {};
+
+  if (isValidMilk(raw.milk_type)) modifiers.milk = raw.milk_type;
+  if (raw.size && VALID_SIZES.includes(raw.size as OrderSize)) modifiers.size = raw.size as OrderSize;
+  if (raw.temp === "iced") modifiers.temp = "iced";
+  if (raw.extra_shot) modifiers.extraShot = true;
+  if (raw.decaf) modifiers.decaf = true;
+  if (raw.whipped_cream) modifiers.whippedCream = true;
+  if (raw.syrup) {
+    if (!VALID_SYRUPS.includes(raw.syrup)) {
+      throw new Error(`Invalid syrup: ${raw.syrup}`);
+    }
+    modifiers.syrup = raw.syrup;
+  }
+
+  return Object.keys(modifiers).length > 0 ? modifiers : undefined;
+}
+
+/**
+ * Validate raw LLM line items into typed order items
+ * Falls back to the legacy single drink_type/milk_type fields when no items are given
+ */
+export function parseOrderItems(
+  items: OrderItemArgs[] | undefined,
+  fallback: { drink_type?: string; milk_type?: string }
+): OrderItem[] {
+  const rawItems: OrderItemArgs[] = items && items.length > 0
+    ? items
+    : fallback.drink_type
+      ? [{ item_type: "drink", sku: fallback.drink_type, milk_type: fallback.milk_type }]
+      : [];
+
+  const parsed = rawItems.map((raw): OrderItem => {
+    const quantity = Math.max(1, Math.floor(raw.quantity ?? 1));
+
+    if (raw.item_type === "food") {
+      if (!VALID_FOODS.includes(raw.sku as FoodType)) {
+        throw new Error(`Invalid food type: ${raw.sku}`);
+      }
+      return { type: "food", sku: raw.sku as FoodType, quantity, warm: raw.warm || undefined };
+    }
+
+    if (!VALID_DRINKS.includes(raw.sku as DrinkType)) {
+      throw new Error(`Invalid drink type: ${raw.sku}`);
+    }
+    return {
+      type: "drink",
+      sku: raw.sku as DrinkType,
+      quantity,
+      modifiers: parseModifiers(raw),
+    };
+  });
+
+  if (!parsed.some(item => item.type === "drink")) {
+    throw new Error("Order must include at least one drink");
+  }
+
+  return parsed;
+}
+
+/**
+ * Expand order items into one ticket line per unit so each is brewed/plated separately
+ * Food is plated first so the last step on a ticket is always a freshly brewed drink
+ */
+export function expandLineItems(ticketId: string, items: OrderItem[]): TicketLineItem[] {
+  const lines: TicketLineItem[] = [];
+  const ordered = [
+    ...items.filter(item => item.type === "food"),
+    ...items.filter(item => item.type === "drink"),
+  ];
+
+  for (const item of ordered) {
+    for (let i = 0; i < item.quantity; i++) {
+      lines.push({
+        id: `${ticketId}_item_${lines.length + 1}`,
+        item: { ...item, quantity: 1 },
+        status: "pending",
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Build a priced, multi-item ticket for a customer
+ * Used by the create_ticket tool and by offline fallbacks that skip the LLM
+ */
+export function buildTicket(
+  customerName: string,
+  items: OrderItem[],
+  options: { notes?: string; priority?: "normal" | "high" } = {},
+  rng: RandomSource = systemRandom,
+  clock: Clock = systemClock
+): OrderTicket {
+  const firstDrink = items.find(item => item.type === "drink");
+  if (!firstDrink || firstDrink.type !== "drink") {
+    throw new Error("Order must include at least one drink");
+  }
+
+  const id = `ticket_${clock.now()}_${rng.next().toString(36).substr(2, 9)}`;
+
+  const ticket: OrderTicket = {
+    id,
+    customerName,
+    drinkType: firstDrink.sku,
+    items: expandLineItems(id, items),
+    quote: calculatePriceQuote(items),
+    priority: options.priority || "normal",
+    status: "pending",
+    createdAt: clock.now(),
+  };
+
+  if (firstDrink.modifiers?.milk) {
+    ticket.milkType = firstDrink.modifiers.milk;
+  }
+
+  if (options.notes) {
+    ticket.notes = options.notes;
+  }
+
+  return ticket;
+}
+
 // ============================================================================
 // FUNCTION HANDLERS
 // ============================================================================
@@ -193,26 +539,31 @@ export interface OrderCompletion {
  * Parse a natural language order into structured data
  */
 export function parseOrder(args: {
-  drink_type: string;
+  items?: OrderItemArgs[];
+  drink_type?: string;
   milk_type?: string;
   temperature_preference?: string;
   special_requests?: string[];
   urgency?: string;
 }): ParsedOrder {
-  // Validate drink type
-  if (!VALID_DRINKS.includes(args.drink_type as DrinkType)) {
+  // Validate legacy drink type if provided on its own
+  if (!args.items?.length && !VALID_DRINKS.includes(args.drink_type as DrinkType)) {
     throw new Error(`Invalid drink type: ${args.drink_type}`);
   }
 
+  const items = parseOrderItems(args.items, args);
+  const firstDrink = items.find(item => item.type === "drink")!;
+
   const parsed: ParsedOrder = {
-    drinkType: args.drink_type as DrinkType,
+    drinkType: firstDrink.sku as DrinkType,
+    items,
   };
 
   // Add optional fields if provided
-  if (args.milk_type) {
-    if (VALID_MILK_TYPES.includes(args.milk_type as Exclude<MilkType, "none">)) {
-      parsed.milkType = args.milk_type as MilkType;
-    }
+  if (firstDrink.type === "drink" && firstDrink.modifiers?.milk) {
+    parsed.milkType = firstDrink.modifiers.milk;
+  } else if (isValidMilk(args.milk_type)) {
+    parsed.milkType = args.milk_type;
   }
 
   if (args.temperature_preference) {
@@ -235,35 +586,22 @@ export function parseOrder(args: {
  */
 export function createTicket(args: {
   customer_name: string;
-  drink_type: string;
+  items?: OrderItemArgs[];
+  drink_type?: string;
   milk_type?: string;
   notes?: string;
   priority?: string;
 }): OrderTicket {
-  if (!VALID_DRINKS.includes(args.drink_type as DrinkType)) {
+  if (!args.items?.length && !VALID_DRINKS.includes(args.drink_type as DrinkType)) {
     throw new Error(`Invalid drink type: ${args.drink_type}`);
   }
 
-  const ticket: OrderTicket = {
-    id: `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    customerName: args.customer_name,
-    drinkType: args.drink_type as DrinkType,
-    priority: (args.priority as "normal" | "high") || "normal",
-    status: "pending",
-    createdAt: Date.now(),
-  };
-
-  if (args.milk_type) {
-    if (VALID_MILK_TYPES.includes(args.milk_type as Exclude<MilkType, "none">)) {
-      ticket.milkType = args.milk_type as MilkType;
-    }
-  }
-
-  if (args.notes) {
-    ticket.notes = args.notes;
-  }
+  const items = parseOrderItems(args.items, args);
 
-  return ticket;
+  return buildTicket(args.customer_name, items, {
+    notes: args.notes,
+    priority: args.priority === "high" ? "high" : "normal",
+  });
 }
 
 /**
@@ -322,11 +660,14 @@ export function checkAllergens(args: {
 /**
  * Complete an order and calculate satisfaction
  */
-export function completeOrder(args: {
-  ticket_id: string;
-  drink_quality: number;
-  service_notes?: string;
-}): OrderCompletion {
+export function completeOrder(
+  args: {
+    ticket_id: string;
+    drink_quality: number;
+    service_notes?: string;
+  },
+  rng: RandomSource = systemRandom
+): OrderCompletion {
   const quality = Math.max(0, Math.min(100, args.drink_quality));
 
   // Calculate customer satisfaction (quality is main factor)
@@ -334,11 +675,11 @@ export function completeOrder(args: {
 
   // Quality thresholds for satisfaction
   if (quality >= 90) {
-    satisfaction = 95 + Math.random() * 5; // Very happy
+    satisfaction = 95 + rng.next() * 5; // Very happy
   } else if (quality >= 75) {
-    satisfaction = 80 + Math.random() * 10; // Satisfied
+    satisfaction = 80 + rng.next() * 10; // Satisfied
   } else if (quality >= 60) {
-    satisfaction = 60 + Math.random() * 15; // Okay
+    satisfaction = 60 + rng.next() * 15; // Okay
   } else {
     satisfaction = Math.max(20, quality - 10); // Disappointed
   }
@@ -365,12 +706,73 @@ export function completeOrder(args: {
   };
 }
 
+/**
+ * Validate a game master's request to set off an event
+ * Only whitelisted events get through; whether one fits the café right now is for the rules engine (see game-master.ts)
+ */
+export function spawnEvent(args: {
+  event_id: string;
+  reason?: string;
+}): SpawnEventRequest {
+  if (!GM_EVENT_TEMPLATES.includes(args.event_id)) {
+    throw new Error(`Invalid event: ${args.event_id}`);
+  }
+  if (!args.reason?.trim()) {
+    throw new Error("A reason is required to spawn an event");
+  }
+
+  return { eventId: args.event_id, reason: args.reason.trim() };
+}
+
+/**
+ * Validate a customer review written by the LLM
+ * Only the words come back; anything else the model adds (like stars) is dropped
+ */
+export function postReview(args: { review_text?: string }): ReviewPost {
+  const text = sanitizeReviewText(args.review_text || "");
+  if (!text) {
+    throw new Error("Review text is required");
+  }
+
+  return { text };
+}
+
+/**
+ * Look up a customer's recollection of the café
+ * Null means they've never been served here (or weren't in the memories given)
+ */
+export function recall(
+  args: { customer_name?: string },
+  recollections: CustomerRecollection[] = []
+): CustomerRecollection | null {
+  const name = args.customer_name?.trim();
+  if (!name) {
+    throw new Error("A customer name is required to recall");
+  }
+
+  return recollections.find(recollection => recollection.name === name) || null;
+}
+
+/**
+ * Validate a fact a customer wants remembered
+ * Only the fact comes back; whose profile it goes on is up to the caller, not the model
+ */
+export function remember(args: { fact?: string }): RememberedFact {
+  const fact = sanitizeNote(args.fact || "");
+  if (!fact) {
+    throw new Error("A fact to remember is required");
+  }
+
+  return { fact };
+}
+
 /**
  * Execute a function call from the LLM
  */
 export function executeFunctionCall(
   functionName: string,
-  args: unknown
+  args: unknown,
+  context: ToolContext = {}
 ): unknown {
   switch (functionName) {
     case "parse_order":
@@ -381,6 +783,14 @@ export function executeFunctionCall(
       return checkAllergens(args as Parameters<typeof checkAllergens>[0]);
     case "complete_order":
       return completeOrder(args as Parameters<typeof completeOrder>[0]);
+    case "spawn_event":
+      return spawnEvent(args as Parameters<typeof spawnEvent>[0]);
+    case "post_review":
+      return postReview(args as Parameters<typeof postReview>[0]);
+    case "recall":
+      return recall(args as Parameters<typeof recall>[0], context.recollections);
+    case "remember":
+      return remember(args as Parameters<typeof remember>[0]);
     default:
       throw new Error(`Unknown function: ${functionName}`);
   }
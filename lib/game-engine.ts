@@ -20,7 +20,11 @@ import type {
   BrewResult,
   Customer,
   GameState,
+  BaristaProficiency,
+  BrewingStation,
+  StationState,
 } from "./types";
+import type { OrderModifiers } from "./pricing";
 
 import { RECIPES } from "./recipes";
 import { SCORING } from "./scoring";
@@ -29,6 +33,16 @@ import { createQueueState } from "./ticketing";
 import { createMemoryState } from "./customer-memory";
 import { createDayState } from "./day-structure";
 import { createDefaultEquipment, applyEquipmentBonus } from "./equipment";
+import { createDefaultMenu } from "./menu";
+import { applyBeanToRecipe, usesBeans, type BeanUse } from "./beans";
+import { applyProficiencyToRecipe, createProficiency, getProficiencyLevel } from "./proficiency";
+import {
+  ICED_MILK_RANGE,
+  checkModifiers,
+  getIcedRecipe,
+  getModifierPenalty,
+} from "./modifiers";
+import { systemClock, type Clock } from "./random";
 
 // ============================================================================
 // CONSTANTS - Configuration constants for the game
@@ -68,6 +82,7 @@ export { SCORING, GRIND_VALUES, calculateToleranceScore, scoreGrindSize } from "
 export type {
   GrindSize,
   DrinkType,
+  FoodType,
   DrinkCategory,
   MilkType,
   BrewParameters,
@@ -81,11 +96,31 @@ export type {
   BrewResult,
   Customer,
   GameState,
+  PurchaseOrder,
+  SupplySku,
+  StaffMember,
+  StaffSkills,
+  BaristaProficiency,
 } from "./types";
 
 // Re-export RECIPES for UI consumption
 export { RECIPES } from "./recipes";
 
+// Re-export modifier system
+export {
+  VALID_SIZES,
+  VALID_SYRUPS,
+  ICED_MILK_RANGE,
+  ICED_MILK_TEMP,
+  MODIFIER_PENALTIES,
+  getSizeMultiplier,
+  supportsModifier,
+  getIcedRecipe,
+  checkModifiers,
+  getModifierPenalty,
+} from "./modifiers";
+export type { ModifierKey, ModifierCheck } from "./modifiers";
+
 // Re-export inventory functions for UI consumption
 export {
   checkStock,
@@ -94,8 +129,98 @@ export {
   getAvailableMilkTypes,
   getLowStockWarnings,
   addStock,
+  checkFoodStock,
+  depleteFood,
+  getStockCost,
+  getFoodCost,
+  getBrewingBag,
+  spoilStock,
+  getExpiringStock,
+  UNIT_COSTS,
+  SHELF_LIFE_DAYS,
 } from "./inventory";
-export type { StockCheckResult } from "./inventory";
+export type {
+  StockCheckResult,
+  StockParameters,
+  BeanStock,
+  StockBatch,
+  SpoilageResult,
+  ExpiringStock,
+} from "./inventory";
+
+// Re-export bean catalog for UI consumption
+export {
+  BEAN_CATALOG,
+  BEAN_BAG_GRAMS,
+  getBagVariety,
+  getBeanAgeDays,
+  getFreshness,
+  describeFreshness,
+  applyBeanToRecipe,
+  getBeanComment,
+} from "./beans";
+export type { BeanVariety, BeanUse, RoastLevel } from "./beans";
+
+// Re-export suppliers for UI consumption
+export {
+  SUPPLIERS,
+  describeSku,
+  getSkuUnit,
+  getOffer,
+  getOrderCost,
+  getDueOrders,
+} from "./suppliers";
+export type { Supplier, SupplierOffer } from "./suppliers";
+
+// Re-export staff for UI consumption
+export {
+  STAFF_CANDIDATES,
+  MAX_STAFF,
+  getOnShift,
+  getDailyWages,
+} from "./staff";
+export type { StaffCandidate } from "./staff";
+
+// Re-export proficiency for UI consumption
+export {
+  DRINK_CATEGORIES,
+  TRAINING_COURSES,
+  getProficiencyLevel,
+  getParameterHints,
+} from "./proficiency";
+export type { ProficiencyLevel, TrainingCourse } from "./proficiency";
+
+// Re-export brewing stations for UI consumption
+export {
+  syncStations,
+  getResourceWait,
+  getStationTimeLeft,
+} from "./stations";
+export type { ResourceWait } from "./stations";
+
+// Re-export customer patience for UI consumption
+export { getPatienceSeconds, getPatienceLeft } from "./patience";
+
+// Re-export customer arrivals for UI consumption
+export { getArrivalRate } from "./arrivals";
+export { DAYS_OF_WEEK, getDayOfWeek } from "./time-system";
+
+// Re-export story arcs for UI consumption
+export { STORY_ARCS, getStoryProgress, isArcComplete } from "./story";
+export type { StoryArc, StoryProgress } from "./story";
+
+// Re-export event modifiers for UI consumption
+export { getActiveModifiers, getOutage, describeModifier } from "./event-modifiers";
+
+// Re-export the game master's rules for UI consumption
+export { shouldConsultGameMaster, createGameSnapshot } from "./game-master";
+export type { GameSnapshot, GameMasterDecision } from "./game-master";
+
+// Re-export customer reviews for UI consumption
+export { getReviewsForDay, getPendingReview, getReviewText, getDayReviewSummary } from "./reviews";
+
+// Re-export counter chats for UI consumption
+export { MAX_CHAT_LENGTH, MAX_CHAT_EXCHANGES, getConversation, getExchangeCount } from "./conversation";
 
 // Re-export LLM functions for UI consumption
 export {
@@ -112,10 +237,14 @@ export {
   createTicket,
   checkAllergens,
   completeOrder,
+  parseOrderItems,
+  buildTicket,
 } from "./function-calling";
 export type {
   ParsedOrder,
   OrderTicket,
+  TicketLineItem,
+  OrderItemArgs,
   AllergenCheckResult,
   OrderCompletion,
 } from "./function-calling";
@@ -136,6 +265,11 @@ export {
   clearCompleted,
   resetQueue,
   getQueueStats,
+  getTicketItems,
+  getNextTicketItem,
+  completeTicketItem,
+  isTicketReady,
+  getTicketQuality,
 } from "./ticketing";
 export type { QueueStats } from "./ticketing";
 
@@ -145,16 +279,24 @@ export {
   getCustomer,
   isReturningCustomer,
   recordVisit,
+  noteWalkOut,
   addNote,
   getFavoriteDrink,
   getRegularCustomers,
   getCustomerInsights,
   calculateReturningRate,
   getMemoryStats,
+  recallCustomer,
+  getRecollections,
+  rememberFact,
+  getCustomerDigest,
+  getPendingSummaries,
 } from "./customer-memory";
 export type {
   RelationshipLevel,
   MemoryStats,
+  CustomerRecollection,
+  CustomerDigest,
 } from "./customer-memory";
 
 // Re-export day structure system
@@ -164,9 +306,12 @@ export {
   endService,
   startNewDay,
   recordCustomer,
+  recordWalkOut,
+  recordTransaction,
   restockInventory,
   getRestockCost,
   getDaySummary,
+  getProfitAndLoss,
   getPerformanceEmoji,
   getPerformanceDescription,
 } from "./day-structure";
@@ -175,14 +320,47 @@ export type {
   DayStats,
   DayState,
   DaySummary,
+  DayAccount,
+  ProfitAndLoss,
 } from "./day-structure";
 
+// Re-export reputation system
+export {
+  rateVisit,
+  addRating,
+  getLastRating,
+  applyRating,
+  getStarRating,
+  formatStars,
+  getFootTrafficMultiplier,
+  getTipMultiplier,
+  calculateTip,
+} from "./reputation";
+export type { RatingInput, RatingResult } from "./reputation";
+export type { CustomerRating, RatingSummary } from "./types";
+
+// Re-export menu system
+export {
+  createDefaultMenu,
+  getMenuPrice,
+  isOnMenu,
+  getMenuDrinks,
+  getMenuFoods,
+  updateMenuItem,
+  getPurchaseChance,
+  MIN_MENU_PRICE,
+  MAX_MENU_PRICE,
+} from "./menu";
+export type { Menu, MenuItem } from "./menu";
+export { getMenuDemandMultiplier } from "./customer-generator";
+
 // Re-export equipment system
 export {
   createDefaultEquipment,
   getAvailableUpgrades,
   getCurrentEquipment,
   getEquipmentValue,
+  getDailyDepreciation,
   purchaseEquipment,
   canAffordAnyUpgrade,
   getCheapestUpgrade,
@@ -213,8 +391,10 @@ function validateBrewParameters(params: BrewParameters): void {
   }
 
   if (params.milkTemp !== undefined) {
-    if (params.milkTemp < MILK_RANGE.TEMP_MIN || params.milkTemp > MILK_RANGE.TEMP_MAX) {
-      throw new Error(`Milk temperature ${params.milkTemp}°C out of range [${MILK_RANGE.TEMP_MIN}-${MILK_RANGE.TEMP_MAX}]`);
+    // Iced drinks use cold milk, so they have their own range
+    const range = params.iced ? ICED_MILK_RANGE : MILK_RANGE;
+    if (params.milkTemp < range.TEMP_MIN || params.milkTemp > range.TEMP_MAX) {
+      throw new Error(`Milk temperature ${params.milkTemp}°C out of range [${range.TEMP_MIN}-${range.TEMP_MAX}]`);
     }
   }
 
@@ -303,15 +483,41 @@ Object.values(RECIPES).forEach(validateRuleWeights);
 // BREWING ENGINE - Main execution pipeline
 // ============================================================================
 
+// What's known about the brew beyond the controls; anything left out is simply not scored
+export interface BrewOptions {
+  equipment?: Equipment;
+  modifiers?: OrderModifiers; // What the customer ordered
+  bean?: BeanUse;
+  proficiency?: BaristaProficiency;
+  qualityShift?: number; // From the day's event modifiers
+}
+
+/**
+ * Brew a drink and score it against its recipe
+ * When the ordered modifiers are known, each one that was missed costs quality
+ * When the bean is known, its grind/temperature offsets move the targets and its freshness scales quality
+ * When the barista's proficiency is known, their level in the drink's category widens its tolerances
+ * A quality shift from the day's event modifiers moves the final score up or down
+ */
 export function brewDrink(
   drinkType: DrinkType,
   params: BrewParameters,
-  equipment?: Equipment
+  options: BrewOptions = {}
 ): BrewResult {
+  const { equipment, modifiers: orderedModifiers, bean, proficiency, qualityShift = 0 } = options;
+
   // Validate inputs
   validateBrewParameters(params);
 
-  const recipe = RECIPES[drinkType];
+  // Iced drinks are scored against cold-milk targets, and each bean wants its own grind and temperature
+  const coffeeBean = bean && usesBeans(drinkType) ? bean : undefined;
+  const baseRecipe = params.iced ? getIcedRecipe(RECIPES[drinkType]) : RECIPES[drinkType];
+  const beanRecipe = coffeeBean ? applyBeanToRecipe(baseRecipe, coffeeBean.variety) : baseRecipe;
+
+  // A more practised barista gets more leeway on each parameter
+  const recipe = proficiency
+    ? applyProficiencyToRecipe(beanRecipe, getProficiencyLevel(proficiency, beanRecipe.category).level)
+    : beanRecipe;
   const context: RuleContext = {
     drinkType,
     drinkCategory: recipe.category,
@@ -345,14 +551,44 @@ export function brewDrink(
     quality = applyEquipmentBonus(quality, equipment, recipe.category);
   }
 
+  // Stale beans flatten even a perfect extraction
+  if (coffeeBean) {
+    breakdown["Bean Freshness"] = Math.round(coffeeBean.freshness * 100);
+    quality = Math.round(quality * coffeeBean.freshness);
+  }
+
+  // Apply modifier penalties after bonuses - a perfect shot of the wrong drink is still wrong
+  const modifierChecks = orderedModifiers ? checkModifiers(orderedModifiers, params) : [];
+  modifierChecks.forEach(check => {
+    breakdown[check.label] = check.correct ? SCORING.PERFECT : 0;
+  });
+  quality = Math.max(0, quality - getModifierPenalty(modifierChecks));
+
+  // Whatever the day is throwing at the bar (humidity, a temperamental machine)
+  quality = Math.max(0, Math.min(100, quality + qualityShift));
+
+  const modifierIssues = modifierChecks
+    .filter(check => !check.correct)
+    .map(check => check.feedback as string);
+
   // Generate feedback
-  const feedback = generateFeedback(quality, drinkType);
+  let feedback = generateFeedback(quality, drinkType);
+  if (coffeeBean && coffeeBean.freshness < 1) {
+    feedback += " The beans are past their best.";
+  }
+  if (qualityShift < 0) {
+    feedback += " Today's conditions aren't helping.";
+  }
+  if (modifierIssues.length > 0) {
+    feedback += ` ${modifierIssues.join(". ")}.`;
+  }
 
   return {
     quality,
     breakdown,
     feedback,
-    appliedRules: applicableRules.map(r => r.id)
+    appliedRules: applicableRules.map(r => r.id),
+    modifierIssues,
   };
 }
 
@@ -378,19 +614,21 @@ function generateFeedback(quality: number, drinkType: DrinkType): string {
 // GAME STATE HELPERS
 // ============================================================================
 
-export function createInitialState(): GameState {
+export function createInitialState(clock: Clock = systemClock): GameState {
   return {
     customer: null,
     brewParams: getDefaultParameters("espresso"),
     result: null,
     money: 0,
     drinksServed: 0,
-    inventory: createInventory(),
+    inventory: createInventory(clock),
     queue: createQueueState(),
     customerMemory: createMemoryState(),
     dayState: createDayState(),
     equipment: createDefaultEquipment(),
     reputation: 50, // Start with neutral reputation
+    menu: createDefaultMenu(),
+    proficiency: createProficiency(),
     eventsHistory: [],
     eventStats: {
       totalEvents: 0,
@@ -0,0 +1,169 @@
+/**
+ * Tests for the Game Master (run offline against the stub provider)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  GM_CONSULT_EVERY,
+  createGameSnapshot,
+  describeSnapshot,
+  getSpawnableTemplates,
+  shouldConsultGameMaster,
+  validateSpawn,
+} from "./game-master";
+import { EVENTS, GM_EVENT_TEMPLATES } from "./events";
+import { consultGameMaster } from "./llm";
+import { createStubProvider } from "./llm-stub";
+import { setLLMProvider } from "./llm-provider";
+import { auditLog } from "./audit-log";
+import { createSession, dispatch } from "./session";
+import { ManualClock } from "./random";
+import { START } from "./test-helpers";
+import type { GameState } from "./types";
+
+// A session on day 1, in service, with no event on screen
+function inService(clock: ManualClock, changes: Partial<GameState> = {}): GameState {
+  const state = dispatch({ ...createSession(11, clock), money: 100 }, { type: "start_day" }, clock);
+  return { ...state, activeEvent: undefined, ...changes };
+}
+
+function withServed(state: GameState, customersServed: number): GameState {
+  return { ...state, dayState: { ...state.dayState!, stats: { ...state.dayState!.stats, customersServed } } };
+}
+
+describe("Game Master", () => {
+  beforeEach(() => {
+    setLLMProvider(createStubProvider());
+    auditLog.clearLogs();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("templates", () => {
+    it("should only offer events that exist", () => {
+      for (const id of GM_EVENT_TEMPLATES) {
+        expect(EVENTS.some(event => event.id === id)).toBe(true);
+      }
+    });
+  });
+
+  describe("createGameSnapshot", () => {
+    it("should show the game master the café without handing over the state", () => {
+      const clock = new ManualClock(START);
+      const state = inService(clock, {
+        eventsHistory: [{ eventId: "rush_hour", day: 1, timestamp: START, spawnedBy: "game_master", reason: "Quiet" }],
+      });
+      const snapshot = createGameSnapshot(state, clock.now());
+
+      expect(snapshot).toMatchObject({ day: 1, weekday: "Monday", queueLength: 0, gameMasterEventsToday: 1 });
+      expect(snapshot.recentEvents).toEqual([{ eventId: "rush_hour", title: "Morning Rush", day: 1, byGameMaster: true }]);
+      expect(Object.isFrozen(snapshot)).toBe(true);
+      expect(Object.isFrozen(snapshot.recentEvents)).toBe(true);
+      expect(getSpawnableTemplates(snapshot).map(event => event.id)).not.toContain("rush_hour");
+      expect(describeSnapshot(snapshot)).toContain("Morning Rush (day 1, yours)");
+    });
+  });
+
+  describe("rules", () => {
+    it("should look in every few customers until it has set something off", () => {
+      const clock = new ManualClock(START);
+      const state = inService(clock);
+
+      expect(shouldConsultGameMaster(withServed(state, GM_CONSULT_EVERY - 1))).toBe(false);
+      expect(shouldConsultGameMaster(withServed(state, GM_CONSULT_EVERY))).toBe(true);
+
+      const spawned = dispatch(withServed(state, GM_CONSULT_EVERY), { type: "spawn_event", eventId: "broken_cup", reason: "Test" }, clock);
+      expect(shouldConsultGameMaster({ ...spawned, activeEvent: undefined })).toBe(false);
+    });
+
+    it("should only let whitelisted events through when the rules allow them", () => {
+      const clock = new ManualClock(START);
+      const state = inService(clock);
+
+      expect(() => validateSpawn(state, "grand_opening")).toThrow(`"grand_opening" isn't an event the game master can spawn`);
+      expect(() => validateSpawn({ ...state, activeEvent: EVENTS[0] }, "rush_hour")).toThrow("Another event is still in play");
+      expect(() => validateSpawn(createSession(11, clock), "rush_hour")).toThrow("only set off events during service");
+      expect(validateSpawn(state, "rush_hour").id).toBe("rush_hour");
+
+      const hadRush = { ...state, eventsHistory: [{ eventId: "rush_hour", day: 1, timestamp: START }] };
+      expect(() => validateSpawn(hadRush, "rush_hour")).toThrow(`"Morning Rush" can't happen right now`);
+    });
+
+    it("should only whitelist events that can pass the rules when it looks in", () => {
+      const clock = new ManualClock(START);
+      const state = inService(clock);
+      // A well-liked café that's run low on milk, so the conditional templates get their chance
+      const thriving = {
+        ...state,
+        reputation: 70,
+        inventory: { ...state.inventory, milks: { none: 0, whole: 500, skim: 0, oat: 0, almond: 0 } },
+      };
+      const consultPoints = [1, 2, 3, 4]
+        .flatMap(times => [state, thriving].map(cafe => withServed(cafe, times * GM_CONSULT_EVERY)))
+        .map(cafe => ({ ...cafe, dayState: { ...cafe.dayState!, stats: { ...cafe.dayState!.stats, averageQuality: 90 } } }))
+        .filter(shouldConsultGameMaster);
+
+      for (const id of GM_EVENT_TEMPLATES) {
+        const passes = consultPoints.some(cafe => {
+          try {
+            return validateSpawn(cafe, id).id === id;
+          } catch {
+            return false;
+          }
+        });
+        expect(passes, id).toBe(true);
+      }
+    });
+
+    it("should apply a spawned event like any other and note who set it off", () => {
+      const clock = new ManualClock(START);
+      const state = inService(clock);
+      const spawned = dispatch(state, { type: "spawn_event", eventId: "generous_tip", reason: "Reward a good run" }, clock);
+
+      expect(spawned.activeEvent?.id).toBe("generous_tip");
+      expect(spawned.money).toBeGreaterThan(state.money);
+      expect(spawned.eventsHistory?.at(-1)).toMatchObject({
+        eventId: "generous_tip",
+        spawnedBy: "game_master",
+        reason: "Reward a good run",
+      });
+      expect(() =>
+        dispatch({ ...spawned, activeEvent: undefined }, { type: "spawn_event", eventId: "rush_hour", reason: "Again" }, clock)
+      ).toThrow("already set off an event today");
+    });
+  });
+
+  describe("consultGameMaster", () => {
+    it("should spawn through the tool when the café is quiet, and audit it", async () => {
+      const clock = new ManualClock(START);
+      const decision = await consultGameMaster(createGameSnapshot(inService(clock), clock.now()));
+
+      expect(decision.eventId).toBe(GM_EVENT_TEMPLATES[0]);
+      expect(auditLog.getLogs({ source: "game_master", type: "llm_call" })).toHaveLength(1);
+      expect(auditLog.getLogs({ source: "game_master", type: "tool_call" })[0].toolName).toBe("spawn_event");
+    });
+
+    it("should leave a busy day alone", async () => {
+      const clock = new ManualClock(START);
+      const snapshot = { ...createGameSnapshot(inService(clock), clock.now()), queueLength: 3 };
+      const decision = await consultGameMaster(snapshot);
+
+      expect(decision).toEqual({ eventId: null, reason: "The café is busy enough without any help." });
+      expect(auditLog.getLogs({ source: "game_master", type: "tool_call" })).toHaveLength(0);
+    });
+
+    it("should refuse events off the whitelist", async () => {
+      setLLMProvider(createStubProvider([
+        { toolCalls: [{ name: "spawn_event", arguments: { event_id: "grand_opening", reason: "Party!" } }] },
+      ]));
+      const clock = new ManualClock(START);
+
+      await expect(consultGameMaster(createGameSnapshot(inService(clock), clock.now()))).rejects.toThrow(
+        "Invalid event: grand_opening"
+      );
+      expect(auditLog.getLogs({ source: "game_master", type: "error" })[0].toolName).toBe("spawn_event");
+    });
+  });
+});
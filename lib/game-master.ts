@@ -0,0 +1,183 @@
+/**
+ * Game Master
+ *
+ * Alongside the dice rolled in checkForEvent, an LLM game master looks in on
+ * the café during service and can set off an event when the pacing needs it:
+ * a rush when things have gone quiet, a setback when the player is cruising.
+ *
+ * The game master never touches game state. It sees a read-only snapshot of
+ * the café, may only pick from the whitelisted templates (GM_EVENT_TEMPLATES)
+ * through the spawn_event tool, and the rules engine decides whether that
+ * event can happen and applies it like any other (the spawn_event action).
+ * Every decision goes through the audit log so the pacing stays explainable
+ * (consultGameMaster in llm.ts).
+ */
+
+import type { GameState } from "./types";
+import { EVENTS, GM_EVENT_TEMPLATES, canEventHappen, type GameEvent } from "./events";
+import { getDayOfWeek } from "./time-system";
+import { getActiveModifiers, describeModifier } from "./event-modifiers";
+import { getPendingTickets, getActiveTicket } from "./ticketing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SnapshotEvent {
+  readonly eventId: string;
+  readonly title: string;
+  readonly day: number;
+  readonly byGameMaster: boolean;
+}
+
+// All the game master gets to see of the café
+export interface GameSnapshot {
+  readonly day: number;
+  readonly weekday: string;
+  readonly reputation: number;
+  readonly money: number;
+  readonly customersServed: number; // Today
+  readonly queueLength: number; // Tickets waiting or being made
+  readonly conditions: readonly string[]; // Event modifiers in force, described
+  readonly recentEvents: readonly SnapshotEvent[]; // Oldest first
+  readonly gameMasterEventsToday: number;
+}
+
+export interface GameMasterDecision {
+  eventId: string | null; // null when the game master leaves the day alone
+  reason: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const GM_MAX_EVENTS_PER_DAY = 1;
+export const GM_CONSULT_EVERY = 5; // Customers served between looks in
+
+const RECENT_EVENT_COUNT = 5;
+
+// Conditions that stand in for a template's own when the game master calls it in.
+// The dice only roll a rush for the day's first few customers, but the game master
+// first looks in after GM_CONSULT_EVERY of them, so its rush comes when nobody is waiting
+const GM_CONDITIONS: Record<string, (state: GameState) => boolean> = {
+  rush_hour: (state) => !state.queue || getPendingTickets(state.queue).length === 0,
+};
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+/**
+ * Events the game master has set off today
+ */
+export function getGameMasterEventsToday(state: GameState): number {
+  const today = state.dayState?.dayNumber || 1;
+  return (state.eventsHistory || []).filter(entry => entry.spawnedBy === "game_master" && entry.day === today).length;
+}
+
+/**
+ * Take a read-only snapshot of the café for the game master
+ */
+export function createGameSnapshot(state: GameState, now: number): GameSnapshot {
+  const day = state.dayState?.dayNumber || 1;
+  const queueLength = state.queue
+    ? getPendingTickets(state.queue).length + (getActiveTicket(state.queue) ? 1 : 0)
+    : 0;
+
+  const recentEvents = (state.eventsHistory || []).slice(-RECENT_EVENT_COUNT).map(entry =>
+    Object.freeze({
+      eventId: entry.eventId,
+      title: EVENTS.find(event => event.id === entry.eventId)?.title ?? entry.eventId,
+      day: entry.day,
+      byGameMaster: entry.spawnedBy === "game_master",
+    })
+  );
+
+  return Object.freeze({
+    day,
+    weekday: getDayOfWeek(day),
+    reputation: state.reputation ?? 50,
+    money: state.money,
+    customersServed: state.dayState?.stats.customersServed || 0,
+    queueLength,
+    conditions: Object.freeze(getActiveModifiers(state, now).map(describeModifier)),
+    recentEvents: Object.freeze(recentEvents),
+    gameMasterEventsToday: getGameMasterEventsToday(state),
+  });
+}
+
+/**
+ * Whitelisted events that haven't already happened today
+ */
+export function getSpawnableTemplates(snapshot: GameSnapshot): GameEvent[] {
+  const today = new Set(
+    snapshot.recentEvents.filter(event => event.day === snapshot.day).map(event => event.eventId)
+  );
+
+  return GM_EVENT_TEMPLATES.filter(id => !today.has(id)).flatMap(id => EVENTS.filter(event => event.id === id));
+}
+
+/**
+ * Describe a snapshot for the game master's prompt
+ */
+export function describeSnapshot(snapshot: GameSnapshot): string {
+  const recent = snapshot.recentEvents.map(event =>
+    `${event.title} (day ${event.day}${event.byGameMaster ? ", yours" : ""})`
+  );
+  const templates = getSpawnableTemplates(snapshot).map(event => `${event.id} (${event.title}: ${event.description})`);
+
+  return `Day ${snapshot.day} (${snapshot.weekday})
+Reputation: ${snapshot.reputation}/100
+Money: $${snapshot.money.toFixed(2)}
+Customers served today: ${snapshot.customersServed}
+Queue length: ${snapshot.queueLength}
+Conditions: ${snapshot.conditions.length > 0 ? snapshot.conditions.join(", ") : "none"}
+Recent events: ${recent.length > 0 ? recent.join(", ") : "none"}
+Events you may spawn:
+${templates.join("\n")}`;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Whether it's time for the game master to look in (every few customers, until it has used today's events)
+ */
+export function shouldConsultGameMaster(state: GameState): boolean {
+  const served = state.dayState?.stats.customersServed || 0;
+
+  return (
+    state.dayState?.phase === "service" &&
+    !state.activeEvent &&
+    served > 0 &&
+    served % GM_CONSULT_EVERY === 0 &&
+    getGameMasterEventsToday(state) < GM_MAX_EVENTS_PER_DAY
+  );
+}
+
+/**
+ * The event a game master asked for, if the rules allow it right now
+ */
+export function validateSpawn(state: GameState, eventId: string): GameEvent {
+  if (state.dayState?.phase !== "service") {
+    throw new Error("The game master can only set off events during service");
+  }
+
+  const event = GM_EVENT_TEMPLATES.includes(eventId) ? EVENTS.find(candidate => candidate.id === eventId) : undefined;
+  if (!event) {
+    throw new Error(`"${eventId}" isn't an event the game master can spawn`);
+  }
+  if (state.activeEvent) {
+    throw new Error("Another event is still in play");
+  }
+  if (getGameMasterEventsToday(state) >= GM_MAX_EVENTS_PER_DAY) {
+    throw new Error("The game master has already set off an event today");
+  }
+  if (!canEventHappen(state, { ...event, condition: GM_CONDITIONS[event.id] ?? event.condition })) {
+    throw new Error(`"${event.title}" can't happen right now`);
+  }
+
+  return event;
+}
@@ -12,10 +12,26 @@ import {
   getTotalBeans,
   getAvailableMilkTypes,
   getLowStockWarnings,
+  checkFoodStock,
+  depleteFood,
+  getStockCost,
+  getFoodCost,
+  getBrewingBag,
+  spoilStock,
+  getExpiringStock,
+  adjustBeans,
+  UNIT_COSTS,
   BEANS_PER_SHOT,
   MILK_PER_DRINK,
 } from './inventory'
+import { restockInventory } from './day-structure'
+import { EVENTS, applyEventEffects } from './events'
+import { createSession } from './session'
 import type { BrewParameters } from './types'
+import { ManualClock } from './random'
+import { START } from './test-helpers'
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 describe('createInventory', () => {
   it('creates inventory with starting stock', () => {
@@ -236,6 +252,130 @@ describe('depleteStock', () => {
     expect(newInventory.beans[0].name).toBe('Bag 2')
     expect(newInventory.beans[0].grams).toBe(12) // 20 - 8 (remaining from 18g deduction)
   })
+
+  it('uses the oldest roast first', () => {
+    const inventory = createInventory()
+    inventory.beans = [
+      { name: 'New', grams: 100, roastDate: '2025-01-10T00:00:00.000Z' },
+      { name: 'Old', grams: 100, roastDate: '2025-01-01T00:00:00.000Z' },
+    ]
+
+    const newInventory = depleteStock(inventory, 'espresso', {})
+
+    expect(newInventory.beans.find(bag => bag.name === 'Old')?.grams).toBe(82)
+    expect(newInventory.beans.find(bag => bag.name === 'New')?.grams).toBe(100)
+  })
+
+  it('only uses bags of the chosen bean', () => {
+    const inventory = addStock(createInventory(), 'beans', { varietyId: 'kenya_nyeri', amount: 10 })
+
+    expect(checkStock(inventory, 'espresso', { beanId: 'kenya_nyeri' }).missing).toEqual([
+      'Nyeri AA beans (need 18g, have 10g)',
+    ])
+    expect(getBrewingBag(inventory, { beanId: 'guatemala_huehuetenango' })).toBeNull()
+
+    const restocked = addStock(inventory, 'beans', { varietyId: 'kenya_nyeri', amount: 100 })
+    const house = restocked.beans[0].grams
+    const depleted = depleteStock(restocked, 'espresso', { beanId: 'kenya_nyeri' })
+
+    expect(depleted.beans[0].grams).toBe(house)
+    expect(getTotalBeans(depleted)).toBe(getTotalBeans(restocked) - 18)
+  })
+})
+
+describe('modifier stock usage', () => {
+  const latte: BrewParameters = {
+    grindSize: 'fine',
+    temperature: 93,
+    brewTime: 25,
+    milkType: 'whole',
+    milkTemp: 66,
+    foamAmount: 20,
+  }
+
+  it('uses more beans for an extra shot', () => {
+    const reqs = getStockRequirements('latte', { ...latte, extraShot: true })
+
+    expect(reqs.beans).toBe(BEANS_PER_SHOT * 2)
+  })
+
+  it('scales milk with cup size', () => {
+    const large = getStockRequirements('latte', { ...latte, size: 'large' })
+    const small = getStockRequirements('latte', { ...latte, size: 'small' })
+
+    expect(large.milk?.amount).toBeGreaterThan(MILK_PER_DRINK.latte)
+    expect(small.milk?.amount).toBeLessThan(MILK_PER_DRINK.latte)
+  })
+
+  it('draws down syrups', () => {
+    const inventory = createInventory()
+    const newInventory = depleteStock(inventory, 'latte', { ...latte, syrup: 'vanilla' })
+
+    expect(newInventory.syrups.vanilla).toBeLessThan(inventory.syrups.vanilla)
+    expect(newInventory.syrups.caramel).toBe(inventory.syrups.caramel)
+  })
+
+  it('reports missing syrup', () => {
+    const inventory = createInventory()
+    inventory.syrups.hazelnut = 0
+
+    const result = checkStock(inventory, 'latte', { ...latte, syrup: 'hazelnut' })
+
+    expect(result.available).toBe(false)
+    expect(result.missing[0]).toContain('hazelnut syrup')
+  })
+
+  it('only uses decaf bags for decaf drinks', () => {
+    const inventory = createInventory()
+    inventory.beans = [
+      { name: 'House', grams: 100, roastDate: new Date().toISOString() },
+      { name: 'Decaf', grams: 100, roastDate: new Date().toISOString(), decaf: true },
+    ]
+
+    const decafInventory = depleteStock(inventory, 'espresso', { ...latte, decaf: true })
+    const regularInventory = depleteStock(inventory, 'espresso', latte)
+
+    expect(decafInventory.beans[0].grams).toBe(100)
+    expect(decafInventory.beans[1].grams).toBe(100 - BEANS_PER_SHOT)
+    expect(regularInventory.beans[0].grams).toBe(100 - BEANS_PER_SHOT)
+    expect(regularInventory.beans[1].grams).toBe(100)
+  })
+
+  it('reports missing decaf even when regular beans remain', () => {
+    const inventory = createInventory()
+    inventory.beans = [{ name: 'House', grams: 500, roastDate: new Date().toISOString() }]
+
+    const result = checkStock(inventory, 'espresso', { ...latte, decaf: true })
+
+    expect(result.available).toBe(false)
+    expect(result.missing[0]).toContain('decaf beans')
+  })
+})
+
+describe('food stock', () => {
+  it('checks food availability by FoodType key', () => {
+    const inventory = createInventory()
+
+    expect(checkFoodStock(inventory, 'banana_bread').available).toBe(true)
+    expect(checkFoodStock(inventory, 'croissant', 999).available).toBe(false)
+    expect(checkFoodStock(inventory, 'croissant', 999).missing[0]).toContain('croissant')
+  })
+
+  it('depletes food without mutating the original', () => {
+    const inventory = createInventory()
+    const before = inventory.food.muffin
+    const after = depleteFood(inventory, 'muffin', 2)
+
+    expect(after.food.muffin).toBe(before - 2)
+    expect(inventory.food.muffin).toBe(before)
+  })
+
+  it('never goes below zero', () => {
+    const inventory = createInventory()
+    const after = depleteFood(inventory, 'bagel', 999)
+
+    expect(after.food.bagel).toBe(0)
+  })
 })
 
 describe('addStock', () => {
@@ -254,6 +394,14 @@ describe('addStock', () => {
     expect(newInventory.beans[newInventory.beans.length - 1].grams).toBe(500)
   })
 
+  it('names catalog beans and rejects unknown ones', () => {
+    const inventory = addStock(createInventory(), 'beans', { varietyId: 'swiss_water_decaf', amount: 500 })
+    const bag = inventory.beans[inventory.beans.length - 1]
+
+    expect(bag).toMatchObject({ name: 'Swiss Water Decaf', varietyId: 'swiss_water_decaf', decaf: true })
+    expect(() => addStock(inventory, 'beans', { varietyId: 'robusta', amount: 500 })).toThrow('Unknown bean: robusta')
+  })
+
   it('adds milk', () => {
     const inventory = createInventory()
     const initialOat = inventory.milks.oat
@@ -290,6 +438,93 @@ describe('addStock', () => {
   })
 })
 
+describe('stock batches', () => {
+  it('dates the opening milk and pastries', () => {
+    const inventory = createInventory(new ManualClock(START))
+
+    expect(inventory.milkBatches?.whole).toEqual([{
+      amount: 3000,
+      receivedDate: new Date(START).toISOString(),
+      expiryDate: new Date(START + 7 * DAY_MS).toISOString(),
+    }])
+    expect(inventory.foodBatches?.croissant[0].expiryDate).toBe(new Date(START + 2 * DAY_MS).toISOString())
+  })
+
+  it('uses the oldest milk first', () => {
+    const inventory = addStock(createInventory(new ManualClock(START)), 'milk', {
+      type: 'whole',
+      amount: 2000,
+      receivedDate: new Date(START + DAY_MS).toISOString(),
+    })
+
+    const newInventory = depleteStock(inventory, 'latte', { milkType: 'whole' })
+
+    expect(newInventory.milks.whole).toBe(4760)
+    expect(newInventory.milkBatches?.whole?.map(batch => batch.amount)).toEqual([2760, 2000])
+  })
+
+  it('sells the oldest pastries first', () => {
+    const inventory = addStock(createInventory(new ManualClock(START)), 'food', {
+      name: 'croissant',
+      amount: 5,
+      receivedDate: new Date(START + DAY_MS).toISOString(),
+    })
+
+    const newInventory = depleteFood(inventory, 'croissant', 10)
+
+    expect(newInventory.food.croissant).toBe(5)
+    expect(newInventory.foodBatches?.croissant).toHaveLength(1)
+    expect(newInventory.foodBatches?.croissant[0].receivedDate).toBe(new Date(START + DAY_MS).toISOString())
+  })
+
+  it('throws out expired batches and costs the waste', () => {
+    const inventory = createInventory(new ManualClock(START))
+
+    const { inventory: spoiled, spoiled: items, cost } = spoilStock(inventory, START + 2 * DAY_MS)
+
+    expect(spoiled.food.croissant).toBe(0)
+    expect(spoiled.foodBatches?.croissant).toEqual([])
+    expect(spoiled.food.bagel).toBe(12)
+    expect(spoiled.milks.whole).toBe(3000)
+    expect(items).toEqual(['10 croissant'])
+    expect(cost).toBe(getFoodCost('croissant', 10))
+  })
+
+  it('never spoils undated stock from older saves', () => {
+    const inventory = createInventory(new ManualClock(START))
+    delete inventory.milkBatches
+    delete inventory.foodBatches
+
+    const { inventory: spoiled, cost } = spoilStock(inventory, START + 30 * DAY_MS)
+
+    expect(spoiled.food.croissant).toBe(10)
+    expect(spoiled.milks.whole).toBe(3000)
+    expect(cost).toBe(0)
+  })
+
+  it('only spoils what is left of a batch', () => {
+    let inventory = createInventory(new ManualClock(START))
+    inventory = depleteFood(inventory, 'croissant', 4)
+    inventory.food.croissant -= 2 // Taken outside the batches, e.g. by an event
+
+    const { spoiled } = spoilStock(inventory, START + 2 * DAY_MS)
+
+    expect(spoiled).toEqual(['4 croissant'])
+  })
+
+  it('lists stock expiring within a day', () => {
+    const inventory = createInventory(new ManualClock(START))
+
+    expect(getExpiringStock(inventory, START)).toEqual([])
+    expect(getExpiringStock(inventory, START + DAY_MS)).toEqual([{
+      item: 'croissant',
+      amount: 10,
+      unit: 'count',
+      expiryDate: new Date(START + 2 * DAY_MS).toISOString(),
+    }])
+  })
+})
+
 describe('getTotalBeans', () => {
   it('sums beans from multiple bags', () => {
     const inventory = createInventory()
@@ -362,6 +597,21 @@ describe('getLowStockWarnings', () => {
     expect(warnings.some(w => w.includes('whole milk'))).toBe(true)
   })
 
+  it('warns when pastries are low', () => {
+    const inventory = createInventory()
+    inventory.food.muffin = 2
+
+    expect(getLowStockWarnings(inventory)).toContain('Low on muffin (2 left)')
+  })
+
+  it('warns about stock expiring within a day', () => {
+    const inventory = createInventory(new ManualClock(START))
+
+    expect(getLowStockWarnings(inventory, new ManualClock(START + 6 * DAY_MS))).toContain(
+      '3000ml whole milk expires within a day'
+    )
+  })
+
   it('returns no warnings for well-stocked inventory', () => {
     const inventory = createInventory()
 
@@ -399,3 +649,77 @@ describe('MILK_PER_DRINK constants', () => {
     expect(MILK_PER_DRINK.aeropress).toBe(0)
   })
 })
+
+describe('getStockCost', () => {
+  it('costs an espresso by its beans', () => {
+    expect(getStockCost('espresso', {})).toBe(0.36)
+  })
+
+  it('adds milk at the milk type price', () => {
+    const whole = getStockCost('latte', { milkType: 'whole' })
+    const oat = getStockCost('latte', { milkType: 'oat' })
+
+    expect(whole).toBe(0.65)
+    expect(oat).toBeGreaterThan(whole)
+  })
+
+  it('costs catalog beans at their own price', () => {
+    expect(getStockCost('espresso', { beanId: 'kenya_nyeri' })).toBeGreaterThan(getStockCost('espresso', {}))
+  })
+
+  it('charges for decaf, extra shots, syrup and cream', () => {
+    const base = getStockCost('latte', { milkType: 'whole' })
+
+    expect(getStockCost('latte', { milkType: 'whole', decaf: true })).toBeGreaterThan(base)
+    expect(getStockCost('latte', { milkType: 'whole', extraShot: true })).toBeGreaterThan(base)
+    expect(getStockCost('latte', { milkType: 'whole', syrup: 'vanilla' })).toBeGreaterThan(base)
+    expect(getStockCost('latte', { milkType: 'whole', whippedCream: true })).toBe(
+      Math.round((base + UNIT_COSTS.whippedCream) * 100) / 100
+    )
+  })
+})
+
+describe('getFoodCost', () => {
+  it('costs food per item', () => {
+    expect(getFoodCost('croissant')).toBe(UNIT_COSTS.food.croissant)
+    expect(getFoodCost('bagel', 3)).toBe(2.7)
+  })
+})
+
+describe('bags by variety', () => {
+  const espresso: BrewParameters = { grindSize: 'fine', temperature: 200, brewTime: 25 }
+
+  // The house bag is used up and removed, leaving the decaf bag first in the list
+  function withoutHouseBeans() {
+    const inventory = createInventory(new ManualClock(START))
+    const lastShot = { ...inventory, beans: [{ ...inventory.beans[0], grams: BEANS_PER_SHOT }, inventory.beans[1]] }
+    return depleteStock(lastShot, 'espresso', espresso)
+  }
+
+  it('restocks and runs events on the house beans once their bag is gone', () => {
+    const inventory = withoutHouseBeans()
+    expect(inventory.beans.map(bag => bag.varietyId)).toEqual(['swiss_water_decaf'])
+
+    const restocked = restockInventory(inventory, 2, new ManualClock(START + DAY_MS))
+    expect(checkStock(restocked, 'espresso', espresso).available).toBe(true)
+
+    const shortage = EVENTS.find(event => event.id === 'bean_shortage')!
+    const state = { ...createSession(1, new ManualClock(START)), inventory: restocked }
+    const shorted = applyEventEffects(state, shortage, new ManualClock(START + DAY_MS))
+    expect(shorted.inventory.beans.find(bag => bag.varietyId === 'house_blend')?.grams).toBe(300)
+    expect(shorted.inventory.beans.find(bag => bag.decaf)).toEqual(restocked.beans[0])
+
+    const delivery = EVENTS.find(event => event.id === 'free_delivery')!
+    const delivered = applyEventEffects({ ...state, inventory }, delivery, new ManualClock(START + DAY_MS))
+    expect(delivered.inventory.beans.at(-1)).toMatchObject({ varietyId: 'house_blend', grams: 500 })
+  })
+
+  it('takes and adds beans of one variety wherever its bags are', () => {
+    const inventory = withoutHouseBeans()
+    const roastDate = new Date(START).toISOString()
+
+    expect(adjustBeans(inventory, 'swiss_water_decaf', -100, roastDate).beans[0].grams).toBe(150)
+    expect(adjustBeans(inventory, 'swiss_water_decaf', -500, roastDate).beans).toEqual([])
+    expect(adjustBeans(inventory, 'house_blend', 250, roastDate).beans.at(-1)).toMatchObject({ name: 'House Blend', grams: 250, roastDate })
+  })
+})
@@ -6,9 +6,20 @@
  * - Milk (ml, different types)
  * - Syrups (ml, flavors)
  * - Food items (count)
+ *
+ * Milk and food arrive in dated batches that spoil after their shelf life;
+ * the oldest batch is always used first.
  */
 
-import type { MilkType, DrinkType, BrewParameters } from './types'
+import type { MilkType, DrinkType, FoodType, BrewParameters } from './types'
+import { getSizeMultiplier, SYRUP_PER_DRINK } from './modifiers'
+import { systemClock, type Clock } from './random'
+import {
+  BEAN_CATALOG,
+  DEFAULT_BEAN_ID,
+  DEFAULT_DECAF_BEAN_ID,
+  getBagVariety,
+} from './beans'
 
 // ============================================================================
 // TYPES
@@ -18,6 +29,14 @@ export interface BeanStock {
   name: string
   grams: number
   roastDate: string // ISO date string
+  decaf?: boolean
+  varietyId?: string // Bean catalog id (see beans.ts)
+}
+
+export interface StockBatch {
+  amount: number // ml or count
+  receivedDate: string // ISO date string
+  expiryDate: string // ISO date string
 }
 
 export interface Inventory {
@@ -25,10 +44,16 @@ export interface Inventory {
   milks: Record<MilkType, number> // ml
   syrups: Record<string, number> // ml
   food: Record<string, number> // count
+  // Dated batches behind the milk and food totals, oldest first. Optional so older saves
+  // still load; any stock not covered by a batch is undated and never spoils.
+  milkBatches?: Partial<Record<MilkType, StockBatch[]>>
+  foodBatches?: Record<string, StockBatch[]>
 }
 
 export interface StockRequirement {
   beans?: number // grams
+  decaf?: boolean // draw beans from decaf bags only
+  beanId?: string // draw beans from bags of this catalog bean only
   milk?: { type: MilkType; amount: number } // ml
   syrups?: Record<string, number> // ml
   food?: Record<string, number> // count
@@ -55,6 +80,61 @@ const MILK_PER_DRINK: Record<DrinkType, number> = {
   matcha: 240, // ml (8 oz)
 }
 
+// ============================================================================
+// CONSTANTS - Unit costs (what the cafe pays for stock)
+// ============================================================================
+
+export const UNIT_COSTS = {
+  beans: 0.02, // $ per gram ($20/kg)
+  decafBeans: 0.025, // $ per gram
+  milks: {
+    none: 0,
+    whole: 0.0012, // $ per ml
+    skim: 0.0012,
+    oat: 0.003,
+    almond: 0.0035,
+  } as Record<MilkType, number>,
+  syrup: 0.012, // $ per ml
+  whippedCream: 0.2, // $ per drink (not stocked)
+  food: {
+    croissant: 1.4, // $ each
+    banana_bread: 1.1,
+    bagel: 0.9,
+    muffin: 1.2,
+  } as Record<FoodType, number>,
+}
+
+// ============================================================================
+// CONSTANTS - Shelf life (days from delivery until a batch spoils)
+// ============================================================================
+
+export const SHELF_LIFE_DAYS = {
+  milks: {
+    none: 0,
+    whole: 7,
+    skim: 7,
+    oat: 14,
+    almond: 14,
+  } as Record<MilkType, number>,
+  food: {
+    croissant: 2,
+    banana_bread: 4,
+    bagel: 3,
+    muffin: 3,
+  } as Record<FoodType, number>,
+}
+
+const DEFAULT_FOOD_SHELF_LIFE = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The brew parameters that decide what stock a drink uses
+ */
+export type StockParameters = Pick<
+  BrewParameters,
+  'milkType' | 'size' | 'extraShot' | 'decaf' | 'syrup' | 'whippedCream' | 'beanId'
+>
+
 // ============================================================================
 // INVENTORY CREATION
 // ============================================================================
@@ -62,13 +142,23 @@ const MILK_PER_DRINK: Record<DrinkType, number> = {
 /**
  * Create a new inventory with starting stock
  */
-export function createInventory(): Inventory {
-  return {
+export function createInventory(clock: Clock = systemClock): Inventory {
+  const roastDate = new Date(clock.now()).toISOString()
+
+  const inventory: Inventory = {
     beans: [
       {
         name: 'House Blend',
         grams: 1000,
-        roastDate: new Date().toISOString(),
+        roastDate,
+        varietyId: DEFAULT_BEAN_ID,
+      },
+      {
+        name: 'Swiss Water Decaf',
+        grams: 250,
+        roastDate,
+        decaf: true,
+        varietyId: DEFAULT_DECAF_BEAN_ID,
       },
     ],
     milks: {
@@ -85,11 +175,31 @@ export function createInventory(): Inventory {
     },
     food: {
       croissant: 10,
-      'banana bread': 8,
+      banana_bread: 8,
       bagel: 12,
       muffin: 6,
     },
   }
+
+  // The opening stock arrives today
+  return {
+    ...inventory,
+    milkBatches: mapValues(inventory.milks, (amount, type) =>
+      amount > 0 ? [createBatch(amount, SHELF_LIFE_DAYS.milks[type as MilkType], clock.now())] : []
+    ),
+    foodBatches: mapValues(inventory.food, (amount, food) =>
+      [createBatch(amount, getFoodShelfLife(food), clock.now())]
+    ),
+  }
+}
+
+function mapValues<T extends string>(
+  record: Record<T, number>,
+  fn: (amount: number, key: T) => StockBatch[]
+): Record<T, StockBatch[]> {
+  return Object.fromEntries(
+    Object.entries<number>(record).map(([key, amount]) => [key, fn(amount, key as T)])
+  ) as Record<T, StockBatch[]>
 }
 
 // ============================================================================
@@ -102,26 +212,40 @@ export function createInventory(): Inventory {
 export function checkStock(
   inventory: Inventory,
   drinkType: DrinkType,
-  params: BrewParameters
+  params: StockParameters
 ): StockCheckResult {
   const missing: string[] = []
+  const requirements = getStockRequirements(drinkType, params)
 
-  // Check beans
-  const beansNeeded = BEANS_PER_SHOT
-  const totalBeans = inventory.beans.reduce((sum, bean) => sum + bean.grams, 0)
-  if (totalBeans < beansNeeded) {
-    missing.push(`coffee beans (need ${beansNeeded}g, have ${totalBeans}g)`)
+  // Check beans (decaf orders can only use decaf bags, a chosen bean only its own bags)
+  if (requirements.beans) {
+    const totalBeans = getMatchingBags(inventory, requirements)
+      .reduce((sum, bean) => sum + bean.grams, 0)
+    if (totalBeans < requirements.beans) {
+      const label = requirements.beanId
+        ? `${BEAN_CATALOG[requirements.beanId]?.name || requirements.beanId} beans`
+        : requirements.decaf ? 'decaf beans' : 'coffee beans'
+      missing.push(`${label} (need ${requirements.beans}g, have ${totalBeans}g)`)
+    }
   }
 
   // Check milk (if needed)
-  const milkNeeded = MILK_PER_DRINK[drinkType]
-  if (milkNeeded > 0 && params.milkType && params.milkType !== 'none') {
-    const milkAvailable = inventory.milks[params.milkType] || 0
-    if (milkAvailable < milkNeeded) {
-      missing.push(`${params.milkType} milk (need ${milkNeeded}ml, have ${milkAvailable}ml)`)
+  if (requirements.milk) {
+    const { type, amount } = requirements.milk
+    const milkAvailable = inventory.milks[type] || 0
+    if (milkAvailable < amount) {
+      missing.push(`${type} milk (need ${amount}ml, have ${milkAvailable}ml)`)
     }
   }
 
+  // Check syrups
+  Object.entries(requirements.syrups || {}).forEach(([flavor, amount]) => {
+    const syrupAvailable = inventory.syrups[flavor] || 0
+    if (syrupAvailable < amount) {
+      missing.push(`${flavor} syrup (need ${amount}ml, have ${syrupAvailable}ml)`)
+    }
+  })
+
   return {
     available: missing.length === 0,
     missing,
@@ -130,13 +254,25 @@ export function checkStock(
 
 /**
  * Calculate stock requirements for a drink
+ * Extra shots add beans; cup size scales milk and syrup
  */
 export function getStockRequirements(
   drinkType: DrinkType,
-  params: BrewParameters
+  params: StockParameters
 ): StockRequirement {
+  const shots = params.extraShot ? 2 : 1
+  const sizeMultiplier = getSizeMultiplier(params.size)
+
   const requirements: StockRequirement = {
-    beans: BEANS_PER_SHOT,
+    beans: BEANS_PER_SHOT * shots,
+  }
+
+  if (params.decaf) {
+    requirements.decaf = true
+  }
+
+  if (params.beanId) {
+    requirements.beanId = params.beanId
   }
 
   // Add milk if needed
@@ -144,13 +280,44 @@ export function getStockRequirements(
   if (milkNeeded > 0 && params.milkType && params.milkType !== 'none') {
     requirements.milk = {
       type: params.milkType,
-      amount: milkNeeded,
+      amount: Math.round(milkNeeded * sizeMultiplier),
+    }
+  }
+
+  // Add syrup if requested
+  if (params.syrup) {
+    requirements.syrups = {
+      [params.syrup]: Math.round(SYRUP_PER_DRINK * sizeMultiplier),
     }
   }
 
   return requirements
 }
 
+/**
+ * Bags a drink can draw from, oldest roast first
+ */
+function getMatchingBags(inventory: Inventory, requirements: StockRequirement): BeanStock[] {
+  return inventory.beans
+    .filter((bean) => bagMatches(bean, requirements))
+    .sort((a, b) => a.roastDate.localeCompare(b.roastDate))
+}
+
+function bagMatches(bean: BeanStock, requirements: StockRequirement): boolean {
+  if (!!bean.decaf !== !!requirements.decaf) return false
+  return !requirements.beanId || getBagVariety(bean).id === requirements.beanId
+}
+
+/**
+ * The bag the next drink's beans will come from (null if none match)
+ */
+export function getBrewingBag(
+  inventory: Inventory,
+  params: StockParameters
+): BeanStock | null {
+  return getMatchingBags(inventory, getStockRequirements('espresso', params))[0] || null
+}
+
 // ============================================================================
 // STOCK DEPLETION
 // ============================================================================
@@ -162,40 +329,295 @@ export function getStockRequirements(
 export function depleteStock(
   inventory: Inventory,
   drinkType: DrinkType,
-  params: BrewParameters
+  params: StockParameters
 ): Inventory {
   const requirements = getStockRequirements(drinkType, params)
 
   // Create new inventory (immutable update)
   const newInventory: Inventory = {
+    ...inventory,
     beans: [...inventory.beans],
     milks: { ...inventory.milks },
     syrups: { ...inventory.syrups },
     food: { ...inventory.food },
   }
 
-  // Deduct beans
+  // Deduct beans from matching bags, oldest roast first
   if (requirements.beans) {
-    let remaining = requirements.beans
-    newInventory.beans = newInventory.beans.map((bean) => {
-      if (remaining > 0) {
-        const deduct = Math.min(remaining, bean.grams)
-        remaining -= deduct
-        return { ...bean, grams: bean.grams - deduct }
-      }
-      return bean
-    }).filter((bean) => bean.grams > 0) // Remove empty bean bags
+    newInventory.beans = takeBeans(inventory, requirements)
   }
 
-  // Deduct milk
+  // Deduct milk, oldest batch first
   if (requirements.milk) {
     const { type, amount } = requirements.milk
-    newInventory.milks[type] = Math.max(0, newInventory.milks[type] - amount)
+    newInventory.milks[type] = Math.max(0, inventory.milks[type] - amount)
+    newInventory.milkBatches = {
+      ...inventory.milkBatches,
+      [type]: consumeBatches(inventory.milkBatches?.[type], inventory.milks[type], amount),
+    }
   }
 
+  // Deduct syrups
+  Object.entries(requirements.syrups || {}).forEach(([flavor, amount]) => {
+    newInventory.syrups[flavor] = Math.max(0, (newInventory.syrups[flavor] || 0) - amount)
+  })
+
   return newInventory
 }
 
+/**
+ * The bags left after taking a requirement's beans from the matching bags, oldest roast first
+ * Empty bags are removed, so look bags up by variety (never by position in the list)
+ */
+function takeBeans(inventory: Inventory, requirements: StockRequirement): BeanStock[] {
+  let remaining = requirements.beans || 0
+  const deductions = new Map<BeanStock, number>()
+  for (const bean of getMatchingBags(inventory, requirements)) {
+    if (remaining <= 0) break
+    const deduct = Math.min(remaining, bean.grams)
+    remaining -= deduct
+    deductions.set(bean, deduct)
+  }
+
+  return inventory.beans
+    .map((bean) => deductions.has(bean) ? { ...bean, grams: bean.grams - deductions.get(bean)! } : bean)
+    .filter((bean) => bean.grams > 0) // Remove empty bean bags
+}
+
+/**
+ * Add or take away grams of one catalog bean, wherever its bags are
+ * Additions arrive as a new bag roasted on the given date; removals come out of the oldest bags first
+ */
+export function adjustBeans(inventory: Inventory, varietyId: string, grams: number, roastDate: string): Inventory {
+  if (grams > 0) {
+    return addStock(inventory, 'beans', { amount: grams, roastDate, varietyId })
+  }
+
+  const decaf = !!BEAN_CATALOG[varietyId]?.decaf
+  return { ...inventory, beans: takeBeans(inventory, { beans: -grams, beanId: varietyId, decaf }) }
+}
+
+// ============================================================================
+// STOCK COSTS
+// ============================================================================
+
+/**
+ * Cost of the ingredients depleteStock takes for a drink (COGS)
+ */
+export function getStockCost(
+  drinkType: DrinkType,
+  params: StockParameters
+): number {
+  const requirements = getStockRequirements(drinkType, params)
+  let cost = 0
+
+  if (requirements.beans) {
+    const variety = requirements.beanId ? BEAN_CATALOG[requirements.beanId] : undefined
+    const perGram = variety?.costPerGram
+      ?? (requirements.decaf ? UNIT_COSTS.decafBeans : UNIT_COSTS.beans)
+    cost += requirements.beans * perGram
+  }
+
+  if (requirements.milk) {
+    cost += requirements.milk.amount * UNIT_COSTS.milks[requirements.milk.type]
+  }
+
+  Object.values(requirements.syrups || {}).forEach((amount) => {
+    cost += amount * UNIT_COSTS.syrup
+  })
+
+  if (params.whippedCream) {
+    cost += UNIT_COSTS.whippedCream
+  }
+
+  return Math.round(cost * 100) / 100
+}
+
+/**
+ * Cost of the food items depleteFood takes (COGS)
+ */
+export function getFoodCost(food: FoodType, quantity = 1): number {
+  return Math.round((UNIT_COSTS.food[food] || 0) * quantity * 100) / 100
+}
+
+/**
+ * Check if inventory has enough of a food item
+ */
+export function checkFoodStock(
+  inventory: Inventory,
+  food: FoodType,
+  quantity = 1
+): StockCheckResult {
+  const available = inventory.food[food] || 0
+  const missing: string[] = []
+
+  if (available < quantity) {
+    missing.push(`${food.replace('_', ' ')} (need ${quantity}, have ${available})`)
+  }
+
+  return {
+    available: missing.length === 0,
+    missing,
+  }
+}
+
+/**
+ * Deduct food items from inventory after plating
+ * Returns new inventory state (immutable)
+ */
+export function depleteFood(
+  inventory: Inventory,
+  food: FoodType,
+  quantity = 1
+): Inventory {
+  const available = inventory.food[food] || 0
+
+  return {
+    ...inventory,
+    food: {
+      ...inventory.food,
+      [food]: Math.max(0, available - quantity),
+    },
+    foodBatches: {
+      ...inventory.foodBatches,
+      [food]: consumeBatches(inventory.foodBatches?.[food], available, quantity),
+    },
+  }
+}
+
+// ============================================================================
+// BATCHES AND SPOILAGE
+// ============================================================================
+
+export interface SpoilageResult {
+  inventory: Inventory
+  spoiled: string[] // e.g. "1200ml whole milk", "3 croissant"
+  cost: number // What the spoiled stock cost (waste)
+}
+
+export interface ExpiringStock {
+  item: string // e.g. "whole milk", "croissant"
+  amount: number
+  unit: 'ml' | 'count'
+  expiryDate: string
+}
+
+function createBatch(amount: number, shelfLifeDays: number, receivedAt: number): StockBatch {
+  return {
+    amount,
+    receivedDate: new Date(receivedAt).toISOString(),
+    expiryDate: new Date(receivedAt + shelfLifeDays * DAY_MS).toISOString(),
+  }
+}
+
+function getFoodShelfLife(food: string): number {
+  return SHELF_LIFE_DAYS.food[food as FoodType] ?? DEFAULT_FOOD_SHELF_LIFE
+}
+
+/**
+ * Batches that still back a total, oldest first. Stock taken outside the batches
+ * (events, older code) comes off the oldest batch.
+ */
+function getLiveBatches(batches: StockBatch[] = [], total: number): StockBatch[] {
+  const dated = batches.reduce((sum, batch) => sum + batch.amount, 0)
+  return consumeBatches(batches, dated, Math.max(0, dated - total))
+}
+
+/**
+ * Take an amount from a total, using undated stock and then the oldest batches first
+ * Returns the batches that remain
+ */
+function consumeBatches(batches: StockBatch[] = [], total: number, amount: number): StockBatch[] {
+  const sorted = [...batches].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))
+  const dated = sorted.reduce((sum, batch) => sum + batch.amount, 0)
+  const undated = Math.max(0, total - dated)
+  const excess = Math.max(0, dated - total)
+  let remaining = Math.max(0, amount - undated) + excess
+
+  return sorted
+    .map((batch) => {
+      const take = Math.min(remaining, batch.amount)
+      remaining -= take
+      return take > 0 ? { ...batch, amount: batch.amount - take } : batch
+    })
+    .filter((batch) => batch.amount > 0)
+}
+
+/**
+ * Throw out every batch of milk and food past its expiry date
+ * Returns the new inventory, what was thrown out and what it cost
+ */
+export function spoilStock(inventory: Inventory, now: number): SpoilageResult {
+  const spoiled: string[] = []
+  let cost = 0
+  const milks = { ...inventory.milks }
+  const food = { ...inventory.food }
+  const milkBatches: Partial<Record<MilkType, StockBatch[]>> = {}
+  const foodBatches: Record<string, StockBatch[]> = {}
+
+  const isExpired = (batch: StockBatch) => new Date(batch.expiryDate).getTime() <= now
+
+  Object.entries(inventory.milkBatches || {}).forEach(([key, batches]) => {
+    const type = key as MilkType
+    const live = getLiveBatches(batches, inventory.milks[type] || 0)
+    const expired = live.filter(isExpired).reduce((sum, batch) => sum + batch.amount, 0)
+
+    milkBatches[type] = live.filter((batch) => !isExpired(batch))
+    if (expired > 0) {
+      milks[type] = Math.max(0, milks[type] - expired)
+      spoiled.push(`${expired}ml ${type} milk`)
+      cost += expired * UNIT_COSTS.milks[type]
+    }
+  })
+
+  Object.entries(inventory.foodBatches || {}).forEach(([item, batches]) => {
+    const live = getLiveBatches(batches, inventory.food[item] || 0)
+    const expired = live.filter(isExpired).reduce((sum, batch) => sum + batch.amount, 0)
+
+    foodBatches[item] = live.filter((batch) => !isExpired(batch))
+    if (expired > 0) {
+      food[item] = Math.max(0, (food[item] || 0) - expired)
+      spoiled.push(`${expired} ${item.replace('_', ' ')}`)
+      cost += getFoodCost(item as FoodType, expired)
+    }
+  })
+
+  return {
+    inventory: {
+      ...inventory,
+      milks,
+      food,
+      ...(inventory.milkBatches && { milkBatches }),
+      ...(inventory.foodBatches && { foodBatches }),
+    },
+    spoiled,
+    cost: Math.round(cost * 100) / 100,
+  }
+}
+
+/**
+ * Milk and food that will spoil within the given number of days, soonest first
+ */
+export function getExpiringStock(inventory: Inventory, now: number, withinDays = 1): ExpiringStock[] {
+  const cutoff = now + withinDays * DAY_MS
+  const expiring: ExpiringStock[] = []
+
+  const collect = (item: string, unit: ExpiringStock['unit'], batches: StockBatch[] = [], total: number) => {
+    getLiveBatches(batches, total)
+      .filter((batch) => new Date(batch.expiryDate).getTime() <= cutoff)
+      .forEach((batch) => expiring.push({ item, amount: batch.amount, unit, expiryDate: batch.expiryDate }))
+  }
+
+  Object.entries(inventory.milkBatches || {}).forEach(([type, batches]) => {
+    collect(`${type} milk`, 'ml', batches, inventory.milks[type as MilkType] || 0)
+  })
+  Object.entries(inventory.foodBatches || {}).forEach(([food, batches]) => {
+    collect(food.replace('_', ' '), 'count', batches, inventory.food[food] || 0)
+  })
+
+  return expiring.sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))
+}
+
 // ============================================================================
 // STOCK MANAGEMENT
 // ============================================================================
@@ -211,23 +633,35 @@ export function addStock(
     type?: MilkType
     amount: number
     roastDate?: string
+    receivedDate?: string // Milk and food batches start their shelf life here
+    varietyId?: string // Bean catalog id; names the bag and marks decaf
   }
 ): Inventory {
   const newInventory = { ...inventory }
+  const receivedAt = details.receivedDate ? new Date(details.receivedDate).getTime() : Date.now()
 
   switch (item) {
-    case 'beans':
-      if (details.name) {
+    case 'beans': {
+      const variety = details.varietyId ? BEAN_CATALOG[details.varietyId] : undefined
+      if (details.varietyId && !variety) {
+        throw new Error(`Unknown bean: ${details.varietyId}`)
+      }
+
+      const name = details.name || variety?.name
+      if (name) {
         newInventory.beans = [
           ...inventory.beans,
           {
-            name: details.name,
+            name,
             grams: details.amount,
             roastDate: details.roastDate || new Date().toISOString(),
+            ...(variety && { varietyId: variety.id }),
+            ...(variety?.decaf && { decaf: true }),
           },
         ]
       }
       break
+    }
 
     case 'milk':
       if (details.type) {
@@ -235,6 +669,13 @@ export function addStock(
           ...inventory.milks,
           [details.type]: inventory.milks[details.type] + details.amount,
         }
+        newInventory.milkBatches = {
+          ...inventory.milkBatches,
+          [details.type]: [
+            ...getLiveBatches(inventory.milkBatches?.[details.type], inventory.milks[details.type]),
+            createBatch(details.amount, SHELF_LIFE_DAYS.milks[details.type], receivedAt),
+          ],
+        }
       }
       break
 
@@ -253,6 +694,13 @@ export function addStock(
           ...inventory.food,
           [details.name]: (inventory.food[details.name] || 0) + details.amount,
         }
+        newInventory.foodBatches = {
+          ...inventory.foodBatches,
+          [details.name]: [
+            ...getLiveBatches(inventory.foodBatches?.[details.name], inventory.food[details.name] || 0),
+            createBatch(details.amount, getFoodShelfLife(details.name), receivedAt),
+          ],
+        }
       }
       break
   }
@@ -277,9 +725,9 @@ export function getAvailableMilkTypes(inventory: Inventory): MilkType[] {
 }
 
 /**
- * Check if inventory is low on any items
+ * Check if inventory is low on any items or has stock about to spoil
  */
-export function getLowStockWarnings(inventory: Inventory): string[] {
+export function getLowStockWarnings(inventory: Inventory, clock: Clock = systemClock): string[] {
   const warnings: string[] = []
 
   // Check beans
@@ -295,6 +743,18 @@ export function getLowStockWarnings(inventory: Inventory): string[] {
     }
   })
 
+  // Check food
+  Object.entries(inventory.food).forEach(([food, count]) => {
+    if (count > 0 && count < 3) {
+      warnings.push(`Low on ${food.replace('_', ' ')} (${count} left)`)
+    }
+  })
+
+  // Check for stock spoiling by tomorrow
+  getExpiringStock(inventory, clock.now()).forEach(({ item, amount, unit }) => {
+    warnings.push(`${unit === 'ml' ? `${amount}ml` : amount} ${item} expires within a day`)
+  })
+
   return warnings
 }
 
@@ -0,0 +1,223 @@
+/**
+ * LLM Provider Layer
+ *
+ * Every LLM call in the game goes through an LLMProvider, so the backend can
+ * be swapped without touching prompts or routes:
+ * - openrouter: hosted models via OpenRouter (default)
+ * - local: any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ * - stub: offline, deterministic replies for CI and development (see llm-stub.ts)
+ *
+ * Selected with LLM_PROVIDER; tests can inject a provider with setLLMProvider.
+ */
+
+import OpenAI from "openai";
+import { createStubProvider } from "./llm-stub";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LLMProviderName = "openrouter" | "local" | "stub";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: string; // JSON-encoded, as the model produced it
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: string; // Force a call to this tool
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_OPENROUTER_MODEL = "moonshotai/kimi-k2-0905"; // Better JSON compliance
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openrouter", "local", "stub"];
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDERS
+// ============================================================================
+
+/**
+ * Wrap any OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: LLMProviderName;
+  model: string;
+  apiKey: string;
+  baseURL: string;
+  headers?: Record<string, string>;
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    defaultHeaders: options.headers,
+  });
+
+  return {
+    name: options.name,
+    model: options.model,
+    async chat(request) {
+      const completion = await client.chat.completions.create({
+        model: options.model,
+        messages: request.messages,
+        tools: request.tools,
+        tool_choice: request.toolChoice
+          ? { type: "function", function: { name: request.toolChoice } }
+          : undefined,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      const message = completion.choices[0]?.message;
+
+      // Reasoning models may leave content empty and answer in a separate field
+      const reasoning = (message as { reasoning?: string } | undefined)?.reasoning;
+
+      return {
+        content: message?.content || reasoning || "",
+        toolCalls: (message?.tool_calls || []).map(call => ({
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        model: completion.model || options.model,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Hosted models via OpenRouter
+ */
+export function createOpenRouterProvider(): LLMProvider {
+  if (!process.env.OPENROUTER_API_KEY) {
+    throw new Error(
+      "OPENROUTER_API_KEY is not set. Please add it to your .env.local file, or set LLM_PROVIDER=stub to play offline."
+    );
+  }
+
+  return createOpenAICompatibleProvider({
+    name: "openrouter",
+    model: process.env.LLM_MODEL || DEFAULT_OPENROUTER_MODEL,
+    apiKey: process.env.OPENROUTER_API_KEY,
+    baseURL: "https://openrouter.ai/api/v1",
+    headers: {
+      "HTTP-Referer": process.env.SITE_URL || "http://localhost:3000",
+      "X-Title": "Small Hours - Coffee Shop Simulator",
+    },
+  });
+}
+
+/**
+ * A self-hosted OpenAI-compatible server
+ */
+export function createLocalProvider(): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: "local",
+    model: process.env.LLM_MODEL || DEFAULT_LOCAL_MODEL,
+    apiKey: process.env.LLM_API_KEY || "local", // Most local servers ignore the key
+    baseURL: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+  });
+}
+
+// ============================================================================
+// PROVIDER SELECTION
+// ============================================================================
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Which provider the environment asks for (defaults to openrouter)
+ */
+export function getProviderName(): LLMProviderName {
+  const configured = (process.env.LLM_PROVIDER || "openrouter").toLowerCase();
+  if (!PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER: ${configured}. Valid providers: ${PROVIDER_NAMES.join(", ")}`
+    );
+  }
+  return configured as LLMProviderName;
+}
+
+/**
+ * Create a provider by name
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openrouter":
+      return createOpenRouterProvider();
+    case "local":
+      return createLocalProvider();
+    case "stub":
+      return createStubProvider();
+  }
+}
+
+/**
+ * Get the active provider, creating it from the environment on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(getProviderName());
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (pass null to go back to the environment's choice)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Get the first call to a tool in a response, with its arguments decoded
+ */
+export function getToolCallArgs(response: ChatResponse, toolName: string): Record<string, unknown> | null {
+  const call = response.toolCalls.find(toolCall => toolCall.name === toolName);
+  return call ? JSON.parse(call.arguments) : null;
+}
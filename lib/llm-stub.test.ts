@@ -0,0 +1,97 @@
+/**
+ * Tests for the Offline Stub LLM Provider
+ */
+
+import { describe, it, expect } from "vitest";
+import { createStubProvider, parseOrderText } from "./llm-stub";
+import { getToolCallArgs } from "./llm-provider";
+import { TOOLS, executeFunctionCall, type ParsedOrder } from "./function-calling";
+
+describe("Stub LLM Provider", () => {
+  describe("parseOrderText", () => {
+    it("should find every drink and food item", () => {
+      expect(parseOrderText("A latte and two croissants, please")).toEqual([
+        { item_type: "drink", sku: "latte", quantity: 1 },
+        { item_type: "food", sku: "croissant", quantity: 2 },
+      ]);
+    });
+
+    it("should read drink modifiers", () => {
+      const [item] = parseOrderText("Large iced oat latte with vanilla and an extra shot");
+
+      expect(item).toMatchObject({ sku: "latte", size: "large", temp: "iced", milk_type: "oat", syrup: "vanilla" });
+    });
+
+    it("should prefer matcha over latte and read pour over", () => {
+      expect(parseOrderText("matcha latte").map(item => item.sku)).toEqual(["matcha"]);
+      expect(parseOrderText("a pour-over").map(item => item.sku)).toEqual(["pourover"]);
+    });
+
+    it("should guess a latte when no drink is mentioned", () => {
+      expect(parseOrderText("Just a warm muffin")).toEqual([
+        { item_type: "food", sku: "muffin", quantity: 1, warm: true },
+        { item_type: "drink", sku: "latte", quantity: 1 },
+      ]);
+    });
+  });
+
+  describe("createStubProvider", () => {
+    it("should answer forced tool calls with arguments the tools accept", async () => {
+      const provider = createStubProvider();
+      const response = await provider.chat({
+        messages: [{ role: "user", content: 'Customer says: "Quick cappuccino with almond milk and a bagel"' }],
+        tools: TOOLS,
+        toolChoice: "parse_order",
+      });
+
+      const parsed = executeFunctionCall("parse_order", getToolCallArgs(response, "parse_order")!) as ParsedOrder;
+
+      expect(parsed.drinkType).toBe("cappuccino");
+      expect(parsed.milkType).toBe("almond");
+      expect(parsed.items).toHaveLength(2);
+      expect(parsed.urgency).toBe("rushed");
+    });
+
+    it("should read ticket details from the create_ticket prompt", async () => {
+      const response = await createStubProvider().chat({
+        messages: [{ role: "user", content: 'Customer: Sam\nOrder: "Mocha please"\nItems: Mocha, Bagel\nMood: stressed' }],
+        toolChoice: "create_ticket",
+      });
+
+      expect(getToolCallArgs(response, "create_ticket")).toMatchObject({
+        customer_name: "Sam",
+        priority: "high",
+        items: [{ sku: "mocha" }, { sku: "bagel" }],
+      });
+    });
+
+    it("should play scripted replies in order, then fall back to the rules", async () => {
+      const provider = createStubProvider([{ content: "first" }, { content: "second" }]);
+      const request = { messages: [{ role: "user" as const, content: "Hello" }] };
+
+      expect((await provider.chat(request)).content).toBe("first");
+      expect((await provider.chat(request)).content).toBe("second");
+      expect((await provider.chat(request)).content).toContain("Small Hours");
+      expect(provider.requests).toHaveLength(3);
+    });
+
+    it("should accept a function script", async () => {
+      const provider = createStubProvider(request =>
+        request.toolChoice === "check_allergens"
+          ? { toolCalls: [{ name: "check_allergens", arguments: { drink_type: "latte", customer_allergens: ["dairy"] } }] }
+          : undefined
+      );
+
+      const response = await provider.chat({ messages: [], toolChoice: "check_allergens" });
+
+      expect(getToolCallArgs(response, "check_allergens")).toEqual({ drink_type: "latte", customer_allergens: ["dairy"] });
+      expect(getToolCallArgs(response, "parse_order")).toBeNull();
+    });
+
+    it("should reply the same way every time", async () => {
+      const request = { messages: [{ role: "user" as const, content: 'Customer says: "two espressos"' }], toolChoice: "parse_order" };
+
+      expect(await createStubProvider().chat(request)).toEqual(await createStubProvider().chat(request));
+    });
+  });
+});
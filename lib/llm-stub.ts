@@ -0,0 +1,378 @@
+/**
+ * Offline Stub LLM Provider
+ *
+ * A deterministic stand-in for a real model so every LLM path (customer
+ * dialogue, greetings, reactions, parse_order, create_ticket, check_allergens,
+ * the game master's spawn_event, post_review, remember, memory summaries,
+ * counter chats) runs in CI and on machines without network access.
+ *
+ * Replies come from an optional script of canned fixtures first, then from
+ * keyword rules that read the same prompts the real model would see.
+ */
+
+import type { ChatRequest, ChatResponse, LLMProvider } from "./llm-provider";
+import type { OrderItemArgs } from "./function-calling";
+import { VALID_SYRUPS } from "./modifiers";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StubReply {
+  content?: string;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+/**
+ * Canned replies, consumed in order, or a function choosing one per request
+ * (returning undefined falls through to the built-in rules)
+ */
+export type StubScript = StubReply[] | ((request: ChatRequest) => StubReply | undefined);
+
+export interface StubProvider extends LLMProvider {
+  requests: ChatRequest[]; // Every request received, for assertions
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const STUB_MODEL = "stub";
+
+// Checked in order, so "matcha latte" is matcha and "pour over" beats nothing
+const DRINK_KEYWORDS: [RegExp, string][] = [
+  [/matcha/, "matcha"],
+  [/pour[\s-]?over/, "pourover"],
+  [/aeropress/, "aeropress"],
+  [/americano/, "americano"],
+  [/cappuccino/, "cappuccino"],
+  [/mocha/, "mocha"],
+  [/latte/, "latte"],
+  [/espresso/, "espresso"],
+];
+
+const FOOD_KEYWORDS: [RegExp, string][] = [
+  [/croissant/, "croissant"],
+  [/banana[\s_]bread/, "banana_bread"],
+  [/bagel/, "bagel"],
+  [/muffin/, "muffin"],
+];
+
+const QUANTITY_WORDS: Record<string, number> = { two: 2, three: 3, four: 4 };
+
+const REACTIONS: Record<string, string> = {
+  perfect: "Oh wow, this is exactly how I like it. Thank you!",
+  good: "That's a really nice cup, thanks.",
+  okay: "It's fine. Does the job.",
+  poor: "Hmm... this isn't quite right.",
+};
+
+// What a first-time customer tells the barista when they're offered the remember tool
+const STUB_FACT = "Works just around the corner";
+
+// ============================================================================
+// ORDER PARSING
+// ============================================================================
+
+/**
+ * Turn order text into parse_order line items with simple keyword matching
+ */
+export function parseOrderText(text: string): OrderItemArgs[] {
+  const segments = text.toLowerCase().split(/,|&|\band\b|\bplus\b|\balso\b/);
+  const items: OrderItemArgs[] = [];
+
+  for (const segment of segments) {
+    const quantityMatch = segment.match(/\b(\d+|two|three|four)\b/);
+    const quantity = quantityMatch
+      ? QUANTITY_WORDS[quantityMatch[1]] ?? parseInt(quantityMatch[1], 10)
+      : 1;
+
+    const drink = DRINK_KEYWORDS.find(([pattern]) => pattern.test(segment));
+    if (drink) {
+      const item: OrderItemArgs = { item_type: "drink", sku: drink[1], quantity };
+      const milk = segment.match(/\b(oat|almond|skim|whole)\b/);
+      const size = segment.match(/\b(small|large)\b/);
+      const syrup = VALID_SYRUPS.find(flavor => segment.includes(flavor));
+
+      if (milk) item.milk_type = milk[1];
+      if (size) item.size = size[1];
+      if (/\biced\b/.test(segment)) item.temp = "iced";
+      if (/extra shot|double shot/.test(segment)) item.extra_shot = true;
+      if (/\bdecaf\b/.test(segment)) item.decaf = true;
+      if (syrup) item.syrup = syrup;
+      if (/whipped cream/.test(segment)) item.whipped_cream = true;
+      items.push(item);
+      continue;
+    }
+
+    const food = FOOD_KEYWORDS.find(([pattern]) => pattern.test(segment));
+    if (food) {
+      const item: OrderItemArgs = { item_type: "food", sku: food[1], quantity };
+      if (/warm|heated|toasted/.test(segment)) item.warm = true;
+      items.push(item);
+    }
+  }
+
+  // Every order needs a drink; guess the house favourite rather than fail offline
+  if (!items.some(item => item.item_type === "drink")) {
+    items.push({ item_type: "drink", sku: "latte", quantity: 1 });
+  }
+
+  return items;
+}
+
+/**
+ * Read how rushed an order sounds
+ */
+function detectUrgency(text: string): "relaxed" | "normal" | "rushed" {
+  const lower = text.toLowerCase();
+  if (/no rush|take your time/.test(lower)) return "relaxed";
+  if (/quick|hurry|rush|asap|running late/.test(lower)) return "rushed";
+  return "normal";
+}
+
+// ============================================================================
+// BUILT-IN RULES
+// ============================================================================
+
+function promptText(request: ChatRequest): string {
+  return request.messages.map(message => message.content).join("\n");
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  const users = request.messages.filter(message => message.role === "user");
+  return users.length > 0 ? users[users.length - 1].content : "";
+}
+
+function matchLine(text: string, pattern: RegExp): string | undefined {
+  return text.match(pattern)?.[1]?.trim();
+}
+
+/**
+ * Answer a forced tool call from the prompt the routes send
+ */
+function toolReply(request: ChatRequest, toolName: string): StubReply {
+  const text = promptText(request);
+
+  switch (toolName) {
+    case "parse_order": {
+      const said = matchLine(lastUserMessage(request), /"([\s\S]*)"/) ?? lastUserMessage(request);
+      return {
+        toolCalls: [{
+          name: toolName,
+          arguments: { items: parseOrderText(said), urgency: detectUrgency(said) },
+        }],
+      };
+    }
+
+    case "create_ticket": {
+      const order = matchLine(text, /Order: "(.*)"/) ?? "";
+      const items = matchLine(text, /Items: (.*)/) ?? order;
+      const rushed = matchLine(text, /Mood: (\w+)/) === "stressed" || detectUrgency(order) === "rushed";
+      return {
+        toolCalls: [{
+          name: toolName,
+          arguments: {
+            customer_name: matchLine(text, /Customer: (.*)/) ?? "Guest",
+            items: parseOrderText(items),
+            priority: rushed ? "high" : "normal",
+          },
+        }],
+      };
+    }
+
+    case "check_allergens": {
+      const milk = matchLine(text, /Milk: (\w+)/);
+      const allergens = matchLine(text, /Customer allergens: (.*)/);
+      return {
+        toolCalls: [{
+          name: toolName,
+          arguments: {
+            drink_type: matchLine(text, /Drink: (\w+)/) ?? "latte",
+            ...(milk && milk !== "none" ? { milk_type: milk } : {}),
+            customer_allergens: allergens ? allergens.split(/,\s*/) : [],
+          },
+        }],
+      };
+    }
+
+    case "post_review": {
+      const stars = Number(matchLine(text, /Stars: ([\d.]+)/) ?? 3);
+      const standout = matchLine(text, /What stood out: (.*)/);
+      const verdict = stars >= 4 ? "Lovely little café, I'll be back." : stars >= 3 ? "Decent enough coffee." : "Wouldn't rush back.";
+      return {
+        toolCalls: [{
+          name: toolName,
+          arguments: {
+            review_text: standout && standout !== "nothing in particular" ? `${verdict} ${standout}.` : verdict,
+          },
+        }],
+      };
+    }
+
+    default:
+      return { toolCalls: [{ name: toolName, arguments: {} }] };
+  }
+}
+
+/**
+ * Play game master: liven up an empty café with the first event on offer, otherwise leave the day be
+ */
+function gameMasterReply(request: ChatRequest): StubReply {
+  const text = lastUserMessage(request);
+  const queueLength = Number(matchLine(text, /Queue length: (\d+)/) ?? 0);
+  const firstEvent = matchLine(text, /Events you may spawn:\n(\w+)/);
+
+  if (queueLength === 0 && firstEvent) {
+    return {
+      toolCalls: [{
+        name: "spawn_event",
+        arguments: { event_id: firstEvent, reason: "The café has gone quiet, so something should happen." },
+      }],
+    };
+  }
+  return { content: "The café is busy enough without any help." };
+}
+
+/**
+ * Chat back to the barista: take a suggested food or an offer of iced through parse_order, otherwise small talk
+ */
+function chatReply(request: ChatRequest): StubReply {
+  const said = lastUserMessage(request).toLowerCase();
+  const order = matchLine(request.messages[0].content, /Your order: (.*)/) ?? "";
+  const impression = /\b(hurry|whatever|move it)\b/.test(said)
+    ? "cold"
+    : /\b(please|thanks|thank you|lovely|how are you)\b/.test(said) ? "warm" : "neutral";
+
+  const food = FOOD_KEYWORDS.find(([pattern]) => pattern.test(said));
+  if (food) {
+    return {
+      content: JSON.stringify({ reply: `Go on then, I'll have a ${food[1].replace("_", " ")} too.`, impression }),
+      toolCalls: [{
+        name: "parse_order",
+        arguments: { items: [...parseOrderText(order), { item_type: "food", sku: food[1], quantity: 1 }] },
+      }],
+    };
+  }
+
+  if (/\biced\b/.test(said)) {
+    const items = parseOrderText(order);
+    const first = items.findIndex(item => item.item_type === "drink");
+    return {
+      content: JSON.stringify({ reply: "Iced, please!", impression }),
+      toolCalls: [{
+        name: "parse_order",
+        arguments: { items: items.map((item, i) => (i === first ? { ...item, temp: "iced" } : item)) },
+      }],
+    };
+  }
+
+  const reply = /how are you/.test(said) ? "Not bad at all, thanks for asking!" : "Ha, fair enough.";
+  return { content: JSON.stringify({ reply, impression }) };
+}
+
+/**
+ * The weekday a familiar face last had what they want now, for "same as Tuesday?"
+ */
+function sameAsLastTime(text: string, wanted: string): string | undefined {
+  if (!/Relationship: (familiar|regular|favorite)/.test(text)) return undefined;
+
+  const last = text.match(/Last order: (\w+)(?: on (\w+))?/);
+  if (!last || !wanted.toLowerCase().includes(last[1])) return undefined;
+  return last[2] ?? "last time";
+}
+
+/**
+ * Have a customer with nothing on record yet mention where they work, through remember
+ */
+function rememberCalls(request: ChatRequest, text: string): StubReply["toolCalls"] {
+  if (!request.tools?.some(tool => tool.function.name === "remember")) return undefined;
+  if (/Told the barista: /.test(text)) return undefined;
+  return [{ name: "remember", arguments: { fact: STUB_FACT } }];
+}
+
+/**
+ * Answer a plain dialogue prompt
+ */
+function dialogueReply(request: ChatRequest): StubReply {
+  const text = promptText(request);
+  const toolCalls = rememberCalls(request, text);
+
+  const wanted = matchLine(text, /You want: (.*)/);
+  if (wanted) {
+    const rushed = /Time: rushed/.test(text);
+    const sameAs = sameAsLastTime(text, wanted);
+    const order = sameAs
+      ? `Same as ${sameAs}? That's ${wanted}, please.`
+      : rushed ? `Quick ${wanted}, please!` : `Can I get ${wanted}, please?`;
+    return { content: JSON.stringify({ order }), toolCalls };
+  }
+
+  const received = text.match(/You just received a (\w+) /);
+  if (received) {
+    return { content: REACTIONS[received[1]] ?? REACTIONS.okay };
+  }
+
+  const summarized = text.match(/Customer: (.+) \((\w+), (\d+) visits\)/);
+  if (summarized) {
+    const drink = matchLine(text, /Orders: (\w+)/);
+    return {
+      content: `${summarized[1]} is a ${summarized[2]} with ${summarized[3]} visits${drink ? ` who mostly orders ${drink}` : ""}.`,
+    };
+  }
+
+  if (/Greet the barista/.test(text)) {
+    const name = matchLine(text, /You are ([^,.]+)/) ?? "a regular";
+    if (/Relationship: (familiar|regular|favorite)/.test(text)) {
+      return { content: `Good to see you again! It's ${name}, back for another coffee.`, toolCalls };
+    }
+    return { content: `Morning! I'm ${name}, and I could really use a coffee.`, toolCalls };
+  }
+
+  return {
+    content: "Welcome to Small Hours! Today's special is a bright Ethiopian pour over, fruity and floral.",
+  };
+}
+
+/**
+ * The stub's built-in reply for a request
+ */
+export function getStubReply(request: ChatRequest): StubReply {
+  if (request.toolChoice) return toolReply(request, request.toolChoice);
+  if (request.tools?.some(tool => tool.function.name === "spawn_event")) return gameMasterReply(request);
+  if (/the barista is chatting with you/.test(request.messages[0]?.content ?? "")) return chatReply(request);
+  return dialogueReply(request);
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Create an offline provider, optionally scripted with canned replies
+ */
+export function createStubProvider(script: StubScript = []): StubProvider {
+  const queue = Array.isArray(script) ? [...script] : [];
+  const requests: ChatRequest[] = [];
+
+  return {
+    name: "stub",
+    model: STUB_MODEL,
+    requests,
+    async chat(request): Promise<ChatResponse> {
+      requests.push(request);
+
+      const scripted = Array.isArray(script) ? queue.shift() : script(request);
+      const reply = scripted ?? getStubReply(request);
+
+      return {
+        content: reply.content ?? "",
+        toolCalls: (reply.toolCalls ?? []).map(call => ({
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        })),
+        model: STUB_MODEL,
+      };
+    },
+  };
+}
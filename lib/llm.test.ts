@@ -0,0 +1,168 @@
+/**
+ * Tests for LLM Dialogue Generation (run offline against the stub provider)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { generateCustomer, generateCustomerGreeting, generateDrinkReaction, summarizeCustomerHistory } from "./llm";
+import { createStubProvider } from "./llm-stub";
+import { getLLMProvider, getProviderName, setLLMProvider } from "./llm-provider";
+import { auditLog } from "./audit-log";
+import {
+  MAX_RAW_VISITS,
+  recordVisit,
+  recallCustomer,
+  getCustomerDigest,
+  getPendingSummaries,
+  type CustomerRecollection,
+} from "./customer-memory";
+import { createSession, dispatch } from "./session";
+import { getDefaultParameters } from "./game-engine";
+import { ManualClock } from "./random";
+
+describe("LLM dialogue", () => {
+  beforeEach(() => {
+    setLLMProvider(createStubProvider());
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("generateCustomer", () => {
+    it("should build the customer from the seeded profile and the model's order line", async () => {
+      const customer = await generateCustomer(undefined, 42);
+      const again = await generateCustomer(undefined, 42);
+
+      expect(customer).toEqual(again);
+      expect(customer.order).toMatch(/^(Can I get|Quick) /);
+      expect(customer.items?.length).toBeGreaterThan(0);
+      expect(customer.payment).toBeGreaterThan(0);
+    });
+
+    it("should fall back to a templated order when the reply is not JSON", async () => {
+      setLLMProvider(createStubProvider([{ content: "I am thinking about coffee..." }]));
+
+      const customer = await generateCustomer("latte", 7);
+
+      expect(customer.drinkType).toBe("latte");
+      expect(customer.order.length).toBeGreaterThan(0);
+    });
+
+    it("should use the order from a thinking model's final JSON", async () => {
+      setLLMProvider(createStubProvider([
+        { content: '<think>they want a latte</think>{"order": "One latte, thanks!"}' },
+      ]));
+
+      expect((await generateCustomer("latte", 3)).order).toBe("One latte, thanks!");
+    });
+  });
+
+  describe("generateCustomerGreeting", () => {
+    it("should return the greeting and a mood", async () => {
+      const greeting = await generateCustomerGreeting("Ada", "cheerful");
+
+      expect(greeting.greeting).toContain("Ada");
+      expect(greeting.mood).toBe("happy");
+    });
+  });
+
+  describe("customer memory", () => {
+    function regular(name: string, drink: CustomerRecollection["favoriteDrink"]): CustomerRecollection {
+      return {
+        name,
+        relationshipLevel: "regular",
+        visitCount: 9,
+        lastOrder: { drink: drink!, weekday: "Tuesday" },
+        favoriteDrink: drink,
+        notes: ["Training for a marathon"],
+      };
+    }
+
+    it("should have a regular recall their last order, through the audited recall tool", async () => {
+      const stranger = await generateCustomer(undefined, 42);
+      auditLog.clearLogs();
+      const customer = await generateCustomer(undefined, 42, undefined, undefined, [regular(stranger.name, stranger.drinkType)]);
+
+      expect(customer.order).toMatch(/^Same as Tuesday\? /);
+      expect(customer.remembered).toBeUndefined();
+      expect(auditLog.getLogs({ source: "generate_customer", type: "tool_call" })[0]).toMatchObject({
+        toolName: "recall",
+        toolArgs: { customer_name: stranger.name },
+      });
+    });
+
+    it("should greet the barista by relationship", async () => {
+      const regularGreeting = await generateCustomerGreeting("Sam", "a cheerful nurse", [regular("Sam", "latte")]);
+      const newGreeting = await generateCustomerGreeting("Sam", "a cheerful nurse", []);
+
+      expect(regularGreeting.greeting).toMatch(/^Good to see you again!/);
+      expect(newGreeting.greeting).toMatch(/^Morning! I'm Sam/);
+    });
+
+    it("should write what a customer mentioned into their notes once they're served", async () => {
+      const customer = await generateCustomer(undefined, 42, undefined, undefined, []);
+      expect(customer.remembered).toBe("Works just around the corner");
+
+      const clock = new ManualClock(Date.UTC(2025, 0, 6, 8, 0, 0));
+      let state = dispatch({ ...createSession(5, clock), money: 100, activeEvent: undefined }, { type: "start_day" }, clock);
+      state = dispatch({ ...state, activeEvent: undefined }, { type: "customer_arrives", customer: { ...customer, items: undefined } }, clock);
+      state = dispatch(state, { type: "brew", params: getDefaultParameters(customer.drinkType) }, clock);
+      state = dispatch(state, { type: "serve" }, clock);
+
+      expect(recallCustomer(state.customerMemory!, customer.name)).toMatchObject({
+        lastOrder: { drink: customer.drinkType, weekday: "Monday" },
+        notes: ["Works just around the corner"],
+      });
+    });
+  });
+
+  describe("memory summaries", () => {
+    it("should condense long histories at closing and take the LLM's summary, audited", async () => {
+      const clock = new ManualClock(Date.UTC(2025, 0, 6, 8, 0, 0));
+      let state = dispatch({ ...createSession(5, clock), money: 100, activeEvent: undefined }, { type: "start_day" }, clock);
+      let memory = state.customerMemory!;
+      for (let i = 0; i <= MAX_RAW_VISITS; i++) {
+        memory = recordVisit(memory, "Morgan", { drinkOrdered: "latte", quality: 80, satisfaction: 85, payment: 4.5 }, clock);
+      }
+      state = dispatch({ ...state, customerMemory: memory }, { type: "end_day" }, clock);
+
+      const [pending] = getPendingSummaries(state.customerMemory!);
+      expect(pending.visits.length).toBeLessThan(MAX_RAW_VISITS);
+
+      auditLog.clearLogs();
+      const summary = await summarizeCustomerHistory(getCustomerDigest(pending));
+      expect(summary).toBe("Morgan is a favorite with 21 visits who mostly orders latte.");
+      expect(auditLog.getLogs({ source: "summarize_memory", type: "llm_call" })).toHaveLength(1);
+
+      state = dispatch(state, { type: "summarize_customer", customerName: "Morgan", summary }, clock);
+      expect(recallCustomer(state.customerMemory!, "Morgan")!.summary).toBe(summary);
+    });
+  });
+
+  describe("generateDrinkReaction", () => {
+    it("should react to the drink quality", async () => {
+      const great = await generateDrinkReaction("Ada", 95, "latte");
+      const poor = await generateDrinkReaction("Ada", 30, "latte");
+
+      expect(great.satisfaction).toBe(95);
+      expect(great.reaction).not.toBe(poor.reaction);
+    });
+  });
+
+  describe("provider selection", () => {
+    it("should pick the provider named in LLM_PROVIDER", () => {
+      const previous = process.env.LLM_PROVIDER;
+      try {
+        process.env.LLM_PROVIDER = "stub";
+        setLLMProvider(null);
+        expect(getLLMProvider().name).toBe("stub");
+
+        process.env.LLM_PROVIDER = "carrier-pigeon";
+        expect(() => getProviderName()).toThrow("Unknown LLM_PROVIDER: carrier-pigeon");
+      } finally {
+        if (previous === undefined) delete process.env.LLM_PROVIDER;
+        else process.env.LLM_PROVIDER = previous;
+      }
+    });
+  });
+});
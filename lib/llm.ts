@@ -1,38 +1,35 @@
-import OpenAI from "openai";
-import type { DrinkType, Customer } from "./types";
-import { RECIPES } from "./recipes";
+import type { DrinkType, Customer, CustomerReview, Menu, ChatImpression, ConversationLine } from "./types";
 import {
   generateCustomerProfile,
-  calculatePayment,
+  calculateOrderPayment,
+  createCustomerFromProfile,
   type GeneratedCustomerProfile,
 } from "./customer-generator";
-
-// Initialize the OpenRouter client (uses OpenAI SDK with custom base URL)
-let openrouterClient: OpenAI | null = null;
-
-export function getOpenRouterClient(): OpenAI {
-  if (!openrouterClient) {
-    if (!process.env.OPENROUTER_API_KEY) {
-      throw new Error(
-        "OPENROUTER_API_KEY is not set. Please add it to your .env.local file."
-      );
-    }
-    openrouterClient = new OpenAI({
-      apiKey: process.env.OPENROUTER_API_KEY,
-      baseURL: "https://openrouter.ai/api/v1",
-      defaultHeaders: {
-        "HTTP-Referer": process.env.SITE_URL || "http://localhost:3000",
-        "X-Title": "Small Hours - Coffee Shop Simulator",
-      },
-    });
-  }
-  return openrouterClient;
-}
-
-// Get the model to use (defaults to Kimi K2 0905 for better JSON compliance)
-export function getModel(): string {
-  return process.env.LLM_MODEL || "moonshotai/kimi-k2-0905";
-}
+import { describeOrderItem, type OrderItem } from "./pricing";
+import { getLLMProvider, getToolCallArgs, type ChatResponse } from "./llm-provider";
+import {
+  TOOLS,
+  executeFunctionCall,
+  type SpawnEventRequest,
+  type ReviewPost,
+  type RememberedFact,
+  type ParsedOrder,
+} from "./function-calling";
+import { CHAT_IMPRESSIONS, sanitizeChatText } from "./conversation";
+import {
+  describeRecollection,
+  describeDigest,
+  sanitizeSummary,
+  type CustomerRecollection,
+  type CustomerDigest,
+} from "./customer-memory";
+import {
+  GM_MAX_EVENTS_PER_DAY,
+  describeSnapshot,
+  type GameSnapshot,
+  type GameMasterDecision,
+} from "./game-master";
+import { auditedLLMCall, auditedToolCall } from "./audit-log";
 
 // Sanitize user input to prevent prompt injection
 function sanitizeInput(input: string, maxLength = 100): string {
@@ -46,6 +43,13 @@ function sanitizeInput(input: string, maxLength = 100): string {
 export interface CustomerGreeting {
   greeting: string;
   mood: "happy" | "neutral" | "stressed" | "tired";
+  remembered?: string; // A fact they asked the barista to remember
+}
+
+export interface CustomerChatReply {
+  reply: string;
+  impression: ChatImpression; // How the barista came across
+  items?: OrderItem[]; // The whole order, when the chat changed it (from parse_order)
 }
 
 export interface CustomerReaction {
@@ -53,32 +57,90 @@ export interface CustomerReaction {
   satisfaction: number; // 0-100
 }
 
+// Customers recall before they speak; while speaking they can ask to have a fact remembered
+const MEMORY_TOOLS = TOOLS.filter(tool => tool.function.name === "remember");
+
+const REMEMBER_PROMPT = "If you mention something about yourself worth remembering, note it with the remember function.";
+
+/**
+ * Recall a customer's past visits through the recall tool (audited)
+ * Returns null for customers the café hasn't served, or when no memories were given
+ */
+function recallVisits(
+  customerName: string,
+  recollections: CustomerRecollection[] | undefined
+): CustomerRecollection | null {
+  if (!recollections) return null;
+
+  const toolArgs = { customer_name: customerName };
+  return auditedToolCall({
+    source: "generate_customer",
+    toolName: "recall",
+    toolArgs,
+    fn: () => executeFunctionCall("recall", toolArgs, { recollections }),
+  }) as CustomerRecollection | null;
+}
+
+/**
+ * Prompt lines for what a returning customer remembers (nothing for first-time customers)
+ */
+function describeMemories(recollection: CustomerRecollection | null): string {
+  if (!recollection) return "";
+
+  return `
+
+What you remember of this café:
+${describeRecollection(recollection)}
+If you're having what you had last time, you can say so (like "same as ${recollection.lastOrder?.weekday || "last time"}?"). You might bring up something you told the barista before.`;
+}
+
+/**
+ * Read a fact the customer asked to have remembered, through the remember tool (audited)
+ * A fact that doesn't validate is dropped rather than costing the customer their visit
+ */
+function readRememberedFact(completion: ChatResponse): string | undefined {
+  const functionArgs = getToolCallArgs(completion, "remember");
+  if (!functionArgs) return undefined;
+
+  try {
+    const remembered = auditedToolCall({
+      source: "generate_customer",
+      toolName: "remember",
+      toolArgs: functionArgs,
+      fn: () => executeFunctionCall("remember", functionArgs),
+    }) as RememberedFact;
+    return remembered.fact;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Generate a customer greeting
- * This is a simple example - we'll expand this in later phases
+ * Returning customers recall their past visits first, and greet the barista to match
  */
 export async function generateCustomerGreeting(
   customerName: string,
-  personality: string
+  personality: string,
+  recollections?: CustomerRecollection[]
 ): Promise<CustomerGreeting> {
-  const client = getOpenRouterClient();
-  const model = getModel();
+  const recollection = recallVisits(customerName, recollections);
 
-  const completion = await client.chat.completions.create({
-    model,
+  const completion = await getLLMProvider().chat({
     messages: [
       {
         role: "user",
-        content: `You are ${customerName}, a customer in a cozy café. Your personality: ${personality}.
+        content: `You are ${customerName}, a customer in a cozy café. Your personality: ${personality}.${describeMemories(recollection)}
 
-Greet the barista in 1-2 sentences. Be natural and stay in character.`,
+Greet the barista in 1-2 sentences. Be natural and stay in character. ${REMEMBER_PROMPT}`,
       },
     ],
-    max_tokens: 256,
+    tools: MEMORY_TOOLS,
+    maxTokens: 256,
     temperature: 0.8,
   });
 
-  const greeting = completion.choices[0]?.message?.content || "";
+  const greeting = completion.content;
 
   // Simple mood detection (we can make this more sophisticated later)
   let mood: CustomerGreeting["mood"] = "neutral";
@@ -90,7 +152,9 @@ Greet the barista in 1-2 sentences. Be natural and stay in character.`,
     mood = "stressed";
   }
 
-  return { greeting, mood };
+  const remembered = readRememberedFact(completion);
+
+  return { greeting, mood, ...(remembered ? { remembered } : {}) };
 }
 
 /**
@@ -101,9 +165,6 @@ export async function generateDrinkReaction(
   drinkQuality: number, // 0-100
   drinkType: string
 ): Promise<CustomerReaction> {
-  const client = getOpenRouterClient();
-  const model = getModel();
-
   const qualityDescriptor =
     drinkQuality >= 90
       ? "perfect"
@@ -113,8 +174,7 @@ export async function generateDrinkReaction(
       ? "okay"
       : "poor";
 
-  const completion = await client.chat.completions.create({
-    model,
+  const completion = await getLLMProvider().chat({
     messages: [
       {
         role: "system",
@@ -127,11 +187,11 @@ export async function generateDrinkReaction(
 React in 1-2 sentences. Be natural and reflect the quality of the drink.`,
       },
     ],
-    max_tokens: 128,
+    maxTokens: 128,
     temperature: 0.8,
   });
 
-  const reaction = completion.choices[0]?.message?.content || "";
+  const reaction = completion.content;
 
   return {
     reaction,
@@ -209,19 +269,25 @@ function extractJsonFromThinkingModel(response: string): string | null {
 /**
  * Generate a dynamic customer with personality
  * Uses RNG to create detailed profile, LLM to generate natural dialogue
+ * Returning customers recall their past visits from the recollections given
  */
 export async function generateCustomer(
   preferredDrink?: DrinkType,
-  seed?: number
+  seed?: number,
+  reputation?: number,
+  menu?: Menu,
+  recollections?: CustomerRecollection[]
 ): Promise<Customer> {
-  // Generate detailed customer profile using RNG
-  const profile = generateCustomerProfile(seed, preferredDrink);
-  const recipe = RECIPES[profile.drinkType];
+  // Generate detailed customer profile using RNG (reputation shifts who walks in, the menu what they order)
+  const profile = generateCustomerProfile(seed, preferredDrink, reputation, menu);
+  const orderSummary = profile.items.map(describeOrderItem).join(", ");
+  const payment = calculateOrderPayment(profile.items, menu);
 
-  const client = getOpenRouterClient();
-  const model = getModel();
+  const provider = getLLMProvider();
 
   try {
+    const recollection = recallVisits(profile.name, recollections);
+
     // Build context for LLM based on profile
     const contextParts = [
       `You are ${profile.name}, ${profile.personality}`,
@@ -230,8 +296,7 @@ export async function generateCustomer(
       profile.allergens.length > 0 && `Allergies: ${profile.allergens.join(", ")}`,
     ].filter(Boolean);
 
-    const completion = await client.chat.completions.create({
-      model,
+    const completion = await provider.chat({
       messages: [
         {
           role: "system",
@@ -239,37 +304,38 @@ export async function generateCustomer(
 Respond with ONLY a JSON object, no other text.
 
 Character: ${contextParts.join(". ")}.
-You want: ${recipe.name}
-${profile.milkPreference ? `Preferred milk: ${profile.milkPreference}` : ""}
+You want: ${orderSummary}
+${profile.milkPreference ? `Preferred milk: ${profile.milkPreference}` : ""}${describeMemories(recollection)}
 
 Output format:
 {
-  "order": "Natural language order for the drink, 1 sentence, stay in character"
+  "order": "Natural language order mentioning every item you want, 1 sentence, stay in character"
 }
 
-Match your mood and time constraint. Be natural and concise.`
+Match your mood and time constraint. Be natural and concise.
+${REMEMBER_PROMPT}`
         },
         {
           role: "user",
           content: "Place your order as JSON"
         }
       ],
-      max_tokens: 100,
+      tools: MEMORY_TOOLS,
+      maxTokens: 100,
       temperature: 0.9,
     });
 
     // Debug: Log the raw API response
     if (process.env.NODE_ENV === "development") {
       console.log("LLM API Response:", {
-        model,
-        hasChoices: !!completion.choices,
-        choicesLength: completion.choices?.length,
-        firstChoice: completion.choices?.[0],
-        finishReason: completion.choices?.[0]?.finish_reason,
+        provider: provider.name,
+        model: completion.model,
+        content: completion.content,
       });
     }
 
-    const response = completion.choices[0]?.message?.content || "";
+    const response = completion.content;
+    const remembered = readRememberedFact(completion);
 
     // Parse the JSON response - handle thinking models properly
     let order: string;
@@ -280,7 +346,7 @@ Match your mood and time constraint. Be natural and concise.`
 
       if (extracted) {
         const parsed = JSON.parse(extracted);
-        order = parsed.order || `I'd like a ${recipe.name}, please.`;
+        order = parsed.order || `I'd like ${orderSummary}, please.`;
       } else {
         throw new Error("No valid JSON found in response");
       }
@@ -288,7 +354,7 @@ Match your mood and time constraint. Be natural and concise.`
       // Only log in development to reduce noise
       if (process.env.NODE_ENV === "development") {
         console.warn("Failed to parse LLM response, using fallback:", {
-          model: getModel(),
+          model: provider.model,
           error: parseError instanceof Error ? parseError.message : String(parseError),
           responseLength: response.length,
           responsePreview: response.slice(0, 300),
@@ -298,11 +364,11 @@ Match your mood and time constraint. Be natural and concise.`
 
       // Fallback based on archetype
       if (profile.archetype.timeConstraint === "rushed") {
-        order = `Quick ${recipe.name}, please!`;
+        order = `Quick ${orderSummary}, please!`;
       } else if (profile.archetype.timeConstraint === "relaxed") {
-        order = `I'll have a ${recipe.name}, please. Take your time.`;
+        order = `I'll have ${orderSummary}, please. Take your time.`;
       } else {
-        order = `Can I get a ${recipe.name}?`;
+        order = `Can I get ${orderSummary}?`;
       }
     }
 
@@ -310,33 +376,255 @@ Match your mood and time constraint. Be natural and concise.`
       name: sanitizeInput(profile.name, 50),
       order: sanitizeInput(order, 200),
       drinkType: profile.drinkType,
-      payment: calculatePayment(profile.drinkType, profile.budget),
+      items: profile.items,
+      payment,
       personality: profile.personality,
       mood: profile.mood,
       budget: profile.budget,
       allergens: profile.allergens,
+      archetype: profile.archetype.name,
+      ...(remembered ? { remembered } : {}),
     };
 
   } catch (error) {
     console.error("Error generating customer:", error);
 
     // Fallback to profile without LLM
-    let order: string;
-    if (profile.archetype.timeConstraint === "rushed") {
-      order = `${recipe.name}, fast please!`;
-    } else {
-      order = `I'd like a ${recipe.name}, please.`;
+    return createCustomerFromProfile(profile, undefined, menu);
+  }
+}
+
+/**
+ * Ask the game master whether to set off an event
+ * It only ever sees the snapshot and can only answer through spawn_event; both steps are audited
+ */
+export async function consultGameMaster(snapshot: GameSnapshot): Promise<GameMasterDecision> {
+  if (snapshot.gameMasterEventsToday >= GM_MAX_EVENTS_PER_DAY) {
+    return { eventId: null, reason: "Today's event has already been set off" };
+  }
+
+  const provider = getLLMProvider();
+
+  const completion = await auditedLLMCall({
+    source: "game_master",
+    model: provider.model,
+    prompt: `Pace day ${snapshot.day} after ${snapshot.customersServed} customers (queue ${snapshot.queueLength})`,
+    fn: () => provider.chat({
+      messages: [
+        {
+          role: "system",
+          content: `You are the game master of "Small Hours", a cozy café sim.
+You look in on the café during service and decide whether an event would make the day more interesting.
+
+Keep the pacing varied: a quiet café can use a rush or a windfall, a player who is cruising can take a setback, and a hectic day is best left alone.
+Pick events that feel natural after the day so far. Most of the time, no event is the right call.
+
+To set one off, call spawn_event with one of the listed events and your reason.
+Otherwise, reply with one sentence on why the day is fine as it is.`,
+        },
+        {
+          role: "user",
+          content: describeSnapshot(snapshot),
+        },
+      ],
+      tools: TOOLS.filter(tool => tool.function.name === "spawn_event"),
+      maxTokens: 256,
+      temperature: 0.7,
+    }),
+  });
+
+  const functionArgs = getToolCallArgs(completion, "spawn_event");
+  if (!functionArgs) {
+    return { eventId: null, reason: completion.content.trim() || "No event needed" };
+  }
+
+  const request = auditedToolCall({
+    source: "game_master",
+    toolName: "spawn_event",
+    toolArgs: functionArgs,
+    fn: () => executeFunctionCall("spawn_event", functionArgs),
+  }) as SpawnEventRequest;
+
+  return { eventId: request.eventId, reason: request.reason };
+}
+
+/**
+ * Have a customer write the words of their review
+ * The stars are already set by the rating; the model only writes text, through post_review
+ */
+export async function writeCustomerReview(review: CustomerReview): Promise<string> {
+  const provider = getLLMProvider();
+  const stars = review.stars.toFixed(1);
+
+  const completion = await auditedLLMCall({
+    source: "write_review",
+    model: provider.model,
+    prompt: `Review by ${review.customerName}: ${stars} stars`,
+    fn: () => provider.chat({
+      messages: [
+        {
+          role: "system",
+          content: `You are a customer writing a short online review of "Small Hours", a cozy neighborhood café.
+Write 1-2 sentences in your own voice. Your star rating is already decided: make the review match it, and don't mention a number of stars.
+
+Use the post_review function.`,
+        },
+        {
+          role: "user",
+          content: `You are ${sanitizeInput(review.customerName, 50)}${review.personality ? `, ${sanitizeInput(review.personality, 200)}` : ""}
+Mood: ${review.mood || "neutral"}
+You had: ${review.drinks.join(", ") || "a coffee"}
+Stars: ${stars}
+What stood out: ${review.reasons.length > 0 ? review.reasons.join(", ") : "nothing in particular"}
+
+Write your review.`,
+        },
+      ],
+      tools: TOOLS,
+      toolChoice: "post_review",
+      maxTokens: 128,
+      temperature: 0.8,
+    }),
+  });
+
+  const functionArgs = getToolCallArgs(completion, "post_review");
+  if (!functionArgs) {
+    throw new Error("LLM did not call post_review function");
+  }
+
+  const post = auditedToolCall({
+    source: "write_review",
+    toolName: "post_review",
+    toolArgs: functionArgs,
+    fn: () => executeFunctionCall("post_review", functionArgs),
+  }) as ReviewPost;
+
+  return post.text;
+}
+
+/**
+ * Have the LLM sum up a customer's history in a couple of sentences
+ * It only sees the digest (totals, not every visit), so the prompt stays the same size however long they've been coming
+ */
+export async function summarizeCustomerHistory(digest: CustomerDigest): Promise<string> {
+  const provider = getLLMProvider();
+
+  const completion = await auditedLLMCall({
+    source: "summarize_memory",
+    model: provider.model,
+    prompt: `Summarize ${digest.name} after ${digest.visitCount} visits`,
+    fn: () => provider.chat({
+      messages: [
+        {
+          role: "system",
+          content: `You keep the barista's notes on regulars at "Small Hours", a cozy neighborhood café.
+Summarize a customer's history in 1-2 short sentences the barista could glance at: what they order, how they tend to feel about it, and anything personal worth remembering.
+Build on the previous summary if there is one. Reply with the summary only.`,
+        },
+        {
+          role: "user",
+          content: describeDigest({
+            ...digest,
+            name: sanitizeInput(digest.name, 50),
+            notes: digest.notes.map(note => sanitizeInput(note, 120)),
+          }),
+        },
+      ],
+      maxTokens: 128,
+      temperature: 0.5,
+    }),
+  });
+
+  const summary = sanitizeSummary(completion.content);
+  if (!summary) {
+    throw new Error("LLM did not write a summary");
+  }
+
+  return summary;
+}
+
+/**
+ * Have the customer at the counter answer the barista in character
+ * The reply and impression come back as JSON; any change to the order only through parse_order
+ */
+export async function chatWithCustomer(
+  customer: Customer,
+  lines: ConversationLine[],
+  said: string
+): Promise<CustomerChatReply> {
+  const provider = getLLMProvider();
+  const items: OrderItem[] = customer.items ?? [{ type: "drink", sku: customer.drinkType, quantity: 1 }];
+
+  const completion = await auditedLLMCall({
+    source: "conversation",
+    model: provider.model,
+    prompt: `Chat with ${customer.name}: ${sanitizeChatText(said)}`,
+    fn: () => provider.chat({
+      messages: [
+        {
+          role: "system",
+          content: `You are ${sanitizeInput(customer.name, 50)}${customer.personality ? `, ${sanitizeInput(customer.personality, 200)}` : ""}
+Mood: ${customer.mood || "neutral"}
+You're at the counter of "Small Hours", a cozy café, and the barista is chatting with you while they make up your order.
+Your order: ${items.map(describeOrderItem).join(", ")}
+
+Answer in 1-2 sentences and stay in character. Answer questions about your order, and take a suggestion only if it suits you.
+If your order changes (say hot or iced, which milk, or something extra), call parse_order with your whole updated order.
+
+Respond with ONLY a JSON object:
+{
+  "reply": "What you say back",
+  "impression": "warm" if the barista was friendly, "cold" if they were rude or pushy, otherwise "neutral"
+}`,
+        },
+        ...lines.map(line => ({
+          role: line.speaker === "barista" ? "user" as const : "assistant" as const,
+          content: line.speaker === "barista" ? line.text : JSON.stringify({ reply: line.text }),
+        })),
+        {
+          role: "user",
+          content: sanitizeChatText(said),
+        },
+      ],
+      tools: TOOLS.filter(tool => tool.function.name === "parse_order"),
+      maxTokens: 256,
+      temperature: 0.8,
+    }),
+  });
+
+  // Read the reply, falling back to whatever the model said when it isn't JSON
+  let reply = completion.content.trim();
+  let impression: ChatImpression = "neutral";
+  const extracted = extractJsonFromThinkingModel(completion.content);
+  if (extracted) {
+    try {
+      const parsed = JSON.parse(extracted);
+      if (typeof parsed.reply === "string") reply = parsed.reply;
+      if (CHAT_IMPRESSIONS.includes(parsed.impression)) impression = parsed.impression;
+    } catch {
+      // Keep the raw text
     }
+  }
 
-    return {
-      name: profile.name,
-      order,
-      drinkType: profile.drinkType,
-      payment: calculatePayment(profile.drinkType, profile.budget),
-      personality: profile.personality,
-      mood: profile.mood,
-      budget: profile.budget,
-      allergens: profile.allergens,
-    };
+  // A botched parse_order call costs the order change, not the customer's reply
+  const call = completion.toolCalls.find(toolCall => toolCall.name === "parse_order");
+  let order: ParsedOrder | null = null;
+  if (call) {
+    try {
+      order = auditedToolCall({
+        source: "conversation",
+        toolName: "parse_order",
+        toolArgs: call.arguments,
+        fn: () => executeFunctionCall("parse_order", JSON.parse(call.arguments)),
+      }) as ParsedOrder;
+    } catch {
+      // Already logged as an error
+    }
   }
+
+  return {
+    reply: sanitizeChatText(reply) || "Sorry, what was that?",
+    impression,
+    ...(order ? { items: order.items } : {}),
+  };
 }
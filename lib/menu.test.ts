@@ -0,0 +1,134 @@
+/**
+ * Tests for the Menu System
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createDefaultMenu,
+  getMenuPrice,
+  getMenuDrinks,
+  isOnMenu,
+  updateMenuItem,
+  getPurchaseChance,
+} from "./menu";
+import { DRINK_BASE_PRICES, calculatePriceQuote } from "./pricing";
+import {
+  generateCustomerProfile,
+  calculateOrderPayment,
+  getMenuDemandMultiplier,
+} from "./customer-generator";
+import { VALID_DRINKS, type Menu } from "./types";
+
+function onlyDrink(drink: (typeof VALID_DRINKS)[number]): Menu {
+  return VALID_DRINKS.filter(other => other !== drink)
+    .reduce((menu, other) => updateMenuItem(menu, other, { enabled: false }), createDefaultMenu());
+}
+
+function repriceDrinks(factor: number): Menu {
+  return VALID_DRINKS.reduce(
+    (menu, drink) => updateMenuItem(menu, drink, { price: DRINK_BASE_PRICES[drink] * factor }),
+    createDefaultMenu()
+  );
+}
+
+describe("Menu", () => {
+  describe("createDefaultMenu", () => {
+    it("should sell everything at the standard prices", () => {
+      const menu = createDefaultMenu();
+
+      expect(getMenuDrinks(menu)).toEqual(VALID_DRINKS);
+      expect(getMenuPrice(menu, "latte")).toBe(DRINK_BASE_PRICES.latte);
+      expect(isOnMenu(menu, "croissant")).toBe(true);
+    });
+
+    it("should fall back to standard prices without a menu", () => {
+      expect(getMenuPrice(undefined, "mocha")).toBe(DRINK_BASE_PRICES.mocha);
+      expect(isOnMenu(undefined, "bagel")).toBe(true);
+    });
+  });
+
+  describe("updateMenuItem", () => {
+    it("should set prices to whole cents without touching the original", () => {
+      const menu = createDefaultMenu();
+      const updated = updateMenuItem(menu, "latte", { price: 5.255 });
+
+      expect(getMenuPrice(updated, "latte")).toBe(5.26);
+      expect(getMenuPrice(menu, "latte")).toBe(4.5);
+    });
+
+    it("should take items off the menu", () => {
+      const menu = updateMenuItem(createDefaultMenu(), "muffin", { enabled: false });
+
+      expect(isOnMenu(menu, "muffin")).toBe(false);
+      expect(getMenuPrice(menu, "muffin")).toBe(3);
+    });
+
+    it("should reject prices out of range and unknown items", () => {
+      expect(() => updateMenuItem(createDefaultMenu(), "latte", { price: 0 })).toThrow(/Price must be between/);
+      expect(() => updateMenuItem(createDefaultMenu(), "latte", { price: 100 })).toThrow(/Price must be between/);
+      expect(() => updateMenuItem(createDefaultMenu(), "tea" as never, { price: 3 })).toThrow("Unknown menu item: tea");
+    });
+
+    it("should keep at least one drink on the menu", () => {
+      expect(() => updateMenuItem(onlyDrink("espresso"), "espresso", { enabled: false }))
+        .toThrow("The menu needs at least one drink");
+    });
+  });
+
+  describe("getPurchaseChance", () => {
+    it("should fall from certain at budget to never at 50% over", () => {
+      expect(getPurchaseChance(4, 5)).toBe(1);
+      expect(getPurchaseChance(5, 4)).toBe(0.5);
+      expect(getPurchaseChance(6, 4)).toBe(0);
+    });
+  });
+
+  describe("pricing from the menu", () => {
+    it("should quote the menu price plus modifiers", () => {
+      const menu = updateMenuItem(createDefaultMenu(), "latte", { price: 6 });
+      const quote = calculatePriceQuote([
+        { type: "drink", sku: "latte", quantity: 1, modifiers: { milk: "oat" } },
+      ], menu);
+
+      expect(quote.subtotal).toBe(6.75);
+    });
+
+    it("should charge customers what the menu quotes", () => {
+      const menu = updateMenuItem(createDefaultMenu(), "espresso", { price: 2 });
+      const items = [{ type: "drink" as const, sku: "espresso" as const, quantity: 1 }];
+
+      // $2 + tax and nothing more; the tip comes with the rating
+      expect(calculateOrderPayment(items, menu)).toBe(calculatePriceQuote(items, menu).total);
+    });
+  });
+
+  describe("customer demand", () => {
+    it("should only order drinks on the menu", () => {
+      const menu = onlyDrink("americano");
+
+      for (let seed = 1; seed <= 20; seed++) {
+        const profile = generateCustomerProfile(seed, undefined, undefined, menu);
+        expect(profile.items.filter(item => item.type === "drink").every(item => item.sku === "americano")).toBe(true);
+      }
+    });
+
+    it("should skip food that is off the menu", () => {
+      let menu = createDefaultMenu();
+      for (const food of ["croissant", "banana_bread", "bagel", "muffin"] as const) {
+        menu = updateMenuItem(menu, food, { enabled: false });
+      }
+
+      for (let seed = 1; seed <= 30; seed++) {
+        expect(generateCustomerProfile(seed, undefined, undefined, menu).items.some(item => item.type === "food")).toBe(false);
+      }
+    });
+
+    it("should draw fewer customers to a pricier menu and more to a cheaper one", () => {
+      expect(getMenuDemandMultiplier(createDefaultMenu())).toBe(1);
+      expect(getMenuDemandMultiplier(undefined)).toBe(1);
+      expect(getMenuDemandMultiplier(repriceDrinks(1.5))).toBeLessThan(1);
+      expect(getMenuDemandMultiplier(repriceDrinks(0.7))).toBeGreaterThan(1);
+      expect(getMenuDemandMultiplier(repriceDrinks(3))).toBe(0.2);
+    });
+  });
+});
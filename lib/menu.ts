@@ -0,0 +1,146 @@
+/**
+ * Menu System
+ *
+ * The menu is the single source of truth for what the cafe sells and what it
+ * charges. Each drink and food item has a base price (medium, no modifiers);
+ * size, milk and add-on surcharges from pricing.ts apply on top of it.
+ *
+ * During prep the player can take items off the menu and set their prices.
+ * Customers react to prices against their budget:
+ * - They only order what is on the menu, favouring drinks they can afford
+ * - Pastries and drinks for friends get skipped when they feel too pricey
+ * - An expensive menu brings fewer people through the door
+ * - Customers pay what the menu quotes; a good-value visit rates (and tips) better
+ */
+
+import type { DrinkType, FoodType, Menu, MenuItem } from "./types";
+import { VALID_DRINKS, VALID_FOODS } from "./types";
+import { DRINK_BASE_PRICES, FOOD_BASE_PRICES } from "./pricing";
+
+export type { Menu, MenuItem } from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MIN_MENU_PRICE = 0.5;
+export const MAX_MENU_PRICE = 20;
+
+// Nobody buys once the price is this far over their budget (+50%)
+const MAX_BUDGET_OVERRUN = 0.5;
+
+// ============================================================================
+// MENU CREATION
+// ============================================================================
+
+/**
+ * Everything on the menu at the standard prices
+ */
+export function createDefaultMenu(): Menu {
+  return {
+    drinks: Object.fromEntries(
+      VALID_DRINKS.map(drink => [drink, { enabled: true, price: DRINK_BASE_PRICES[drink] }])
+    ) as Record<DrinkType, MenuItem>,
+    food: Object.fromEntries(
+      VALID_FOODS.map(food => [food, { enabled: true, price: FOOD_BASE_PRICES[food] }])
+    ) as Record<FoodType, MenuItem>,
+  };
+}
+
+function isDrink(sku: DrinkType | FoodType): sku is DrinkType {
+  return VALID_DRINKS.includes(sku as DrinkType);
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Base price of an item (standard price when there is no menu, e.g. old saves)
+ */
+export function getMenuPrice(menu: Menu | undefined, sku: DrinkType | FoodType): number {
+  if (isDrink(sku)) {
+    return menu?.drinks[sku]?.price ?? DRINK_BASE_PRICES[sku];
+  }
+  return menu?.food[sku]?.price ?? FOOD_BASE_PRICES[sku];
+}
+
+/**
+ * Whether an item is currently being sold
+ */
+export function isOnMenu(menu: Menu | undefined, sku: DrinkType | FoodType): boolean {
+  const item = isDrink(sku) ? menu?.drinks[sku] : menu?.food[sku as FoodType];
+  return item?.enabled ?? true;
+}
+
+/**
+ * Drinks currently on the menu
+ */
+export function getMenuDrinks(menu: Menu | undefined): DrinkType[] {
+  return VALID_DRINKS.filter(drink => isOnMenu(menu, drink));
+}
+
+/**
+ * Food currently on the menu
+ */
+export function getMenuFoods(menu: Menu | undefined): FoodType[] {
+  return VALID_FOODS.filter(food => isOnMenu(menu, food));
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Enable/disable an item or change its price
+ * Prices are kept to whole cents, and at least one drink must stay on the menu
+ */
+export function updateMenuItem(
+  menu: Menu,
+  sku: DrinkType | FoodType,
+  changes: Partial<MenuItem>
+): Menu {
+  if (!isDrink(sku) && !VALID_FOODS.includes(sku)) {
+    throw new Error(`Unknown menu item: ${sku}`);
+  }
+
+  if (changes.price !== undefined) {
+    if (!Number.isFinite(changes.price) || changes.price < MIN_MENU_PRICE || changes.price > MAX_MENU_PRICE) {
+      throw new Error(`Price must be between $${MIN_MENU_PRICE.toFixed(2)} and $${MAX_MENU_PRICE.toFixed(2)}`);
+    }
+  }
+
+  const section = isDrink(sku) ? "drinks" : "food";
+  const current = isDrink(sku) ? menu.drinks[sku] : menu.food[sku as FoodType];
+  const updated: MenuItem = {
+    enabled: changes.enabled ?? current.enabled,
+    price: changes.price !== undefined ? Math.round(changes.price * 100) / 100 : current.price,
+  };
+
+  const newMenu: Menu = {
+    ...menu,
+    [section]: { ...menu[section], [sku]: updated },
+  };
+
+  if (getMenuDrinks(newMenu).length === 0) {
+    throw new Error("The menu needs at least one drink");
+  }
+
+  return newMenu;
+}
+
+// ============================================================================
+// DEMAND
+// ============================================================================
+
+/**
+ * Chance a customer buys an item at a price, given what they'd happily pay
+ * Certain at or under budget, falling to zero at 50% over it
+ */
+export function getPurchaseChance(price: number, budget: number): number {
+  if (price <= budget) return 1;
+  if (budget <= 0) return 0;
+
+  const overrun = (price - budget) / budget;
+  return Math.max(0, 1 - overrun / MAX_BUDGET_OVERRUN);
+}
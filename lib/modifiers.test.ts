@@ -0,0 +1,142 @@
+/**
+ * Tests for Drink Modifiers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  checkModifiers,
+  getModifierPenalty,
+  getIcedRecipe,
+  getSizeMultiplier,
+  supportsModifier,
+  MODIFIER_PENALTIES,
+  ICED_MILK_TEMP,
+} from "./modifiers";
+import { brewDrink } from "./game-engine";
+import { RECIPES } from "./recipes";
+import type { BrewParameters } from "./types";
+
+const PERFECT_LATTE: BrewParameters = {
+  grindSize: "fine",
+  temperature: 93,
+  brewTime: 25,
+  milkType: "whole",
+  milkTemp: 66,
+  foamAmount: 20,
+};
+
+describe("Drink Modifiers", () => {
+  describe("getSizeMultiplier", () => {
+    it("should default to medium", () => {
+      expect(getSizeMultiplier()).toBe(1);
+      expect(getSizeMultiplier("large")).toBeGreaterThan(1);
+      expect(getSizeMultiplier("small")).toBeLessThan(1);
+    });
+  });
+
+  describe("supportsModifier", () => {
+    it("should not allow espresso modifiers on matcha", () => {
+      expect(supportsModifier("matcha", "extraShot")).toBe(false);
+      expect(supportsModifier("matcha", "decaf")).toBe(false);
+      expect(supportsModifier("matcha", "syrup")).toBe(true);
+      expect(supportsModifier("latte", "extraShot")).toBe(true);
+    });
+  });
+
+  describe("getIcedRecipe", () => {
+    it("should target cold milk and thinner foam", () => {
+      const iced = getIcedRecipe(RECIPES.latte);
+
+      expect(iced.name).toBe("Iced Latte");
+      expect(iced.idealMilkTemp).toBe(ICED_MILK_TEMP);
+      expect(iced.idealFoamAmount).toBeLessThan(RECIPES.latte.idealFoamAmount!);
+      expect(iced.idealTemp).toBe(RECIPES.latte.idealTemp);
+    });
+
+    it("should leave drinks without milk unchanged", () => {
+      expect(getIcedRecipe(RECIPES.americano)).toBe(RECIPES.americano);
+    });
+  });
+
+  describe("checkModifiers", () => {
+    it("should add no checks for a plain order made plainly", () => {
+      expect(checkModifiers({}, PERFECT_LATTE)).toEqual([]);
+    });
+
+    it("should pass when every modifier matches", () => {
+      const checks = checkModifiers(
+        { size: "large", temp: "iced", extraShot: true, syrup: "vanilla", milk: "oat" },
+        { ...PERFECT_LATTE, size: "large", iced: true, extraShot: true, syrup: "vanilla", milkType: "oat" }
+      );
+
+      expect(checks).toHaveLength(5);
+      expect(checks.every(check => check.correct)).toBe(true);
+      expect(getModifierPenalty(checks)).toBe(0);
+    });
+
+    it("should flag missed modifiers with feedback", () => {
+      const checks = checkModifiers({ size: "large", syrup: "caramel" }, PERFECT_LATTE);
+
+      expect(checks.map(check => check.feedback)).toEqual([
+        "Ordered large, made medium",
+        "Forgot the caramel syrup",
+      ]);
+      expect(getModifierPenalty(checks)).toBe(MODIFIER_PENALTIES.size + MODIFIER_PENALTIES.syrup);
+    });
+
+    it("should flag modifiers nobody asked for", () => {
+      const checks = checkModifiers({}, { ...PERFECT_LATTE, decaf: true, whippedCream: true });
+
+      expect(checks.map(check => check.feedback)).toEqual([
+        "Used decaf beans on a regular order",
+        "Added whipped cream nobody asked for",
+      ]);
+    });
+
+    it("should only check milk when the customer named one", () => {
+      expect(checkModifiers({ milk: "oat" }, PERFECT_LATTE)[0].feedback).toBe(
+        "Ordered oat milk, used whole"
+      );
+      expect(checkModifiers({ milk: "oat" }, { grindSize: "fine", temperature: 93, brewTime: 25 })).toEqual([]);
+    });
+  });
+
+  describe("brewDrink with modifiers", () => {
+    it("should score the same as before when no order is given", () => {
+      const result = brewDrink("latte", { ...PERFECT_LATTE, syrup: "vanilla" });
+
+      expect(result.quality).toBe(100);
+      expect(result.modifierIssues).toEqual([]);
+    });
+
+    it("should lower quality and explain missed modifiers", () => {
+      const result = brewDrink("latte", PERFECT_LATTE, { modifiers: { temp: "iced" } });
+
+      expect(result.quality).toBe(100 - MODIFIER_PENALTIES.temp);
+      expect(result.breakdown["Iced"]).toBe(0);
+      expect(result.modifierIssues).toEqual(["Ordered iced, served hot"]);
+      expect(result.feedback).toContain("Ordered iced, served hot");
+    });
+
+    it("should score iced drinks against cold milk", () => {
+      const iced = getIcedRecipe(RECIPES.latte);
+      const params: BrewParameters = {
+        ...PERFECT_LATTE,
+        iced: true,
+        milkTemp: ICED_MILK_TEMP,
+        foamAmount: iced.idealFoamAmount,
+      };
+
+      const result = brewDrink("latte", params, { modifiers: { temp: "iced" } });
+
+      expect(result.quality).toBe(100);
+      expect(result.breakdown["Iced"]).toBe(100);
+    });
+
+    it("should reject steamed milk temperatures on iced drinks", () => {
+      expect(() => brewDrink("latte", { ...PERFECT_LATTE, iced: true })).toThrow(
+        /Milk temperature.*out of range/
+      );
+    });
+  });
+});
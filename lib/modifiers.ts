@@ -0,0 +1,207 @@
+/**
+ * Drink Modifiers
+ *
+ * Connects what was ordered (size, iced, extra shot, syrup, decaf, whipped cream)
+ * to the craft simulation: stock usage, iced recipe targets and modifier scoring.
+ */
+
+import type { BrewParameters, DrinkRecipe, DrinkType } from "./types";
+import type { OrderModifiers, OrderSize } from "./pricing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ModifierKey = keyof OrderModifiers;
+
+export interface ModifierCheck {
+  modifier: ModifierKey;
+  label: string;
+  correct: boolean;
+  penalty: number;
+  feedback?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const VALID_SIZES: OrderSize[] = ["small", "medium", "large"];
+export const VALID_SYRUPS = ["vanilla", "caramel", "hazelnut"];
+
+// Milk and syrup volumes scale with cup size (beans scale with shots instead)
+export const SIZE_VOLUME_MULTIPLIERS: Record<OrderSize, number> = {
+  small: 0.75,
+  medium: 1.0,
+  large: 1.5,
+};
+
+export const SYRUP_PER_DRINK = 15; // ml for a medium drink
+
+// Iced drinks take cold milk poured over ice instead of steamed milk
+export const ICED_MILK_RANGE = {
+  TEMP_MIN: 1,
+  TEMP_MAX: 10,
+} as const;
+
+export const ICED_MILK_TEMP = 4; // °C
+const ICED_MILK_TOLERANCE = 3;
+const ICED_FOAM_RATIO = 0.5; // Cold foam sits thinner than steamed foam
+
+// Quality points lost for getting each modifier wrong
+export const MODIFIER_PENALTIES: Record<ModifierKey, number> = {
+  size: 10,
+  temp: 20,
+  milk: 15,
+  extraShot: 10,
+  decaf: 20,
+  syrup: 10,
+  whippedCream: 5,
+};
+
+// Drinks that can't take a modifier (matcha has no espresso to decaf or double)
+const ESPRESSO_FREE_DRINKS: DrinkType[] = ["matcha"];
+
+// ============================================================================
+// MODIFIER HELPERS
+// ============================================================================
+
+/**
+ * Volume multiplier for a cup size (medium when unspecified)
+ */
+export function getSizeMultiplier(size?: OrderSize): number {
+  return SIZE_VOLUME_MULTIPLIERS[size ?? "medium"];
+}
+
+/**
+ * Whether a drink can take the given modifier at all
+ */
+export function supportsModifier(drinkType: DrinkType, modifier: ModifierKey): boolean {
+  if (modifier === "extraShot" || modifier === "decaf") {
+    return !ESPRESSO_FREE_DRINKS.includes(drinkType);
+  }
+  return true;
+}
+
+/**
+ * Get the recipe targets for an iced version of a drink
+ * Brew water stays the same; the milk is served cold with thinner foam
+ */
+export function getIcedRecipe(recipe: DrinkRecipe): DrinkRecipe {
+  if (recipe.idealMilkTemp === undefined) return recipe;
+
+  return {
+    ...recipe,
+    name: `Iced ${recipe.name}`,
+    idealMilkTemp: ICED_MILK_TEMP,
+    idealFoamAmount: recipe.idealFoamAmount !== undefined
+      ? Math.max(5, Math.round(recipe.idealFoamAmount * ICED_FOAM_RATIO))
+      : undefined,
+    tolerances: {
+      ...recipe.tolerances,
+      milkTemp: ICED_MILK_TOLERANCE,
+    },
+  };
+}
+
+/**
+ * Compare what was ordered against what was made
+ * Only modifiers that were ordered or applied are checked, so plain orders add nothing
+ */
+export function checkModifiers(
+  ordered: OrderModifiers,
+  params: BrewParameters
+): ModifierCheck[] {
+  const checks: ModifierCheck[] = [];
+
+  const check = (modifier: ModifierKey, label: string, feedback: string | null) => {
+    checks.push({
+      modifier,
+      label,
+      correct: feedback === null,
+      penalty: feedback === null ? 0 : MODIFIER_PENALTIES[modifier],
+      feedback: feedback ?? undefined,
+    });
+  };
+
+  // Size
+  const orderedSize = ordered.size ?? "medium";
+  const madeSize = params.size ?? "medium";
+  if (orderedSize !== "medium" || madeSize !== "medium") {
+    check("size", "Size", orderedSize === madeSize ? null : `Ordered ${orderedSize}, made ${madeSize}`);
+  }
+
+  // Iced / hot
+  const wantsIced = ordered.temp === "iced";
+  if (wantsIced || params.iced) {
+    check(
+      "temp",
+      "Iced",
+      wantsIced === !!params.iced ? null : wantsIced ? "Ordered iced, served hot" : "Ordered hot, served iced"
+    );
+  }
+
+  // Milk (only when the customer named one and the drink uses milk)
+  if (ordered.milk && params.milkType) {
+    check(
+      "milk",
+      "Milk Choice",
+      ordered.milk === params.milkType ? null : `Ordered ${ordered.milk} milk, used ${params.milkType}`
+    );
+  }
+
+  // Extra shot
+  if (ordered.extraShot || params.extraShot) {
+    check(
+      "extraShot",
+      "Extra Shot",
+      !!ordered.extraShot === !!params.extraShot
+        ? null
+        : ordered.extraShot ? "Missing the extra shot" : "Added an extra shot nobody asked for"
+    );
+  }
+
+  // Decaf
+  if (ordered.decaf || params.decaf) {
+    check(
+      "decaf",
+      "Decaf",
+      !!ordered.decaf === !!params.decaf
+        ? null
+        : ordered.decaf ? "Ordered decaf, used regular beans" : "Used decaf beans on a regular order"
+    );
+  }
+
+  // Syrup
+  if (ordered.syrup || params.syrup) {
+    let feedback: string | null = null;
+    if (ordered.syrup && !params.syrup) {
+      feedback = `Forgot the ${ordered.syrup} syrup`;
+    } else if (!ordered.syrup && params.syrup) {
+      feedback = `Added ${params.syrup} syrup nobody asked for`;
+    } else if (ordered.syrup !== params.syrup) {
+      feedback = `Used ${params.syrup} syrup instead of ${ordered.syrup}`;
+    }
+    check("syrup", "Syrup", feedback);
+  }
+
+  // Whipped cream
+  if (ordered.whippedCream || params.whippedCream) {
+    check(
+      "whippedCream",
+      "Whipped Cream",
+      !!ordered.whippedCream === !!params.whippedCream
+        ? null
+        : ordered.whippedCream ? "Forgot the whipped cream" : "Added whipped cream nobody asked for"
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Total quality penalty for missed modifiers
+ */
+export function getModifierPenalty(checks: ModifierCheck[]): number {
+  return checks.reduce((sum, check) => sum + check.penalty, 0);
+}
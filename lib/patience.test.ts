@@ -0,0 +1,30 @@
+/**
+ * Tests for Customer Patience
+ */
+
+import { describe, it, expect } from "vitest";
+import { getPatienceSeconds, getPatienceLeft, hasRunOutOfPatience } from "./patience";
+import { buildTicket } from "./function-calling";
+import { SeededRandom, ManualClock } from "./random";
+import { START } from "./test-helpers";
+
+describe("Customer Patience", () => {
+  const customer = { name: "Sam", order: "Latte please", drinkType: "latte" as const, payment: 4.5 };
+
+  it("should give hurried, stressed customers the least patience", () => {
+    const rushed = getPatienceSeconds({ ...customer, mood: "stressed", archetype: "The Morning Rusher" });
+    const relaxed = getPatienceSeconds({ ...customer, mood: "happy", archetype: "The Remote Worker" });
+
+    expect(getPatienceSeconds(customer)).toBe(360);
+    expect(rushed).toBeLessThan(getPatienceSeconds(customer));
+    expect(relaxed).toBeGreaterThan(getPatienceSeconds(customer));
+  });
+
+  it("should run down from when the ticket was taken", () => {
+    const ticket = buildTicket("Sam", [{ type: "drink", sku: "latte", quantity: 1 }], {}, new SeededRandom(1), new ManualClock(START));
+
+    expect(getPatienceLeft(customer, ticket, START + 60000)).toBe(300);
+    expect(hasRunOutOfPatience(customer, ticket, START + 359000)).toBe(false);
+    expect(hasRunOutOfPatience(customer, ticket, START + 360000)).toBe(true);
+  });
+});
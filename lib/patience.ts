@@ -0,0 +1,61 @@
+/**
+ * Customer Patience
+ *
+ * Every customer waiting on an order has a patience budget: the wait they'd
+ * sit through happily for their mood (see PATIENCE_SECONDS), stretched or
+ * shortened by how much of a hurry their archetype is in, and doubled for the
+ * point where they give up altogether. It runs down from the moment their
+ * ticket is taken, by whatever clock the session runs on.
+ *
+ * Once it runs out they walk out: the ticket is cancelled, they leave a
+ * one-star rating, and the day's stats and their profile remember it.
+ */
+
+import type { Customer, OrderTicket } from "./types";
+import { PATIENCE_SECONDS } from "./reputation";
+import { getArchetype, type CustomerArchetype } from "./customer-generator";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// How long each kind of customer will wait, relative to their mood's patience
+const TIME_CONSTRAINT_FACTORS: Record<CustomerArchetype["timeConstraint"], number> = {
+  rushed: 0.75,
+  normal: 1,
+  relaxed: 1.5,
+};
+
+const WALK_OUT_FACTOR = 2; // Customers put up with twice their comfortable wait before leaving
+
+export const WALK_OUT_STARS = 1;
+export const WALK_OUT_REASON = "Gave up waiting";
+
+// ============================================================================
+// PATIENCE
+// ============================================================================
+
+/**
+ * Seconds a customer will wait for their order before walking out
+ */
+export function getPatienceSeconds(customer: Customer): number {
+  const timeConstraint = getArchetype(customer.archetype)?.timeConstraint ?? "normal";
+  return Math.round(
+    PATIENCE_SECONDS[customer.mood || "neutral"] * TIME_CONSTRAINT_FACTORS[timeConstraint] * WALK_OUT_FACTOR
+  );
+}
+
+/**
+ * Seconds of patience a customer has left (0 once they've had enough)
+ */
+export function getPatienceLeft(customer: Customer, ticket: OrderTicket, now: number): number {
+  const waited = (now - ticket.createdAt) / 1000;
+  return Math.max(0, Math.round(getPatienceSeconds(customer) - waited));
+}
+
+/**
+ * Whether a customer has run out of patience
+ */
+export function hasRunOutOfPatience(customer: Customer, ticket: OrderTicket, now: number): boolean {
+  return getPatienceLeft(customer, ticket, now) === 0;
+}
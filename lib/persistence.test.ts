@@ -81,6 +81,50 @@ describe("Persistence System", () => {
       expect(loaded!.customerMemory?.returningCustomerRate).toBe(50);
     });
 
+    it("should keep customers queued for staff and check they are customers", () => {
+      const state = createInitialState();
+      const robin = { name: "Robin", order: "Latte please", drinkType: "latte" as const, payment: 4.5 };
+      state.waitingCustomers = { ticket_1: robin };
+
+      saveGame(state);
+      expect(loadGame()!.waitingCustomers).toEqual({ ticket_1: robin });
+
+      const serialized = serializeGameState(state);
+      const broken = [["Robin"], { ticket_1: { name: "Robin" } }, { ticket_1: { ...robin, drinkType: "tea" } }];
+      for (const waitingCustomers of broken) {
+        expect(() => deserializeGameState({ ...serialized, waitingCustomers } as never)).toThrow("Invalid save format");
+      }
+    });
+
+    it("should move banana bread to its current key in saves from before the rename", () => {
+      const state = createInitialState();
+      const { banana_bread: count, ...food } = state.inventory.food;
+      const batch = { amount: 2, receivedDate: "2025-01-01T08:00:00.000Z", expiryDate: "2025-01-04T08:00:00.000Z" };
+      const oldSave = {
+        version: 1,
+        timestamp: Date.now(),
+        state: {
+          ...serializeGameState(state),
+          inventory: {
+            ...state.inventory,
+            food: { ...food, "banana bread": count },
+            foodBatches: { "banana bread": [batch] },
+          },
+          menu: { ...state.menu!, food: { ...state.menu!.food, "banana bread": state.menu!.food.banana_bread } },
+        },
+      };
+      localStorage.setItem("small-hours-save", JSON.stringify(oldSave));
+
+      const loaded = loadGame()!;
+      expect(loaded.inventory.food).toEqual(state.inventory.food);
+      expect(loaded.inventory.foodBatches).toEqual({ banana_bread: [batch] });
+      expect(loaded.menu).toEqual(state.menu);
+
+      // Stock already under the new key is kept alongside it
+      const mixed = { ...oldSave.state, inventory: { ...oldSave.state.inventory, food: { ...state.inventory.food, "banana bread": 3 } } };
+      expect(deserializeGameState(mixed).inventory.food.banana_bread).toBe(count + 3);
+    });
+
     it("should handle corrupted save data", () => {
       localStorage.setItem("small-hours-save", "invalid json");
       const loaded = loadGame();
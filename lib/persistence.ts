@@ -5,7 +5,30 @@
  * Includes serialization/deserialization for Map objects and version management.
  */
 
-import type { GameState, CustomerMemoryState, CustomerProfile, DrinkType, MilkType } from "./types";
+import type {
+  GameState,
+  CustomerMemoryState,
+  CustomerProfile,
+  DrinkType,
+  MilkType,
+  SessionInfo,
+  SessionCheckpoint,
+  RatingSummary,
+  Menu,
+  PurchaseOrder,
+  StaffMember,
+  BaristaProficiency,
+  StationState,
+  ScheduledEvent,
+  StoryFlags,
+  ActiveModifier,
+  CustomerReviews,
+  Conversation,
+  Customer,
+  FoodType,
+  Inventory,
+} from "./types";
+import { VALID_DRINKS } from "./types";
 
 // ============================================================================
 // CONSTANTS
@@ -14,6 +37,11 @@ import type { GameState, CustomerMemoryState, CustomerProfile, DrinkType, MilkTy
 const STORAGE_KEY = "small-hours-save";
 const VERSION = 1;
 
+// Food keys older saves used, and the keys they go by now
+const RENAMED_FOODS: Record<string, FoodType> = {
+  "banana bread": "banana_bread",
+};
+
 // ============================================================================
 // SERIALIZATION - Convert Maps to plain objects for JSON
 // ============================================================================
@@ -34,6 +62,9 @@ interface SerializedCustomerProfile {
   totalSpent: number;
   averageSatisfaction: number;
   notes: string[];
+  walkOuts?: number;
+  condensed?: CustomerProfile["condensed"];
+  summary?: CustomerProfile["summary"];
 }
 
 interface SerializedMemoryState {
@@ -42,7 +73,15 @@ interface SerializedMemoryState {
   returningCustomerRate: number;
 }
 
-interface SerializedGameState {
+interface SerializedSessionInfo extends Omit<SessionInfo, "checkpoint"> {
+  checkpoint?: SerializedCheckpoint;
+}
+
+export interface SerializedCheckpoint extends Omit<SessionCheckpoint, "state"> {
+  state: SerializedGameState;
+}
+
+export interface SerializedGameState {
   customer: any;
   brewParams: any;
   result: any;
@@ -56,7 +95,21 @@ interface SerializedGameState {
   activeEvent?: any;
   eventsHistory?: any;
   reputation?: number;
+  ratings?: RatingSummary;
+  menu?: Menu;
+  purchaseOrders?: PurchaseOrder[];
+  staff?: StaffMember[];
+  proficiency?: BaristaProficiency;
+  waitingCustomers?: Record<string, Customer>;
+  stations?: StationState;
+  nextArrivalAt?: number | null;
   eventStats?: any;
+  scheduledEvents?: ScheduledEvent[];
+  storyFlags?: StoryFlags;
+  activeModifiers?: ActiveModifier[];
+  reviews?: CustomerReviews;
+  conversation?: Conversation;
+  session?: SerializedSessionInfo;
 }
 
 interface SaveData {
@@ -86,6 +139,15 @@ function serializeMemoryState(memory: CustomerMemoryState): SerializedMemoryStat
   };
 }
 
+export function serializeCheckpoint(checkpoint: SessionCheckpoint): SerializedCheckpoint {
+  return { ...checkpoint, state: serializeGameState(checkpoint.state) };
+}
+
+function serializeSession(session: SessionInfo): SerializedSessionInfo {
+  const { checkpoint, ...rest } = session;
+  return checkpoint ? { ...rest, checkpoint: serializeCheckpoint(checkpoint) } : rest;
+}
+
 export function serializeGameState(state: GameState): SerializedGameState {
   return {
     customer: state.customer,
@@ -103,7 +165,21 @@ export function serializeGameState(state: GameState): SerializedGameState {
     activeEvent: state.activeEvent,
     eventsHistory: state.eventsHistory,
     reputation: state.reputation,
+    ratings: state.ratings,
+    menu: state.menu,
+    purchaseOrders: state.purchaseOrders,
+    staff: state.staff,
+    proficiency: state.proficiency,
+    waitingCustomers: state.waitingCustomers,
+    stations: state.stations,
+    nextArrivalAt: state.nextArrivalAt,
     eventStats: state.eventStats,
+    scheduledEvents: state.scheduledEvents,
+    storyFlags: state.storyFlags,
+    activeModifiers: state.activeModifiers,
+    reviews: state.reviews,
+    conversation: state.conversation,
+    session: state.session ? serializeSession(state.session) : undefined,
   };
 }
 
@@ -138,6 +214,74 @@ function deserializeMemoryState(
   };
 }
 
+/**
+ * Customers queued for staff, by ticket id; a save that doesn't hold proper customers is rejected
+ */
+function deserializeWaitingCustomers(serialized: unknown): Record<string, Customer> | undefined {
+  if (serialized === undefined) return undefined;
+  if (typeof serialized !== "object" || serialized === null || Array.isArray(serialized)) {
+    throw new Error("Invalid save format: waiting customers should be kept by ticket id");
+  }
+
+  for (const [ticketId, customer] of Object.entries(serialized)) {
+    if (!isCustomer(customer)) {
+      throw new Error(`Invalid save format: waiting customer on ticket ${ticketId}`);
+    }
+  }
+  return serialized as Record<string, Customer>;
+}
+
+function isCustomer(value: unknown): value is Customer {
+  if (typeof value !== "object" || value === null) return false;
+  const customer = value as Record<string, unknown>;
+
+  return (
+    typeof customer.name === "string" &&
+    typeof customer.order === "string" &&
+    VALID_DRINKS.includes(customer.drinkType as Customer["drinkType"]) &&
+    typeof customer.payment === "number" &&
+    Number.isFinite(customer.payment) &&
+    (customer.items === undefined || Array.isArray(customer.items))
+  );
+}
+
+/**
+ * Move anything filed under an old food key to its current one, merging with what's already there
+ */
+function renameFoodKeys<T>(record: Record<string, T>, merge: (current: T, old: T) => T): Record<string, T> {
+  const renamed = { ...record };
+  for (const [oldKey, sku] of Object.entries(RENAMED_FOODS)) {
+    if (!(oldKey in renamed)) continue;
+    const old = renamed[oldKey];
+    delete renamed[oldKey];
+    renamed[sku] = sku in renamed ? merge(renamed[sku], old) : old;
+  }
+  return renamed;
+}
+
+function migrateInventory(inventory: Inventory): Inventory {
+  return {
+    ...inventory,
+    food: renameFoodKeys(inventory.food, (current, old) => current + old),
+    foodBatches: inventory.foodBatches && renameFoodKeys(inventory.foodBatches, (current, old) =>
+      [...old, ...current].sort((a, b) => a.receivedDate.localeCompare(b.receivedDate))
+    ),
+  };
+}
+
+function migrateMenu(menu: Menu | undefined): Menu | undefined {
+  return menu && { ...menu, food: renameFoodKeys(menu.food, current => current) as Menu["food"] };
+}
+
+export function deserializeCheckpoint(serialized: SerializedCheckpoint): SessionCheckpoint {
+  return { ...serialized, state: deserializeGameState(serialized.state) };
+}
+
+function deserializeSession(serialized: SerializedSessionInfo): SessionInfo {
+  const { checkpoint, ...rest } = serialized;
+  return checkpoint ? { ...rest, checkpoint: deserializeCheckpoint(checkpoint) } : rest;
+}
+
 export function deserializeGameState(serialized: SerializedGameState): GameState {
   return {
     customer: serialized.customer,
@@ -145,7 +289,7 @@ export function deserializeGameState(serialized: SerializedGameState): GameState
     result: serialized.result,
     money: serialized.money,
     drinksServed: serialized.drinksServed,
-    inventory: serialized.inventory,
+    inventory: migrateInventory(serialized.inventory),
     queue: serialized.queue,
     customerMemory: serialized.customerMemory
       ? deserializeMemoryState(serialized.customerMemory)
@@ -155,7 +299,21 @@ export function deserializeGameState(serialized: SerializedGameState): GameState
     activeEvent: serialized.activeEvent,
     eventsHistory: serialized.eventsHistory,
     reputation: serialized.reputation,
+    ratings: serialized.ratings,
+    menu: migrateMenu(serialized.menu),
+    purchaseOrders: serialized.purchaseOrders,
+    staff: serialized.staff,
+    proficiency: serialized.proficiency,
+    waitingCustomers: deserializeWaitingCustomers(serialized.waitingCustomers),
+    stations: serialized.stations,
+    nextArrivalAt: serialized.nextArrivalAt,
     eventStats: serialized.eventStats,
+    scheduledEvents: serialized.scheduledEvents,
+    storyFlags: serialized.storyFlags,
+    activeModifiers: serialized.activeModifiers,
+    reviews: serialized.reviews,
+    conversation: serialized.conversation,
+    session: serialized.session ? deserializeSession(serialized.session) : undefined,
   };
 }
 
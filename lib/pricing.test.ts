@@ -9,6 +9,7 @@ import {
   calculatePriceQuote,
   describeOrderItem,
   formatPriceQuote,
+  getItemMargin,
   DRINK_BASE_PRICES,
   FOOD_BASE_PRICES,
   SIZE_MULTIPLIERS,
@@ -302,4 +303,30 @@ describe("Pricing System", () => {
       expect(formatted).toContain("Total");
     });
   });
+
+  describe("getItemMargin", () => {
+    it("should subtract ingredient cost from the menu price", () => {
+      const margin = getItemMargin({ type: "drink", sku: "latte", quantity: 1 });
+
+      expect(margin.price).toBe(4.5);
+      expect(margin.cost).toBe(0.65);
+      expect(margin.margin).toBe(3.85);
+      expect(margin.marginPercent).toBe(86);
+    });
+
+    it("should cost the ordered modifiers", () => {
+      const plain = getItemMargin({ type: "drink", sku: "latte", quantity: 1 });
+      const oat = getItemMargin({ type: "drink", sku: "latte", quantity: 1, modifiers: { milk: "oat" } });
+
+      expect(oat.cost).toBeGreaterThan(plain.cost);
+      expect(oat.price).toBeGreaterThan(plain.price);
+    });
+
+    it("should cost food items", () => {
+      const margin = getItemMargin({ type: "food", sku: "bagel", quantity: 1 });
+
+      expect(margin.cost).toBe(0.9);
+      expect(margin.margin).toBeCloseTo(margin.price - 0.9);
+    });
+  });
 });
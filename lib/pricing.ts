@@ -4,7 +4,8 @@
  * Handles price quotes, modifiers, sizes, and add-ons for Phase 1.
  */
 
-import type { DrinkType, FoodType, MilkType } from "./types";
+import type { DrinkType, FoodType, Menu, MilkType } from "./types";
+import { getStockCost, getFoodCost, MILK_PER_DRINK } from "./inventory";
 
 // ============================================================================
 // TYPES
@@ -47,6 +48,13 @@ export interface PriceBreakdown {
   description: string;
 }
 
+export interface ItemMargin {
+  price: number; // Menu price before tax
+  cost: number; // Ingredient cost
+  margin: number;
+  marginPercent: number; // Share of the price kept after ingredients
+}
+
 export interface PriceQuote {
   total: number;
   subtotal: number;
@@ -58,6 +66,8 @@ export interface PriceQuote {
 // BASE PRICING
 // ============================================================================
 
+// Standard prices; the player's menu (see menu.ts) starts from these
+
 export const DRINK_BASE_PRICES: Record<DrinkType, number> = {
   espresso: 3.0,
   latte: 4.5,
@@ -110,12 +120,14 @@ export const TAX_RATE = 0.08; // 8% tax
 
 /**
  * Calculate price for a drink with modifiers
+ * Uses the menu's price when given, otherwise the standard price
  */
 export function calculateDrinkPrice(
   drinkType: DrinkType,
-  modifiers?: OrderModifiers
+  modifiers?: OrderModifiers,
+  menu?: Menu
 ): { basePrice: number; modifierPrice: number; totalPrice: number } {
-  const basePrice = DRINK_BASE_PRICES[drinkType];
+  const basePrice = menu?.drinks[drinkType]?.price ?? DRINK_BASE_PRICES[drinkType];
   let modifierPrice = 0;
 
   if (modifiers) {
@@ -147,9 +159,10 @@ export function calculateDrinkPrice(
  */
 export function calculateFoodPrice(
   foodType: FoodType,
-  warm?: boolean
+  warm?: boolean,
+  menu?: Menu
 ): { basePrice: number; modifierPrice: number; totalPrice: number } {
-  const basePrice = FOOD_BASE_PRICES[foodType];
+  const basePrice = menu?.food[foodType]?.price ?? FOOD_BASE_PRICES[foodType];
   const modifierPrice = 0; // warming is free
 
   return {
@@ -215,9 +228,10 @@ export function describeOrderItem(item: OrderItem): string {
 }
 
 /**
- * Calculate price quote for an order
+ * Calculate price quote for an order (at the menu's prices when given)
+ * A price factor scales every line, for events that mark prices up or down
  */
-export function calculatePriceQuote(items: OrderItem[]): PriceQuote {
+export function calculatePriceQuote(items: OrderItem[], menu?: Menu, priceFactor = 1): PriceQuote {
   const breakdown: PriceBreakdown[] = [];
   let subtotal = 0;
 
@@ -226,20 +240,21 @@ export function calculatePriceQuote(items: OrderItem[]): PriceQuote {
     let description: string;
 
     if (item.type === "drink") {
-      itemPrice = calculateDrinkPrice(item.sku, item.modifiers);
+      itemPrice = calculateDrinkPrice(item.sku, item.modifiers, menu);
       description = describeOrderItem(item);
     } else {
-      itemPrice = calculateFoodPrice(item.sku, item.warm);
+      itemPrice = calculateFoodPrice(item.sku, item.warm, menu);
       description = describeOrderItem(item);
     }
 
-    const lineTotal = itemPrice.totalPrice * item.quantity;
+    const scale = (price: number) => (priceFactor === 1 ? price : Math.round(price * priceFactor * 100) / 100);
+    const lineTotal = scale(itemPrice.totalPrice) * item.quantity;
     subtotal += lineTotal;
 
     breakdown.push({
       sku: item.sku,
-      basePrice: itemPrice.basePrice,
-      modifierPrice: itemPrice.modifierPrice,
+      basePrice: scale(itemPrice.basePrice),
+      modifierPrice: scale(itemPrice.modifierPrice),
       totalPrice: lineTotal,
       description,
     });
@@ -274,3 +289,41 @@ export function formatPriceQuote(quote: PriceQuote): string {
 
   return lines.join("\n");
 }
+
+// ============================================================================
+// MARGINS
+// ============================================================================
+
+/**
+ * Margin on one unit of an order item (pre-tax price vs ingredient cost)
+ * Milk drinks are costed with whole milk unless another milk is ordered
+ */
+export function getItemMargin(item: OrderItem, menu?: Menu): ItemMargin {
+  let price: number;
+  let cost: number;
+
+  if (item.type === "drink") {
+    const modifiers = item.modifiers || {};
+    price = calculateDrinkPrice(item.sku, item.modifiers, menu).totalPrice;
+    cost = getStockCost(item.sku, {
+      milkType: modifiers.milk || (MILK_PER_DRINK[item.sku] > 0 ? "whole" : undefined),
+      size: modifiers.size,
+      extraShot: modifiers.extraShot,
+      decaf: modifiers.decaf,
+      syrup: modifiers.syrup,
+      whippedCream: modifiers.whippedCream,
+    });
+  } else {
+    price = calculateFoodPrice(item.sku, item.warm, menu).totalPrice;
+    cost = getFoodCost(item.sku);
+  }
+
+  const margin = Number((price - cost).toFixed(2));
+
+  return {
+    price: Number(price.toFixed(2)),
+    cost,
+    margin,
+    marginPercent: price > 0 ? Math.round((margin / price) * 100) : 0,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for Barista Proficiency
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createProficiency,
+  recordBrew,
+  trainBarista,
+  getProficiencyLevel,
+  applyProficiencyToRecipe,
+  getParameterHints,
+  TRAINING_COURSES,
+} from "./proficiency";
+import { brewDrink, getDefaultParameters } from "./game-engine";
+import { RECIPES } from "./recipes";
+
+describe("Barista Proficiency", () => {
+  describe("recordBrew", () => {
+    it("should learn more from good drinks than poor ones", () => {
+      let proficiency = recordBrew(undefined, "latte", 90);
+      proficiency = recordBrew(proficiency, "cappuccino", 60);
+      proficiency = recordBrew(proficiency, "pourover", 20);
+
+      expect(proficiency.xp).toEqual({ "espresso-based": 3, "pour-over": 0, immersion: 0 });
+      expect(proficiency.brewedByType).toEqual({ latte: 1, cappuccino: 1, pourover: 1 });
+    });
+  });
+
+  describe("trainBarista", () => {
+    it("should add the course's XP once a day", () => {
+      const trained = trainBarista(createProficiency(), "pour-over", 3);
+
+      expect(trained.xp["pour-over"]).toBe(TRAINING_COURSES["pour-over"].xp);
+      expect(() => trainBarista(trained, "immersion", 3)).toThrow("You've already trained today");
+      expect(trainBarista(trained, "immersion", 4).xp.immersion).toBe(TRAINING_COURSES.immersion.xp);
+    });
+  });
+
+  describe("levels", () => {
+    it("should level up as XP builds", () => {
+      const proficiency = { ...createProficiency(), xp: { "espresso-based": 35, "pour-over": 0, immersion: 200 } };
+
+      expect(getProficiencyLevel(proficiency, "espresso-based")).toEqual({
+        level: 2,
+        name: "Barista",
+        xp: 35,
+        nextLevelXp: 60,
+      });
+      expect(getProficiencyLevel(proficiency, "pour-over").name).toBe("Novice");
+      expect(getProficiencyLevel(proficiency, "immersion").nextLevelXp).toBeNull();
+    });
+
+    it("should widen the tolerances drinks are scored against", () => {
+      const widened = applyProficiencyToRecipe(RECIPES.latte, 5);
+
+      expect(widened.tolerances.temp).toBe(RECIPES.latte.tolerances.temp * 1.5);
+      expect(applyProficiencyToRecipe(RECIPES.latte, 0)).toBe(RECIPES.latte);
+    });
+
+    it("should score a slightly-off drink higher for a practised barista", () => {
+      const params = { ...getDefaultParameters("espresso"), temperature: RECIPES.espresso.idealTemp + 2 };
+      const expert = { ...createProficiency(), xp: { "espresso-based": 100, "pour-over": 0, immersion: 0 } };
+
+      const novice = brewDrink("espresso", params, { proficiency: createProficiency() });
+      const practised = brewDrink("espresso", params, { proficiency: expert });
+
+      expect(practised.quality).toBeGreaterThan(novice.quality);
+    });
+
+    it("should unlock parameter hints level by level", () => {
+      expect(getParameterHints(RECIPES.latte, 0)).toEqual({});
+      expect(getParameterHints(RECIPES.latte, 1)).toEqual({ temperature: `~${RECIPES.latte.idealTemp}°C` });
+      expect(Object.keys(getParameterHints(RECIPES.latte, 3))).toEqual(["temperature", "brewTime", "grindSize", "milkTemp"]);
+    });
+  });
+});
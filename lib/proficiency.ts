@@ -0,0 +1,194 @@
+/**
+ * Barista Proficiency
+ *
+ * The player's barista gets better at each drink category the more they brew
+ * it (good drinks teach more than bad ones), and faster with a paid training
+ * session during prep. Higher levels widen the tolerances drinks are scored
+ * against and unlock hints for the ideal parameters.
+ *
+ * Where DayStats.drinksBrewedByType starts again every morning, proficiency
+ * keeps a running count per drink that carries over for the whole game.
+ */
+
+import type { BaristaProficiency, DrinkCategory, DrinkRecipe, DrinkType } from "./types";
+import { RECIPES } from "./recipes";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProficiencyLevel {
+  level: number; // 0-5
+  name: string;
+  xp: number;
+  nextLevelXp: number | null; // null once mastered
+}
+
+export interface TrainingCourse {
+  category: DrinkCategory;
+  name: string;
+  cost: number;
+  xp: number;
+}
+
+export type HintParameter = "grindSize" | "temperature" | "brewTime" | "milkTemp";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DRINK_CATEGORIES: DrinkCategory[] = ["espresso-based", "pour-over", "immersion"];
+
+// XP needed for each level
+const LEVELS: { xp: number; name: string }[] = [
+  { xp: 0, name: "Novice" },
+  { xp: 10, name: "Apprentice" },
+  { xp: 30, name: "Barista" },
+  { xp: 60, name: "Skilled" },
+  { xp: 100, name: "Expert" },
+  { xp: 150, name: "Master" },
+];
+
+const TOLERANCE_BONUS_PER_LEVEL = 0.1; // A master's tolerances are 50% wider
+const XP_PER_BREW = 1;
+const GOOD_BREW_QUALITY = 85; // Brews this good teach double
+const MIN_LEARNING_QUALITY = 40; // Nothing is learnt from a drink this bad
+
+export const TRAINING_COURSES: Record<DrinkCategory, TrainingCourse> = {
+  "espresso-based": { category: "espresso-based", name: "Espresso & milk workshop", cost: 40, xp: 12 },
+  "pour-over": { category: "pour-over", name: "Pour-over masterclass", cost: 35, xp: 12 },
+  immersion: { category: "immersion", name: "Immersion brewing session", cost: 30, xp: 12 },
+};
+
+// Level at which the hint for each parameter appears next to its control
+export const HINT_UNLOCK_LEVELS: Record<HintParameter, number> = {
+  temperature: 1,
+  brewTime: 2,
+  grindSize: 3,
+  milkTemp: 3,
+};
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * A barista who has never brewed anything
+ */
+export function createProficiency(): BaristaProficiency {
+  return {
+    xp: { "espresso-based": 0, "pour-over": 0, immersion: 0 },
+    brewedByType: {},
+  };
+}
+
+/**
+ * Learn from a brewed drink: XP for its category, and one more on its running count
+ */
+export function recordBrew(
+  proficiency: BaristaProficiency | undefined,
+  drinkType: DrinkType,
+  quality: number
+): BaristaProficiency {
+  const current = proficiency ?? createProficiency();
+  const category = RECIPES[drinkType].category;
+  const xp = quality < MIN_LEARNING_QUALITY ? 0 : quality >= GOOD_BREW_QUALITY ? XP_PER_BREW * 2 : XP_PER_BREW;
+
+  return {
+    ...current,
+    xp: { ...current.xp, [category]: current.xp[category] + xp },
+    brewedByType: {
+      ...current.brewedByType,
+      [drinkType]: (current.brewedByType[drinkType] || 0) + 1,
+    },
+  };
+}
+
+/**
+ * Take a training course (one a day)
+ */
+export function trainBarista(
+  proficiency: BaristaProficiency | undefined,
+  category: DrinkCategory,
+  dayNumber: number
+): BaristaProficiency {
+  const current = proficiency ?? createProficiency();
+  const course = TRAINING_COURSES[category];
+  if (!course) {
+    throw new Error(`Unknown drink category: ${category}`);
+  }
+  if (current.lastTrainedDay === dayNumber) {
+    throw new Error("You've already trained today");
+  }
+
+  return {
+    ...current,
+    xp: { ...current.xp, [category]: current.xp[category] + course.xp },
+    lastTrainedDay: dayNumber,
+  };
+}
+
+// ============================================================================
+// LEVELS AND EFFECTS
+// ============================================================================
+
+/**
+ * The barista's level in a drink category
+ */
+export function getProficiencyLevel(
+  proficiency: BaristaProficiency | undefined,
+  category: DrinkCategory
+): ProficiencyLevel {
+  const xp = proficiency?.xp[category] || 0;
+  let level = 0;
+  while (level + 1 < LEVELS.length && xp >= LEVELS[level + 1].xp) level++;
+
+  return {
+    level,
+    name: LEVELS[level].name,
+    xp,
+    nextLevelXp: level + 1 < LEVELS.length ? LEVELS[level + 1].xp : null,
+  };
+}
+
+/**
+ * How much wider than the recipe's tolerances a barista of this level is scored
+ */
+export function getToleranceMultiplier(level: number): number {
+  return 1 + Math.max(0, Math.min(LEVELS.length - 1, level)) * TOLERANCE_BONUS_PER_LEVEL;
+}
+
+/**
+ * Widen a recipe's tolerances for a barista of the given level
+ */
+export function applyProficiencyToRecipe(recipe: DrinkRecipe, level: number): DrinkRecipe {
+  const multiplier = getToleranceMultiplier(level);
+  if (multiplier === 1) return recipe;
+
+  const widen = (tolerance?: number) => (tolerance === undefined ? undefined : tolerance * multiplier);
+  return {
+    ...recipe,
+    tolerances: {
+      temp: recipe.tolerances.temp * multiplier,
+      time: recipe.tolerances.time * multiplier,
+      bloom: widen(recipe.tolerances.bloom),
+      milkTemp: widen(recipe.tolerances.milkTemp),
+      foam: widen(recipe.tolerances.foam),
+    },
+  };
+}
+
+/**
+ * Hints for the ideal parameters the barista has learnt for a recipe
+ */
+export function getParameterHints(recipe: DrinkRecipe, level: number): Partial<Record<HintParameter, string>> {
+  const hints: Partial<Record<HintParameter, string>> = {};
+  const unlocked = (parameter: HintParameter) => level >= HINT_UNLOCK_LEVELS[parameter];
+
+  if (unlocked("temperature")) hints.temperature = `~${recipe.idealTemp}°C`;
+  if (unlocked("brewTime")) hints.brewTime = `~${recipe.idealBrewTime}s`;
+  if (unlocked("grindSize")) hints.grindSize = recipe.idealGrind;
+  if (unlocked("milkTemp") && recipe.idealMilkTemp !== undefined) hints.milkTemp = `~${recipe.idealMilkTemp}°C`;
+
+  return hints;
+}
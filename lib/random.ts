@@ -0,0 +1,100 @@
+/**
+ * Randomness and Time Sources
+ *
+ * Everything in lib that rolls dice or reads the clock takes one of these,
+ * defaulting to Math.random/Date.now. Sessions pass seeded versions so a game
+ * can be replayed exactly from its seed and action log.
+ */
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface RandomSource {
+  next(): number; // [0, 1)
+}
+
+export interface Clock {
+  now(): number; // ms since epoch
+}
+
+export const systemRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// ============================================================================
+// SEEDED RNG - For deterministic replay and testing
+// ============================================================================
+
+export class SeededRandom implements RandomSource {
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  // Current internal state, so a generator can be saved and resumed
+  get state(): number {
+    return this.seed;
+  }
+
+  // Linear Congruential Generator (LCG)
+  next(): number {
+    this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
+    return this.seed / 4294967296;
+  }
+
+  // Random integer between min (inclusive) and max (exclusive)
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min)) + min;
+  }
+
+  // Pick random element from array
+  choice<T>(array: T[]): T {
+    return array[this.nextInt(0, array.length)];
+  }
+
+  // Weighted random choice
+  weightedChoice<T>(items: { item: T; weight: number }[]): T {
+    const totalWeight = items.reduce((sum, i) => sum + i.weight, 0);
+    let random = this.next() * totalWeight;
+
+    for (const { item, weight } of items) {
+      random -= weight;
+      if (random <= 0) return item;
+    }
+
+    return items[items.length - 1].item;
+  }
+}
+
+// ============================================================================
+// FIXED CLOCK - For replay and headless runs
+// ============================================================================
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Tests for the Reputation System
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  rateVisit,
+  addRating,
+  getLastRating,
+  applyRating,
+  getStarRating,
+  formatStars,
+  getFootTrafficMultiplier,
+  calculateTip,
+  type RatingInput,
+} from "./reputation";
+import { startNewDay, createDayState } from "./day-structure";
+import { getArchetypeWeights } from "./customer-generator";
+import type { CustomerRating } from "./types";
+
+const visit = (overrides: Partial<RatingInput> = {}): RatingInput => ({
+  quality: 80,
+  waitSeconds: 120,
+  mood: "neutral",
+  subtotal: 4.5,
+  budget: 5,
+  drinkCount: 1,
+  allergenSafe: true,
+  ...overrides,
+});
+
+const rating = (stars: number): CustomerRating => ({
+  customerName: "Sam",
+  stars,
+  reasons: [],
+  tip: 0,
+  at: 0,
+});
+
+describe("Reputation", () => {
+  describe("rateVisit", () => {
+    it("should base the rating on quality", () => {
+      expect(rateVisit(visit({ quality: 100 })).stars).toBe(5);
+      expect(rateVisit(visit({ quality: 80 })).stars).toBe(4.2);
+      expect(rateVisit(visit({ quality: 0 })).stars).toBe(1);
+    });
+
+    it("should penalise waits beyond the customer's patience", () => {
+      const onTime = rateVisit(visit({ waitSeconds: 120 }));
+      const slow = rateVisit(visit({ waitSeconds: 360 }));
+
+      expect(slow.stars).toBeLessThan(onTime.stars);
+      expect(slow.reasons).toContain("Waited too long");
+    });
+
+    it("should run out of patience sooner for stressed customers", () => {
+      const neutral = rateVisit(visit({ waitSeconds: 150, mood: "neutral" }));
+      const stressed = rateVisit(visit({ waitSeconds: 150, mood: "stressed" }));
+
+      expect(stressed.stars).toBeLessThan(neutral.stars);
+    });
+
+    it("should reward speedy service and good value", () => {
+      const result = rateVisit(visit({ quality: 80, waitSeconds: 30, subtotal: 3, budget: 6 }));
+
+      expect(result.stars).toBe(4.7);
+      expect(result.reasons).toEqual(["Speedy service", "Good value"]);
+    });
+
+    it("should penalise orders over budget", () => {
+      const result = rateVisit(visit({ subtotal: 9, budget: 5 }));
+
+      expect(result.stars).toBe(3.2);
+      expect(result.reasons).toContain("Pricier than expected");
+    });
+
+    it("should reflect how friendly the staff who served them were", () => {
+      const friendly = rateVisit(visit({ friendliness: 0.8 }));
+      const curt = rateVisit(visit({ friendliness: -0.4 }));
+
+      expect(friendly.stars).toBe(4.4);
+      expect(friendly.reasons).toContain("Friendly staff");
+      expect(curt.stars).toBe(4.1);
+      expect(curt.reasons).not.toContain("Unfriendly staff");
+    });
+
+    it("should give one star when allergens were mishandled", () => {
+      expect(rateVisit(visit({ quality: 100, allergenSafe: false }))).toEqual({
+        stars: 1,
+        reasons: ["Served something they're allergic to"],
+      });
+    });
+  });
+
+  describe("rating summary", () => {
+    it("should keep a running average and the latest ratings", () => {
+      let summary = addRating(undefined, rating(5));
+      summary = addRating(summary, rating(3));
+
+      expect(summary.count).toBe(2);
+      expect(summary.average).toBe(4);
+      expect(getLastRating(summary)?.stars).toBe(3);
+      expect(getLastRating(undefined)).toBeNull();
+    });
+
+    it("should only keep the most recent ratings", () => {
+      let summary = addRating(undefined, rating(1));
+      for (let i = 0; i < 25; i++) summary = addRating(summary, rating(5));
+
+      expect(summary.recent).toHaveLength(20);
+      expect(summary.count).toBe(26);
+    });
+  });
+
+  describe("applyRating", () => {
+    it("should move reputation towards each rating", () => {
+      expect(applyRating(50, 5)).toBe(55);
+      expect(applyRating(50, 1)).toBe(45);
+      expect(applyRating(50, 3)).toBe(50);
+    });
+
+    it("should stay within 0-100", () => {
+      let reputation = 99;
+      for (let i = 0; i < 50; i++) reputation = applyRating(reputation, 5);
+
+      expect(reputation).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe("star rating", () => {
+    it("should map reputation onto 1-5 stars", () => {
+      expect(getStarRating(0)).toBe(1);
+      expect(getStarRating(50)).toBe(3);
+      expect(getStarRating(100)).toBe(5);
+      expect(getStarRating()).toBe(3);
+    });
+
+    it("should render filled and empty stars", () => {
+      expect(formatStars(3.6)).toBe("★★★★☆");
+      expect(formatStars(1)).toBe("★☆☆☆☆");
+    });
+  });
+
+  describe("effects", () => {
+    it("should bring more customers to a better-rated cafe", () => {
+      const debrief = { ...createDayState(), phase: "debrief" as const };
+
+      expect(startNewDay(debrief, getFootTrafficMultiplier(50)).targetCustomers).toBe(22);
+      expect(startNewDay(debrief, getFootTrafficMultiplier(100)).targetCustomers).toBe(31);
+      expect(startNewDay(debrief, getFootTrafficMultiplier(0)).targetCustomers).toBe(13);
+    });
+
+    it("should tip more at a better-rated cafe", () => {
+      expect(calculateTip(5, 10, 50)).toBe(1.5);
+      expect(calculateTip(5, 10, 100)).toBe(2.25);
+      expect(calculateTip(3, 10, 100)).toBe(0);
+    });
+
+    it("should draw enthusiasts to a famous cafe and students to an unknown one", () => {
+      const weightOf = (reputation: number, name: string) =>
+        getArchetypeWeights(reputation).find(entry => entry.item.name === name)!.weight;
+
+      expect(weightOf(50, "The Coffee Enthusiast")).toBe(1);
+      expect(weightOf(100, "The Coffee Enthusiast")).toBeGreaterThan(weightOf(100, "The Student"));
+      expect(weightOf(0, "The Student")).toBeGreaterThan(weightOf(0, "The Coffee Enthusiast"));
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Reputation System
+ *
+ * Every served customer leaves a 1-5 star rating based on:
+ * - Quality of the order
+ * - How long they waited (ticket created → served), against their patience
+ * - What they paid compared to their budget
+ * - Whether anything on it was unsafe for their allergies
+ * - How friendly the member of staff who served them was, if any
+ *
+ * Ratings pull the cafe's 0-100 reputation towards them (events can still
+ * nudge it directly). Reputation in turn sets the star rating shown to the
+ * player, how many customers show up, who they are and how well they tip.
+ */
+
+import type { Customer, CustomerRating, RatingSummary } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RatingInput {
+  quality: number; // 0-100, whole order
+  waitSeconds: number;
+  mood?: Customer["mood"];
+  subtotal: number; // Pre-tax price of the order
+  budget?: number; // Customer's budget per drink
+  drinkCount: number;
+  allergenSafe: boolean;
+  friendliness?: number; // -1 to 1, when served by staff (see getStaffFriendliness)
+  rapport?: number; // -1 to 1, when they chatted with the player (see conversation.ts)
+  upsells?: number; // Suggestions they took that added to the order
+}
+
+export interface RatingResult {
+  stars: number;
+  reasons: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_REPUTATION = 50;
+export const RECENT_RATINGS = 20;
+
+// How far each rating pulls reputation towards itself
+const RATING_WEIGHT = 0.1;
+
+// Seconds a customer will wait happily, by mood
+export const PATIENCE_SECONDS: Record<NonNullable<Customer["mood"]>, number> = {
+  stressed: 90,
+  tired: 150,
+  neutral: 180,
+  happy: 240,
+};
+
+const MAX_WAIT_PENALTY = 1.5;
+const MAX_PRICE_PENALTY = 1;
+const QUICK_SERVICE_BONUS = 0.25;
+const GOOD_VALUE_BONUS = 0.25;
+const GOOD_VALUE_HEADROOM = 2; // Dollars under budget per drink
+const STAFF_MANNER_WEIGHT = 0.3; // Stars either way for the friendliest or curtest staff
+const RAPPORT_WEIGHT = 0.4; // Stars either way for the warmest or rudest chat with the player
+const UPSELL_BONUS = 0.2; // For a suggestion they were glad to take (counted once)
+
+// Share of the bill tipped at each star level (before reputation)
+const TIP_RATES: { minStars: number; rate: number }[] = [
+  { minStars: 4.5, rate: 0.15 },
+  { minStars: 4, rate: 0.1 },
+  { minStars: 3.5, rate: 0.05 },
+];
+
+// ============================================================================
+// RATINGS
+// ============================================================================
+
+/**
+ * Work out the stars a customer gives their visit
+ */
+export function rateVisit(input: RatingInput): RatingResult {
+  const reasons: string[] = [];
+
+  if (!input.allergenSafe) {
+    return { stars: 1, reasons: ["Served something they're allergic to"] };
+  }
+
+  // Quality sets the baseline: 0 → 1 star, 100 → 5 stars
+  const quality = Math.max(0, Math.min(100, input.quality));
+  let stars = 1 + (quality / 100) * 4;
+  if (quality >= 90) reasons.push("Excellent drinks");
+  else if (quality < 60) reasons.push("Disappointing drinks");
+
+  // Wait time against patience
+  const patience = PATIENCE_SECONDS[input.mood || "neutral"];
+  if (input.waitSeconds > patience) {
+    const overrun = input.waitSeconds / patience - 1;
+    stars -= Math.min(MAX_WAIT_PENALTY, overrun);
+    reasons.push("Waited too long");
+  } else if (input.waitSeconds <= patience / 2) {
+    stars += QUICK_SERVICE_BONUS;
+    reasons.push("Speedy service");
+  }
+
+  // Price against budget
+  if (input.budget !== undefined) {
+    const headroom = input.budget * Math.max(1, input.drinkCount) - input.subtotal;
+    if (headroom < 0) {
+      stars -= Math.min(MAX_PRICE_PENALTY, -headroom * 0.25);
+      reasons.push("Pricier than expected");
+    } else if (headroom >= GOOD_VALUE_HEADROOM * Math.max(1, input.drinkCount)) {
+      stars += GOOD_VALUE_BONUS;
+      reasons.push("Good value");
+    }
+  }
+
+  // Staff manner
+  if (input.friendliness !== undefined) {
+    stars += input.friendliness * STAFF_MANNER_WEIGHT;
+    if (input.friendliness >= 0.5) reasons.push("Friendly staff");
+    else if (input.friendliness <= -0.5) reasons.push("Unfriendly staff");
+  }
+
+  // Chatting with the player
+  if (input.rapport !== undefined) {
+    stars += input.rapport * RAPPORT_WEIGHT;
+    if (input.rapport >= 0.5) reasons.push("Lovely chat");
+    else if (input.rapport <= -0.5) reasons.push("Rude barista");
+  }
+  if (input.upsells) {
+    stars += UPSELL_BONUS;
+    reasons.push("Good suggestion");
+  }
+
+  return {
+    stars: Math.round(Math.max(1, Math.min(5, stars)) * 10) / 10,
+    reasons,
+  };
+}
+
+/**
+ * Add a rating to the running summary
+ */
+export function addRating(summary: RatingSummary | undefined, rating: CustomerRating): RatingSummary {
+  const count = (summary?.count || 0) + 1;
+  const total = (summary?.average || 0) * (count - 1) + rating.stars;
+
+  return {
+    count,
+    average: Math.round((total / count) * 100) / 100,
+    recent: [...(summary?.recent || []), rating].slice(-RECENT_RATINGS),
+  };
+}
+
+/**
+ * Get the most recent rating, if any
+ */
+export function getLastRating(summary: RatingSummary | undefined): CustomerRating | null {
+  return summary && summary.recent.length > 0 ? summary.recent[summary.recent.length - 1] : null;
+}
+
+// ============================================================================
+// REPUTATION
+// ============================================================================
+
+/**
+ * Move reputation towards a new rating (1 star → 0, 5 stars → 100)
+ */
+export function applyRating(reputation: number, stars: number): number {
+  const target = ((stars - 1) / 4) * 100;
+  const updated = reputation + (target - reputation) * RATING_WEIGHT;
+  return Math.round(Math.max(0, Math.min(100, updated)) * 10) / 10;
+}
+
+/**
+ * Star rating shown to the player (1-5, one decimal)
+ */
+export function getStarRating(reputation: number = DEFAULT_REPUTATION): number {
+  return Math.round((1 + (Math.max(0, Math.min(100, reputation)) / 100) * 4) * 10) / 10;
+}
+
+/**
+ * Render a star rating as filled and empty stars
+ */
+export function formatStars(stars: number): string {
+  const filled = Math.round(stars);
+  return "★".repeat(filled) + "☆".repeat(5 - filled);
+}
+
+/**
+ * Foot traffic relative to a cafe with neutral reputation (0.6x → 1.4x)
+ */
+export function getFootTrafficMultiplier(reputation: number = DEFAULT_REPUTATION): number {
+  return 0.6 + (Math.max(0, Math.min(100, reputation)) / 100) * 0.8;
+}
+
+/**
+ * How generously customers tip relative to a neutral reputation (0.5x → 1.5x)
+ */
+export function getTipMultiplier(reputation: number = DEFAULT_REPUTATION): number {
+  return 0.5 + Math.max(0, Math.min(100, reputation)) / 100;
+}
+
+/**
+ * Tip left on top of the bill for a rating
+ */
+export function calculateTip(stars: number, payment: number, reputation: number = DEFAULT_REPUTATION): number {
+  const tier = TIP_RATES.find(entry => stars >= entry.minStars);
+  if (!tier) return 0;
+
+  return Math.round(payment * tier.rate * getTipMultiplier(reputation) * 100) / 100;
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for Customer Reviews (the LLM runs offline against the stub provider)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  MAX_REVIEW_LENGTH,
+  REVIEW_DAYS_KEPT,
+  createReview,
+  addReview,
+  setReviewText,
+  getReviewsForDay,
+  getPendingReview,
+  getReviewText,
+  getDayReviewSummary,
+  pruneReviews,
+} from "./reviews";
+import { postReview } from "./function-calling";
+import { writeCustomerReview } from "./llm";
+import { createStubProvider } from "./llm-stub";
+import { setLLMProvider } from "./llm-provider";
+import { auditLog } from "./audit-log";
+import { createSession, dispatch } from "./session";
+import { getDefaultParameters } from "./game-engine";
+import { ManualClock } from "./random";
+import { START } from "./test-helpers";
+import type { Customer, CustomerReviews } from "./types";
+
+const sam: Customer = {
+  name: "Sam",
+  order: "A latte, please",
+  drinkType: "latte",
+  payment: 4.5,
+  personality: "a cheerful nurse coming off a night shift",
+  mood: "tired",
+};
+
+function reviewsOf(...ratings: number[]): CustomerReviews {
+  return ratings.reduce<CustomerReviews>(
+    (reviews, stars, i) => addReview(reviews, createReview(reviews, sam, { stars, reasons: [] }, ["latte"], 2, START + i)),
+    {}
+  );
+}
+
+describe("Reviews", () => {
+  beforeEach(() => {
+    setLLMProvider(createStubProvider());
+    auditLog.clearLogs();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("storage", () => {
+    it("should file reviews by day with the rating's stars", () => {
+      const review = createReview(undefined, sam, { stars: 4.4, reasons: ["Speedy service"] }, ["latte"], 2, START);
+      const reviews = addReview(addReview(undefined, review), { ...review, id: "review_3_1", day: 3 });
+
+      expect(review).toMatchObject({ id: "review_2_1", customerName: "Sam", stars: 4.4, mood: "tired" });
+      expect(getReviewsForDay(reviews, 2)).toEqual([review]);
+      expect(getReviewsForDay(reviews, 4)).toEqual([]);
+      expect(getDayReviewSummary(reviewsOf(5, 3, 4), 2)).toEqual({ count: 3, average: 4 });
+    });
+
+    it("should take words once and leave the stars alone", () => {
+      const reviews = reviewsOf(2.5);
+      const written = setReviewText(reviews, "review_2_1", "  Bit   <b>slow</b> today. ");
+
+      expect(getReviewsForDay(written, 2)[0]).toMatchObject({ stars: 2.5, text: "Bit bslow/b today." });
+      expect(getPendingReview(written, 2)).toBeNull();
+      expect(() => setReviewText(written, "review_2_1", "Again")).toThrow("Sam's review has already been written");
+      expect(() => setReviewText(reviews, "review_9_9", "Hello")).toThrow("No review found: review_9_9");
+      expect(() => setReviewText(reviews, "review_2_1", "   ")).toThrow("A review needs some words");
+    });
+
+    it("should only keep the last week of reviews", () => {
+      const review = createReview(undefined, sam, { stars: 4, reasons: [] }, ["latte"], 2, START);
+      const reviews = addReview(addReview(undefined, review), { ...review, id: "review_9_1", day: 9 });
+
+      expect(pruneReviews(reviews, 2 + REVIEW_DAYS_KEPT - 1)).toEqual(reviews);
+      expect(pruneReviews(reviews, 2 + REVIEW_DAYS_KEPT)).toEqual({ 9: [{ ...review, id: "review_9_1", day: 9 }] });
+      expect(pruneReviews(undefined, 9)).toBeUndefined();
+    });
+
+    it("should read from the reasons until the words arrive", () => {
+      const review = createReview(undefined, sam, { stars: 4.8, reasons: ["Excellent drinks", "Good value"] }, [], 2, START);
+
+      expect(getReviewText(review)).toBe("Loved it! Excellent drinks, Good value.");
+      expect(getReviewText({ ...review, stars: 1.5, reasons: [] })).toBe("Not great.");
+      expect(getReviewText({ ...review, text: "Best flat white in town." })).toBe("Best flat white in town.");
+    });
+  });
+
+  describe("post_review", () => {
+    it("should only ever hand back words", () => {
+      const post = postReview({ review_text: "Great coffee!", stars: 1 } as Parameters<typeof postReview>[0]);
+
+      expect(post).toEqual({ text: "Great coffee!" });
+      expect(postReview({ review_text: "x".repeat(500) }).text).toHaveLength(MAX_REVIEW_LENGTH);
+      expect(() => postReview({ review_text: " " })).toThrow("Review text is required");
+    });
+
+    it("should have the LLM write in the customer's voice through the tool, audited", async () => {
+      const review = createReview(undefined, sam, { stars: 4.2, reasons: ["Speedy service"] }, ["latte"], 2, START);
+      const text = await writeCustomerReview(review);
+
+      expect(text).toBe("Lovely little café, I'll be back. Speedy service.");
+      expect(auditLog.getLogs({ source: "write_review", type: "llm_call" })).toHaveLength(1);
+      expect(auditLog.getLogs({ source: "write_review", type: "tool_call" })[0].toolName).toBe("post_review");
+    });
+  });
+
+  describe("in a session", () => {
+    it("should leave a review for every visit with the rating's stars, then take its words", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch({ ...createSession(5, clock), activeEvent: undefined }, { type: "start_day" }, clock);
+      state = dispatch({ ...state, activeEvent: undefined }, { type: "customer_arrives", customer: sam }, clock);
+      state = dispatch(state, { type: "brew", params: getDefaultParameters("latte") }, clock);
+      state = dispatch(state, { type: "serve" }, clock);
+
+      const review = getPendingReview(state.reviews, 1)!;
+      expect(review.customerName).toBe("Sam");
+      expect(review.stars).toBe(state.ratings?.recent.at(-1)?.stars);
+
+      state = dispatch(state, { type: "post_review", reviewId: review.id, text: "Exactly what I needed." }, clock);
+      expect(getReviewsForDay(state.reviews, 1)[0]).toMatchObject({ stars: review.stars, text: "Exactly what I needed." });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Customer Reviews
+ *
+ * Every visit ends with a review: the stars are the rating worked out in code
+ * (rateVisit, which also moves reputation), and the words are written by the
+ * LLM in the customer's own voice through the post_review tool. The model
+ * never picks the stars; all it can hand back is text, and until it does (or
+ * if it can't) the review reads from the rating's reasons instead.
+ *
+ * Reviews are kept by day for the reviews feed, for the last week.
+ */
+
+import type { Customer, CustomerReview, CustomerReviews } from "./types";
+import type { RatingResult } from "./reputation";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_REVIEW_LENGTH = 280;
+export const REVIEW_DAYS_KEPT = 7; // The feed only shows today's, so a week is plenty
+
+// Opening line for reviews still waiting on their words, by minimum stars
+const FALLBACK_OPENERS: { minStars: number; text: string }[] = [
+  { minStars: 4.5, text: "Loved it!" },
+  { minStars: 3.5, text: "Nice visit." },
+  { minStars: 2.5, text: "It was okay." },
+  { minStars: 0, text: "Not great." },
+];
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Start a review for a visit, with the stars from its rating
+ */
+export function createReview(
+  reviews: CustomerReviews | undefined,
+  customer: Customer,
+  rating: RatingResult,
+  drinks: string[],
+  day: number,
+  at: number
+): CustomerReview {
+  return {
+    id: `review_${day}_${getReviewsForDay(reviews, day).length + 1}`,
+    customerName: customer.name,
+    day,
+    stars: rating.stars,
+    reasons: rating.reasons,
+    drinks,
+    ...(customer.personality ? { personality: customer.personality } : {}),
+    ...(customer.mood ? { mood: customer.mood } : {}),
+    at,
+  };
+}
+
+/**
+ * File a review under its day
+ */
+export function addReview(reviews: CustomerReviews | undefined, review: CustomerReview): CustomerReviews {
+  return { ...reviews, [review.day]: [...getReviewsForDay(reviews, review.day), review] };
+}
+
+/**
+ * Drop reviews older than the last few days
+ */
+export function pruneReviews(reviews: CustomerReviews | undefined, day: number): CustomerReviews | undefined {
+  if (!reviews) return reviews;
+
+  return Object.fromEntries(
+    Object.entries(reviews).filter(([reviewDay]) => Number(reviewDay) > day - REVIEW_DAYS_KEPT)
+  );
+}
+
+/**
+ * Tidy review text from the LLM: one line, no markup, no longer than a review should be
+ */
+export function sanitizeReviewText(text: string): string {
+  return text
+    .replace(/[<>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_REVIEW_LENGTH);
+}
+
+/**
+ * Give a review its words (the stars stay as they are)
+ */
+export function setReviewText(reviews: CustomerReviews | undefined, reviewId: string, text: string): CustomerReviews {
+  const review = Object.values(reviews || {}).flat().find(candidate => candidate.id === reviewId);
+  if (!review) {
+    throw new Error(`No review found: ${reviewId}`);
+  }
+  if (review.text) {
+    throw new Error(`${review.customerName}'s review has already been written`);
+  }
+
+  const words = sanitizeReviewText(text);
+  if (!words) {
+    throw new Error("A review needs some words");
+  }
+
+  return {
+    ...reviews,
+    [review.day]: getReviewsForDay(reviews, review.day).map(candidate =>
+      candidate.id === reviewId ? { ...candidate, text: words } : candidate
+    ),
+  };
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * A day's reviews, oldest first
+ */
+export function getReviewsForDay(reviews: CustomerReviews | undefined, day: number): CustomerReview[] {
+  return reviews?.[day] || [];
+}
+
+/**
+ * The latest of a day's reviews still waiting on its words
+ */
+export function getPendingReview(reviews: CustomerReviews | undefined, day: number): CustomerReview | null {
+  return getReviewsForDay(reviews, day).filter(review => !review.text).pop() || null;
+}
+
+/**
+ * What a review says: the customer's words, or its reasons until they're written
+ */
+export function getReviewText(review: CustomerReview): string {
+  if (review.text) return review.text;
+
+  const opener = FALLBACK_OPENERS.find(candidate => review.stars >= candidate.minStars)!.text;
+  return review.reasons.length > 0 ? `${opener} ${review.reasons.join(", ")}.` : opener;
+}
+
+/**
+ * How a day's reviews add up
+ */
+export function getDayReviewSummary(
+  reviews: CustomerReviews | undefined,
+  day: number
+): { count: number; average: number } {
+  const dayReviews = getReviewsForDay(reviews, day);
+  const total = dayReviews.reduce((sum, review) => sum + review.stars, 0);
+
+  return {
+    count: dayReviews.length,
+    average: dayReviews.length > 0 ? Math.round((total / dayReviews.length) * 10) / 10 : 0,
+  };
+}
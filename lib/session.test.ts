@@ -0,0 +1,575 @@
+/**
+ * Tests for Seeded Game Sessions and Replay
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createSession,
+  ensureSession,
+  dispatch,
+  exportSessionLog,
+  replaySession,
+} from "./session";
+import { createInitialState, getDefaultParameters } from "./game-engine";
+import { getActiveTicket, getNextTicketItem, getTicket } from "./ticketing";
+import { EVENTS, checkForEvent, applyEventEffects, resolveEventChoice } from "./events";
+import { completeOrder } from "./function-calling";
+import { getFootTrafficMultiplier } from "./reputation";
+import { calculatePriceQuote } from "./pricing";
+import { generateCustomerProfile, createCustomerFromProfile } from "./customer-generator";
+import { getFoodCost } from "./inventory";
+import { serializeGameState, deserializeGameState } from "./persistence";
+import { ManualClock, SeededRandom } from "./random";
+import { START } from "./test-helpers";
+import type { GameState } from "./types";
+
+/**
+ * Work through every line on the active ticket with default parameters, then serve
+ */
+function serveCurrentCustomer(state: GameState, clock: ManualClock): GameState {
+  for (;;) {
+    const ticket = getActiveTicket(state.queue!);
+    const line = ticket ? getNextTicketItem(ticket) : null;
+    if (!line) return state;
+
+    clock.advance(20000);
+    if (line.item.type === "food") {
+      state = dispatch(state, { type: "plate_food" }, clock);
+      continue;
+    }
+
+    state = dispatch(state, { type: "brew", params: getDefaultParameters(line.item.sku) }, clock);
+    const remaining = getActiveTicket(state.queue!)!.items!.filter(item => item.status === "pending");
+    clock.advance(5000);
+    state = dispatch(state, { type: remaining.length > 1 ? "next_item" : "serve" }, clock);
+    if (remaining.length <= 1) return state;
+  }
+}
+
+function playDay(seed: number, customers: number): GameState {
+  const clock = new ManualClock(START);
+  return playOn(createSession(seed, clock), customers, clock);
+}
+
+/**
+ * Open, serve the customers, close, and turn over to the next morning
+ */
+function playOn(state: GameState, customers: number, clock: ManualClock): GameState {
+  state = dispatch(state, { type: "start_day" }, clock);
+  for (let i = 0; i < customers; i++) {
+    clock.advance(90000);
+    state = dispatch(state, { type: "customer_arrives" }, clock);
+    state = serveCurrentCustomer(state, clock);
+  }
+  clock.advance(60000);
+  state = dispatch(state, { type: "end_day" }, clock);
+  state = dispatch(state, { type: "next_day" }, clock);
+
+  return state;
+}
+
+describe("Game Sessions", () => {
+  describe("createSession", () => {
+    it("should start a new game with the seed and an empty log", () => {
+      const state = createSession(42, new ManualClock(START));
+
+      expect(state.session).toEqual({ seed: 42, rngState: 42, startedAt: START, log: [] });
+      expect(state.money).toBe(0);
+      expect(state.inventory.beans[0].roastDate).toBe(new Date(START).toISOString());
+    });
+
+    it("should leave states that already have a session alone", () => {
+      const state = createSession(1, new ManualClock(START));
+
+      expect(ensureSession(state, 2)).toBe(state);
+      expect(ensureSession(createInitialState(), 2).session?.seed).toBe(2);
+    });
+  });
+
+  describe("dispatch", () => {
+    it("should record each action with its time", () => {
+      const clock = new ManualClock(START);
+      let state = createSession(7, clock);
+
+      clock.advance(1000);
+      state = dispatch(state, { type: "start_day" }, clock);
+
+      expect(state.dayState?.phase).toBe("service");
+      expect(state.dayState?.openTime).toBe(START + 1000);
+      expect(state.session?.log).toEqual([{ at: START + 1000, action: { type: "start_day" } }]);
+    });
+
+    it("should roll the same customer for the same seed", () => {
+      const clock = new ManualClock(START);
+      const open = (seed: number) => dispatch(createSession(seed, clock), { type: "start_day" }, clock);
+
+      const a = dispatch(open(99), { type: "customer_arrives" }, clock);
+      const b = dispatch(open(99), { type: "customer_arrives" }, clock);
+      const c = dispatch(open(100), { type: "customer_arrives" }, clock);
+
+      expect(a.customer).toEqual(b.customer);
+      expect(a.queue).toEqual(b.queue);
+      expect(a.session?.rngState).not.toBe(c.session?.rngState);
+    });
+
+    it("should use a supplied customer instead of rolling one", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(5, clock), { type: "start_day" }, clock);
+      const customer = { name: "Robin", order: "Latte please", drinkType: "latte" as const, payment: 4.5 };
+
+      state = dispatch(state, { type: "customer_arrives", customer }, clock);
+
+      expect(state.customer).toEqual(customer);
+      expect(getActiveTicket(state.queue!)?.customerName).toBe("Robin");
+    });
+
+    it("should throw on invalid actions", () => {
+      const clock = new ManualClock(START);
+      const state = createSession(5, clock);
+
+      expect(() => dispatch(state, { type: "customer_arrives" }, clock)).toThrow(
+        "Customers only arrive during service"
+      );
+      expect(() => dispatch(state, { type: "serve" }, clock)).toThrow("Nothing to serve");
+      expect(() => dispatch(state, { type: "restock" }, clock)).toThrow(/Not enough money/);
+    });
+
+    it("should collect a rating and move reputation when serving", () => {
+      const state = playDay(2024, 3);
+
+      expect(state.ratings?.count).toBe(3);
+      expect(state.ratings?.recent[0].stars).toBeGreaterThanOrEqual(1);
+      expect(state.reputation).not.toBe(50);
+      expect(state.dayState?.targetCustomers).toBe(Math.round(22 * getFootTrafficMultiplier(state.reputation)));
+    });
+
+    it("should book ingredient costs and sales tax into the day's accounts", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(2024, clock), { type: "start_day" }, clock);
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      state = serveCurrentCustomer(state, clock);
+
+      const stats = state.dayState!.stats;
+      expect(stats.cogs).toBeGreaterThan(0);
+      expect(stats.taxCollected).toBeGreaterThan(0);
+      expect(stats.taxCollected!).toBeLessThan(stats.totalEarnings);
+    });
+
+    it("should take the quoted total and a single tip from the rating", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(2024, clock), { type: "start_day" }, clock);
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      const quoted = getActiveTicket(state.queue!)!.quote!.total;
+      const before = state.money;
+      state = serveCurrentCustomer(state, clock);
+
+      const { tip } = state.ratings!.recent.at(-1)!;
+      expect(tip).toBeGreaterThan(0);
+      expect(state.dayState!.stats.totalEarnings).toBe(Number((quoted + tip).toFixed(2)));
+      expect(state.money).toBe(Number((before + quoted + tip).toFixed(2)));
+    });
+
+    it("should only change the menu during prep and price orders from it", () => {
+      const clock = new ManualClock(START);
+      let state = createSession(7, clock);
+      state = dispatch(state, { type: "update_menu", sku: "latte", price: 6 }, clock);
+      state = dispatch(state, { type: "start_day" }, clock);
+
+      expect(state.menu?.drinks.latte.price).toBe(6);
+      expect(() => dispatch(state, { type: "update_menu", sku: "latte", price: 4 }, clock))
+        .toThrow("The menu can only be changed during prep");
+
+      const customer = createCustomerFromProfile(generateCustomerProfile(3, "latte"));
+      state = dispatch(state, { type: "customer_arrives", customer }, clock);
+
+      const quote = getActiveTicket(state.queue!)!.quote!;
+      expect(quote.subtotal).toBe(calculatePriceQuote(customer.items!, state.menu).subtotal);
+      expect(state.customer!.payment).toBe(quote.total);
+    });
+
+    it("should buy fresh bags of beans during prep", () => {
+      const clock = new ManualClock(START);
+      const broke = createSession(7, clock);
+      expect(() => dispatch(broke, { type: "buy_beans", beanId: "kenya_nyeri" }, clock)).toThrow(/Not enough money/);
+
+      let state = dispatch({ ...broke, money: 50 }, { type: "buy_beans", beanId: "kenya_nyeri" }, clock);
+      const bag = state.inventory.beans.find(stock => stock.varietyId === "kenya_nyeri");
+
+      expect(bag?.grams).toBe(500);
+      expect(bag?.roastDate).toBe(new Date(START).toISOString());
+      expect(state.money).toBe(31);
+
+      state = dispatch(state, { type: "start_day" }, clock);
+      expect(() => dispatch(state, { type: "buy_beans", beanId: "kenya_nyeri" }, clock))
+        .toThrow("Beans can only be bought during prep");
+    });
+
+    it("should pay for supplier orders in prep and unload them when they're due", () => {
+      const clock = new ManualClock(START);
+      let state = { ...createSession(8, clock), money: 50 };
+      state = dispatch(state, { type: "place_order", supplierId: "northside_bakery", sku: "food:muffin", quantity: 12 }, clock);
+
+      expect(state.money).toBe(34.4);
+      expect(state.dayState?.stats.restockSpend).toBe(15.6);
+      expect(state.purchaseOrders).toHaveLength(1);
+
+      state = dispatch(state, { type: "start_day" }, clock);
+      expect(() => dispatch(state, { type: "place_order", supplierId: "corner_dairy", sku: "milk:oat", quantity: 1000 }, clock))
+        .toThrow("Orders can only be placed during prep");
+
+      state = dispatch(state, { type: "end_day" }, clock);
+      state = dispatch(state, { type: "next_day" }, clock);
+
+      expect(state.activeEvent).toBeUndefined();
+      expect(state.inventory.food.muffin).toBe(18);
+      expect(state.purchaseOrders).toEqual([]);
+    });
+
+    it("should let staff on shift work orders that queue while the barista is busy", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(11, clock), { type: "hire_staff", candidateId: "priya" }, clock);
+      state = dispatch(state, { type: "set_shift", staffId: "priya", onShift: true }, clock);
+      state = dispatch(
+        { ...state, money: 200, equipment: { ...state.equipment!, brewingStations: 2 } },
+        { type: "start_day" },
+        clock
+      );
+      expect(() => dispatch(state, { type: "set_shift", staffId: "priya", onShift: false }, clock))
+        .toThrow("Staff can only be hired or put on shift during prep");
+
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      const playerCustomer = state.customer;
+      const robin = { name: "Robin", order: "Latte please", drinkType: "latte" as const, payment: 4.5 };
+      state = dispatch(state, { type: "customer_arrives", customer: robin }, clock);
+
+      expect(state.customer).toEqual(playerCustomer);
+      const [ticketId] = Object.keys(state.waitingCustomers!);
+
+      clock.advance(30000);
+      state = dispatch(state, { type: "staff_work" }, clock);
+
+      expect(getTicket(state.queue!, ticketId)?.status).toBe("completed");
+      expect(state.waitingCustomers).toEqual({});
+      expect(state.drinksServed).toBe(1);
+      expect(state.ratings?.recent.at(-1)?.customerName).toBe("Robin");
+      expect(state.staff![0].busyUntil).toBeGreaterThan(clock.now());
+
+      const money = state.money;
+      const closed = dispatch(state, { type: "end_day" }, clock);
+      expect(closed.money).toBe(money - 120);
+      expect(closed.dayState?.stats.wages).toBe(120);
+
+      // A till that can't cover the shift pays out what it has, and the books show just that
+      const short = dispatch({ ...state, money: 45 }, { type: "end_day" }, clock);
+      expect(short.money).toBe(0);
+      expect(short.dayState?.stats.wages).toBe(45);
+    });
+
+    it("should hold queued orders until a station is free and share the espresso machine", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(11, clock), { type: "hire_staff", candidateId: "marcus" }, clock);
+      state = dispatch(state, { type: "set_shift", staffId: "marcus", onShift: true }, clock);
+      state = dispatch(state, { type: "start_day" }, clock);
+
+      // The player's customer has the only station, so Robin's latte waits
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      const robin = { name: "Robin", order: "Latte please", drinkType: "latte" as const, payment: 4.5 };
+      state = dispatch(state, { type: "customer_arrives", customer: robin }, clock);
+      state = dispatch(state, { type: "staff_work" }, clock);
+      expect(Object.keys(state.waitingCustomers!)).toHaveLength(1);
+
+      state = serveCurrentCustomer(state, clock);
+      expect(state.stations?.stations[0].ticketId).toBeNull();
+
+      state = dispatch(state, { type: "staff_work" }, clock);
+      expect(state.waitingCustomers).toEqual({});
+      expect(state.stations?.stations[0].staffId).toBe("marcus");
+
+      // With a second station the player can take Sam, but Marcus's shot is on the only group head
+      state = { ...state, equipment: { ...state.equipment!, brewingStations: 2 } };
+      state = dispatch(state, { type: "customer_arrives", customer: { ...robin, name: "Sam", drinkType: "espresso" } }, clock);
+      expect(() => dispatch(state, { type: "brew", params: getDefaultParameters("espresso") }, clock))
+        .toThrow(/The espresso machine is busy for another \d+s/);
+
+      clock.advance(60000);
+      state = dispatch(state, { type: "brew", params: getDefaultParameters("espresso") }, clock);
+      expect(state.result).not.toBeNull();
+    });
+
+    it("should serve the milk each drink was brewed with, not what the controls show later", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch({ ...createSession(11, clock), activeEvent: undefined }, { type: "start_day" }, clock);
+      const robin = { name: "Robin", order: "Oat latte please", drinkType: "latte" as const, payment: 4.5 };
+      state = dispatch({ ...state, activeEvent: undefined }, { type: "customer_arrives", customer: robin }, clock);
+
+      state = dispatch(state, { type: "brew", params: { ...getDefaultParameters("latte"), milkType: "oat" } }, clock);
+      expect(getActiveTicket(state.queue!)!.items![0].milkType).toBe("oat");
+
+      state = { ...state, brewParams: { ...state.brewParams, milkType: "almond" } };
+      state = dispatch(state, { type: "serve" }, clock);
+      expect(state.customerMemory!.customers.get("Robin")!.visits.at(-1)!.milkType).toBe("oat");
+    });
+
+    it("should not hold the player's next drink behind their own shot", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch({ ...createSession(11, clock), activeEvent: undefined }, { type: "start_day" }, clock);
+      const pair = {
+        name: "Robin",
+        order: "Two lattes please",
+        drinkType: "latte" as const,
+        items: [{ type: "drink" as const, sku: "latte" as const, quantity: 2 }],
+        payment: 9,
+      };
+      state = dispatch({ ...state, activeEvent: undefined }, { type: "customer_arrives", customer: pair }, clock);
+
+      state = dispatch(state, { type: "brew", params: getDefaultParameters("latte") }, clock);
+      state = dispatch(state, { type: "next_item" }, clock);
+      state = dispatch(state, { type: "brew", params: getDefaultParameters("latte") }, clock);
+      expect(state.result).not.toBeNull();
+    });
+
+    it("should bring customers in on their own as the day's clock runs", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(4, clock), { type: "start_day" }, clock);
+      const firstArrival = state.nextArrivalAt!;
+      expect(firstArrival).toBeGreaterThan(START);
+
+      clock.set(firstArrival - 1);
+      state = dispatch(state, { type: "tick" }, clock);
+      expect(state.customer).toBeNull();
+
+      clock.set(firstArrival);
+      state = dispatch(state, { type: "tick" }, clock);
+      expect(state.customer).not.toBeNull();
+      expect(getActiveTicket(state.queue!)?.createdAt).toBe(firstArrival);
+      expect(state.nextArrivalAt).toBeGreaterThan(firstArrival);
+
+      // With the player busy and nobody on shift, the next customer waits for the player
+      clock.set(state.nextArrivalAt!);
+      state = dispatch(state, { type: "tick" }, clock);
+      const [waitingId] = Object.keys(state.waitingCustomers!);
+      expect(waitingId).toBeDefined();
+      expect(() => dispatch(state, { type: "take_ticket" }, clock)).toThrow("Finish with your current customer first");
+
+      state = serveCurrentCustomer(state, clock);
+      state = dispatch(state, { type: "take_ticket" }, clock);
+      expect(state.queue!.activeTicketId).toBe(waitingId);
+      expect(state.waitingCustomers).toEqual({});
+
+      state = dispatch(state, { type: "end_day" }, clock);
+      expect(state.nextArrivalAt).toBeNull();
+    });
+
+    it("should let queued customers walk out once their patience runs out", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(11, clock), { type: "hire_staff", candidateId: "jun" }, clock);
+      state = dispatch(state, { type: "set_shift", staffId: "jun", onShift: true }, clock);
+      state = dispatch(state, { type: "start_day" }, clock);
+
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      const robin = { name: "Robin", order: "Latte please", drinkType: "latte" as const, payment: 4.5, mood: "stressed" as const };
+      state = dispatch(state, { type: "customer_arrives", customer: robin }, clock);
+      const [ticketId] = Object.keys(state.waitingCustomers!);
+      const reputation = state.reputation!;
+
+      clock.advance(60000);
+      state = dispatch(state, { type: "check_patience" }, clock);
+      expect(Object.keys(state.waitingCustomers!)).toEqual([ticketId]);
+
+      clock.advance(150000);
+      state = dispatch(state, { type: "check_patience" }, clock);
+
+      expect(state.waitingCustomers).toEqual({});
+      expect(getTicket(state.queue!, ticketId)?.status).toBe("cancelled");
+      expect(state.dayState?.stats.walkOuts).toBe(1);
+      expect(state.ratings?.recent.at(-1)).toMatchObject({ customerName: "Robin", stars: 1, reasons: ["Gave up waiting"] });
+      expect(state.reputation).toBeLessThan(reputation);
+    });
+
+    it("should put event choices to the player and follow up on risky ones", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch({ ...createSession(4, clock), money: 100 }, { type: "start_day" }, clock);
+      state = dispatch(state, { type: "dismiss_event" }, clock);
+
+      const grinder = EVENTS.find(event => event.id === "grinder_malfunction")!;
+      const pending: GameState = { ...applyEventEffects(state, grinder, clock), activeEvent: grinder };
+      expect(() => dispatch(pending, { type: "dismiss_event" }, clock)).toThrow('Choose what to do about "Grinder Trouble" first');
+      expect(() => dispatch(pending, { type: "choose_event_option", choiceId: "ignore" }, clock)).toThrow();
+
+      const repaired = dispatch(pending, { type: "choose_event_option", choiceId: "repair" }, clock);
+      expect(repaired.activeEvent).toBeUndefined();
+      expect(repaired.money).toBe(pending.money - 30);
+      expect(repaired.dayState?.stats.eventMoney).toBe((pending.dayState?.stats.eventMoney || 0) - 30);
+      expect(repaired.eventsHistory?.at(-1)).toMatchObject({ eventId: "grinder_malfunction", choice: "repair" });
+      expect(repaired.scheduledEvents).toBeUndefined();
+
+      // Trusting the quick fix comes back to bite the next morning when the roll goes against it
+      state = { ...resolveEventChoice(pending, grinder, "quick_fix", { next: () => 0 }), activeEvent: undefined };
+      expect(state.scheduledEvents).toEqual([{ eventId: "grinder_failure", day: 2 }]);
+
+      state = dispatch(state, { type: "end_day" }, clock);
+      state = dispatch(state, { type: "next_day" }, clock);
+      state = dispatch(state, { type: "start_day" }, clock);
+      expect(state.activeEvent?.id).toBe("grinder_failure");
+      expect(state.scheduledEvents).toEqual([]);
+    });
+
+    it("should still collect rent when a follow-up falls due on rent day, and run the follow-up next", () => {
+      const clock = new ManualClock(START);
+      const session = createSession(4, clock);
+      let state: GameState = {
+        ...session,
+        money: 1000,
+        dayState: { ...session.dayState!, dayNumber: 7 },
+        scheduledEvents: [{ eventId: "catering_repeat", day: 7 }],
+      };
+
+      state = dispatch(state, { type: "start_day" }, clock);
+      expect(state.activeEvent?.id).toBe("rent_due");
+      expect(state.money).toBe(500);
+      expect(state.scheduledEvents).toEqual([{ eventId: "catering_repeat", day: 7 }]);
+
+      state = dispatch(state, { type: "dismiss_event" }, clock);
+      state = dispatch(dispatch(state, { type: "end_day" }, clock), { type: "next_day" }, clock);
+      state = dispatch(state, { type: "start_day" }, clock);
+      expect(state.activeEvent?.id).toBe("catering_repeat");
+      expect(state.scheduledEvents).toEqual([]);
+    });
+
+    it("should train the barista in prep and let every brew build proficiency", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch({ ...createSession(3, clock), money: 100 }, { type: "train_barista", category: "immersion" }, clock);
+
+      expect(state.money).toBe(70);
+      expect(state.proficiency?.xp.immersion).toBe(12);
+      expect(state.dayState?.stats.training).toBe(30);
+      expect(() => dispatch(state, { type: "train_barista", category: "pour-over" }, clock))
+        .toThrow("You've already trained today");
+
+      state = dispatch(state, { type: "start_day" }, clock);
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      state = serveCurrentCustomer(state, clock);
+
+      const brewed = Object.values(state.proficiency!.brewedByType).reduce((sum, count) => sum + count, 0);
+      expect(brewed).toBe(Object.values(state.dayState!.stats.drinksBrewedByType).reduce((sum, count) => sum + count, 0));
+    });
+
+    it("should throw out spoiled stock overnight and book it as waste", () => {
+      const clock = new ManualClock(START);
+      let state = dispatch(createSession(7, clock), { type: "start_day" }, clock);
+      state = dispatch(state, { type: "end_day" }, clock);
+
+      clock.set(START + 2 * 24 * 60 * 60 * 1000);
+      state = dispatch(state, { type: "next_day" }, clock);
+
+      expect(state.inventory.food.croissant).toBe(0);
+      expect(state.dayState?.stats.waste).toBe(getFoodCost("croissant", 10));
+    });
+
+    it("should require a session", () => {
+      expect(() => dispatch(createInitialState(), { type: "start_day" })).toThrow(/no session/);
+    });
+  });
+
+  describe("replaySession", () => {
+    it("should produce identical days from the same seed", () => {
+      expect(playDay(2024, 5)).toEqual(playDay(2024, 5));
+    });
+
+    it("should reproduce the exact game state from the action log", () => {
+      const original = playDay(31337, 6);
+      const replayed = replaySession(exportSessionLog(original));
+
+      expect(original.drinksServed).toBe(6);
+      expect(replayed).toEqual(original);
+    });
+
+    it("should replay an exported log after a JSON round trip", () => {
+      const original = playDay(8, 3);
+      const log = JSON.parse(JSON.stringify(exportSessionLog(original)));
+
+      expect(replaySession(log)).toEqual(original);
+    });
+  });
+
+  describe("day checkpoints", () => {
+    it("should start each day's log afresh from a checkpoint", () => {
+      const state = playDay(31337, 3);
+      const checkpoint = state.session!.checkpoint!;
+
+      expect(state.session!.log).toEqual([]);
+      expect(checkpoint.rngState).toBe(state.session!.rngState);
+      expect(checkpoint.state).toEqual({ ...state, session: undefined });
+    });
+
+    it("should replay a later day from its checkpoint, after a JSON round trip", () => {
+      const clock = new ManualClock(START);
+      let state = playOn(createSession(31337, clock), 3, clock);
+      clock.advance(60000);
+      state = dispatch(state, { type: "start_day" }, clock);
+      clock.advance(90000);
+      state = serveCurrentCustomer(dispatch(state, { type: "customer_arrives" }, clock), clock);
+      const log = JSON.parse(JSON.stringify(exportSessionLog(state)));
+
+      expect(state.session!.log[0].action).toEqual({ type: "start_day" });
+      expect(state.drinksServed).toBeGreaterThan(3);
+      expect(replaySession(log)).toEqual(state);
+    });
+
+    it("should keep saves from growing with every day played", () => {
+      const clock = new ManualClock(START);
+      let state = createSession(5, clock);
+      const saveSizes: number[] = [];
+      const logSizes: number[] = [];
+      let finishedTickets = 0;
+
+      for (let day = 1; day <= 10; day++) {
+        state = dispatch({ ...state, money: 500 }, { type: "restock" }, clock);
+        state = dispatch(state, { type: "start_day" }, clock);
+        for (let i = 0; i < 8; i++) {
+          clock.advance(90000);
+          state = dispatch(state, { type: "customer_arrives" }, clock);
+          // The game checks patience and the clock every few seconds, all logged
+          for (let tick = 0; tick < 20; tick++) {
+            clock.advance(5000);
+            state = dispatch(dispatch(state, { type: "check_patience" }, clock), { type: "tick" }, clock);
+          }
+          state = serveCurrentCustomer(state, clock);
+        }
+        logSizes.push(JSON.stringify(state.session!.log).length);
+        state = dispatch(dispatch(state, { type: "end_day" }, clock), { type: "next_day" }, clock);
+        finishedTickets = Math.max(finishedTickets, state.queue!.tickets.length);
+
+        const saved = JSON.stringify(serializeGameState(state));
+        saveSizes.push(saved.length);
+        state = deserializeGameState(JSON.parse(saved));
+        clock.advance(12 * 60 * 60 * 1000);
+      }
+
+      // A day's log is about the same size every day, and goes once the day is over
+      expect(Math.max(...logSizes)).toBeLessThan(Math.min(...logSizes) * 1.5);
+      expect(finishedTickets).toBe(0);
+      // Once the review window has filled, a day adds far less to the save than its log did
+      const perDay = (saveSizes[9] - saveSizes[7]) / 2;
+      expect(perDay).toBeLessThan(logSizes[9] / 2);
+    });
+  });
+
+  describe("injectable randomness", () => {
+    it("should make event rolls follow the supplied RNG", () => {
+      const state = createSession(1, new ManualClock(START));
+
+      // Day one always opens with the grand opening
+      expect(checkForEvent(state, "start_day", new SeededRandom(1))?.id).toBe("grand_opening");
+      expect(checkForEvent(state, "random_service", { next: () => 0.999 })).toBeNull();
+    });
+
+    it("should make satisfaction follow the supplied RNG", () => {
+      const low = completeOrder({ ticket_id: "t", drink_quality: 92 }, { next: () => 0 });
+      const high = completeOrder({ ticket_id: "t", drink_quality: 92 }, { next: () => 0.99 });
+
+      expect(low.customerSatisfaction).toBe(95);
+      expect(high.customerSatisfaction).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,1260 @@
+/**
+ * Game Sessions - Seeded, Replayable Play
+ *
+ * Every player action goes through dispatch(), which applies it to GameState
+ * using the session's seeded RNG and records it in the action log. Replaying
+ * the log from the same seed reproduces the exact same GameState, which is
+ * how player bug reports and balance regressions are reproduced headlessly.
+ *
+ * Customers generated by the LLM are recorded in full on their action, so a
+ * replay never needs the network.
+ */
+
+import type {
+  BrewParameters,
+  Customer,
+  DrinkType,
+  GameAction,
+  GameEvent,
+  GameState,
+  LoggedAction,
+  OrderTicket,
+  Menu,
+  MilkType,
+  SessionInfo,
+  StaffMember,
+  TicketLineItem,
+} from "./types";
+import { calculatePriceQuote, type OrderItem } from "./pricing";
+import { getModifierFactor, getQualityShift, getOutage, pruneModifiers } from "./event-modifiers";
+import { GAME_MINUTES_PER_SECOND } from "./time-system";
+import {
+  brewDrink,
+  createInitialState,
+  getDefaultParameters,
+} from "./game-engine";
+import {
+  checkStock,
+  depleteStock,
+  checkFoodStock,
+  depleteFood,
+  getStockCost,
+  getFoodCost,
+  getBrewingBag,
+  addStock,
+  spoilStock,
+} from "./inventory";
+import {
+  BEAN_CATALOG,
+  BEAN_BAG_GRAMS,
+  getBagVariety,
+  getBeanAgeDays,
+  getFreshness,
+  getBeanComment,
+  usesBeans,
+  type BeanUse,
+} from "./beans";
+import {
+  addTicket,
+  startTicket,
+  completeTicket,
+  cancelTicket,
+  getActiveTicket,
+  getNextTicket,
+  getTicket,
+  getTicketItems,
+  getNextTicketItem,
+  completeTicketItem,
+  getTicketQuality,
+  replaceTicket,
+  recordTicketItemMilk,
+  getTicketMilk,
+  clearCompleted,
+} from "./ticketing";
+import { buildTicket, completeOrder, checkAllergens } from "./function-calling";
+import {
+  isReturningCustomer,
+  getCustomer,
+  recordVisit,
+  noteWalkOut,
+  rememberFact,
+  condenseMemory,
+  setCustomerSummary,
+} from "./customer-memory";
+import { getConversation, addExchange, reviseOrder, recordUpsell, adjustSatisfaction } from "./conversation";
+import {
+  startService,
+  endService,
+  startNewDay,
+  recordCustomer,
+  recordWalkOut,
+  recordTransaction,
+  restockInventory,
+  getRestockCost,
+} from "./day-structure";
+import { purchaseEquipment } from "./equipment";
+import { checkForEvent, applyEventEffects, isAwaitingChoice, resolveEventChoice } from "./events";
+import { validateSpawn } from "./game-master";
+import { createReview, addReview, setReviewText, pruneReviews } from "./reviews";
+import {
+  generateCustomerProfile,
+  createCustomerFromProfile,
+  getArchetype,
+  calculateOrderPayment,
+  getMenuDemandMultiplier,
+  type OrderInfluences,
+} from "./customer-generator";
+import { createDefaultMenu, updateMenuItem } from "./menu";
+import { createPurchaseOrder, receiveDeliveries } from "./suppliers";
+import {
+  hireStaff,
+  fireStaff,
+  assignShift,
+  getOnShift,
+  getDailyWages,
+  isAvailable,
+  getStaffSkill,
+  getStaffSpeedFactor,
+  getStaffFriendliness,
+  chooseBrewParameters,
+} from "./staff";
+import { TRAINING_COURSES, recordBrew, trainBarista } from "./proficiency";
+import {
+  syncStations,
+  getFreeStation,
+  claimStation,
+  releaseStation,
+  releaseFinished,
+  clearStations,
+  scheduleTicket,
+  getResourceWait,
+  bookPlayerBrew,
+} from "./stations";
+import { scheduleNextArrival } from "./arrivals";
+import { WALK_OUT_STARS, WALK_OUT_REASON, hasRunOutOfPatience } from "./patience";
+import {
+  DEFAULT_REPUTATION,
+  rateVisit,
+  addRating,
+  applyRating,
+  calculateTip,
+  getFootTrafficMultiplier,
+} from "./reputation";
+import { SeededRandom, ManualClock, systemClock, type Clock } from "./random";
+import { serializeCheckpoint, deserializeCheckpoint, type SerializedCheckpoint } from "./persistence";
+
+export type { GameAction, LoggedAction, SessionInfo } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SessionLog {
+  seed: number;
+  startedAt: number;
+  checkpoint?: SerializedCheckpoint; // Start of the current day, once there's been more than one
+  actions: LoggedAction[];
+}
+
+// A finished order being handed over (see settleVisit)
+interface Visit {
+  customer: Customer;
+  ticketId: string;
+  quality: number;
+  drinks: string[];
+  waitSeconds: number;
+  subtotal: number;
+  tax: number;
+  milkType?: MilkType;
+  friendliness?: number; // Set when staff served them
+  rapport?: number; // Set when they chatted with the player
+  upsells?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_SEED = 4294967296; // LCG modulus
+
+// ============================================================================
+// SESSION CREATION
+// ============================================================================
+
+/**
+ * Pick a fresh seed for a new session
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Start a new game with a session seed
+ */
+export function createSession(seed: number, clock: Clock = systemClock): GameState {
+  return {
+    ...createInitialState(clock),
+    session: {
+      seed,
+      rngState: seed,
+      startedAt: clock.now(),
+      log: [],
+    },
+  };
+}
+
+/**
+ * Attach a session to a state that predates sessions (e.g. an old save)
+ * Future randomness is seeded, but the log can only replay from this point on a new game
+ */
+export function ensureSession(state: GameState, seed: number, clock: Clock = systemClock): GameState {
+  if (state.session) return state;
+
+  return {
+    ...state,
+    session: {
+      seed,
+      rngState: seed,
+      startedAt: clock.now(),
+      log: [],
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Brew parameters for a ticket line (modifiers are left for the barista to read off the ticket)
+ */
+export function getParamsForLine(line: TicketLineItem | null, fallback: DrinkType): BrewParameters {
+  if (!line || line.item.type !== "drink") return getDefaultParameters(fallback);
+
+  return getDefaultParameters(line.item.sku);
+}
+
+/**
+ * Customers expected today once the menu's prices are taken into account
+ */
+export function getExpectedCustomers(state: GameState): number {
+  const target = state.dayState?.targetCustomers ?? 0;
+  return Math.max(1, Math.round(target * getMenuDemandMultiplier(state.menu)));
+}
+
+/**
+ * The ticket line currently being worked on, if any
+ */
+function getCurrentLine(state: GameState): TicketLineItem | null {
+  const ticket = state.queue ? getActiveTicket(state.queue) : null;
+  return ticket ? getNextTicketItem(ticket) : null;
+}
+
+/**
+ * Generate a customer from the session RNG (used when no LLM customer is supplied)
+ */
+function generateSessionCustomer(
+  rng: SeededRandom,
+  reputation?: number,
+  menu?: Menu,
+  influences?: OrderInfluences
+): Customer {
+  const profile = generateCustomerProfile(rng.nextInt(0, MAX_SEED), undefined, reputation, menu, influences);
+  return createCustomerFromProfile(profile, undefined, menu);
+}
+
+/**
+ * Price a customer's order and ticket at the cafe's menu prices, so what they
+ * pay always matches the quote (customers from the API were priced elsewhere)
+ * Events can mark every price up or down (the price factor)
+ */
+function priceAtMenu(
+  customer: Customer,
+  ticket: OrderTicket,
+  menu?: Menu,
+  priceFactor = 1
+): { customer: Customer; ticket: OrderTicket } {
+  const ticketItems = ticket.items ? ticket.items.map(line => line.item) : customer.items;
+
+  return {
+    customer: customer.items && customer.budget !== undefined
+      ? { ...customer, payment: calculateOrderPayment(customer.items, menu, priceFactor) }
+      : customer,
+    ticket: ticketItems ? { ...ticket, quote: calculatePriceQuote(ticketItems, menu, priceFactor) } : ticket,
+  };
+}
+
+/**
+ * The bean a drink will be brewed with and how fresh it is right now
+ */
+function getBeanUse(state: GameState, params: BrewParameters, clock: Clock): BeanUse | undefined {
+  const bag = getBrewingBag(state.inventory, params);
+  if (!bag) return undefined;
+
+  return {
+    variety: getBagVariety(bag),
+    freshness: getFreshness(getBeanAgeDays(bag.roastDate, clock.now())),
+  };
+}
+
+/**
+ * Apply an event and book any money it moved
+ */
+function triggerEvent(state: GameState, event: GameEvent, clock: Clock): GameState {
+  const newState = bookEventMoney(state, applyEventEffects(state, event, clock), event);
+  newState.activeEvent = event;
+  return newState;
+}
+
+/**
+ * Book the money an event or one of its choices moved (rent separately from other events)
+ */
+function bookEventMoney(before: GameState, after: GameState, event: GameEvent): GameState {
+  const moneyMoved = after.money - before.money;
+  if (moneyMoved === 0 || !after.dayState) return after;
+
+  return {
+    ...after,
+    dayState: event.id === "rent_due"
+      ? recordTransaction(after.dayState, "rent", -moneyMoved)
+      : recordTransaction(after.dayState, "eventMoney", moneyMoved),
+  };
+}
+
+// ============================================================================
+// ACTION HANDLERS
+// ============================================================================
+
+function applyAction(
+  state: GameState,
+  action: GameAction,
+  rng: SeededRandom,
+  clock: Clock
+): GameState {
+  switch (action.type) {
+    case "start_day": {
+      if (!state.dayState) return state;
+
+      // No new event while the player still has one to decide on
+      const event = isAwaitingChoice(state) ? null : checkForEvent(state, "start_day", rng, clock);
+
+      // Menu prices decide how many of the expected customers actually come in
+      const newState: GameState = {
+        ...state,
+        dayState: startService({
+          ...state.dayState,
+          targetCustomers: getExpectedCustomers(state),
+        }, clock),
+      };
+
+      // The first customer is scheduled once the day's weather and news are known
+      const opened = event ? triggerEvent(newState, event, clock) : newState;
+      return { ...opened, nextArrivalAt: scheduleNextArrival(opened, clock.now(), rng) };
+    }
+
+    case "end_day": {
+      if (!state.dayState) return state;
+
+      // Staff on shift are paid at close, as far as the till covers it; anyone still waiting for them leaves
+      const wages = Math.min(getDailyWages(state.staff), Math.max(0, state.money));
+      const waiting = Object.keys(state.waitingCustomers || {});
+      return {
+        ...state,
+        money: state.money - wages,
+        dayState: endService(state.dayState, clock, wages),
+        // Long visit histories are condensed overnight (the LLM may rewrite their summaries, see summarize_customer)
+        customerMemory: state.customerMemory ? condenseMemory(state.customerMemory) : state.customerMemory,
+        queue: state.queue ? waiting.reduce(cancelTicket, state.queue) : state.queue,
+        waitingCustomers: state.waitingCustomers ? {} : undefined,
+        stations: state.stations ? clearStations(state.stations) : state.stations,
+        nextArrivalAt: null,
+      };
+    }
+
+    case "next_day": {
+      if (!state.dayState) return state;
+
+      // Milk and pastries past their expiry are thrown out overnight and booked as the new day's waste
+      const spoilage = spoilStock(state.inventory, clock.now());
+      const dayState = startNewDay(state.dayState, getFootTrafficMultiplier(state.reputation));
+
+      // Modifiers that have run their course are dropped, and so are yesterday's finished tickets and old reviews
+      let newState: GameState = {
+        ...pruneModifiers({ ...state, dayState }, clock.now()),
+        inventory: spoilage.inventory,
+        dayState: spoilage.cost > 0 ? recordTransaction(dayState, "waste", spoilage.cost) : dayState,
+        queue: state.queue ? clearCompleted(state.queue) : state.queue,
+        reviews: pruneReviews(state.reviews, dayState.dayNumber),
+        customer: null,
+        result: null,
+        activeEvent: undefined,
+      };
+      if (!newState.purchaseOrders) return newState;
+
+      // Deliveries can run late or short, then whatever is still due this morning is unloaded
+      const event = checkForEvent(newState, "delivery", rng, clock);
+      if (event) newState = triggerEvent(newState, event, clock);
+
+      const deliveries = receiveDeliveries(
+        newState.inventory,
+        newState.purchaseOrders!,
+        dayState.dayNumber,
+        clock.now()
+      );
+      return { ...newState, inventory: deliveries.inventory, purchaseOrders: deliveries.orders };
+    }
+
+    case "place_order": {
+      if (state.dayState && state.dayState.phase !== "prep") {
+        throw new Error("Orders can only be placed during prep");
+      }
+
+      const orders = state.purchaseOrders || [];
+      const order = createPurchaseOrder(
+        orders,
+        action.supplierId,
+        action.sku,
+        action.quantity,
+        state.dayState?.dayNumber || 1
+      );
+      if (state.money < order.cost) {
+        throw new Error(`Not enough money! This order costs $${order.cost.toFixed(2)}`);
+      }
+
+      return {
+        ...state,
+        money: state.money - order.cost,
+        purchaseOrders: [...orders, order],
+        dayState: state.dayState ? recordTransaction(state.dayState, "restockSpend", order.cost) : state.dayState,
+      };
+    }
+
+    case "hire_staff":
+    case "fire_staff":
+    case "set_shift": {
+      if (state.dayState && state.dayState.phase !== "prep") {
+        throw new Error("Staff can only be hired or put on shift during prep");
+      }
+
+      const staff = state.staff || [];
+      if (action.type === "hire_staff") return { ...state, staff: hireStaff(staff, action.candidateId) };
+      if (action.type === "fire_staff") return { ...state, staff: fireStaff(staff, action.staffId) };
+      return { ...state, staff: assignShift(staff, action.staffId, action.onShift) };
+    }
+
+    case "train_barista": {
+      if (state.dayState && state.dayState.phase !== "prep") {
+        throw new Error("Training can only happen during prep");
+      }
+
+      const course = TRAINING_COURSES[action.category];
+      const proficiency = trainBarista(state.proficiency, action.category, state.dayState?.dayNumber || 1);
+      if (state.money < course.cost) {
+        throw new Error(`Not enough money! ${course.name} costs $${course.cost.toFixed(2)}`);
+      }
+
+      return {
+        ...state,
+        money: state.money - course.cost,
+        proficiency,
+        dayState: state.dayState ? recordTransaction(state.dayState, "training", course.cost) : state.dayState,
+      };
+    }
+
+    case "restock": {
+      const dayNumber = state.dayState?.dayNumber || 1;
+      const cost = getRestockCost(dayNumber);
+      if (state.money < cost) {
+        throw new Error(`Not enough money! Restock costs $${cost.toFixed(2)}`);
+      }
+
+      return {
+        ...state,
+        money: state.money - cost,
+        inventory: restockInventory(state.inventory, dayNumber, clock),
+        dayState: state.dayState ? recordTransaction(state.dayState, "restockSpend", cost) : state.dayState,
+      };
+    }
+
+    case "update_menu": {
+      if (state.dayState && state.dayState.phase !== "prep") {
+        throw new Error("The menu can only be changed during prep");
+      }
+
+      return {
+        ...state,
+        menu: updateMenuItem(state.menu ?? createDefaultMenu(), action.sku, {
+          enabled: action.enabled,
+          price: action.price,
+        }),
+      };
+    }
+
+    case "buy_beans": {
+      if (state.dayState && state.dayState.phase !== "prep") {
+        throw new Error("Beans can only be bought during prep");
+      }
+
+      const variety = BEAN_CATALOG[action.beanId];
+      if (!variety) {
+        throw new Error(`Unknown bean: ${action.beanId}`);
+      }
+
+      const grams = action.grams ?? BEAN_BAG_GRAMS;
+      const cost = Math.round(grams * variety.costPerGram * 100) / 100;
+      if (state.money < cost) {
+        throw new Error(`Not enough money! ${variety.name} costs $${cost.toFixed(2)}`);
+      }
+
+      return {
+        ...state,
+        money: state.money - cost,
+        inventory: addStock(state.inventory, "beans", {
+          varietyId: variety.id,
+          amount: grams,
+          roastDate: new Date(clock.now()).toISOString(),
+        }),
+        dayState: state.dayState ? recordTransaction(state.dayState, "restockSpend", cost) : state.dayState,
+      };
+    }
+
+    case "purchase_equipment": {
+      if (!state.equipment) return state;
+
+      const result = purchaseEquipment(state.equipment, state.money, action.itemId);
+      if (!result.success || !result.newEquipment || result.newMoney === undefined) {
+        throw new Error(result.message);
+      }
+
+      return {
+        ...state,
+        equipment: result.newEquipment,
+        money: result.newMoney,
+        stations: syncStations(state.stations, result.newEquipment),
+      };
+    }
+
+    case "customer_arrives": {
+      if (state.dayState && state.dayState.phase !== "service") {
+        throw new Error("Customers only arrive during service");
+      }
+
+      return admitCustomer(state, action.customer, action.ticket, rng, clock);
+    }
+
+    case "take_ticket": {
+      if (state.customer) {
+        throw new Error("Finish with your current customer first");
+      }
+
+      const ticket = state.queue
+        ? action.ticketId ? getTicket(state.queue, action.ticketId) : getNextTicket(state.queue)
+        : null;
+      const customer = ticket ? state.waitingCustomers?.[ticket.id] : undefined;
+      if (!state.queue || !ticket || ticket.status !== "pending" || !customer) {
+        throw new Error("Nobody is waiting on that order");
+      }
+
+      const stations = releaseStation(
+        releaseFinished(syncStations(state.stations, state.equipment), clock.now()),
+        state.queue.activeTicketId
+      );
+      if (!getFreeStation(stations)) {
+        throw new Error("Every station is busy");
+      }
+
+      const waitingCustomers = { ...state.waitingCustomers };
+      delete waitingCustomers[ticket.id];
+      return startPlayerTicket({ ...state, waitingCustomers, stations }, customer, ticket, state.queue);
+    }
+
+    case "tick": {
+      if (state.dayState && state.dayState.phase !== "service") {
+        throw new Error("The clock only runs during service");
+      }
+
+      // Everyone due by now walks in at the time they were due, then anyone who has waited too long leaves
+      let newState = state;
+      while (newState.nextArrivalAt != null && newState.nextArrivalAt <= clock.now()) {
+        const arrivedAt = new ManualClock(newState.nextArrivalAt);
+        newState = admitCustomer(newState, undefined, undefined, rng, arrivedAt);
+        newState = { ...newState, nextArrivalAt: scheduleNextArrival(newState, arrivedAt.now(), rng) };
+      }
+      return sendOffImpatient(newState, clock);
+    }
+
+    case "brew": {
+      if (!state.customer) {
+        throw new Error("No customer to brew for");
+      }
+
+      const line = getCurrentLine(state);
+      if (line?.item.type === "food") {
+        throw new Error("Current item is food; plate it instead");
+      }
+      const drinkType = line?.item.type === "drink" ? line.item.sku : state.customer.drinkType;
+      const orderedModifiers = line?.item.type === "drink" ? line.item.modifiers ?? {} : undefined;
+
+      const stockCheck = checkStock(state.inventory, drinkType, action.params);
+      if (!stockCheck.available) {
+        throw new Error(`Out of stock: ${stockCheck.missing.join(", ")}`);
+      }
+
+      // Staff tickets may have every group head or steam wand in use
+      const iced = orderedModifiers?.temp === "iced";
+      const stations = syncStations(state.stations, state.equipment);
+      const wait = getResourceWait(stations, drinkType, iced, state.equipment, clock.now());
+      if (wait && getOutage(state, wait.resource, clock.now())) {
+        const minutes = Math.ceil(wait.seconds * GAME_MINUTES_PER_SECOND);
+        throw new Error(`The ${wait.resource} is out of action for another ${minutes} minutes`);
+      }
+      if (wait) {
+        throw new Error(`The ${wait.resource} is busy for another ${wait.seconds}s`);
+      }
+
+      // Bean-savvy customers taste which beans went into their coffee
+      const bean = getBeanUse(state, action.params, clock);
+      const result = brewDrink(drinkType, action.params, {
+        equipment: state.equipment,
+        modifiers: orderedModifiers,
+        bean,
+        proficiency: state.proficiency,
+        qualityShift: getQualityShift(state, clock.now()),
+      });
+      const favoriteRoast = getArchetype(state.customer.archetype)?.favoriteRoast;
+      if (bean && favoriteRoast && usesBeans(drinkType)) {
+        result.beanComment = getBeanComment(bean, favoriteRoast);
+      }
+
+      // The line keeps the milk it was made with, whatever the brew controls show by the time it's served
+      const ticketId = state.queue?.activeTicketId;
+      const queue = state.queue && ticketId && line
+        ? recordTicketItemMilk(state.queue, ticketId, line.id, action.params.milkType)
+        : state.queue;
+
+      return {
+        ...state,
+        brewParams: action.params,
+        result,
+        queue,
+        proficiency: recordBrew(state.proficiency, drinkType, result.quality),
+        stations: bookPlayerBrew(stations, drinkType, iced, state.equipment, clock.now() - action.params.brewTime * 1000),
+        inventory: depleteStock(state.inventory, drinkType, action.params),
+        dayState: state.dayState
+          ? recordTransaction(state.dayState, "cogs", getStockCost(drinkType, action.params))
+          : state.dayState,
+      };
+    }
+
+    case "plate_food": {
+      const ticket = state.queue ? getActiveTicket(state.queue) : null;
+      const line = getCurrentLine(state);
+      if (!state.queue || !ticket || !line || line.item.type !== "food") {
+        throw new Error("No food item to plate");
+      }
+
+      const food = line.item.sku;
+      const stockCheck = checkFoodStock(state.inventory, food);
+      if (!stockCheck.available) {
+        throw new Error(`Out of stock: ${stockCheck.missing.join(", ")}`);
+      }
+
+      const queue = completeTicketItem(state.queue, ticket.id, line.id, 100);
+      const updatedTicket = getActiveTicket(queue);
+
+      return {
+        ...state,
+        inventory: depleteFood(state.inventory, food),
+        dayState: state.dayState ? recordTransaction(state.dayState, "cogs", getFoodCost(food)) : state.dayState,
+        queue,
+        brewParams: getParamsForLine(
+          updatedTicket ? getNextTicketItem(updatedTicket) : null,
+          state.customer?.drinkType || "espresso"
+        ),
+      };
+    }
+
+    case "next_item": {
+      const ticket = state.queue ? getActiveTicket(state.queue) : null;
+      const line = getCurrentLine(state);
+      if (!state.queue || !state.result || !ticket || !line) {
+        throw new Error("Nothing brewed to set aside");
+      }
+
+      const queue = completeTicketItem(state.queue, ticket.id, line.id, state.result.quality);
+      const updatedTicket = getActiveTicket(queue);
+
+      return {
+        ...state,
+        result: null,
+        queue,
+        brewParams: getParamsForLine(
+          updatedTicket ? getNextTicketItem(updatedTicket) : null,
+          state.customer?.drinkType || "espresso"
+        ),
+      };
+    }
+
+    case "serve":
+      return serveCustomer(state, rng, clock);
+
+    case "turn_away": {
+      if (!state.customer) {
+        throw new Error("No customer to turn away");
+      }
+
+      const ticketId = state.queue?.activeTicketId;
+      return {
+        ...state,
+        customer: null,
+        result: null,
+        conversation: undefined,
+        queue: state.queue && ticketId ? cancelTicket(state.queue, ticketId) : state.queue,
+        stations: state.stations ? releaseStation(state.stations, ticketId) : state.stations,
+      };
+    }
+
+    case "staff_work": {
+      if (state.dayState && state.dayState.phase !== "service") {
+        throw new Error("Staff only work during service");
+      }
+
+      // Each free member of staff takes the next ticket in the queue to a free station
+      // (once anyone who has given up waiting has left)
+      let newState = sendOffImpatient(state, clock);
+      newState = {
+        ...newState,
+        stations: releaseFinished(syncStations(newState.stations, newState.equipment), clock.now()),
+      };
+      for (const member of getOnShift(state.staff)) {
+        const ticket = newState.queue ? getNextTicket(newState.queue) : null;
+        if (!ticket || !getFreeStation(newState.stations!)) break;
+        if (!isAvailable(member, clock.now())) continue;
+        newState = staffWorkTicket(newState, member, ticket, rng, clock);
+      }
+      return newState;
+    }
+
+    case "check_patience": {
+      if (state.dayState && state.dayState.phase !== "service") {
+        throw new Error("Customers only wait during service");
+      }
+
+      return sendOffImpatient(state, clock);
+    }
+
+    case "dismiss_event": {
+      if (isAwaitingChoice(state)) {
+        throw new Error(`Choose what to do about "${state.activeEvent!.title}" first`);
+      }
+
+      return { ...state, activeEvent: undefined };
+    }
+
+    case "choose_event_option": {
+      const event = state.activeEvent;
+      if (!event || !isAwaitingChoice(state)) {
+        throw new Error("There's no decision to make right now");
+      }
+
+      const chosen = bookEventMoney(state, resolveEventChoice(state, event, action.choiceId, rng, clock), event);
+      return { ...chosen, activeEvent: undefined };
+    }
+
+    case "spawn_event": {
+      // The game master's pick goes through the same rules as any other event
+      const event = validateSpawn(state, action.eventId);
+      const spawned = triggerEvent(state, event, clock);
+
+      const history = spawned.eventsHistory || [];
+      const entry = { ...history[history.length - 1], spawnedBy: "game_master" as const, reason: action.reason };
+      return { ...spawned, eventsHistory: [...history.slice(0, -1), entry] };
+    }
+
+    case "post_review":
+      return { ...state, reviews: setReviewText(state.reviews, action.reviewId, action.text) };
+
+    case "chat": {
+      const ticketId = state.queue?.activeTicketId;
+      if (!state.customer || !ticketId) {
+        throw new Error("There's no customer at the counter to chat with");
+      }
+
+      const conversation = getConversation(state.conversation, ticketId);
+      return { ...state, conversation: addExchange(conversation, state.customer, ticketId, action, clock.now()) };
+    }
+
+    case "revise_order": {
+      const ticket = state.queue ? getActiveTicket(state.queue) : null;
+      if (!state.customer || !ticket) {
+        throw new Error("There's no customer at the counter whose order could change");
+      }
+
+      // The same checks and prices as any order; a bigger bill counts as an upsell
+      const revised = reviseOrder(state.customer, ticket, action.items, {
+        started: !!state.result,
+        menu: state.menu,
+        priceFactor: getModifierFactor(state, "price", clock.now()),
+      });
+      const conversation = getConversation(state.conversation, ticket.id);
+
+      return {
+        ...state,
+        customer: revised.customer,
+        brewParams: getParamsForLine(getNextTicketItem(revised.ticket), revised.customer.drinkType),
+        queue: replaceTicket(state.queue!, revised.ticket),
+        conversation: revised.upsold ? recordUpsell(conversation, state.customer, ticket.id) : state.conversation,
+      };
+    }
+
+    case "summarize_customer": {
+      if (!state.customerMemory) {
+        throw new Error("There are no customers to summarize");
+      }
+      return { ...state, customerMemory: setCustomerSummary(state.customerMemory, action.customerName, action.summary) };
+    }
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Hand over the player's order: record the last item and score the ticket, then settle it
+ */
+function serveCustomer(state: GameState, rng: SeededRandom, clock: Clock): GameState {
+  const customer = state.customer;
+  const result = state.result;
+  if (!customer || !result) {
+    throw new Error("Nothing to serve");
+  }
+
+  let newQueue = state.queue;
+
+  // Record the last brewed item, then score the whole order
+  let orderQuality = result.quality;
+  let orderDrinks: string[] = [customer.drinkType];
+  let waitSeconds = 0;
+  let subtotal = customer.payment;
+  let tax = 0;
+  let milkType: MilkType | undefined;
+  let ticketId = newQueue?.activeTicketId || "walk_in";
+  if (newQueue && newQueue.activeTicketId) {
+    ticketId = newQueue.activeTicketId;
+    const ticket = getActiveTicket(newQueue);
+    const line = ticket ? getNextTicketItem(ticket) : null;
+    if (line) {
+      newQueue = completeTicketItem(newQueue, ticketId, line.id, result.quality);
+    }
+    const servedTicket = getActiveTicket(newQueue);
+    if (servedTicket) {
+      orderQuality = getTicketQuality(servedTicket) || orderQuality;
+      orderDrinks = getTicketItems(servedTicket)
+        .filter(item => item.item.type === "drink")
+        .map(item => item.item.sku);
+      waitSeconds = Math.max(0, (clock.now() - servedTicket.createdAt) / 1000);
+      subtotal = servedTicket.quote?.subtotal ?? subtotal;
+      tax = servedTicket.quote?.tax ?? 0;
+      milkType = getTicketMilk(servedTicket);
+    }
+    newQueue = completeTicket(newQueue, ticketId, customer.payment, clock);
+  }
+
+  const conversation = getConversation(state.conversation, ticketId);
+
+  return settleVisit({
+    ...state,
+    customer: null,
+    result: null,
+    conversation: undefined,
+    queue: newQueue,
+    stations: state.stations ? releaseStation(state.stations, ticketId) : state.stations,
+  }, {
+    customer,
+    ticketId,
+    quality: orderQuality,
+    drinks: orderDrinks,
+    waitSeconds,
+    subtotal,
+    tax,
+    milkType,
+    ...(conversation ? { rapport: conversation.rapport, upsells: conversation.upsells } : {}),
+  }, rng, clock);
+}
+
+/**
+ * A member of staff makes up a queued ticket from the recipes, then hands it over
+ * Their accuracy sets how close they get to each recipe; a stockout sends the customer away
+ */
+function staffWorkTicket(
+  state: GameState,
+  member: StaffMember,
+  ticket: OrderTicket,
+  rng: SeededRandom,
+  clock: Clock
+): GameState {
+  const { [ticket.id]: customer, ...waitingCustomers } = state.waitingCustomers || {};
+  let queue = state.queue!;
+  if (!customer) {
+    return { ...state, queue: cancelTicket(queue, ticket.id), waitingCustomers };
+  }
+
+  let inventory = state.inventory;
+  let cogs = 0;
+  let milkType: MilkType | undefined;
+  let stockout = false;
+  for (const line of getTicketItems(ticket)) {
+    if (line.status === "completed") continue;
+
+    if (line.item.type === "food") {
+      const food = line.item.sku;
+      if (!checkFoodStock(inventory, food).available) {
+        stockout = true;
+        break;
+      }
+      inventory = depleteFood(inventory, food);
+      cogs += getFoodCost(food);
+      queue = completeTicketItem(queue, ticket.id, line.id, 100);
+      continue;
+    }
+
+    const drinkType = line.item.sku;
+    const params = chooseBrewParameters(drinkType, line.item.modifiers ?? {}, getStaffSkill(member), rng);
+    if (!checkStock(inventory, drinkType, params).available) {
+      stockout = true;
+      break;
+    }
+    const bean = getBeanUse({ ...state, inventory }, params, clock);
+    const result = brewDrink(drinkType, params, {
+      equipment: state.equipment,
+      modifiers: line.item.modifiers ?? {},
+      bean,
+      qualityShift: getQualityShift(state, clock.now()),
+    });
+    inventory = depleteStock(inventory, drinkType, params);
+    cogs += getStockCost(drinkType, params);
+    milkType = params.milkType ?? milkType;
+    queue = completeTicketItem(queue, ticket.id, line.id, result.quality);
+  }
+
+  const dayState = state.dayState && cogs > 0 ? recordTransaction(state.dayState, "cogs", cogs) : state.dayState;
+  if (stockout) {
+    return { ...state, inventory, dayState, queue: cancelTicket(queue, ticket.id), waitingCustomers };
+  }
+
+  // The ticket holds a station until it's made up, with the shots and milk waiting on free equipment
+  const served = getTicket(queue, ticket.id)!;
+  const station = getFreeStation(state.stations!)!;
+  const schedule = scheduleTicket(state.stations!, ticket, state.equipment, clock.now(), getStaffSpeedFactor(member));
+  const { readyAt } = schedule;
+  const stations = claimStation(schedule.state, station.id, ticket.id, { staffId: member.id, readyAt });
+  const staff = (state.staff || []).map(m => (m.id === member.id ? { ...m, busyUntil: readyAt } : m));
+
+  return settleVisit({
+    ...state,
+    inventory,
+    dayState,
+    queue: completeTicket(queue, ticket.id, customer.payment, clock),
+    waitingCustomers,
+    staff,
+    stations,
+  }, {
+    customer,
+    ticketId: ticket.id,
+    quality: getTicketQuality(served) || 100, // Food-only orders are plated perfectly
+    drinks: getTicketItems(served).filter(item => item.item.type === "drink").map(item => item.item.sku),
+    waitSeconds: Math.max(0, (readyAt - served.createdAt) / 1000),
+    subtotal: served.quote?.subtotal ?? customer.payment,
+    tax: served.quote?.tax ?? 0,
+    milkType,
+    friendliness: getStaffFriendliness(member),
+  }, rng, clock);
+}
+
+/**
+ * A customer walks in and orders: the player takes them if free and a station is open,
+ * otherwise their order waits in the queue (for staff on shift, or the player to take it)
+ */
+function admitCustomer(
+  state: GameState,
+  arriving: Customer | undefined,
+  arrivingTicket: OrderTicket | undefined,
+  rng: SeededRandom,
+  clock: Clock
+): GameState {
+  // The day's events sway what people order, what they'll spend and what the menu charges
+  const now = clock.now();
+  const walkIn = arriving ?? generateSessionCustomer(rng, state.reputation, state.menu, {
+    iced: getModifierFactor(state, "iced", now),
+    spend: getModifierFactor(state, "spend", now),
+  });
+  const items: OrderItem[] = walkIn.items ?? [{ type: "drink", sku: walkIn.drinkType, quantity: 1 }];
+  const { customer, ticket } = priceAtMenu(
+    walkIn,
+    arrivingTicket ?? buildTicket(walkIn.name, items, {}, rng, clock),
+    state.menu,
+    getModifierFactor(state, "price", now)
+  );
+
+  let stations = releaseFinished(syncStations(state.stations, state.equipment), clock.now());
+  if (!state.customer) stations = releaseStation(stations, state.queue?.activeTicketId);
+  if ((state.customer || !getFreeStation(stations)) && state.queue) {
+    return {
+      ...state,
+      queue: addTicket(state.queue, ticket),
+      waitingCustomers: { ...state.waitingCustomers, [ticket.id]: customer },
+    };
+  }
+
+  return startPlayerTicket({ ...state, stations }, customer, ticket, state.queue && addTicket(state.queue, ticket));
+}
+
+/**
+ * The player starts on a customer's ticket at the first free station
+ */
+function startPlayerTicket(
+  state: GameState,
+  customer: Customer,
+  ticket: OrderTicket,
+  queue: GameState["queue"]
+): GameState {
+  const station = state.stations ? getFreeStation(state.stations) : null;
+
+  return {
+    ...state,
+    customer,
+    brewParams: getParamsForLine(getNextTicketItem(ticket), customer.drinkType),
+    result: null,
+    conversation: undefined,
+    queue: queue ? startTicket(queue, ticket.id) : queue,
+    stations: state.stations && station ? claimStation(state.stations, station.id, ticket.id) : state.stations,
+  };
+}
+
+/**
+ * Send off every customer who has run out of patience: everyone queued for staff, and the
+ * player's own customer if nothing on their order has been made yet
+ */
+function sendOffImpatient(state: GameState, clock: Clock): GameState {
+  if (!state.queue) return state;
+  const now = clock.now();
+
+  let newState = state;
+  for (const [ticketId, customer] of Object.entries(state.waitingCustomers || {})) {
+    const ticket = getTicket(state.queue, ticketId);
+    if (!ticket || ticket.status !== "pending" || !hasRunOutOfPatience(customer, ticket, now)) continue;
+
+    const waitingCustomers = { ...newState.waitingCustomers };
+    delete waitingCustomers[ticketId];
+    newState = walkOut({ ...newState, waitingCustomers }, customer, ticketId, clock);
+  }
+
+  const ticket = getActiveTicket(state.queue);
+  const untouched = ticket && !state.result && getTicketItems(ticket).every(line => line.status === "pending");
+  if (state.customer && ticket && untouched && hasRunOutOfPatience(state.customer, ticket, now)) {
+    newState = walkOut({ ...newState, customer: null, conversation: undefined }, state.customer, ticket.id, clock);
+  }
+
+  return newState;
+}
+
+/**
+ * A customer walks out: their ticket is cancelled and they leave a one-star rating
+ */
+function walkOut(state: GameState, customer: Customer, ticketId: string, clock: Clock): GameState {
+  return {
+    ...state,
+    queue: state.queue ? cancelTicket(state.queue, ticketId) : state.queue,
+    stations: state.stations ? releaseStation(state.stations, ticketId) : state.stations,
+    dayState: state.dayState ? recordWalkOut(state.dayState) : state.dayState,
+    customerMemory: state.customerMemory ? noteWalkOut(state.customerMemory, customer.name) : state.customerMemory,
+    reputation: applyRating(state.reputation ?? DEFAULT_REPUTATION, WALK_OUT_STARS),
+    ratings: addRating(state.ratings, {
+      customerName: customer.name,
+      stars: WALK_OUT_STARS,
+      reasons: [WALK_OUT_REASON],
+      tip: 0,
+      at: clock.now(),
+    }),
+  };
+}
+
+/**
+ * Settle a finished order: payment, a rating and tip, remembering the customer, maybe an event
+ */
+function settleVisit(state: GameState, visit: Visit, rng: SeededRandom, clock: Clock): GameState {
+  const { customer } = visit;
+  let newMemory = state.customerMemory;
+  let newDayState = state.dayState;
+
+  const completion = completeOrder({ ticket_id: visit.ticketId, drink_quality: visit.quality }, rng);
+
+  // The customer rates the visit; reputation follows and sets how well they tip
+  const allergenSafe = !customer.allergens?.length || checkAllergens({
+    drink_type: customer.drinkType,
+    milk_type: visit.milkType,
+    customer_allergens: customer.allergens,
+  }).safe;
+  const { stars, reasons } = rateVisit({
+    quality: visit.quality,
+    waitSeconds: visit.waitSeconds,
+    mood: customer.mood,
+    subtotal: visit.subtotal,
+    budget: customer.budget,
+    drinkCount: visit.drinks.length,
+    allergenSafe,
+    friendliness: visit.friendliness,
+    rapport: visit.rapport,
+    upsells: visit.upsells,
+  });
+  const reputation = applyRating(state.reputation ?? DEFAULT_REPUTATION, stars);
+  const tip = calculateTip(stars, customer.payment, reputation);
+  const earnings = Number((customer.payment + tip).toFixed(2));
+
+  // Check if customer is returning/regular
+  const isReturning = newMemory ? isReturningCustomer(newMemory, customer.name) : false;
+  const customerProfile = newMemory ? getCustomer(newMemory, customer.name) : null;
+  const isRegular = customerProfile
+    ? (customerProfile.relationshipLevel === "regular" || customerProfile.relationshipLevel === "favorite")
+    : false;
+
+  if (newMemory) {
+    newMemory = recordVisit(newMemory, customer.name, {
+      drinkOrdered: customer.drinkType,
+      day: state.dayState?.dayNumber,
+      milkType: visit.milkType,
+      quality: visit.quality,
+      satisfaction: adjustSatisfaction(completion.customerSatisfaction, visit),
+      payment: customer.payment,
+      tip,
+      allergens: customer.allergens,
+    }, clock);
+
+    // Anything they told the barista goes on their profile, for them to recall next time
+    if (customer.remembered) {
+      newMemory = rememberFact(newMemory, customer.name, customer.remembered);
+    }
+  }
+
+  if (newDayState) {
+    newDayState = recordCustomer(newDayState, {
+      earnings,
+      quality: visit.quality,
+      isReturning,
+      isRegular,
+      drinkType: customer.drinkType,
+      drinkTypes: visit.drinks,
+      tax: visit.tax,
+    });
+  }
+
+  // The review carries the same stars; its words are written later (see post_review)
+  const day = state.dayState?.dayNumber || 1;
+  const review = createReview(state.reviews, customer, { stars, reasons }, visit.drinks, day, clock.now());
+
+  const newState: GameState = {
+    ...state,
+    money: state.money + earnings,
+    drinksServed: state.drinksServed + 1,
+    customerMemory: newMemory,
+    dayState: newDayState,
+    reputation,
+    ratings: addRating(state.ratings, {
+      customerName: customer.name,
+      stars,
+      reasons,
+      tip,
+      at: clock.now(),
+    }),
+    reviews: addReview(state.reviews, review),
+  };
+
+  // Check for random service events after serving, unless one is still waiting on a decision
+  if (isAwaitingChoice(newState)) return newState;
+  const event = checkForEvent(newState, "random_service", rng, clock);
+  return event ? triggerEvent(newState, event, clock) : newState;
+}
+
+// ============================================================================
+// DISPATCH AND REPLAY
+// ============================================================================
+
+/**
+ * Apply a player action and append it to the session log
+ * Throws if the action isn't valid in the current state; the state is left untouched
+ */
+export function dispatch(
+  state: GameState,
+  action: GameAction,
+  clock: Clock = systemClock
+): GameState {
+  if (!state.session) {
+    throw new Error("Game state has no session; start one with createSession");
+  }
+
+  const at = clock.now();
+  const rng = new SeededRandom(state.session.rngState);
+  const newState = applyAction(state, action, rng, clock);
+
+  // A new day starts a fresh log from a checkpoint, so the log (and the save) stays a day long
+  if (action.type === "next_day") {
+    return {
+      ...newState,
+      session: {
+        ...state.session,
+        rngState: rng.state,
+        log: [],
+        checkpoint: { at, rngState: rng.state, state: { ...newState, session: undefined } },
+      },
+    };
+  }
+
+  return {
+    ...newState,
+    session: {
+      ...state.session,
+      rngState: rng.state,
+      log: [...state.session.log, { at, action }],
+    },
+  };
+}
+
+/**
+ * Extract the replayable log from a game state
+ */
+export function exportSessionLog(state: GameState): SessionLog {
+  if (!state.session) {
+    throw new Error("Game state has no session");
+  }
+
+  const { seed, startedAt, log, checkpoint } = state.session;
+  return {
+    seed,
+    startedAt,
+    ...(checkpoint ? { checkpoint: serializeCheckpoint(checkpoint) } : {}),
+    actions: log,
+  };
+}
+
+/**
+ * Rebuild a game from its seed and action log
+ * Each action runs at its recorded time, so timestamps match the original run.
+ * A log with a checkpoint picks up from there rather than from the first day.
+ */
+export function replaySession(log: SessionLog): GameState {
+  const checkpoint = log.checkpoint ? deserializeCheckpoint(log.checkpoint) : undefined;
+  const clock = new ManualClock(checkpoint?.at ?? log.startedAt);
+  let state = checkpoint
+    ? {
+        ...checkpoint.state,
+        session: { seed: log.seed, rngState: checkpoint.rngState, startedAt: log.startedAt, log: [], checkpoint },
+      }
+    : createSession(log.seed, clock);
+
+  for (const entry of log.actions) {
+    clock.set(entry.at);
+    state = dispatch(state, entry.action, clock);
+  }
+
+  return state;
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for the Headless Balance Simulation
+ */
+
+import { describe, it, expect } from "vitest";
+import { chooseBrewParameters, formatReportsCsv, runSimulation } from "./simulation";
+import { RECIPES } from "./recipes";
+import { getIcedRecipe } from "./modifiers";
+import { SeededRandom } from "./random";
+
+describe("Balance Simulation", () => {
+  describe("chooseBrewParameters", () => {
+    it("should hit the recipe exactly at full skill", () => {
+      const params = chooseBrewParameters("latte", {}, 1, new SeededRandom(1));
+      const recipe = RECIPES.latte;
+
+      expect(params.grindSize).toBe(recipe.idealGrind);
+      expect(params.temperature).toBe(recipe.idealTemp);
+      expect(params.brewTime).toBe(recipe.idealBrewTime);
+      expect(params.milkTemp).toBe(recipe.idealMilkTemp);
+    });
+
+    it("should follow ordered modifiers at full skill", () => {
+      const params = chooseBrewParameters(
+        "latte",
+        { size: "large", temp: "iced", milk: "oat", syrup: "vanilla", extraShot: true },
+        1,
+        new SeededRandom(1)
+      );
+
+      expect(params).toMatchObject({ size: "large", iced: true, milkType: "oat", syrup: "vanilla", extraShot: true });
+      expect(params.milkTemp).toBe(getIcedRecipe(RECIPES.latte).idealMilkTemp);
+    });
+
+    it("should drift from the recipe at low skill", () => {
+      const rng = new SeededRandom(3);
+      const temps = Array.from({ length: 20 }, () => chooseBrewParameters("espresso", {}, 0, rng).temperature);
+
+      expect(temps.some(temp => temp !== RECIPES.espresso.idealTemp)).toBe(true);
+    });
+  });
+
+  describe("runSimulation", () => {
+    it("should report one row per day", () => {
+      const result = runSimulation({ days: 3, seed: 5 });
+
+      expect(result.days.map(day => day.day)).toEqual([1, 2, 3]);
+      expect(result.summary.days).toBe(3);
+      expect(result.summary.finalMoney).toBe(result.days[2].money);
+      expect(result.days[0].events).toContain("grand_opening");
+    });
+
+    it("should be deterministic for a seed", () => {
+      expect(runSimulation({ days: 3, seed: 11 })).toEqual(runSimulation({ days: 3, seed: 11 }));
+    });
+
+    it("should score better with a more skilled barista", () => {
+      const skilled = runSimulation({ days: 2, seed: 4, skill: 1 });
+      const novice = runSimulation({ days: 2, seed: 4, skill: 0 });
+
+      expect(skilled.summary.averageQuality).toBeGreaterThan(novice.summary.averageQuality);
+    });
+
+    it("should never restock under the never policy", () => {
+      const result = runSimulation({ days: 3, seed: 2, restockPolicy: "never" });
+
+      expect(result.days.every(day => day.restockCost === 0)).toBe(true);
+    });
+  });
+
+  describe("formatReportsCsv", () => {
+    it("should write a header and one line per day", () => {
+      const csv = formatReportsCsv(runSimulation({ days: 2, seed: 1 }).days);
+      const lines = csv.split("\n");
+
+      expect(lines[0]).toBe(
+        "day,money,earnings,cogs,netProfit,reputation,customersServed,stockouts,averageQuality,restockCost,purchases,events"
+      );
+      expect(lines).toHaveLength(3);
+      expect(lines[1].startsWith("1,")).toBe(true);
+    });
+  });
+});
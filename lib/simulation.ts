@@ -0,0 +1,258 @@
+/**
+ * Headless Balance Simulation
+ *
+ * Plays the game without the UI or any LLM: customers come from
+ * generateCustomerProfile (via the session), a bot barista picks brew
+ * parameters with a configurable skill level, and end-of-day restocks and
+ * equipment purchases follow simple policies. Produces one report per day so
+ * designers can see whether the economy is solvable or bankrupting.
+ */
+
+import type { GameState } from "./types";
+import { checkStock, checkFoodStock, getLowStockWarnings } from "./inventory";
+import { getActiveTicket, getNextTicketItem, getTicketItems } from "./ticketing";
+import { getRestockCost, getProfitAndLoss } from "./day-structure";
+import { getCheapestUpgrade, getDailyDepreciation } from "./equipment";
+import { createSession, dispatch } from "./session";
+import { chooseBrewParameters } from "./staff";
+import { SeededRandom, ManualClock } from "./random";
+
+export { chooseBrewParameters } from "./staff";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RestockPolicy = "when_low" | "daily" | "never";
+
+export interface SimulationConfig {
+  days: number;
+  seed: number;
+  skill: number; // 0-1, how close the bot gets to each recipe
+  customersPerDay?: number; // defaults to the day's target
+  restockPolicy: RestockPolicy;
+  buyEquipment: boolean;
+  cashReserve: number; // money kept back when buying equipment
+}
+
+export interface DayReport {
+  day: number;
+  money: number;
+  earnings: number;
+  cogs: number;
+  netProfit: number; // From the day's P&L
+  reputation: number;
+  customersServed: number;
+  stockouts: number; // customers turned away because an item was out of stock
+  averageQuality: number;
+  restockCost: number;
+  purchases: string[];
+  events: string[];
+}
+
+export interface SimulationSummary {
+  days: number;
+  finalMoney: number;
+  minMoney: number;
+  totalEarnings: number;
+  averageQuality: number;
+  totalStockouts: number;
+  firstStockoutDay: number | null;
+  bankruptDay: number | null; // first day nothing could be served and restock was unaffordable
+}
+
+export interface SimulationResult {
+  config: SimulationConfig;
+  days: DayReport[];
+  summary: SimulationSummary;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  days: 30,
+  seed: 1,
+  skill: 0.8,
+  restockPolicy: "when_low",
+  buyEquipment: true,
+  cashReserve: 500,
+};
+
+const SIM_START_TIME = Date.UTC(2025, 0, 6, 7, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CUSTOMER_INTERVAL_MS = 3 * 60 * 1000; // Past the random event cooldown
+const STEP_MS = 30 * 1000;
+
+// ============================================================================
+// SIMULATION LOOP
+// ============================================================================
+
+/**
+ * Work one customer's ticket to completion, or turn them away on a stockout
+ */
+function serveCustomer(
+  state: GameState,
+  config: SimulationConfig,
+  rng: SeededRandom,
+  clock: ManualClock
+): { state: GameState; served: boolean } {
+  for (;;) {
+    const ticket = state.queue ? getActiveTicket(state.queue) : null;
+    const line = ticket ? getNextTicketItem(ticket) : null;
+    if (!ticket || !line) {
+      return { state, served: false };
+    }
+    clock.advance(STEP_MS);
+
+    if (line.item.type === "food") {
+      if (!checkFoodStock(state.inventory, line.item.sku).available) {
+        return { state: dispatch(state, { type: "turn_away" }, clock), served: false };
+      }
+      state = dispatch(state, { type: "plate_food" }, clock);
+      continue;
+    }
+
+    const params = chooseBrewParameters(line.item.sku, line.item.modifiers ?? {}, config.skill, rng);
+    if (!checkStock(state.inventory, line.item.sku, params).available) {
+      return { state: dispatch(state, { type: "turn_away" }, clock), served: false };
+    }
+    state = dispatch(state, { type: "brew", params }, clock);
+
+    const pending = getTicketItems(getActiveTicket(state.queue!)!).filter(item => item.status === "pending");
+    clock.advance(STEP_MS);
+    if (pending.length > 1) {
+      state = dispatch(state, { type: "next_item" }, clock);
+    } else {
+      return { state: dispatch(state, { type: "serve" }, clock), served: true };
+    }
+  }
+}
+
+/**
+ * Restock according to policy if it can be afforded
+ */
+function shouldRestock(state: GameState, policy: RestockPolicy, stockouts: number): boolean {
+  if (policy === "never") return false;
+  if (policy === "daily") return true;
+  return stockouts > 0 || getLowStockWarnings(state.inventory).length > 0;
+}
+
+/**
+ * Run the simulation for the configured number of days
+ */
+export function runSimulation(overrides: Partial<SimulationConfig> = {}): SimulationResult {
+  const config: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, ...overrides };
+  const clock = new ManualClock(SIM_START_TIME);
+  const botRng = new SeededRandom(config.seed ^ 0x5bd1e995);
+  let state = createSession(config.seed, clock);
+
+  const reports: DayReport[] = [];
+
+  for (let day = 1; day <= config.days; day++) {
+    clock.set(SIM_START_TIME + (day - 1) * DAY_MS);
+    const eventsBefore = state.eventsHistory?.length || 0;
+
+    state = dispatch(state, { type: "start_day" }, clock);
+
+    const customers = config.customersPerDay ?? state.dayState!.targetCustomers;
+    let stockouts = 0;
+    for (let i = 0; i < customers; i++) {
+      clock.advance(CUSTOMER_INTERVAL_MS);
+      state = dispatch(state, { type: "customer_arrives" }, clock);
+      const outcome = serveCustomer(state, config, botRng, clock);
+      state = outcome.state;
+      if (!outcome.served) stockouts++;
+    }
+
+    state = dispatch(state, { type: "end_day" }, clock);
+    const stats = state.dayState!.stats;
+
+    // End of day: restock, then consider an upgrade with what's left
+    let restockCost = 0;
+    const cost = getRestockCost(state.dayState!.dayNumber);
+    if (shouldRestock(state, config.restockPolicy, stockouts) && state.money >= cost) {
+      state = dispatch(state, { type: "restock" }, clock);
+      restockCost = cost;
+    }
+
+    const purchases: string[] = [];
+    const upgrade = config.buyEquipment && state.equipment ? getCheapestUpgrade(state.equipment) : null;
+    if (upgrade && state.money - upgrade.price >= config.cashReserve) {
+      state = dispatch(state, { type: "purchase_equipment", itemId: upgrade.id }, clock);
+      purchases.push(upgrade.name);
+    }
+
+    const pnl = getProfitAndLoss(state.dayState!.stats, state.equipment ? getDailyDepreciation(state.equipment) : 0);
+    reports.push({
+      day,
+      money: Number(state.money.toFixed(2)),
+      earnings: Number(stats.totalEarnings.toFixed(2)),
+      cogs: pnl.cogs,
+      netProfit: pnl.net,
+      reputation: state.reputation ?? 50,
+      customersServed: stats.customersServed,
+      stockouts,
+      averageQuality: stats.averageQuality,
+      restockCost,
+      purchases,
+      events: (state.eventsHistory || []).slice(eventsBefore).map(entry => entry.eventId),
+    });
+
+    state = dispatch(state, { type: "next_day" }, clock);
+  }
+
+  return { config, days: reports, summary: summarize(reports) };
+}
+
+function summarize(reports: DayReport[]): SimulationSummary {
+  const served = reports.reduce((sum, r) => sum + r.customersServed, 0);
+  const qualityTotal = reports.reduce((sum, r) => sum + r.averageQuality * r.customersServed, 0);
+  const firstStockout = reports.find(r => r.stockouts > 0);
+  const bankrupt = reports.find(r => r.customersServed === 0 && r.restockCost === 0 && r.stockouts > 0);
+
+  return {
+    days: reports.length,
+    finalMoney: reports.length > 0 ? reports[reports.length - 1].money : 0,
+    minMoney: reports.length > 0 ? Math.min(...reports.map(r => r.money)) : 0,
+    totalEarnings: Number(reports.reduce((sum, r) => sum + r.earnings, 0).toFixed(2)),
+    averageQuality: served > 0 ? Math.round(qualityTotal / served) : 0,
+    totalStockouts: reports.reduce((sum, r) => sum + r.stockouts, 0),
+    firstStockoutDay: firstStockout ? firstStockout.day : null,
+    bankruptDay: bankrupt ? bankrupt.day : null,
+  };
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+const CSV_COLUMNS: (keyof DayReport)[] = [
+  "day",
+  "money",
+  "earnings",
+  "cogs",
+  "netProfit",
+  "reputation",
+  "customersServed",
+  "stockouts",
+  "averageQuality",
+  "restockCost",
+  "purchases",
+  "events",
+];
+
+/**
+ * Format day reports as CSV (list columns are joined with ";")
+ */
+export function formatReportsCsv(reports: DayReport[]): string {
+  const rows = reports.map(report =>
+    CSV_COLUMNS.map(column => {
+      const value = report[column];
+      return Array.isArray(value) ? `"${value.join(";")}"` : String(value);
+    }).join(",")
+  );
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
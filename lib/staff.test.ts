@@ -0,0 +1,79 @@
+/**
+ * Tests for the Staff System
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_STAFF,
+  hireStaff,
+  fireStaff,
+  assignShift,
+  getOnShift,
+  getDailyWages,
+  isAvailable,
+  getStaffSkill,
+  getStaffSpeedFactor,
+  getStaffFriendliness,
+} from "./staff";
+import { START } from "./test-helpers";
+
+describe("Staff", () => {
+  describe("roster", () => {
+    it("should hire candidates off shift", () => {
+      const staff = hireStaff([], "priya");
+
+      expect(staff).toEqual([
+        {
+          id: "priya",
+          name: "Priya",
+          skills: { speed: 6, accuracy: 9, friendliness: 6 },
+          dailyWage: 120,
+          onShift: false,
+        },
+      ]);
+      expect(getOnShift(staff)).toEqual([]);
+    });
+
+    it("should refuse unknown, duplicate and extra hires", () => {
+      const full = ["jun", "marcus", "elena"].reduce(hireStaff, []);
+
+      expect(full).toHaveLength(MAX_STAFF);
+      expect(() => hireStaff([], "nobody")).toThrow("Unknown candidate: nobody");
+      expect(() => hireStaff(hireStaff([], "jun"), "jun")).toThrow("Jun already works here");
+      expect(() => hireStaff(full, "priya")).toThrow(`You can only employ ${MAX_STAFF} staff`);
+    });
+
+    it("should only pay wages to staff on shift", () => {
+      let staff = hireStaff(hireStaff([], "jun"), "elena");
+      staff = assignShift(staff, "elena", true);
+
+      expect(getOnShift(staff).map(member => member.id)).toEqual(["elena"]);
+      expect(getDailyWages(staff)).toBe(110);
+      expect(getDailyWages(fireStaff(staff, "elena"))).toBe(0);
+      expect(() => fireStaff(staff, "priya")).toThrow("No staff member: priya");
+    });
+
+    it("should be free once their current ticket is done", () => {
+      const member = { ...assignShift(hireStaff([], "jun"), "jun", true)[0], busyUntil: START + 1000 };
+
+      expect(isAvailable(member, START)).toBe(false);
+      expect(isAvailable(member, START + 1000)).toBe(true);
+      expect(isAvailable({ ...member, onShift: false }, START + 1000)).toBe(false);
+    });
+  });
+
+  describe("skills", () => {
+    const [jun, marcus] = ["jun", "marcus"].reduce(hireStaff, []);
+
+    it("should make faster staff quicker to make up a ticket", () => {
+      expect(getStaffSpeedFactor(marcus)).toBeLessThan(getStaffSpeedFactor(jun));
+      expect(getStaffSpeedFactor({ ...marcus, skills: { ...marcus.skills, speed: 10 } })).toBeCloseTo(0.6);
+    });
+
+    it("should turn accuracy and friendliness into brewing skill and manner", () => {
+      expect(getStaffSkill(jun)).toBe(0.5);
+      expect(getStaffFriendliness(jun)).toBeCloseTo(0.4);
+      expect(getStaffFriendliness(marcus)).toBeCloseTo(-0.4);
+    });
+  });
+});
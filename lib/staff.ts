@@ -0,0 +1,263 @@
+/**
+ * Staff System
+ *
+ * Baristas the player can hire to work alongside them. Each has three 1-10 skills:
+ * - Speed: how long they take to make up a ticket
+ * - Accuracy: how close they get to each recipe's ideal parameters
+ * - Friendliness: how customers feel about being served by them
+ *
+ * Staff are put on shift during prep, work the pending tickets in the queue
+ * while the player is busy, and are paid their daily wage when service ends.
+ */
+
+import type {
+  BrewParameters,
+  DrinkType,
+  GrindSize,
+  StaffMember,
+  StaffSkills,
+} from "./types";
+import type { OrderModifiers } from "./pricing";
+import { RECIPES } from "./recipes";
+import { GRIND_VALUES } from "./scoring";
+import { TEMP_RANGE, BREW_TIME_RANGE, MILK_RANGE, BLOOM_RANGE } from "./game-engine";
+import { ICED_MILK_RANGE, getIcedRecipe, supportsModifier } from "./modifiers";
+import type { SeededRandom } from "./random";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StaffCandidate {
+  id: string;
+  name: string;
+  bio: string;
+  skills: StaffSkills;
+  dailyWage: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_STAFF = 3;
+
+// Baristas looking for work; better skills ask for more
+export const STAFF_CANDIDATES: Record<string, StaffCandidate> = {
+  jun: {
+    id: "jun",
+    name: "Jun",
+    bio: "Keen weekend barista, still learning the machine",
+    skills: { speed: 4, accuracy: 5, friendliness: 7 },
+    dailyWage: 60,
+  },
+  marcus: {
+    id: "marcus",
+    name: "Marcus",
+    bio: "Fast hands from a chain cafe, not much of a talker",
+    skills: { speed: 8, accuracy: 6, friendliness: 3 },
+    dailyWage: 90,
+  },
+  elena: {
+    id: "elena",
+    name: "Elena",
+    bio: "Knows every regular by name",
+    skills: { speed: 7, accuracy: 7, friendliness: 9 },
+    dailyWage: 110,
+  },
+  priya: {
+    id: "priya",
+    name: "Priya",
+    bio: "Competition barista with an eye for detail",
+    skills: { speed: 6, accuracy: 9, friendliness: 6 },
+    dailyWage: 120,
+  },
+};
+
+const GRIND_SIZES = Object.keys(GRIND_VALUES) as GrindSize[];
+
+// ============================================================================
+// ROSTER
+// ============================================================================
+
+/**
+ * Hire a candidate (new staff start off shift)
+ */
+export function hireStaff(staff: StaffMember[], candidateId: string): StaffMember[] {
+  const candidate = STAFF_CANDIDATES[candidateId];
+  if (!candidate) {
+    throw new Error(`Unknown candidate: ${candidateId}`);
+  }
+  if (staff.some(member => member.id === candidateId)) {
+    throw new Error(`${candidate.name} already works here`);
+  }
+  if (staff.length >= MAX_STAFF) {
+    throw new Error(`You can only employ ${MAX_STAFF} staff`);
+  }
+
+  return [
+    ...staff,
+    {
+      id: candidate.id,
+      name: candidate.name,
+      skills: candidate.skills,
+      dailyWage: candidate.dailyWage,
+      onShift: false,
+    },
+  ];
+}
+
+/**
+ * Let a member of staff go
+ */
+export function fireStaff(staff: StaffMember[], staffId: string): StaffMember[] {
+  if (!staff.some(member => member.id === staffId)) {
+    throw new Error(`No staff member: ${staffId}`);
+  }
+
+  return staff.filter(member => member.id !== staffId);
+}
+
+/**
+ * Put a member of staff on or off today's shift
+ */
+export function assignShift(staff: StaffMember[], staffId: string, onShift: boolean): StaffMember[] {
+  if (!staff.some(member => member.id === staffId)) {
+    throw new Error(`No staff member: ${staffId}`);
+  }
+
+  return staff.map(member => (member.id === staffId ? { ...member, onShift, busyUntil: undefined } : member));
+}
+
+/**
+ * Staff working today's shift
+ */
+export function getOnShift(staff: StaffMember[] | undefined): StaffMember[] {
+  return (staff || []).filter(member => member.onShift);
+}
+
+/**
+ * Wages owed for today's shift
+ */
+export function getDailyWages(staff: StaffMember[] | undefined): number {
+  return getOnShift(staff).reduce((sum, member) => sum + member.dailyWage, 0);
+}
+
+/**
+ * Whether a member of staff can start on a ticket now
+ */
+export function isAvailable(member: StaffMember, now: number): boolean {
+  return member.onShift && (member.busyUntil === undefined || member.busyUntil <= now);
+}
+
+// ============================================================================
+// WORKING TICKETS
+// ============================================================================
+
+/**
+ * Accuracy as a 0-1 brewing skill (see chooseBrewParameters)
+ */
+export function getStaffSkill(member: StaffMember): number {
+  return member.skills.accuracy / 10;
+}
+
+/**
+ * How long a member of staff takes over the hand work on a ticket, relative to the estimate
+ * (speed 10 is 40% quicker; see scheduleTicket)
+ */
+export function getStaffSpeedFactor(member: StaffMember): number {
+  return 1.6 - member.skills.speed / 10;
+}
+
+/**
+ * How warmly a member of staff serves, from -1 (curt) to 1 (charming)
+ */
+export function getStaffFriendliness(member: StaffMember): number {
+  return (member.skills.friendliness - 5) / 5;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Aim for an ideal value, drifting further off as skill drops
+ */
+function aim(rng: SeededRandom, ideal: number, tolerance: number, skill: number): number {
+  const spread = tolerance * 3 * (1 - skill);
+  return Math.round(ideal + (rng.next() * 2 - 1) * spread);
+}
+
+/**
+ * Whether an unskilled barista fumbles a discrete choice
+ */
+function fumbles(rng: SeededRandom, skill: number, scale = 0.5): boolean {
+  return rng.next() < (1 - skill) * scale;
+}
+
+/**
+ * Choose brew parameters for a drink the way a barista of the given skill would
+ */
+export function chooseBrewParameters(
+  drinkType: DrinkType,
+  modifiers: OrderModifiers,
+  skill: number,
+  rng: SeededRandom
+): BrewParameters {
+  const iced = modifiers.temp === "iced" ? !fumbles(rng, skill) : false;
+  const recipe = iced ? getIcedRecipe(RECIPES[drinkType]) : RECIPES[drinkType];
+
+  // Grind: usually right, sometimes a step off
+  let grindIndex = GRIND_SIZES.indexOf(recipe.idealGrind);
+  if (fumbles(rng, skill, 0.8)) {
+    grindIndex = clamp(grindIndex + (rng.next() < 0.5 ? -1 : 1), 0, GRIND_SIZES.length - 1);
+  }
+
+  const isEspresso = recipe.category === "espresso-based";
+  const params: BrewParameters = {
+    grindSize: GRIND_SIZES[grindIndex],
+    temperature: clamp(aim(rng, recipe.idealTemp, recipe.tolerances.temp, skill), TEMP_RANGE.MIN, TEMP_RANGE.MAX),
+    brewTime: clamp(
+      aim(rng, recipe.idealBrewTime, recipe.tolerances.time, skill),
+      isEspresso ? BREW_TIME_RANGE.ESPRESSO_MIN : BREW_TIME_RANGE.BREW_MIN,
+      isEspresso ? BREW_TIME_RANGE.ESPRESSO_MAX : BREW_TIME_RANGE.BREW_MAX
+    ),
+  };
+
+  if (recipe.idealBloomTime !== undefined) {
+    params.bloomTime = clamp(
+      aim(rng, recipe.idealBloomTime, recipe.tolerances.bloom || 10, skill),
+      BLOOM_RANGE.MIN,
+      BLOOM_RANGE.MAX
+    );
+  }
+
+  if (recipe.idealMilkTemp !== undefined) {
+    const milkRange = iced ? ICED_MILK_RANGE : MILK_RANGE;
+    params.milkType = modifiers.milk && !fumbles(rng, skill) ? modifiers.milk : "whole";
+    params.milkTemp = clamp(
+      aim(rng, recipe.idealMilkTemp, recipe.tolerances.milkTemp || 10, skill),
+      milkRange.TEMP_MIN,
+      milkRange.TEMP_MAX
+    );
+    params.foamAmount = clamp(
+      aim(rng, recipe.idealFoamAmount ?? 0, recipe.tolerances.foam || 15, skill),
+      MILK_RANGE.FOAM_MIN,
+      MILK_RANGE.FOAM_MAX
+    );
+  }
+
+  // Modifiers: each one read off the ticket can be missed
+  if (iced) params.iced = true;
+  if (modifiers.size && !fumbles(rng, skill)) params.size = modifiers.size;
+  if (modifiers.extraShot && supportsModifier(drinkType, "extraShot") && !fumbles(rng, skill)) {
+    params.extraShot = true;
+  }
+  if (modifiers.decaf && supportsModifier(drinkType, "decaf") && !fumbles(rng, skill)) {
+    params.decaf = true;
+  }
+  if (modifiers.syrup && !fumbles(rng, skill)) params.syrup = modifiers.syrup;
+  if (modifiers.whippedCream && !fumbles(rng, skill)) params.whippedCream = true;
+
+  return params;
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for Brewing Stations
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  syncStations,
+  getFreeStation,
+  claimStation,
+  releaseStation,
+  releaseFinished,
+  getLineTimings,
+  scheduleTicket,
+  getResourceWait,
+  bookPlayerBrew,
+} from "./stations";
+import { createDefaultEquipment } from "./equipment";
+import { buildTicket } from "./function-calling";
+import { SeededRandom, ManualClock } from "./random";
+import { START } from "./test-helpers";
+
+describe("Brewing Stations", () => {
+  const equipment = createDefaultEquipment();
+
+  describe("station state", () => {
+    it("should follow the equipment, keeping tickets in progress", () => {
+      let state = claimStation(syncStations(undefined, equipment), 1, "t1");
+
+      expect(state.stations).toEqual([{ id: 1, ticketId: "t1" }]);
+      expect(getFreeStation(state)).toBeNull();
+
+      state = syncStations(state, { ...equipment, brewingStations: 3, espressoMachine: "commercial" });
+      expect(state.stations.map(station => station.ticketId)).toEqual(["t1", null, null]);
+      expect(state.espressoFreeAt).toHaveLength(2);
+      expect(getFreeStation(state)?.id).toBe(2);
+    });
+
+    it("should free a station when its ticket is served or its timer runs out", () => {
+      let state = syncStations(undefined, { ...equipment, brewingStations: 2 });
+      state = claimStation(state, 1, "t1");
+      state = claimStation(state, 2, "t2", { staffId: "jun", readyAt: START + 60000 });
+
+      expect(releaseFinished(state, START + 59000)).toBe(state);
+      expect(releaseFinished(state, START + 60000).stations[1]).toEqual({ id: 2, ticketId: null });
+      expect(releaseStation(state, "t1").stations[0]).toEqual({ id: 1, ticketId: null });
+    });
+  });
+
+  describe("timings", () => {
+    it("should split a latte across the group head, the steam wand and the barista", () => {
+      expect(getLineTimings({ type: "drink", sku: "latte", quantity: 1 })).toEqual({ shot: 25, steam: 20, hand: 15 });
+      expect(getLineTimings({ type: "drink", sku: "latte", quantity: 1, modifiers: { temp: "iced" } }).steam).toBe(0);
+      expect(getLineTimings({ type: "drink", sku: "pourover", quantity: 1 })).toEqual({ shot: 0, steam: 0, hand: 120 });
+    });
+
+    it("should pull shots faster on a better machine", () => {
+      const commercial = { ...equipment, espressoMachine: "commercial" as const };
+      expect(getLineTimings({ type: "drink", sku: "espresso", quantity: 1 }, commercial).shot).toBe(20);
+    });
+  });
+
+  describe("scheduling", () => {
+    const ticketFor = (sku: "latte" | "espresso") =>
+      buildTicket("Sam", [{ type: "drink", sku, quantity: 1 }], {}, new SeededRandom(1), new ManualClock(START));
+
+    it("should make a second ticket wait for the only group head", () => {
+      const state = syncStations(undefined, { ...equipment, brewingStations: 2 });
+
+      const first = scheduleTicket(state, ticketFor("latte"), equipment, START);
+      const second = scheduleTicket(first.state, ticketFor("espresso"), equipment, START);
+
+      expect(first.readyAt).toBe(START + 60000);
+      expect(second.readyAt).toBe(START + 55000); // 25s waiting, 25s shot, 5s to serve
+    });
+
+    it("should run shots side by side with two group heads", () => {
+      const commercial = { ...equipment, brewingStations: 2, espressoMachine: "commercial" as const };
+      const state = syncStations(undefined, commercial);
+
+      const first = scheduleTicket(state, ticketFor("espresso"), commercial, START);
+      const second = scheduleTicket(first.state, ticketFor("espresso"), commercial, START);
+
+      expect(second.readyAt).toBe(first.readyAt);
+    });
+
+    it("should tell the player how long the machine is tied up", () => {
+      const state = bookPlayerBrew(syncStations(undefined, equipment), "latte", false, equipment, START);
+
+      expect(getResourceWait(state, "espresso", false, equipment, START + 10000)).toEqual({ resource: "espresso machine", seconds: 15 });
+      expect(getResourceWait(state, "pourover", false, equipment, START)).toBeNull();
+      expect(getResourceWait(state, "latte", false, equipment, START + 25000)).toBeNull();
+
+      // A better machine frees up sooner
+      const professional = { ...equipment, espressoMachine: "professional" as const };
+      const faster = bookPlayerBrew(syncStations(undefined, professional), "latte", false, professional, START);
+      expect(getResourceWait(faster, "espresso", false, professional, START + 10000)).toEqual({ resource: "espresso machine", seconds: 13 });
+    });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Brewing Stations
+ *
+ * The bar has one brewing station per Equipment.brewingStations (1-3), and
+ * each station works on one ticket at a time. The player's own ticket holds a
+ * station while they work it; tickets made up by staff hold one until their
+ * prep timer runs out.
+ *
+ * Stations share the espresso machine's group heads and the steam wands, so
+ * extra stations only help until those become the bottleneck: a latte can't
+ * start its shot while every group head is pulling someone else's.
+ */
+
+import type {
+  DrinkType,
+  OrderTicket,
+  StationState,
+  BrewingStation,
+} from "./types";
+import type { OrderItem } from "./pricing";
+import type { Equipment, EspressoMachineTier, MilkSteamerTier } from "./equipment";
+import { calculateEquipmentBonus } from "./equipment";
+import { RECIPES } from "./recipes";
+import { getTicketItems, getItemPrepTime } from "./ticketing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SharedResource = "espresso machine" | "steam wand";
+
+export interface LineTimings {
+  shot: number; // Seconds on a group head
+  steam: number; // Seconds on a steam wand
+  hand: number; // Everything else (grinding, pouring, plating)
+}
+
+export interface ResourceWait {
+  resource: SharedResource;
+  seconds: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SHOT_SECONDS = 25;
+const STEAM_SECONDS = 20;
+const MIN_SHOT_SECONDS = 15;
+
+// Shots that can be pulled at once
+export const GROUP_HEADS: Record<EspressoMachineTier, number> = {
+  basic: 1,
+  professional: 1,
+  commercial: 2,
+};
+
+// Jugs of milk that can be steamed at once
+export const STEAM_WANDS: Record<MilkSteamerTier, number> = {
+  basic: 1,
+  auto: 1,
+  professional: 2,
+};
+
+// ============================================================================
+// STATION STATE
+// ============================================================================
+
+/**
+ * Match the stations and shared resources to the equipment, keeping whatever is in progress
+ * Works from nothing for states that predate stations
+ */
+export function syncStations(state: StationState | undefined, equipment?: Equipment): StationState {
+  const stationCount = equipment?.brewingStations ?? 1;
+  const heads = GROUP_HEADS[equipment?.espressoMachine ?? "basic"];
+  const wands = STEAM_WANDS[equipment?.milkSteamer ?? "basic"];
+  if (
+    state &&
+    state.stations.length === stationCount &&
+    state.espressoFreeAt.length === heads &&
+    state.steamFreeAt.length === wands
+  ) {
+    return state;
+  }
+
+  const resize = (times: number[] | undefined, size: number) =>
+    Array.from({ length: size }, (_, i) => times?.[i] ?? 0);
+
+  return {
+    stations: Array.from({ length: stationCount }, (_, i) => state?.stations[i] ?? { id: i + 1, ticketId: null }),
+    espressoFreeAt: resize(state?.espressoFreeAt, heads),
+    steamFreeAt: resize(state?.steamFreeAt, wands),
+  };
+}
+
+/**
+ * The first station with nothing on it
+ */
+export function getFreeStation(state: StationState): BrewingStation | null {
+  return state.stations.find(station => station.ticketId === null) || null;
+}
+
+/**
+ * Put a ticket on a station (staff tickets carry who is making them and when they'll be ready)
+ */
+export function claimStation(
+  state: StationState,
+  stationId: number,
+  ticketId: string,
+  staff?: { staffId: string; readyAt: number }
+): StationState {
+  return {
+    ...state,
+    stations: state.stations.map(station =>
+      station.id === stationId ? { id: station.id, ticketId, ...staff } : station
+    ),
+  };
+}
+
+/**
+ * Clear the station a ticket is on, if any
+ */
+export function releaseStation(state: StationState, ticketId: string | null | undefined): StationState {
+  if (!ticketId || !state.stations.some(station => station.ticketId === ticketId)) return state;
+
+  return {
+    ...state,
+    stations: state.stations.map(station =>
+      station.ticketId === ticketId ? { id: station.id, ticketId: null } : station
+    ),
+  };
+}
+
+/**
+ * Clear every station whose timer has run out
+ */
+export function releaseFinished(state: StationState, now: number): StationState {
+  if (!state.stations.some(station => station.readyAt !== undefined && station.readyAt <= now)) return state;
+
+  return {
+    ...state,
+    stations: state.stations.map(station =>
+      station.readyAt !== undefined && station.readyAt <= now ? { id: station.id, ticketId: null } : station
+    ),
+  };
+}
+
+/**
+ * Empty every station and free the shared resources (at close)
+ */
+export function clearStations(state: StationState): StationState {
+  return {
+    stations: state.stations.map(station => ({ id: station.id, ticketId: null })),
+    espressoFreeAt: state.espressoFreeAt.map(() => 0),
+    steamFreeAt: state.steamFreeAt.map(() => 0),
+  };
+}
+
+/**
+ * Tie up every group head or steam wand until a clock time (an outage)
+ */
+export function blockResource(state: StationState, resource: SharedResource, until: number): StationState {
+  const block = (freeAt: number[]) => freeAt.map(time => Math.max(time, until));
+
+  return resource === "espresso machine"
+    ? { ...state, espressoFreeAt: block(state.espressoFreeAt) }
+    : { ...state, steamFreeAt: block(state.steamFreeAt) };
+}
+
+/**
+ * Seconds left on a station's prep timer (0 for free stations and the player's own)
+ */
+export function getStationTimeLeft(station: BrewingStation, now: number): number {
+  return station.readyAt === undefined ? 0 : Math.max(0, Math.ceil((station.readyAt - now) / 1000));
+}
+
+// ============================================================================
+// TIMINGS
+// ============================================================================
+
+/**
+ * How a line item's prep time splits across the group head, the steam wand and the barista's hands
+ * A better espresso machine pulls its shots faster (brewTimeReduction)
+ */
+export function getLineTimings(item: OrderItem, equipment?: Equipment): LineTimings {
+  const total = getItemPrepTime(item);
+  if (item.type === "food") return { shot: 0, steam: 0, hand: total };
+
+  const recipe = RECIPES[item.sku];
+  const reduction = equipment ? calculateEquipmentBonus(equipment, recipe.category).brewTimeReduction || 0 : 0;
+  const shot = recipe.category === "espresso-based" ? Math.max(MIN_SHOT_SECONDS, SHOT_SECONDS - reduction) : 0;
+  const steam = recipe.idealMilkTemp !== undefined && item.modifiers?.temp !== "iced" ? STEAM_SECONDS : 0;
+  const hand = Math.max(0, total - (recipe.category === "espresso-based" ? SHOT_SECONDS : 0) - steam);
+
+  return { shot, steam, hand };
+}
+
+/**
+ * Book the earliest free slot on a resource, returning when the work finishes
+ */
+function book(freeAt: number[], from: number, seconds: number): { freeAt: number[]; end: number } {
+  if (seconds === 0) return { freeAt, end: from };
+
+  const index = freeAt.indexOf(Math.min(...freeAt));
+  const start = Math.max(from, freeAt[index]);
+  const end = start + seconds * 1000;
+  return { freeAt: freeAt.map((time, i) => (i === index ? end : time)), end };
+}
+
+/**
+ * Schedule every line on a ticket through the shared resources, one after another
+ * Hand work is scaled by speed (1 = the estimate; staff skills change it)
+ */
+export function scheduleTicket(
+  state: StationState,
+  ticket: OrderTicket,
+  equipment: Equipment | undefined,
+  now: number,
+  handSpeed = 1
+): { state: StationState; readyAt: number } {
+  let espressoFreeAt = state.espressoFreeAt;
+  let steamFreeAt = state.steamFreeAt;
+  let time = now;
+
+  for (const line of getTicketItems(ticket)) {
+    if (line.status === "completed") continue;
+    const timings = getLineTimings(line.item, equipment);
+
+    const shot = book(espressoFreeAt, time, timings.shot);
+    espressoFreeAt = shot.freeAt;
+    const steam = book(steamFreeAt, shot.end, timings.steam);
+    steamFreeAt = steam.freeAt;
+
+    time = steam.end + Math.round(timings.hand * handSpeed) * 1000;
+  }
+
+  return { state: { ...state, espressoFreeAt, steamFreeAt }, readyAt: time };
+}
+
+/**
+ * How long the player would have to wait for the resources a drink needs, if they're all in use
+ * Timed on the cafe's own equipment, the same way bookPlayerBrew books the drink
+ */
+export function getResourceWait(
+  state: StationState,
+  drinkType: DrinkType,
+  iced: boolean,
+  equipment: Equipment | undefined,
+  now: number
+): ResourceWait | null {
+  const timings = getLineTimings(
+    { type: "drink", sku: drinkType, quantity: 1, modifiers: iced ? { temp: "iced" } : undefined },
+    equipment
+  );
+  const waitFor = (freeAt: number[]) => Math.max(0, Math.ceil((Math.min(...freeAt) - now) / 1000));
+
+  if (timings.shot > 0 && waitFor(state.espressoFreeAt) > 0) {
+    return { resource: "espresso machine", seconds: waitFor(state.espressoFreeAt) };
+  }
+  if (timings.steam > 0 && waitFor(state.steamFreeAt) > 0) {
+    return { resource: "steam wand", seconds: waitFor(state.steamFreeAt) };
+  }
+  return null;
+}
+
+/**
+ * Book the resources for a drink the player brewed (shot and milk in parallel, as a barista does)
+ * The brew is recorded once its animation has played, so the work started brewTime seconds before
+ * it's booked; counting from then keeps the player's own shot from holding up their next drink
+ */
+export function bookPlayerBrew(
+  state: StationState,
+  drinkType: DrinkType,
+  iced: boolean,
+  equipment: Equipment | undefined,
+  startedAt: number
+): StationState {
+  const timings = getLineTimings(
+    { type: "drink", sku: drinkType, quantity: 1, modifiers: iced ? { temp: "iced" } : undefined },
+    equipment
+  );
+
+  return {
+    ...state,
+    espressoFreeAt: book(state.espressoFreeAt, startedAt, timings.shot).freeAt,
+    steamFreeAt: book(state.steamFreeAt, startedAt, timings.steam).freeAt,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for Story Flags and Arcs
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  setStoryFlags,
+  getStoryFlag,
+  meetsFlagConditions,
+  getStoryProgress,
+  isArcComplete,
+} from "./story";
+import { EVENTS, checkForEvent, applyEventEffects, resolveEventChoice } from "./events";
+import { ManualClock } from "./random";
+import { START, onDay } from "./test-helpers";
+
+describe("Story", () => {
+  describe("flags", () => {
+    it("should remember each flag's value and the day it was set", () => {
+      const flags = setStoryFlags(setStoryFlags(undefined, { rival: "coming", met_maya: true }, 5), { rival: "open" }, 8);
+
+      expect(flags).toEqual({ rival: { value: "open", day: 8 }, met_maya: { value: true, day: 5 } });
+      expect(getStoryFlag(onDay(8, { storyFlags: flags }), "rival")).toBe("open");
+      expect(getStoryFlag(onDay(8, { storyFlags: flags }), "festival")).toBeUndefined();
+    });
+
+    it("should check whether flags are set, what they are and how long ago", () => {
+      const flags = setStoryFlags(undefined, { rival: "coming" }, 5);
+
+      expect(meetsFlagConditions(flags, { festival: { set: false } }, 6)).toBe(true);
+      expect(meetsFlagConditions(flags, { rival: { set: false } }, 6)).toBe(false);
+      expect(meetsFlagConditions(flags, { rival: { is: ["coming", "open"] } }, 6)).toBe(true);
+      expect(meetsFlagConditions(flags, { rival: { is: ["closed"] } }, 6)).toBe(false);
+      expect(meetsFlagConditions(flags, { rival: { daysSince: { min: 3 } } }, 7)).toBe(false);
+      expect(meetsFlagConditions(flags, { rival: { daysSince: { min: 3 } } }, 8)).toBe(true);
+      expect(meetsFlagConditions(flags, { festival: { daysSince: { max: 10 } } }, 8)).toBe(false);
+    });
+  });
+
+  describe("progress", () => {
+    it("should name the chapter each started arc is on", () => {
+      const flags = setStoryFlags(undefined, { rival: "quality", maya: "moved_away" }, 12);
+      const progress = getStoryProgress(onDay(12, { storyFlags: flags }));
+
+      expect(progress.map(arc => [arc.arc.id, arc.chapter.title, arc.chapterNumber])).toEqual([
+        ["rival", "Holding Your Ground", 3],
+        ["maya", "A Last Coffee", 3],
+      ]);
+      expect(progress.map(isArcComplete)).toEqual([false, true]);
+    });
+  });
+
+  describe("event chains", () => {
+    const alwaysFire = { next: () => 0.999 };
+
+    it("should hold a chapter back until enough days have passed since the last", () => {
+      const flags = setStoryFlags(undefined, { rival: "coming" }, 5);
+
+      expect(checkForEvent(onDay(6, { storyFlags: flags }), "start_day", alwaysFire)).toBeNull();
+
+      const event = checkForEvent(onDay(8, { storyFlags: flags }), "start_day", alwaysFire);
+      expect(event?.id).toBe("rival_opens");
+
+      const opened = applyEventEffects(onDay(8, { storyFlags: flags }), event!, new ManualClock(START));
+      expect(opened.storyFlags?.rival).toEqual({ value: "open", day: 8 });
+    });
+
+    it("should branch on the choice the player makes", () => {
+      const invitation = EVENTS.find(event => event.id === "festival_invitation")!;
+      const stall = resolveEventChoice(onDay(9), invitation, "stall");
+      const visitor = resolveEventChoice(onDay(9), invitation, "visitor");
+
+      expect(stall.storyFlags?.festival).toEqual({ value: "stall", day: 9 });
+      expect(checkForEvent(onDay(13, { storyFlags: stall.storyFlags }), "start_day", alwaysFire)?.id).toBe("festival_build_up");
+      expect(checkForEvent(onDay(13, { storyFlags: visitor.storyFlags }), "start_day", alwaysFire)).toBeNull();
+      expect(checkForEvent(onDay(16, { storyFlags: visitor.storyFlags }), "start_day", alwaysFire)?.id).toBe("festival_day");
+    });
+  });
+});
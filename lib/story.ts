@@ -0,0 +1,156 @@
+/**
+ * Story
+ *
+ * Story mode is told through chains of events that play out over days: an
+ * event (or the choice the player makes on it) sets story flags, and later
+ * events check those flags - what they are, and how many days ago they were
+ * set - before they can happen. The arcs themselves are written as content
+ * (content/story.json); this module keeps the flags and names the chapter
+ * each arc has reached.
+ *
+ * Flags persist for the whole game, unlike hasEventOccurredToday which only
+ * remembers the current day.
+ */
+
+import type { GameState, StoryFlags, StoryFlagValue } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// What an event needs of a flag; every part given must hold
+export interface FlagCondition {
+  set?: boolean; // Whether the flag has been set at all
+  is?: StoryFlagValue[]; // One of these values
+  daysSince?: { min?: number; max?: number }; // Days since it was last set
+}
+
+export interface StoryChapter {
+  title: string;
+  values: StoryFlagValue[]; // Flag values that put the arc on this chapter (one per branch)
+}
+
+export interface StoryArc {
+  id: string;
+  title: string;
+  flag: string; // The flag whose value says which chapter the arc is on
+  chapters: StoryChapter[]; // In order
+}
+
+export interface StoryProgress {
+  arc: StoryArc;
+  chapter: StoryChapter;
+  chapterNumber: number; // 1-based
+  since: number; // Day the chapter began
+}
+
+// ============================================================================
+// ARCS
+// ============================================================================
+
+export const STORY_ARCS: StoryArc[] = [
+  {
+    id: "rival",
+    title: "The Rival",
+    flag: "rival",
+    chapters: [
+      { title: "Signs Across the Street", values: ["coming"] },
+      { title: "The Daily Grind Opens", values: ["open"] },
+      { title: "Holding Your Ground", values: ["promotion", "quality"] },
+      { title: "Last Café Standing", values: ["closed"] },
+    ],
+  },
+  {
+    id: "festival",
+    title: "The Street Festival",
+    flag: "festival",
+    chapters: [
+      { title: "The Invitation", values: ["stall", "visitor"] },
+      { title: "Bunting and Banners", values: ["ready"] },
+      { title: "Festival Day", values: ["done"] },
+    ],
+  },
+  {
+    id: "maya",
+    title: "Maya's Year",
+    flag: "maya",
+    chapters: [
+      { title: "Finals", values: ["studying", "encouraged"] },
+      { title: "Results Day", values: ["graduated"] },
+      { title: "A Last Coffee", values: ["moved_away"] },
+    ],
+  },
+];
+
+// ============================================================================
+// FLAGS
+// ============================================================================
+
+/**
+ * Set story flags, noting the day each was set
+ */
+export function setStoryFlags(
+  flags: StoryFlags | undefined,
+  values: Record<string, StoryFlagValue>,
+  day: number
+): StoryFlags {
+  const updated = { ...(flags || {}) };
+  for (const [name, value] of Object.entries(values)) {
+    updated[name] = { value, day };
+  }
+  return updated;
+}
+
+/**
+ * A flag's current value, if it has been set
+ */
+export function getStoryFlag(state: GameState, name: string): StoryFlagValue | undefined {
+  return state.storyFlags?.[name]?.value;
+}
+
+/**
+ * Whether every flag condition holds on a given day
+ */
+export function meetsFlagConditions(
+  flags: StoryFlags | undefined,
+  conditions: Record<string, FlagCondition>,
+  today: number
+): boolean {
+  return Object.entries(conditions).every(([name, condition]) => {
+    const flag = flags?.[name];
+
+    if (condition.set !== undefined && condition.set !== (flag !== undefined)) return false;
+    if (condition.is && (!flag || !condition.is.includes(flag.value))) return false;
+    if (condition.daysSince) {
+      if (!flag) return false;
+      const days = today - flag.day;
+      const { min, max } = condition.daysSince;
+      if ((min !== undefined && days < min) || (max !== undefined && days > max)) return false;
+    }
+    return true;
+  });
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * The chapter each arc the player has started is on
+ */
+export function getStoryProgress(state: GameState): StoryProgress[] {
+  return STORY_ARCS.flatMap(arc => {
+    const flag = state.storyFlags?.[arc.flag];
+    const index = flag ? arc.chapters.findIndex(chapter => chapter.values.includes(flag.value)) : -1;
+    if (!flag || index === -1) return [];
+
+    return [{ arc, chapter: arc.chapters[index], chapterNumber: index + 1, since: flag.day }];
+  });
+}
+
+/**
+ * Whether an arc has reached its final chapter
+ */
+export function isArcComplete(progress: StoryProgress): boolean {
+  return progress.chapterNumber === progress.arc.chapters.length;
+}
@@ -0,0 +1,135 @@
+/**
+ * Tests for the Supplier Ordering System
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SUPPLIERS,
+  getOffer,
+  getOrderCost,
+  createPurchaseOrder,
+  receiveDeliveries,
+  delayDeliveries,
+  shortDeliveries,
+  describeSku,
+} from "./suppliers";
+import { EVENTS, applyEventEffects } from "./events";
+import { createInventory } from "./inventory";
+import { createInitialState } from "./game-engine";
+import { createDayState } from "./day-structure";
+import { ManualClock } from "./random";
+import { START } from "./test-helpers";
+import type { PurchaseOrder } from "./types";
+
+describe("Suppliers", () => {
+  describe("getOrderCost", () => {
+    it("should apply the bulk discount once an order is big enough", () => {
+      const offer = getOffer(SUPPLIERS.metro_wholesale, "milk:whole")!;
+
+      expect(getOrderCost(offer, 4000)).toBe(4);
+      expect(getOrderCost(offer, 10000)).toBe(9);
+    });
+  });
+
+  describe("createPurchaseOrder", () => {
+    it("should schedule delivery by the supplier's lead time", () => {
+      const wholesale = createPurchaseOrder([], "metro_wholesale", "beans:house_blend", 2000, 3);
+      const dairy = createPurchaseOrder([wholesale], "corner_dairy", "milk:oat", 1000, 3);
+
+      expect(wholesale).toEqual({
+        id: "PO-3-1",
+        supplierId: "metro_wholesale",
+        sku: "beans:house_blend",
+        quantity: 2000,
+        cost: 32,
+        placedOnDay: 3,
+        dueOnDay: 5,
+      });
+      expect(dairy.id).toBe("PO-3-2");
+      expect(dairy.dueOnDay).toBe(4);
+    });
+
+    it("should enforce what and how much a supplier sells", () => {
+      expect(() => createPurchaseOrder([], "nobody", "milk:oat", 1000, 1)).toThrow("Unknown supplier: nobody");
+      expect(() => createPurchaseOrder([], "corner_dairy", "food:bagel", 6, 1))
+        .toThrow("Corner Dairy doesn't sell bagel");
+      expect(() => createPurchaseOrder([], "metro_wholesale", "milk:whole", 1000, 1))
+        .toThrow("Minimum order for whole milk from Metro Wholesale is 4000ml");
+      expect(() => createPurchaseOrder([], "northside_bakery", "food:croissant", 7, 1))
+        .toThrow("Northside Bakery sells croissant in multiples of 6");
+    });
+
+    it("should sell every catalog bean through the roaster", () => {
+      expect(describeSku("beans:kenya_nyeri")).toBe("Nyeri AA beans");
+      expect(getOffer(SUPPLIERS.origin_roasters, "beans:kenya_nyeri")).toBeDefined();
+    });
+  });
+
+  describe("deliveries", () => {
+    const orders: PurchaseOrder[] = [
+      createPurchaseOrder([], "northside_bakery", "food:croissant", 12, 1),
+      createPurchaseOrder([], "origin_roasters", "beans:kenya_nyeri", 500, 1),
+      createPurchaseOrder([], "metro_wholesale", "milk:oat", 4000, 1),
+    ];
+
+    it("should unload only the orders due today", () => {
+      const inventory = createInventory(new ManualClock(START));
+      const arrival = START + 24 * 60 * 60 * 1000;
+
+      const result = receiveDeliveries(inventory, orders, 2, arrival);
+
+      expect(result.delivered).toHaveLength(2);
+      expect(result.orders.map(order => order.sku)).toEqual(["milk:oat"]);
+      expect(result.inventory.food.croissant).toBe(inventory.food.croissant + 12);
+      expect(result.inventory.foodBatches?.croissant[1].receivedDate).toBe(new Date(arrival).toISOString());
+      expect(result.inventory.beans.find(bag => bag.varietyId === "kenya_nyeri")).toMatchObject({
+        grams: 500,
+        roastDate: new Date(arrival).toISOString(),
+      });
+    });
+
+    it("should push late deliveries back", () => {
+      const delayed = delayDeliveries(orders, 2, 1);
+
+      expect(delayed.map(order => order.dueOnDay)).toEqual([3, 3, 3]);
+      expect(delayed[0].late).toBe(true);
+      expect(delayed[2].late).toBeUndefined();
+    });
+
+    it("should send part of a short delivery and refund the rest", () => {
+      const { orders: shorted, refund } = shortDeliveries(orders, 2, 0.5);
+
+      expect(shorted[0]).toMatchObject({ quantity: 6, short: true });
+      expect(shorted[1].quantity).toBe(0); // Beans come in whole bags
+      expect(shorted[2]).toBe(orders[2]);
+      expect(refund).toBe(Math.round((orders[0].cost / 2 + orders[1].cost) * 100) / 100);
+    });
+  });
+
+  describe("delivery events", () => {
+    const event = (id: string) => EVENTS.find(e => e.id === id)!;
+
+    it("should only happen when something is due", () => {
+      const state = { ...createInitialState(), dayState: { ...createDayState(), dayNumber: 2 } };
+      const due = createPurchaseOrder([], "corner_dairy", "milk:whole", 1000, 1);
+
+      expect(event("delivery_late").condition!(state)).toBe(false);
+      expect(event("delivery_late").condition!({ ...state, purchaseOrders: [due] })).toBe(true);
+    });
+
+    it("should refund short deliveries", () => {
+      const due = createPurchaseOrder([], "northside_bakery", "food:croissant", 12, 1);
+      const state = {
+        ...createInitialState(),
+        money: 10,
+        dayState: { ...createDayState(), dayNumber: 2 },
+        purchaseOrders: [due],
+      };
+
+      const newState = applyEventEffects(state, event("delivery_short"), new ManualClock(START));
+
+      expect(newState.purchaseOrders![0].quantity).toBe(6);
+      expect(newState.money).toBe(10 + due.cost / 2);
+    });
+  });
+});
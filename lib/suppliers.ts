@@ -0,0 +1,283 @@
+/**
+ * Supplier Ordering System
+ *
+ * During prep the cafe places purchase orders with suppliers. Each supplier
+ * has its own prices, minimum order quantities, bulk discounts and lead time,
+ * so cheap stock has to be planned days ahead while next-morning deliveries
+ * cost more. Orders are paid when placed and unloaded at the start of the day
+ * they're due (delivery events can hold them back or cut them short).
+ */
+
+import type { Inventory, MilkType, PurchaseOrder, SupplySku } from "./types";
+import { addStock } from "./inventory";
+import { BEAN_CATALOG } from "./beans";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SupplierOffer {
+  sku: SupplySku;
+  unitPrice: number; // $ per gram, ml or item
+  minQuantity: number;
+  step: number; // Orders come in multiples of this (bags, cartons, trays)
+  bulk?: {
+    minQuantity: number;
+    discount: number; // 0-1 off the whole order
+  };
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  description: string;
+  leadDays: number; // Days from ordering to delivery (1 = next morning)
+  offers: SupplierOffer[];
+}
+
+export interface DeliveryResult {
+  inventory: Inventory;
+  orders: PurchaseOrder[]; // Orders still on their way
+  delivered: PurchaseOrder[];
+}
+
+// ============================================================================
+// SUPPLIERS
+// ============================================================================
+
+export const SUPPLIERS: Record<string, Supplier> = {
+  metro_wholesale: {
+    id: "metro_wholesale",
+    name: "Metro Wholesale",
+    description: "The cheapest prices in town, but big minimums and a two-day wait",
+    leadDays: 2,
+    offers: [
+      { sku: "beans:house_blend", unitPrice: 0.016, minQuantity: 2000, step: 500, bulk: { minQuantity: 5000, discount: 0.1 } },
+      { sku: "beans:swiss_water_decaf", unitPrice: 0.021, minQuantity: 1000, step: 500 },
+      { sku: "milk:whole", unitPrice: 0.001, minQuantity: 4000, step: 1000, bulk: { minQuantity: 10000, discount: 0.1 } },
+      { sku: "milk:skim", unitPrice: 0.001, minQuantity: 4000, step: 1000 },
+      { sku: "milk:oat", unitPrice: 0.0025, minQuantity: 4000, step: 1000 },
+      { sku: "milk:almond", unitPrice: 0.003, minQuantity: 2000, step: 1000 },
+      { sku: "syrup:vanilla", unitPrice: 0.01, minQuantity: 500, step: 250 },
+      { sku: "syrup:caramel", unitPrice: 0.01, minQuantity: 500, step: 250 },
+      { sku: "syrup:hazelnut", unitPrice: 0.01, minQuantity: 500, step: 250 },
+    ],
+  },
+  corner_dairy: {
+    id: "corner_dairy",
+    name: "Corner Dairy",
+    description: "Fresh milk on the doorstep tomorrow morning, at a premium",
+    leadDays: 1,
+    offers: [
+      { sku: "milk:whole", unitPrice: 0.0014, minQuantity: 1000, step: 1000, bulk: { minQuantity: 5000, discount: 0.05 } },
+      { sku: "milk:skim", unitPrice: 0.0014, minQuantity: 1000, step: 1000 },
+      { sku: "milk:oat", unitPrice: 0.0034, minQuantity: 1000, step: 1000 },
+      { sku: "milk:almond", unitPrice: 0.004, minQuantity: 1000, step: 1000 },
+    ],
+  },
+  northside_bakery: {
+    id: "northside_bakery",
+    name: "Northside Bakery",
+    description: "Pastries baked overnight and delivered at dawn",
+    leadDays: 1,
+    offers: [
+      { sku: "food:croissant", unitPrice: 1.5, minQuantity: 6, step: 6, bulk: { minQuantity: 24, discount: 0.1 } },
+      { sku: "food:banana_bread", unitPrice: 1.2, minQuantity: 4, step: 4 },
+      { sku: "food:bagel", unitPrice: 1.0, minQuantity: 6, step: 6, bulk: { minQuantity: 24, discount: 0.1 } },
+      { sku: "food:muffin", unitPrice: 1.3, minQuantity: 6, step: 6 },
+    ],
+  },
+  origin_roasters: {
+    id: "origin_roasters",
+    name: "Origin Roasters",
+    description: "Single origins roasted to order, shipped the next day",
+    leadDays: 1,
+    offers: Object.values(BEAN_CATALOG).map((variety) => ({
+      sku: `beans:${variety.id}` as SupplySku,
+      unitPrice: Math.round(variety.costPerGram * 0.9 * 10000) / 10000,
+      minQuantity: 500,
+      step: 500,
+      bulk: { minQuantity: 2000, discount: 0.1 },
+    })),
+  },
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Split a SKU into its stock kind and item ("milk:oat" -> milk, oat)
+ */
+export function parseSku(sku: SupplySku): { kind: "beans" | "milk" | "food" | "syrup"; item: string } {
+  const [kind, item] = sku.split(":");
+  return { kind: kind as "beans" | "milk" | "food" | "syrup", item };
+}
+
+/**
+ * Human-readable name for a SKU
+ */
+export function describeSku(sku: SupplySku): string {
+  const { kind, item } = parseSku(sku);
+  switch (kind) {
+    case "beans":
+      return `${BEAN_CATALOG[item]?.name || item} beans`;
+    case "milk":
+      return `${item} milk`;
+    case "syrup":
+      return `${item} syrup`;
+    case "food":
+      return item.replace("_", " ");
+  }
+}
+
+/**
+ * Unit a SKU is ordered in
+ */
+export function getSkuUnit(sku: SupplySku): "g" | "ml" | "" {
+  const { kind } = parseSku(sku);
+  if (kind === "beans") return "g";
+  if (kind === "food") return "";
+  return "ml";
+}
+
+/**
+ * A supplier's offer for a SKU (undefined if they don't stock it)
+ */
+export function getOffer(supplier: Supplier, sku: SupplySku): SupplierOffer | undefined {
+  return supplier.offers.find((offer) => offer.sku === sku);
+}
+
+/**
+ * Price of an order, with the bulk discount once it's big enough
+ */
+export function getOrderCost(offer: SupplierOffer, quantity: number): number {
+  const discount = offer.bulk && quantity >= offer.bulk.minQuantity ? offer.bulk.discount : 0;
+  return Math.round(offer.unitPrice * quantity * (1 - discount) * 100) / 100;
+}
+
+// ============================================================================
+// ORDERING
+// ============================================================================
+
+/**
+ * Write up a purchase order placed on the given day
+ * Throws if the supplier doesn't stock the SKU or the quantity isn't one they'll take
+ */
+export function createPurchaseOrder(
+  orders: PurchaseOrder[],
+  supplierId: string,
+  sku: SupplySku,
+  quantity: number,
+  dayNumber: number
+): PurchaseOrder {
+  const supplier = SUPPLIERS[supplierId];
+  if (!supplier) {
+    throw new Error(`Unknown supplier: ${supplierId}`);
+  }
+
+  const offer = getOffer(supplier, sku);
+  if (!offer) {
+    throw new Error(`${supplier.name} doesn't sell ${describeSku(sku)}`);
+  }
+
+  const unit = getSkuUnit(sku);
+  if (quantity < offer.minQuantity) {
+    throw new Error(`Minimum order for ${describeSku(sku)} from ${supplier.name} is ${offer.minQuantity}${unit}`);
+  }
+  if (quantity % offer.step !== 0) {
+    throw new Error(`${supplier.name} sells ${describeSku(sku)} in multiples of ${offer.step}${unit}`);
+  }
+
+  const placedToday = orders.filter((order) => order.placedOnDay === dayNumber).length;
+
+  return {
+    id: `PO-${dayNumber}-${placedToday + 1}`,
+    supplierId,
+    sku,
+    quantity,
+    cost: getOrderCost(offer, quantity),
+    placedOnDay: dayNumber,
+    dueOnDay: dayNumber + supplier.leadDays,
+  };
+}
+
+/**
+ * Orders due to arrive on (or overdue by) a given day
+ */
+export function getDueOrders(orders: PurchaseOrder[], dayNumber: number): PurchaseOrder[] {
+  return orders.filter((order) => order.dueOnDay <= dayNumber);
+}
+
+// ============================================================================
+// DELIVERIES
+// ============================================================================
+
+/**
+ * Unload every order due today into the inventory
+ * Beans arrive freshly roasted; milk and pastries start their shelf life now
+ */
+export function receiveDeliveries(
+  inventory: Inventory,
+  orders: PurchaseOrder[],
+  dayNumber: number,
+  now: number
+): DeliveryResult {
+  const arrivedAt = new Date(now).toISOString();
+  const delivered = getDueOrders(orders, dayNumber);
+
+  const newInventory = delivered.reduce((stock, order) => {
+    if (order.quantity <= 0) return stock;
+
+    const { kind, item } = parseSku(order.sku);
+    switch (kind) {
+      case "beans":
+        return addStock(stock, "beans", { varietyId: item, amount: order.quantity, roastDate: arrivedAt });
+      case "milk":
+        return addStock(stock, "milk", { type: item as MilkType, amount: order.quantity, receivedDate: arrivedAt });
+      case "syrup":
+        return addStock(stock, "syrup", { name: item, amount: order.quantity });
+      case "food":
+        return addStock(stock, "food", { name: item, amount: order.quantity, receivedDate: arrivedAt });
+    }
+  }, inventory);
+
+  return {
+    inventory: newInventory,
+    orders: orders.filter((order) => !delivered.includes(order)),
+    delivered,
+  };
+}
+
+/**
+ * Push today's deliveries back (a late van)
+ */
+export function delayDeliveries(orders: PurchaseOrder[], dayNumber: number, days: number): PurchaseOrder[] {
+  return orders.map((order) =>
+    order.dueOnDay <= dayNumber ? { ...order, dueOnDay: dayNumber + days, late: true } : order
+  );
+}
+
+/**
+ * Cut today's deliveries short, refunding what the supplier couldn't send
+ */
+export function shortDeliveries(
+  orders: PurchaseOrder[],
+  dayNumber: number,
+  fractionSent: number
+): { orders: PurchaseOrder[]; refund: number } {
+  let refund = 0;
+
+  const shorted = orders.map((order) => {
+    if (order.dueOnDay > dayNumber) return order;
+
+    const { step } = getOffer(SUPPLIERS[order.supplierId], order.sku) ?? { step: 1 };
+    const quantity = Math.floor((order.quantity * fractionSent) / step) * step;
+    const cost = Math.round(order.cost * (quantity / order.quantity) * 100) / 100;
+    refund += order.cost - cost;
+
+    return { ...order, quantity, cost, short: true };
+  });
+
+  return { orders: shorted, refund: Math.round(refund * 100) / 100 };
+}
@@ -0,0 +1,18 @@
+/**
+ * Shared fixtures for the tests
+ */
+
+import { createInitialState } from "./game-engine";
+import { ManualClock } from "./random";
+import type { GameState } from "./types";
+
+// A Monday morning, 8am UTC
+export const START = Date.UTC(2025, 0, 6, 8, 0, 0);
+
+/**
+ * A fresh game moved on to the given day, with any other changes on top
+ */
+export function onDay(dayNumber: number, changes: Partial<GameState> = {}): GameState {
+  const state = createInitialState(new ManualClock(START));
+  return { ...state, ...changes, dayState: { ...state.dayState!, dayNumber } };
+}
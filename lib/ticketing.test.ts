@@ -19,7 +19,13 @@ import {
   clearCompleted,
   resetQueue,
   getQueueStats,
+  getTicketItems,
+  getNextTicketItem,
+  completeTicketItem,
+  isTicketReady,
+  getTicketQuality,
 } from "./ticketing";
+import { buildTicket } from "./function-calling";
 
 // Helper to create a test ticket
 function createTestTicket(overrides: Partial<OrderTicket> = {}): OrderTicket {
@@ -284,6 +290,65 @@ describe("Ticketing System", () => {
       // Should be ticket1 (30s) + ticket2 (60s) = 90s
       expect(waitTime).toBe(90);
     });
+
+    it("should count every item on multi-item tickets ahead", () => {
+      let state = createQueueState();
+      const ticket1 = buildTicket("Avery", [
+        { type: "drink", sku: "latte", quantity: 2 },
+        { type: "food", sku: "croissant", quantity: 1 },
+      ]);
+      const ticket2 = createTestTicket();
+
+      state = addTicket(state, ticket1);
+      state = addTicket(state, ticket2);
+
+      // 2 lattes (60s each) + croissant (15s)
+      expect(getEstimatedWaitTime(state, ticket2.id)).toBe(135);
+    });
+  });
+
+  describe("line items", () => {
+    it("should treat legacy tickets as a single drink", () => {
+      const ticket = createTestTicket({ drinkType: "mocha", milkType: "oat" });
+      const items = getTicketItems(ticket);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].item).toEqual({ type: "drink", sku: "mocha", quantity: 1, modifiers: { milk: "oat" } });
+    });
+
+    it("should walk through items until the ticket is ready", () => {
+      const ticket = buildTicket("Harper", [
+        { type: "drink", sku: "latte", quantity: 1 },
+        { type: "drink", sku: "espresso", quantity: 1 },
+      ]);
+      let state = addTicket(createQueueState(), ticket);
+
+      const first = getNextTicketItem(getTicket(state, ticket.id)!)!;
+      state = completeTicketItem(state, ticket.id, first.id, 90);
+      expect(isTicketReady(getTicket(state, ticket.id)!)).toBe(false);
+
+      const second = getNextTicketItem(getTicket(state, ticket.id)!)!;
+      expect(second.id).not.toBe(first.id);
+      state = completeTicketItem(state, ticket.id, second.id, 70);
+
+      const done = getTicket(state, ticket.id)!;
+      expect(isTicketReady(done)).toBe(true);
+      expect(getNextTicketItem(done)).toBeNull();
+      expect(getTicketQuality(done)).toBe(80);
+    });
+
+    it("should leave food out of the ticket quality", () => {
+      const ticket = buildTicket("Kai", [
+        { type: "drink", sku: "americano", quantity: 1 },
+        { type: "food", sku: "bagel", quantity: 1 },
+      ]);
+      let state = addTicket(createQueueState(), ticket);
+      for (const line of ticket.items!) {
+        state = completeTicketItem(state, ticket.id, line.id, line.item.type === "food" ? 100 : 60);
+      }
+
+      expect(getTicketQuality(getTicket(state, ticket.id)!)).toBe(60);
+    });
   });
 
   describe("clearCompleted", () => {
@@ -300,6 +365,18 @@ describe("Ticketing System", () => {
       expect(state.tickets).toHaveLength(1);
       expect(state.tickets[0]).toBe(pending);
     });
+
+    it("should remove cancelled tickets too", () => {
+      let state = createQueueState();
+      const pending = createTestTicket({ status: "pending" });
+      const cancelled = createTestTicket({ status: "pending" });
+
+      state = addTicket(state, pending);
+      state = addTicket(state, cancelled);
+      state = cancelTicket(state, cancelled.id);
+
+      expect(clearCompleted(state).tickets).toEqual([pending]);
+    });
   });
 
   describe("resetQueue", () => {
@@ -3,13 +3,16 @@
  *
  * Manages the order queue for the café:
  * - Create and track order tickets
+ * - Track per-item progress on multi-item tickets
  * - Manage queue state (pending, in progress, completed)
  * - Calculate wait times and priorities
  * - Track order history
  */
 
-import type { OrderTicket } from "./function-calling";
-import type { DrinkType } from "./types";
+import type { OrderTicket, TicketLineItem } from "./function-calling";
+import type { DrinkType, MilkType } from "./types";
+import type { OrderItem } from "./pricing";
+import { systemClock, type Clock } from "./random";
 
 // ============================================================================
 // QUEUE STATE
@@ -90,7 +93,8 @@ export function startTicket(
 export function completeTicket(
   state: QueueState,
   ticketId: string,
-  payment: number
+  payment: number,
+  clock: Clock = systemClock
 ): QueueState {
   return {
     ...state,
@@ -99,7 +103,7 @@ export function completeTicket(
     totalRevenue: state.totalRevenue + payment,
     tickets: state.tickets.map(t =>
       t.id === ticketId
-        ? { ...t, status: "completed" as const, completedAt: Date.now() }
+        ? { ...t, status: "completed" as const, completedAt: clock.now() }
         : t
     ),
   };
@@ -153,6 +157,151 @@ export function getCompletedTickets(state: QueueState): OrderTicket[] {
   return state.tickets.filter(t => t.status === "completed");
 }
 
+// ============================================================================
+// LINE ITEMS
+// ============================================================================
+
+// Estimated prep time per drink (in seconds)
+const TIME_PER_DRINK: Record<DrinkType, number> = {
+  espresso: 30,
+  latte: 60,
+  cappuccino: 60,
+  pourover: 120,
+  aeropress: 90,
+  mocha: 90,
+  americano: 45,
+  matcha: 60,
+};
+
+const TIME_PER_FOOD = 15; // seconds to plate (or warm) a food item
+
+/**
+ * Get the line items for a ticket
+ * Legacy tickets without items are treated as a single drink
+ */
+export function getTicketItems(ticket: OrderTicket): TicketLineItem[] {
+  if (ticket.items && ticket.items.length > 0) return ticket.items;
+
+  return [
+    {
+      id: `${ticket.id}_item_1`,
+      item: {
+        type: "drink",
+        sku: ticket.drinkType,
+        quantity: 1,
+        modifiers: ticket.milkType ? { milk: ticket.milkType } : undefined,
+      },
+      status: ticket.status === "completed" ? "completed" : "pending",
+    },
+  ];
+}
+
+/**
+ * Get the next line item still to be prepared on a ticket
+ */
+export function getNextTicketItem(ticket: OrderTicket): TicketLineItem | null {
+  return getTicketItems(ticket).find(item => item.status === "pending") || null;
+}
+
+/**
+ * Mark a single line item as prepared
+ */
+export function completeTicketItem(
+  state: QueueState,
+  ticketId: string,
+  itemId: string,
+  quality: number
+): QueueState {
+  return {
+    ...state,
+    tickets: state.tickets.map(t =>
+      t.id === ticketId
+        ? {
+            ...t,
+            items: getTicketItems(t).map(item =>
+              item.id === itemId
+                ? { ...item, status: "completed" as const, quality }
+                : item
+            ),
+          }
+        : t
+    ),
+  };
+}
+
+/**
+ * Note which milk a line item was brewed with
+ */
+export function recordTicketItemMilk(
+  state: QueueState,
+  ticketId: string,
+  itemId: string,
+  milkType: MilkType | undefined
+): QueueState {
+  return {
+    ...state,
+    tickets: state.tickets.map(t =>
+      t.id === ticketId
+        ? { ...t, items: getTicketItems(t).map(item => (item.id === itemId ? { ...item, milkType } : item)) }
+        : t
+    ),
+  };
+}
+
+/**
+ * The milk a served ticket was made with (the last drink brewed with one)
+ */
+export function getTicketMilk(ticket: OrderTicket): MilkType | undefined {
+  return getTicketItems(ticket).reduce<MilkType | undefined>((milk, item) => item.milkType ?? milk, undefined);
+}
+
+/**
+ * Swap in a revised version of a ticket (matched by id)
+ */
+export function replaceTicket(state: QueueState, ticket: OrderTicket): QueueState {
+  return {
+    ...state,
+    tickets: state.tickets.map(t => (t.id === ticket.id ? ticket : t)),
+  };
+}
+
+/**
+ * Check whether every line item on a ticket has been prepared
+ */
+export function isTicketReady(ticket: OrderTicket): boolean {
+  return getTicketItems(ticket).every(item => item.status === "completed");
+}
+
+/**
+ * Average quality across the prepared drinks on a ticket
+ */
+export function getTicketQuality(ticket: OrderTicket): number {
+  const drinks = getTicketItems(ticket).filter(
+    item => item.item.type === "drink" && item.quality !== undefined
+  );
+  if (drinks.length === 0) return 0;
+
+  const total = drinks.reduce((sum, item) => sum + (item.quality || 0), 0);
+  return Math.round(total / drinks.length);
+}
+
+/**
+ * Estimated prep time for a single line item (in seconds)
+ */
+export function getItemPrepTime(item: OrderItem): number {
+  return item.type === "drink" ? TIME_PER_DRINK[item.sku] || 60 : TIME_PER_FOOD;
+}
+
+/**
+ * Estimated prep time for a whole ticket (in seconds)
+ */
+function getTicketPrepTime(ticket: OrderTicket): number {
+  return getTicketItems(ticket).reduce((sum, line) => {
+    if (line.status === "completed") return sum;
+    return sum + getItemPrepTime(line.item);
+  }, 0);
+}
+
 /**
  * Calculate estimated wait time for a ticket (in seconds)
  */
@@ -168,35 +317,22 @@ export function getEstimatedWaitTime(
   const position = pending.findIndex(t => t.id === ticketId);
   if (position === -1) return 0;
 
-  // Estimate time per drink (in seconds)
-  const timePerDrink: Record<DrinkType, number> = {
-    espresso: 30,
-    latte: 60,
-    cappuccino: 60,
-    pourover: 120,
-    aeropress: 90,
-    mocha: 90,
-    americano: 45,
-    matcha: 60,
-  };
-
-  // Calculate total wait time based on drinks ahead
+  // Calculate total wait time based on every item on tickets ahead
   let totalWait = 0;
   for (let i = 0; i < position; i++) {
-    const drinkTime = timePerDrink[pending[i].drinkType] || 60;
-    totalWait += drinkTime;
+    totalWait += getTicketPrepTime(pending[i]);
   }
 
   return totalWait;
 }
 
 /**
- * Clear completed tickets (typically at end of day)
+ * Clear completed and cancelled tickets (typically at end of day)
  */
 export function clearCompleted(state: QueueState): QueueState {
   return {
     ...state,
-    tickets: state.tickets.filter(t => t.status !== "completed"),
+    tickets: state.tickets.filter(t => t.status !== "completed" && t.status !== "cancelled"),
   };
 }
 
@@ -1,7 +1,8 @@
 /**
  * Time of Day System
  *
- * Calculates time progression based on customers served
+ * Runs a simulated clock through service: every real second the cafe is open
+ * is a minute of in-game time, from opening at 7 AM to closing at 7 PM
  * Provides lighting and atmosphere data for visual components
  */
 
@@ -26,22 +27,48 @@ export interface LightingData {
 // TIME CALCULATION
 // ============================================================================
 
-const CAFE_OPEN_HOUR = 7; // 7 AM
-const CAFE_CLOSE_HOUR = 19; // 7 PM
+export const CAFE_OPEN_HOUR = 7; // 7 AM
+export const CAFE_CLOSE_HOUR = 19; // 7 PM
 const TOTAL_SERVICE_HOURS = CAFE_CLOSE_HOUR - CAFE_OPEN_HOUR; // 12 hours
+export const SERVICE_MINUTES = TOTAL_SERVICE_HOURS * 60;
+
+export const GAME_MINUTES_PER_SECOND = 1; // A 12-hour day takes 12 real minutes
+
+// Day 1 is a Monday
+export const DAYS_OF_WEEK = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+/**
+ * The day of the week for a day number
+ */
+export function getDayOfWeek(dayNumber: number): string {
+  return DAYS_OF_WEEK[(dayNumber - 1) % 7];
+}
+
+/**
+ * In-game minutes since the cafe opened (capped at closing time)
+ */
+export function getMinutesSinceOpen(openTime: number | null, now: number): number {
+  if (openTime === null) return 0;
+  const minutes = ((now - openTime) / 1000) * GAME_MINUTES_PER_SECOND;
+  return Math.max(0, Math.min(SERVICE_MINUTES, minutes));
+}
+
+/**
+ * Clock time at which a given in-game minute of service falls
+ */
+export function getClockTimeAt(openTime: number, minutesSinceOpen: number): number {
+  return openTime + Math.round((minutesSinceOpen / GAME_MINUTES_PER_SECOND) * 1000);
+}
 
 /**
- * Calculate current time based on customers served
+ * Calculate current time from in-game minutes since opening
  */
-export function calculateTimeOfDay(
-  customersServed: number,
-  targetCustomers: number
-): TimeData {
+export function calculateTimeOfDay(minutesSinceOpen: number): TimeData {
   // Progress through the day (0 to 1)
-  const progress = Math.min(customersServed / targetCustomers, 1);
+  const totalMinutes = Math.max(0, Math.min(SERVICE_MINUTES, minutesSinceOpen));
+  const progress = totalMinutes / SERVICE_MINUTES;
 
   // Calculate hour and minute
-  const totalMinutes = progress * (TOTAL_SERVICE_HOURS * 60);
   const hour = CAFE_OPEN_HOUR + Math.floor(totalMinutes / 60);
   const minute = Math.floor(totalMinutes % 60);
 
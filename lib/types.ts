@@ -2,6 +2,8 @@
  * Shared Type Definitions
  */
 
+import type { OrderItem, OrderSize, PriceQuote } from "./pricing";
+
 // ============================================================================
 // BREW TYPES
 // ============================================================================
@@ -25,6 +27,16 @@ export interface BrewParameters {
   milkType?: MilkType;
   milkTemp?: number;
   foamAmount?: number;
+
+  // Order modifiers as actually prepared
+  size?: OrderSize;
+  iced?: boolean;
+  extraShot?: boolean;
+  decaf?: boolean;
+  syrup?: string;
+  whippedCream?: boolean;
+
+  beanId?: string; // Bean catalog id to brew with (see beans.ts); any bag when absent
 }
 
 // ============================================================================
@@ -91,6 +103,8 @@ export interface BrewResult {
   breakdown: Record<string, number>;
   feedback: string;
   appliedRules: string[];
+  modifierIssues?: string[];
+  beanComment?: string; // What a bean-savvy customer made of the beans
 }
 
 // ============================================================================
@@ -100,12 +114,15 @@ export interface BrewResult {
 export interface Customer {
   name: string;
   order: string;
-  drinkType: DrinkType;
+  drinkType: DrinkType; // First drink in the order
+  items?: OrderItem[]; // Full order; absent means a single drinkType
   payment: number;
   personality?: string;
   mood?: "happy" | "neutral" | "stressed" | "tired";
   budget?: number;
   allergens?: string[];
+  archetype?: string; // Archetype name from customer-generator.ts
+  remembered?: string; // Something they told the barista, noted on their profile once served
 }
 
 export interface GameState {
@@ -122,7 +139,249 @@ export interface GameState {
   activeEvent?: GameEvent;
   eventsHistory?: EventHistoryEntry[];
   reputation?: number; // 0-100 scale
+  ratings?: RatingSummary;
+  reviews?: CustomerReviews;
+  conversation?: Conversation; // The player's chat with the customer at the counter
+  menu?: Menu;
+  purchaseOrders?: PurchaseOrder[]; // Paid for, waiting on delivery
+  staff?: StaffMember[];
+  proficiency?: BaristaProficiency;
+  waitingCustomers?: Record<string, Customer>; // Queued for staff, by ticket id
+  stations?: StationState;
+  nextArrivalAt?: number | null; // Clock time the next customer walks in (null once nobody else is coming)
   eventStats?: EventStats;
+  scheduledEvents?: ScheduledEvent[]; // Follow-ups set off by event choices
+  storyFlags?: StoryFlags; // Set by events as story arcs play out
+  activeModifiers?: ActiveModifier[]; // Timed effects of recent events
+  session?: SessionInfo;
+}
+
+// ============================================================================
+// REPUTATION TYPES (see reputation.ts)
+// ============================================================================
+
+export interface CustomerRating {
+  customerName: string;
+  stars: number; // 1-5
+  reasons: string[];
+  tip: number;
+  at: number;
+}
+
+export interface RatingSummary {
+  count: number;
+  average: number; // Mean stars across every rating
+  recent: CustomerRating[]; // Newest last
+}
+
+// A visit's review (see reviews.ts): stars from the rating, words from the LLM
+export interface CustomerReview {
+  id: string;
+  customerName: string;
+  day: number;
+  stars: number; // 1-5, the visit's rating
+  reasons: string[]; // What the rating was down to
+  drinks: string[];
+  personality?: string; // The voice it's written in
+  mood?: Customer["mood"];
+  text?: string; // Missing until the LLM has written it
+  at: number;
+}
+
+export type CustomerReviews = Record<number, CustomerReview[]>; // By day number
+
+// How the barista came across in one exchange, as the customer saw it
+export type ChatImpression = "warm" | "neutral" | "cold";
+
+export interface ConversationLine {
+  speaker: "barista" | "customer";
+  text: string;
+  at: number;
+}
+
+// The player's chat with the customer they're serving (see conversation.ts)
+export interface Conversation {
+  ticketId: string;
+  customerName: string;
+  lines: ConversationLine[];
+  rapport: number; // -1 to 1
+  upsells: number; // Changes to the order that raised the bill
+}
+
+// ============================================================================
+// MENU TYPES (see menu.ts)
+// ============================================================================
+
+export interface MenuItem {
+  enabled: boolean;
+  price: number; // Base price for a medium, unmodified item
+}
+
+export interface Menu {
+  drinks: Record<DrinkType, MenuItem>;
+  food: Record<FoodType, MenuItem>;
+}
+
+// ============================================================================
+// SUPPLIER TYPES (see suppliers.ts)
+// ============================================================================
+
+export type SupplySku =
+  | `beans:${string}`
+  | `milk:${Exclude<MilkType, "none">}`
+  | `food:${FoodType}`
+  | `syrup:${string}`;
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  sku: SupplySku;
+  quantity: number; // grams, ml or items
+  cost: number; // Paid when placed
+  placedOnDay: number;
+  dueOnDay: number;
+  late?: boolean;
+  short?: boolean;
+}
+
+// ============================================================================
+// STAFF TYPES (see staff.ts)
+// ============================================================================
+
+export interface StaffSkills {
+  speed: number; // 1-10
+  accuracy: number; // 1-10
+  friendliness: number; // 1-10
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  skills: StaffSkills;
+  dailyWage: number;
+  onShift: boolean;
+  busyUntil?: number; // Clock time they finish their current ticket
+}
+
+// ============================================================================
+// STATION TYPES (see stations.ts)
+// ============================================================================
+
+export interface BrewingStation {
+  id: number; // 1-3
+  ticketId: string | null;
+  staffId?: string; // Who is making the ticket (none for the player's own)
+  readyAt?: number; // Clock time a staff ticket is done
+}
+
+export interface StationState {
+  stations: BrewingStation[];
+  espressoFreeAt: number[]; // Clock time each group head is next free
+  steamFreeAt: number[]; // Clock time each steam wand is next free
+}
+
+// ============================================================================
+// PROFICIENCY TYPES (see proficiency.ts)
+// ============================================================================
+
+export interface BaristaProficiency {
+  xp: Record<DrinkCategory, number>;
+  brewedByType: Record<string, number>; // Every drink brewed, across all days
+  lastTrainedDay?: number;
+}
+
+// ============================================================================
+// EVENT MODIFIER TYPES (see event-modifiers.ts)
+// ============================================================================
+
+// traffic: arrivals, iced: chance of iced orders, spend: customer budgets,
+// price: what the menu charges (all multipliers); quality: points on every brew;
+// outage: a shared resource can't be used
+export type ModifierKind = "traffic" | "iced" | "spend" | "price" | "quality" | "outage";
+
+export interface EventModifier {
+  kind: ModifierKind;
+  value?: number; // Multiplier, or quality points (unused for outages)
+  resource?: "espresso machine" | "steam wand"; // What an outage takes out
+  minutes?: number; // Lasts this many in-game minutes...
+  days?: number; // ...or this many days including today (default: the rest of today)
+}
+
+export interface ActiveModifier {
+  source: string; // Id of the event that started it
+  kind: ModifierKind;
+  value: number;
+  resource?: "espresso machine" | "steam wand";
+  lastDay: number; // Last day it applies on
+  expiresAt?: number; // Clock time it ends, for modifiers that last minutes
+}
+
+// ============================================================================
+// STORY TYPES (see story.ts)
+// ============================================================================
+
+export type StoryFlagValue = string | number | boolean;
+
+export interface StoryFlag {
+  value: StoryFlagValue;
+  day: number; // Day it was last set
+}
+
+export type StoryFlags = Record<string, StoryFlag>;
+
+// ============================================================================
+// SESSION TYPES (see session.ts)
+// ============================================================================
+
+export type GameAction =
+  | { type: "start_day" }
+  | { type: "end_day" }
+  | { type: "next_day" }
+  | { type: "restock" }
+  | { type: "buy_beans"; beanId: string; grams?: number }
+  | { type: "purchase_equipment"; itemId: string }
+  | { type: "update_menu"; sku: DrinkType | FoodType; enabled?: boolean; price?: number }
+  | { type: "place_order"; supplierId: string; sku: SupplySku; quantity: number }
+  | { type: "hire_staff"; candidateId: string }
+  | { type: "fire_staff"; staffId: string }
+  | { type: "set_shift"; staffId: string; onShift: boolean }
+  | { type: "train_barista"; category: DrinkCategory }
+  | { type: "customer_arrives"; customer?: Customer; ticket?: OrderTicket }
+  | { type: "brew"; params: BrewParameters }
+  | { type: "plate_food" }
+  | { type: "next_item" }
+  | { type: "serve" }
+  | { type: "turn_away" }
+  | { type: "staff_work" }
+  | { type: "check_patience" }
+  | { type: "take_ticket"; ticketId?: string }
+  | { type: "tick" }
+  | { type: "dismiss_event" }
+  | { type: "choose_event_option"; choiceId: string }
+  | { type: "spawn_event"; eventId: string; reason: string }
+  | { type: "post_review"; reviewId: string; text: string }
+  | { type: "summarize_customer"; customerName: string; summary: string }
+  | { type: "chat"; said: string; reply: string; impression: ChatImpression }
+  | { type: "revise_order"; items: OrderItem[] };
+
+export interface LoggedAction {
+  at: number; // clock time the action was applied
+  action: GameAction;
+}
+
+// The game as it stood when the day last turned over; the log picks up from here
+export interface SessionCheckpoint {
+  at: number;
+  rngState: number;
+  state: GameState; // Without its session
+}
+
+export interface SessionInfo {
+  seed: number;
+  rngState: number;
+  startedAt: number;
+  log: LoggedAction[]; // Since the checkpoint, or since the start
+  checkpoint?: SessionCheckpoint;
 }
 
 export interface EventStats {
@@ -136,7 +395,7 @@ export interface GameEvent {
   title: string;
   description: string;
   type: "positive" | "negative" | "neutral";
-  trigger: "random_service" | "start_day" | "end_day";
+  trigger: "random_service" | "start_day" | "end_day" | "delivery";
   probability: number;
   condition?: (state: GameState) => boolean;
   effects?: {
@@ -148,10 +407,22 @@ export interface GameEvent {
       syrup?: number;
       pastry?: number;
     };
+    delivery?: {
+      delayDays?: number;
+      fractionSent?: number;
+    };
+    flags?: Record<string, StoryFlagValue>;
+    modifiers?: EventModifier[];
   };
   choices?: {
+    id: string;
     text: string;
     effects?: any;
+    followUp?: {
+      eventId: string;
+      inDays?: number;
+      chance?: number;
+    };
   }[];
 }
 
@@ -159,6 +430,14 @@ export interface EventHistoryEntry {
   eventId: string;
   day: number;
   timestamp: number;
+  choice?: string; // Id of the option the player picked, for events with choices
+  spawnedBy?: "game_master"; // Set off by the game master rather than by chance
+  reason?: string; // The game master's reason for it
+}
+
+export interface ScheduledEvent {
+  eventId: string;
+  day: number; // Fires at its trigger on this day or the first one after
 }
 
 // Equipment types (re-exported from equipment.ts for convenience)
@@ -185,6 +464,15 @@ export interface DayStats {
   newCustomers: number;
   regularCustomers: number;
   drinksBrewedByType: Record<string, number>;
+  walkOuts?: number;
+  taxCollected?: number;
+  cogs?: number;
+  restockSpend?: number;
+  waste?: number;
+  wages?: number;
+  training?: number;
+  rent?: number;
+  eventMoney?: number;
 }
 
 export interface DayState {
@@ -214,10 +502,20 @@ export interface CustomerProfile {
   totalSpent: number;
   averageSatisfaction: number;
   notes: string[];
+  walkOuts?: number;
+  condensed?: {
+    count: number;
+    totalQuality: number;
+    totalSatisfaction: number;
+    totalTips: number;
+    milkCounts: Partial<Record<MilkType, number>>;
+  };
+  summary?: { text: string; visits: number; written: boolean };
 }
 
 export interface CustomerVisit {
   date: number;
+  day?: number; // Game day, so the customer can remember which weekday it was
   drinkOrdered: DrinkType;
   milkType?: MilkType;
   quality: number;
@@ -241,11 +539,20 @@ export interface QueueState {
   totalRevenue: number;
 }
 
+export interface TicketLineItem {
+  id: string;
+  item: OrderItem;
+  status: "pending" | "completed";
+  quality?: number;
+}
+
 export interface OrderTicket {
   id: string;
   customerName: string;
   drinkType: DrinkType;
   milkType?: MilkType;
+  items?: TicketLineItem[];
+  quote?: PriceQuote;
   notes?: string;
   priority: "normal" | "high";
   status: "pending" | "in_progress" | "completed" | "cancelled";
@@ -258,6 +565,14 @@ export interface BeanStock {
   name: string;
   grams: number;
   roastDate: string;
+  decaf?: boolean;
+  varietyId?: string; // Bean catalog id (see beans.ts)
+}
+
+export interface StockBatch {
+  amount: number;
+  receivedDate: string;
+  expiryDate: string;
 }
 
 export interface Inventory {
@@ -265,4 +580,6 @@ export interface Inventory {
   milks: Record<MilkType, number>;
   syrups: Record<string, number>;
   food: Record<string, number>;
+  milkBatches?: Partial<Record<MilkType, StockBatch[]>>;
+  foodBatches?: Record<string, StockBatch[]>;
 }
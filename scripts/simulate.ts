@@ -0,0 +1,119 @@
+/**
+ * Balance Simulation CLI
+ *
+ * Runs the headless simulation and prints one row per day.
+ *
+ *   npm run simulate -- --days 200 --seed 7 --skill 0.6 --format csv --out runs/skill-60.csv
+ *
+ * Options:
+ *   --days <n>          Days to simulate (default 30)
+ *   --seed <n>          Session seed (default 1)
+ *   --skill <0-1>       Bot barista skill (default 0.8)
+ *   --customers <n>     Customers per day (default: the day's target)
+ *   --restock <policy>  when_low | daily | never (default when_low)
+ *   --reserve <n>       Cash kept back when buying equipment (default 500)
+ *   --no-equipment      Never buy equipment upgrades
+ *   --format <fmt>      csv | json (default csv)
+ *   --out <file>        Write to a file instead of stdout
+ */
+
+import { writeFileSync } from "fs";
+import {
+  formatReportsCsv,
+  runSimulation,
+  type RestockPolicy,
+  type SimulationConfig,
+} from "../lib/simulation";
+
+const RESTOCK_POLICIES: RestockPolicy[] = ["when_low", "daily", "never"];
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || Number.isNaN(parsed)) {
+    throw new Error(`${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): { config: Partial<SimulationConfig>; format: string; out?: string } {
+  const config: Partial<SimulationConfig> = {};
+  let format = "csv";
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split("=", 2);
+    const value = () => inline ?? argv[++i];
+
+    switch (flag) {
+      case "--days":
+        config.days = parseNumber(flag, value());
+        break;
+      case "--seed":
+        config.seed = parseNumber(flag, value());
+        break;
+      case "--skill":
+        config.skill = Math.max(0, Math.min(1, parseNumber(flag, value())));
+        break;
+      case "--customers":
+        config.customersPerDay = parseNumber(flag, value());
+        break;
+      case "--reserve":
+        config.cashReserve = parseNumber(flag, value());
+        break;
+      case "--restock": {
+        const policy = value() as RestockPolicy;
+        if (!RESTOCK_POLICIES.includes(policy)) {
+          throw new Error(`--restock must be one of: ${RESTOCK_POLICIES.join(", ")}`);
+        }
+        config.restockPolicy = policy;
+        break;
+      }
+      case "--no-equipment":
+        config.buyEquipment = false;
+        break;
+      case "--format":
+        format = value();
+        if (format !== "csv" && format !== "json") {
+          throw new Error("--format must be csv or json");
+        }
+        break;
+      case "--out":
+        out = value();
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return { config, format, out };
+}
+
+function main(): void {
+  const { config, format, out } = parseArgs(process.argv.slice(2).filter(arg => arg !== "--"));
+  const result = runSimulation(config);
+
+  const output = format === "json"
+    ? JSON.stringify(result, null, 2)
+    : formatReportsCsv(result.days);
+
+  if (out) {
+    writeFileSync(out, output + "\n");
+  } else {
+    process.stdout.write(output + "\n");
+  }
+
+  const { summary, config: settings } = result;
+  console.error(
+    `Simulated ${summary.days} days (seed ${settings.seed}, skill ${settings.skill}): ` +
+      `final $${summary.finalMoney.toFixed(2)}, low $${summary.minMoney.toFixed(2)}, ` +
+      `avg quality ${summary.averageQuality}, stockouts ${summary.totalStockouts}` +
+      (summary.bankruptDay !== null ? `, bankrupt on day ${summary.bankruptDay}` : "")
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}